@@ -1,15 +1,19 @@
-import { useState, useCallback } from 'react';
-import type { Key, Mood, Progression, Song } from './types/music';
+import { useState, useCallback, useRef } from 'react';
+import type { Key, Mood, PlaybackTrack, Progression, Song } from './types/music';
 import { suggestProgressions } from './data/progressions';
 import { suggestTempoForMood } from './data/moods';
-import { getKeyDisplayName } from './data/circleOfFifths';
+import { formatKeyName, getKeyId } from './utils/musicTheory';
+import { getSectionKey } from './utils/modulation';
 import { generateProgressionWithAI, generateProgressionFallback } from './services/aiProgressionGenerator';
+import { generateSongBatch } from './services/songBatch';
+import type { SongCandidate } from './services/songBatch';
 import { KeySelector } from './components/KeySelector/KeySelector';
 import { MoodSelector } from './components/MoodSelector/MoodSelector';
 import { ProgressionBuilder } from './components/ProgressionBuilder/ProgressionBuilder';
 import { PlaybackControls } from './components/PlaybackControls/PlaybackControls';
 import { CustomMoodInput, type GenerationOptions } from './components/CustomMoodInput/CustomMoodInput';
 import { SongView } from './components/SongView/SongView';
+import { SongCandidates } from './components/SongCandidates/SongCandidates';
 import { useChordAudio } from './hooks/useChordAudio';
 
 type ViewMode = 'preset' | 'custom';
@@ -21,10 +25,13 @@ function App() {
   const [selectedMood, setSelectedMood] = useState<Mood | null>(null);
   const [progression, setProgression] = useState<Progression | null>(null);
   const [song, setSong] = useState<Song | null>(null);
+  const [candidates, setCandidates] = useState<SongCandidate[] | null>(null);
   const [tempo, setTempo] = useState(100);
   const [isLooping, setIsLooping] = useState(true);
   const [isGenerating, setIsGenerating] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // Counts generations so each one is a new take on the same settings
+  const generationCount = useRef(0);
 
   // Audio hook
   const {
@@ -35,6 +42,7 @@ function App() {
     stopPlayback,
     setTempo: setAudioTempo,
     setLooping: setAudioLooping,
+    toggleTrack,
   } = useChordAudio();
 
   // Generate preset progression based on current settings
@@ -48,6 +56,7 @@ function App() {
       const newProgression = progressions[0];
       setProgression(newProgression);
       setSong(null); // Clear song when using preset
+      setCandidates(null);
 
       // Update tempo based on mood if selected
       if (selectedMood) {
@@ -76,15 +85,37 @@ function App() {
           key: options.key,
           style: options.style,
           complexity: options.complexity,
+          constraints: options.constraints,
+          modulation: options.modulation,
+          styleProfile: options.styleProfile,
+          form: options.form,
         });
+        setCandidates(null);
       } else {
         // Use fallback patterns
-        generatedSong = generateProgressionFallback({
+        generationCount.current++;
+        const request = {
           mood,
+          seed: String(generationCount.current),
           key: options.key,
           style: options.style,
           complexity: options.complexity,
-        });
+          generator: options.generator,
+          temperature: options.temperature,
+          constraints: options.constraints,
+          modulation: options.modulation,
+          styleProfile: options.styleProfile,
+          form: options.form,
+        };
+        if (options.candidates && options.candidates > 1) {
+          // Several songs to compare; the best scoring one is shown first
+          const batch = generateSongBatch(request, options.candidates);
+          setCandidates(batch);
+          generatedSong = batch[0].song;
+        } else {
+          generatedSong = generateProgressionFallback(request);
+          setCandidates(null);
+        }
       }
 
       setSong(generatedSong);
@@ -131,6 +162,7 @@ function App() {
       if (progressions.length > 0) {
         setProgression(progressions[0]);
         setSong(null);
+        setCandidates(null);
       }
     }
   }, [currentKey, selectedMood]);
@@ -179,10 +211,17 @@ function App() {
   // Handle song chord click
   const handleSongChordClick = useCallback(async (sectionIndex: number, chordIndex: number) => {
     if (song && song.sections[sectionIndex]?.chords[chordIndex]) {
-      await playChord(song.sections[sectionIndex].chords[chordIndex]);
+      await playChord(song.sections[sectionIndex].chords[chordIndex], '2n', song.capo);
     }
   }, [song, playChord]);
 
+  // Key of the section being played, so the footer follows modulations
+  const playingKey = song ? getSectionKey(song, audioState.currentSectionIndex) : undefined;
+  const tracks: PlaybackTrack[] = ['chords'];
+  if (song?.sections.some(section => section.melody?.length)) tracks.push('melody');
+  if (song?.sections.some(section => section.bassLine?.length)) tracks.push('bass');
+  if (song) tracks.push('drums');
+
   return (
     <div className="min-h-screen flex flex-col">
       {/* Header */}
@@ -190,7 +229,7 @@ function App() {
         <div className="max-w-6xl mx-auto px-4 py-3 flex items-center justify-between">
           <h1 className="text-xl font-bold text-indigo-400">ChordFlow</h1>
           <span className="text-sm text-slate-400">
-            {getKeyDisplayName(currentKey)} {currentKey.mode}
+            {formatKeyName(currentKey)}
           </span>
         </div>
       </header>
@@ -271,6 +310,22 @@ function App() {
           </section>
         )}
 
+        {/* Candidates from a batch, side by side */}
+        {candidates && viewMode === 'custom' && (
+          <section className="mb-8">
+            <SongCandidates
+              key={candidates[0].song.id}
+              candidates={candidates}
+              selectedSong={song}
+              onSelect={(candidate) => {
+                setSong(candidate);
+                setTempo(candidate.tempo);
+                setCurrentKey(candidate.key);
+              }}
+            />
+          </section>
+        )}
+
         {/* Content section */}
         <section>
           {song ? (
@@ -280,6 +335,7 @@ function App() {
               currentSectionIndex={audioState.currentSectionIndex}
               currentChordIndex={audioState.currentChordIndex}
               onChordClick={handleSongChordClick}
+              onSongChange={setSong}
             />
           ) : progression ? (
             // Display simple progression
@@ -296,6 +352,7 @@ function App() {
                 progression={progression}
                 currentChordIndex={audioState.currentChordIndex}
                 onChordClick={handleChordClick}
+                onProgressionChange={setProgression}
               />
             </>
           ) : (
@@ -324,6 +381,12 @@ function App() {
             onStop={stopPlayback}
             onTempoChange={handleTempoChange}
             onLoopToggle={handleLoopToggle}
+            currentKey={playingKey}
+            isKeyChanged={!!song && !!playingKey && getKeyId(playingKey) !== getKeyId(song.key)}
+            capo={song?.capo}
+            tracks={tracks}
+            mutedTracks={audioState.mutedTracks}
+            onToggleTrack={toggleTrack}
           />
         </div>
       </footer>
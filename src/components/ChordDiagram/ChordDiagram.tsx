@@ -1,12 +1,18 @@
+import { useState, useMemo } from 'react';
 import type { GuitarFingering } from '../../types/music';
+import { identifyChordFromFingering } from '../../utils/chordRecognition';
 
 interface ChordDiagramProps {
-  chord: string;
+  chord?: string; // Omit to name the shape automatically
   fingering: GuitarFingering;
   size?: 'small' | 'medium' | 'large';
   showFingerNumbers?: boolean;
   isHighlighted?: boolean;
+  editable?: boolean; // Click frets to change the shape; the name follows the edit
+  keyContext?: string;
+  capo?: number; // Fret the shape is played above; frets stay relative to the capo
   onClick?: () => void;
+  onFingeringChange?: (fingering: GuitarFingering) => void;
 }
 
 const SIZE_CONFIG = {
@@ -21,11 +27,26 @@ export function ChordDiagram({
   size = 'medium',
   showFingerNumbers = false,
   isHighlighted = false,
+  editable = false,
+  keyContext,
+  capo,
   onClick,
+  onFingeringChange,
 }: ChordDiagramProps) {
   const config = SIZE_CONFIG[size];
   const { width, height, fretHeight, stringSpacing, dotRadius, fontSize, fretBadgeSize, leftPadding } = config;
 
+  // User edits replace the given shape until the diagram is remounted
+  const [editedFingering, setEditedFingering] = useState<GuitarFingering | null>(null);
+  const shownFingering = editedFingering ?? fingering;
+
+  // Name edited (or unnamed) shapes from their notes
+  const matches = useMemo(
+    () => (editedFingering || !chord ? identifyChordFromFingering(shownFingering, { keyContext, limit: 2 }) : []),
+    [editedFingering, chord, shownFingering, keyContext]
+  );
+  const chordName = editedFingering || !chord ? matches[0]?.chord.name ?? '?' : chord;
+
   const numStrings = 6;
   const numFrets = 5;
 
@@ -35,13 +56,13 @@ export function ChordDiagram({
   const startY = 28; // Space for chord name and open/mute indicators
 
   // Determine starting fret for display
-  const fretNumbers = fingering.strings
+  const fretNumbers = shownFingering.strings
     .filter((f): f is number => typeof f === 'number' && f > 0)
     .map(f => f);
   const minFret = Math.min(...fretNumbers, 12);
 
   // Show fret position indicator if not at nut
-  const startingFret = fingering.barrePosition ?? (minFret > 4 ? minFret : 1);
+  const startingFret = shownFingering.barrePosition ?? (minFret > 4 ? minFret : 1);
   const showFretIndicator = startingFret > 1;
 
   // When showing fret indicator, shift grid right to make room for the badge
@@ -49,6 +70,25 @@ export function ChordDiagram({
     ? leftPadding + (width - leftPadding - gridWidth) / 2
     : (width - gridWidth) / 2;
 
+  const updateString = (stringIndex: number, fret: number | 'x') => {
+    const strings = [...shownFingering.strings];
+    strings[stringIndex] = fret;
+    // Barre and finger hints no longer apply to an edited shape
+    const edited: GuitarFingering = { chord: shownFingering.chord, strings, voicingType: shownFingering.voicingType };
+    const match = identifyChordFromFingering(edited, { keyContext, limit: 1 })[0];
+    if (match) edited.chord = match.chord.name;
+    setEditedFingering(edited);
+    onFingeringChange?.(edited);
+  };
+
+  // Clicking the active fret again opens the string; clicking above the nut toggles mute
+  const handleFretClick = (stringIndex: number, fret: number) => {
+    updateString(stringIndex, shownFingering.strings[stringIndex] === fret ? 0 : fret);
+  };
+  const handleNutClick = (stringIndex: number) => {
+    updateString(stringIndex, shownFingering.strings[stringIndex] === 'x' ? 0 : 'x');
+  };
+
   return (
     <div
       className={`inline-flex flex-col items-center cursor-pointer transition-transform ${
@@ -71,7 +111,7 @@ export function ChordDiagram({
           fontWeight="bold"
           fill={isHighlighted ? '#60a5fa' : '#e2e8f0'}
         >
-          {chord}
+          {chordName}
         </text>
 
         {/* Nut (thick line at top if starting at fret 1) */}
@@ -149,7 +189,7 @@ export function ChordDiagram({
         ))}
 
         {/* Open/Mute indicators and finger positions */}
-        {fingering.strings.map((fret, stringIndex) => {
+        {shownFingering.strings.map((fret, stringIndex) => {
           const x = startX + stringIndex * stringSpacing;
 
           if (fret === 'x') {
@@ -189,7 +229,7 @@ export function ChordDiagram({
           if (displayFret < 1 || displayFret > numFrets) return null;
 
           const y = startY + (displayFret - 0.5) * fretHeight;
-          const finger = fingering.fingers?.[stringIndex];
+          const finger = shownFingering.fingers?.[stringIndex];
 
           return (
             <g key={`finger-${stringIndex}`}>
@@ -216,9 +256,9 @@ export function ChordDiagram({
         })}
 
         {/* Barre indicator */}
-        {fingering.barrePosition && (
+        {shownFingering.barrePosition && (
           <BarreIndicator
-            fingering={fingering}
+            fingering={shownFingering}
             startX={startX}
             startY={startY}
             stringSpacing={stringSpacing}
@@ -251,14 +291,59 @@ export function ChordDiagram({
             })}
           </g>
         )}
+        {/* Click targets for editing */}
+        {editable && Array.from({ length: numStrings }).map((_, stringIndex) => (
+          <g key={`edit-${stringIndex}`}>
+            <rect
+              x={startX + stringIndex * stringSpacing - stringSpacing / 2}
+              y={startY - 14}
+              width={stringSpacing}
+              height={14}
+              fill="transparent"
+              className="cursor-pointer"
+              onClick={(e) => {
+                e.stopPropagation();
+                handleNutClick(stringIndex);
+              }}
+            />
+            {Array.from({ length: numFrets }).map((_, row) => (
+              <rect
+                key={`edit-${stringIndex}-${row}`}
+                x={startX + stringIndex * stringSpacing - stringSpacing / 2}
+                y={startY + row * fretHeight}
+                width={stringSpacing}
+                height={fretHeight}
+                fill="transparent"
+                className="cursor-pointer"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  handleFretClick(stringIndex, startingFret + row);
+                }}
+              />
+            ))}
+          </g>
+        ))}
       </svg>
 
+      {/* Runner-up name for edited shapes (e.g. C6 vs Am7/C) */}
+      {editedFingering && matches[1] && (
+        <div className="text-xs text-slate-500 mt-1">
+          or {matches[1].chord.name}
+        </div>
+      )}
+
       {/* Caption for barre chords */}
       {showFretIndicator && (
         <div className="text-xs text-amber-400 mt-1 font-medium">
           Barre at fret {startingFret}
         </div>
       )}
+
+      {capo ? (
+        <div className="text-xs text-indigo-300 mt-1 font-medium">
+          Capo {capo}
+        </div>
+      ) : null}
     </div>
   );
 }
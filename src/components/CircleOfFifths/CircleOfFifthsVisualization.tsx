@@ -1,11 +1,13 @@
 import { useState, useMemo, useEffect, useCallback } from 'react';
-import type { Key, Chord, DetailLevel, ChordFunction, CanonicalNote, SongSection } from '../../types/music';
+import type { Key, Chord, ChordQuality, DetailLevel, ChordFunction, CanonicalNote, SongSection } from '../../types/music';
 import {
   CIRCLE_OF_FIFTHS_MAJOR,
   CIRCLE_OF_FIFTHS_MINOR,
   getKeyDisplayName,
   getCirclePosition,
 } from '../../data/circleOfFifths';
+import { isMinorQuality, isMinorMode, formatKeyName } from '../../utils/musicTheory';
+import { annotateChords } from '../../utils/harmonicAnalysis';
 
 // ============================================================================
 // INDEX MAPPING UTILITIES
@@ -145,7 +147,7 @@ function getChordTheoryExplanation(
   const minorChordPosition = CIRCLE_OF_FIFTHS_MINOR.indexOf(chordRoot);
 
   // Determine if chord is in major or minor ring based on quality
-  const isMinorChord = chord.quality === 'minor' || chord.quality === 'minor7';
+  const isMinorChord = isMinorQuality(chord.quality);
   const effectivePosition = isMinorChord ? minorChordPosition : chordPosition;
 
   // Calculate clockwise distance from tonic
@@ -179,7 +181,7 @@ function getChordTheoryExplanation(
         }`;
         circleRelation = `The tonic sits at position 0 - all other chords are measured by their distance from this center.`;
       } else {
-        explanation = `${chord.name} (${chord.romanNumeral || 'I'}) IS the tonic, establishing ${songKey.tonic} ${songKey.mode} as our tonal center. Contains scale degrees 1, 3, and 5, providing maximum stability and the ultimate point of resolution.`;
+        explanation = `${chord.name} (${chord.romanNumeral || 'I'}) IS the tonic, establishing ${formatKeyName(songKey)} as our tonal center. Contains scale degrees 1, 3, and 5, providing maximum stability and the ultimate point of resolution.`;
         circleRelation = `Position 0 on the circle. The tonic is the axis around which all harmonic relationships operate.`;
       }
       break;
@@ -243,14 +245,14 @@ function getChordTheoryExplanation(
     case 'borrowed':
       title = detailLevel === 'beginner' ? 'Borrowed Color' : 'Modal Interchange';
       if (detailLevel === 'beginner') {
-        explanation = `${chord.name} is "borrowed" from the parallel ${songKey.mode === 'major' ? 'minor' : 'major'} key. It adds unexpected color and emotion.`;
-        circleRelation = `${getCirclePositionDescription(clockwiseDistance, counterClockwiseDistance, detailLevel)} This chord comes from the ${songKey.mode === 'major' ? 'inner' : 'outer'} ring (parallel mode).`;
+        explanation = `${chord.name} is "borrowed" from the parallel ${isMinorMode(songKey.mode) ? 'major' : 'minor'} key. It adds unexpected color and emotion.`;
+        circleRelation = `${getCirclePositionDescription(clockwiseDistance, counterClockwiseDistance, detailLevel)} This chord comes from the ${isMinorMode(songKey.mode) ? 'outer' : 'inner'} ring (parallel mode).`;
       } else if (detailLevel === 'intermediate') {
-        explanation = `${chord.name} (${chord.romanNumeral}) is borrowed from ${songKey.tonic} ${songKey.mode === 'major' ? 'minor' : 'major'}. Modal interchange adds chromatic color while maintaining tonal function.`;
-        circleRelation = `${getCirclePositionDescription(clockwiseDistance, counterClockwiseDistance, detailLevel)} From the parallel mode (${songKey.mode === 'major' ? 'inner' : 'outer'} ring).`;
+        explanation = `${chord.name} (${chord.romanNumeral}) is borrowed from ${songKey.tonic} ${isMinorMode(songKey.mode) ? 'major' : 'minor'}. Modal interchange adds chromatic color while maintaining tonal function.`;
+        circleRelation = `${getCirclePositionDescription(clockwiseDistance, counterClockwiseDistance, detailLevel)} From the parallel mode (${isMinorMode(songKey.mode) ? 'outer' : 'inner'} ring).`;
       } else {
-        explanation = `${chord.name} (${chord.romanNumeral}) represents modal interchange from the parallel ${songKey.mode === 'major' ? 'minor' : 'major'}. This creates chromatic voice leading opportunities while the chord's function remains analogous to its diatonic counterpart.`;
-        circleRelation = `${getCirclePositionDescription(clockwiseDistance, counterClockwiseDistance, detailLevel)} The parallel mode shares the tonic but uses different scale degrees (${songKey.mode === 'major' ? 'inner' : 'outer'} ring).`;
+        explanation = `${chord.name} (${chord.romanNumeral}) represents modal interchange from the parallel ${isMinorMode(songKey.mode) ? 'major' : 'minor'}. This creates chromatic voice leading opportunities while the chord's function remains analogous to its diatonic counterpart.`;
+        circleRelation = `${getCirclePositionDescription(clockwiseDistance, counterClockwiseDistance, detailLevel)} The parallel mode shares the tonic but uses different scale degrees (${isMinorMode(songKey.mode) ? 'outer' : 'inner'} ring).`;
       }
       break;
 
@@ -278,14 +280,24 @@ function getChordTheoryExplanation(
 
 export function CircleOfFifthsVisualization({
   currentKey,
-  highlightedChords = [],
-  sections,
+  highlightedChords: rawHighlightedChords,
+  sections: rawSections,
   currentSectionIndex,
   currentChordIndexInSection,
   detailLevel = 'beginner',
   onKeyClick,
   size = 350,
 }: CircleOfFifthsVisualizationProps) {
+  // Fill in numerals and functions so AI and user chords can be explained too
+  const sections = useMemo(() => rawSections?.map(section => ({
+    ...section,
+    chords: annotateChords(section.chords, section.key ?? currentKey),
+  })), [rawSections, currentKey]);
+  const highlightedChords = useMemo(
+    () => annotateChords(rawHighlightedChords ?? [], currentKey),
+    [rawHighlightedChords, currentKey]
+  );
+
   // Determine if we're in section mode
   const isSectionMode = useMemo(() => {
     return sections !== undefined && sections.length > 0;
@@ -328,6 +340,10 @@ export function CircleOfFifthsVisualization({
     return flatChords[navState.flatIndex] || null;
   }, [isSectionMode, sections, navState, flatChords]);
 
+  // Key in effect at the current step (sections can modulate)
+  const activeSection = isSectionMode ? sections?.[navState.sectionIndex] : undefined;
+  const activeKey = activeSection?.key ?? currentKey;
+
   const previousChord = useMemo(() => {
     if (navState.flatIndex > 0) {
       return flatChords[navState.flatIndex - 1] || null;
@@ -355,13 +371,13 @@ export function CircleOfFifthsVisualization({
     if (!currentChord) return null;
     return getChordTheoryExplanation(
       currentChord,
-      currentKey,
+      activeKey,
       navState.flatIndex,
       totalSteps,
       previousChord,
       detailLevel
     );
-  }, [currentChord, currentKey, navState.flatIndex, totalSteps, previousChord, detailLevel]);
+  }, [currentChord, activeKey, navState.flatIndex, totalSteps, previousChord, detailLevel]);
 
   // Calculate segment angle (30 degrees each for 12 segments)
   const segmentAngle = (2 * Math.PI) / 12;
@@ -562,29 +578,29 @@ export function CircleOfFifthsVisualization({
 
   // Helper to check if a chord quality is minor-like
   // Note: diminished chords are NOT included - they should appear on the major (outer) ring
-  const isMinorQuality = (quality: string | undefined): boolean => {
+  const isMinorRingQuality = (quality: ChordQuality | undefined): boolean => {
     if (!quality) return false;
-    return quality === 'minor' || quality === 'minor7';
+    return isMinorQuality(quality);
   };
 
   // Determine segment highlighting
   const getSegmentState = (note: CanonicalNote, isMinorRing: boolean) => {
     const isCurrentKeySegment = isMinorRing
-      ? currentKey.mode === 'minor' && currentKey.tonic === note
-      : currentKey.mode === 'major' && currentKey.tonic === note;
+      ? isMinorMode(activeKey.mode) && activeKey.tonic === note
+      : !isMinorMode(activeKey.mode) && activeKey.tonic === note;
 
     // Check if this is the current step's chord - must match both root AND quality
     const isCurrentStepChord = currentChord?.root === note &&
-      (isMinorRing ? isMinorQuality(currentChord?.quality) : !isMinorQuality(currentChord?.quality));
+      (isMinorRing ? isMinorRingQuality(currentChord?.quality) : !isMinorRingQuality(currentChord?.quality));
 
     // Check if this chord was in previous steps - must match both root AND quality
     const wasVisited = chordProgression.slice(0, navState.flatIndex).some(c =>
-      c.root === note && (isMinorRing ? isMinorQuality(c.quality) : !isMinorQuality(c.quality))
+      c.root === note && (isMinorRing ? isMinorRingQuality(c.quality) : !isMinorRingQuality(c.quality))
     );
 
     // Check if this chord is upcoming - must match both root AND quality
     const isUpcoming = chordProgression.slice(navState.flatIndex + 1).some(c =>
-      c.root === note && (isMinorRing ? isMinorQuality(c.quality) : !isMinorQuality(c.quality))
+      c.root === note && (isMinorRing ? isMinorRingQuality(c.quality) : !isMinorRingQuality(c.quality))
     );
 
     return { isCurrentKeySegment, isCurrentStepChord, wasVisited, isUpcoming };
@@ -606,9 +622,17 @@ export function CircleOfFifthsVisualization({
         <div className={isSectionMode && sections ? '' : 'text-center'}>
           <h3 className="text-lg font-semibold text-slate-200">Chord Journey</h3>
           {isSectionMode && sections && sections[navState.sectionIndex] ? (
-            <p className="text-sm text-slate-400 mt-1">
-              Chord {navState.chordIndexInSection + 1} of {sections[navState.sectionIndex].chords.length} in {sections[navState.sectionIndex].name}
-            </p>
+            <>
+              <p className="text-sm text-slate-400 mt-1">
+                Chord {navState.chordIndexInSection + 1} of {sections[navState.sectionIndex].chords.length} in {sections[navState.sectionIndex].name}
+              </p>
+              {activeSection?.modulation && (
+                <p className="text-xs text-emerald-400 mt-0.5">
+                  Key change: {getKeyDisplayName(activeSection.modulation.from)} &rarr; {getKeyDisplayName(activeSection.modulation.to)}
+                  {activeSection.modulation.pivot && ` (pivot ${activeSection.modulation.pivot.chord.name})`}
+                </p>
+              )}
+            </>
           ) : (
             <p className="text-sm text-slate-400 mt-1">
               Step {navState.flatIndex + 1} of {totalSteps}
@@ -881,7 +905,7 @@ export function CircleOfFifthsVisualization({
           textAnchor="middle"
           className="fill-slate-400 text-[10px]"
         >
-          Key: {getKeyDisplayName(currentKey)}
+          Key: {getKeyDisplayName(activeKey)}
         </text>
         <text
           x={center}
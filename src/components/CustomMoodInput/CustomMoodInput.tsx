@@ -1,6 +1,36 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
-import type { Key } from '../../types/music';
+import type {
+  CadenceType,
+  GenerationConstraints,
+  GeneratorBackend,
+  Key,
+  ModulationType,
+  PinnedChord,
+  SongForm,
+  SongFormName,
+  StyleProfile,
+} from '../../types/music';
 import { recommendKeyForMood, type KeyRecommendation } from '../../services/algorithmicGenerator';
+import { DEFAULT_TEMPERATURE, detectGenre } from '../../services/markovGenerator';
+import { MAX_CANDIDATE_COUNT } from '../../services/songBatch';
+import { CADENCE_NAMES } from '../../utils/constraints';
+import { MODULATION_NAMES } from '../../utils/modulation';
+import { formatKeyName } from '../../utils/musicTheory';
+import {
+  getStyleProfile,
+  loadCustomStyleProfiles,
+  saveCustomStyleProfiles,
+  STYLE_PROFILES,
+} from '../../data/styleProfiles';
+import {
+  describeForm,
+  getSongForm,
+  loadCustomSongForms,
+  saveCustomSongForms,
+  SONG_FORMS,
+} from '../../data/songForms';
+import { StyleProfileEditor } from './StyleProfileEditor';
+import { SongFormEditor } from './SongFormEditor';
 
 interface CustomMoodInputProps {
   onGenerate: (mood: string, apiKey: string | null, options: GenerationOptions) => void;
@@ -13,23 +43,126 @@ export interface GenerationOptions {
   style?: string;
   complexity: 'simple' | 'moderate' | 'complex';
   useAutoKey?: boolean; // Flag to indicate auto key was used
+  generator?: GeneratorBackend; // Offline backend, used without an API key
+  temperature?: number; // Markov sampling temperature
+  constraints?: GenerationConstraints;
+  modulation?: ModulationType;
+  styleProfile?: StyleProfile; // Genre preset; otherwise matched from the style text
+  form?: SongForm; // Section layout; otherwise picked from complexity and style
+  candidates?: number; // Songs to generate and compare, used without an API key
+}
+
+// Text fields for the constraint inputs
+interface ConstraintInputs {
+  pinned: string;       // "1:C, 4:F" (1-based positions)
+  allowed: string;
+  banned: string;
+  maxDistinct: string;
+  endingCadence: CadenceType | '';
+  noBarre: boolean;
+  maxFret: string;
+}
+
+const EMPTY_CONSTRAINTS: ConstraintInputs = {
+  pinned: '',
+  allowed: '',
+  banned: '',
+  maxDistinct: '',
+  endingCadence: '',
+  noBarre: false,
+  maxFret: '',
+};
+
+function splitChordList(text: string): string[] {
+  return text.split(/[,\s]+/).filter(Boolean);
+}
+
+function parsePinnedChords(text: string): PinnedChord[] {
+  return text.split(',').flatMap((item) => {
+    const match = item.trim().match(/^(\d+)\s*:\s*(\S+)$/);
+    return match ? [{ position: Number(match[1]) - 1, chord: match[2] }] : [];
+  });
+}
+
+// Turn the inputs into a constraints object, or undefined when nothing is set
+function buildConstraints(inputs: ConstraintInputs): GenerationConstraints | undefined {
+  const constraints: GenerationConstraints = {};
+  const pinned = parsePinnedChords(inputs.pinned);
+  const allowed = splitChordList(inputs.allowed);
+  const banned = splitChordList(inputs.banned);
+  const maxDistinct = parseInt(inputs.maxDistinct, 10);
+  const maxFret = parseInt(inputs.maxFret, 10);
+
+  if (pinned.length > 0) constraints.pinnedChords = pinned;
+  if (allowed.length > 0) constraints.allowedChords = allowed;
+  if (banned.length > 0) constraints.bannedChords = banned;
+  if (maxDistinct > 0) constraints.maxDistinctChords = maxDistinct;
+  if (inputs.endingCadence) constraints.endingCadence = inputs.endingCadence;
+  if (inputs.noBarre) constraints.noBarreChords = true;
+  if (maxFret >= 0) constraints.maxFret = maxFret;
+
+  return Object.keys(constraints).length > 0 ? constraints : undefined;
 }
 
 // Rate limiting: minimum time between generations (in ms)
 const RATE_LIMIT_MS = 2000;
 
+interface ConstraintFieldProps {
+  id: string;
+  label: string;
+  value: string;
+  placeholder?: string;
+  type?: 'text' | 'number';
+  onChange: (value: string) => void;
+}
+
+function ConstraintField({ id, label, value, placeholder, type = 'text', onChange }: ConstraintFieldProps) {
+  return (
+    <div className="flex items-center gap-2">
+      <label htmlFor={id} className="w-36 shrink-0 text-xs text-slate-400">
+        {label}
+      </label>
+      <input
+        id={id}
+        type={type}
+        min={type === 'number' ? 0 : undefined}
+        value={value}
+        placeholder={placeholder}
+        onChange={(e) => onChange(e.target.value)}
+        className="w-full min-w-0 bg-slate-900 border border-slate-600 rounded-lg px-2 py-1 text-sm text-slate-100
+                   placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+      />
+    </div>
+  );
+}
+
 export function CustomMoodInput({ onGenerate, isLoading, currentKey }: CustomMoodInputProps) {
   const [mood, setMood] = useState('');
   const [apiKey, setApiKey] = useState('');
   const [showApiKey, setShowApiKey] = useState(false);
   const [style, setStyle] = useState('');
+  const [styleProfileId, setStyleProfileId] = useState('');
+  const [customProfiles, setCustomProfiles] = useState<StyleProfile[]>(() => loadCustomStyleProfiles());
+  const [isEditingProfile, setIsEditingProfile] = useState(false);
+  const [formId, setFormId] = useState('');
+  const [customForms, setCustomForms] = useState<SongForm[]>(() => loadCustomSongForms());
+  const [isEditingForm, setIsEditingForm] = useState(false);
   const [complexity, setComplexity] = useState<'simple' | 'moderate' | 'complex'>('moderate');
+  const [generator, setGenerator] = useState<GeneratorBackend>('algorithmic');
+  const [temperature, setTemperature] = useState(DEFAULT_TEMPERATURE);
+  const [candidates, setCandidates] = useState(1);
+  const [constraintInputs, setConstraintInputs] = useState<ConstraintInputs>(EMPTY_CONSTRAINTS);
+  const [modulation, setModulation] = useState<ModulationType | ''>('');
   const [showAdvanced, setShowAdvanced] = useState(false);
   const [useAutoKey, setUseAutoKey] = useState(true); // Default to auto-recommend
   const [keyRecommendation, setKeyRecommendation] = useState<KeyRecommendation | null>(null);
   const [rateLimitError, setRateLimitError] = useState<string | null>(null);
   const [securityAcknowledged, setSecurityAcknowledged] = useState(false);
 
+  const styleProfile = styleProfileId ? getStyleProfile(styleProfileId, customProfiles) : undefined;
+  const songForm = formId ? getSongForm(formId, customForms) : undefined;
+  const formSummary = songForm ? describeForm(songForm) : '';
+
   // Rate limiting
   const lastGenerationRef = useRef<number>(0);
 
@@ -90,9 +223,46 @@ export function CustomMoodInput({ onGenerate, isLoading, currentKey }: CustomMoo
       style: style.trim() || undefined,
       complexity,
       useAutoKey,
+      generator,
+      temperature,
+      constraints: buildConstraints(constraintInputs),
+      modulation: modulation || undefined,
+      styleProfile,
+      form: songForm,
+      candidates,
     });
   };
 
+  const handleSaveProfile = (profile: StyleProfile) => {
+    const profiles = [...customProfiles, profile];
+    setCustomProfiles(profiles);
+    saveCustomStyleProfiles(profiles);
+    setStyleProfileId(profile.id);
+    setIsEditingProfile(false);
+  };
+
+  const handleDeleteProfile = () => {
+    const profiles = customProfiles.filter(profile => profile.id !== styleProfileId);
+    setCustomProfiles(profiles);
+    saveCustomStyleProfiles(profiles);
+    setStyleProfileId('');
+  };
+
+  const handleSaveForm = (newForm: SongForm) => {
+    const forms = [...customForms, newForm];
+    setCustomForms(forms);
+    saveCustomSongForms(forms);
+    setFormId(newForm.id);
+    setIsEditingForm(false);
+  };
+
+  const handleDeleteForm = () => {
+    const forms = customForms.filter(f => f.id !== formId);
+    setCustomForms(forms);
+    saveCustomSongForms(forms);
+    setFormId('');
+  };
+
   const handleApiKeyChange = (value: string) => {
     setApiKey(value);
     // Reset security acknowledgment when key changes
@@ -146,7 +316,7 @@ export function CustomMoodInput({ onGenerate, isLoading, currentKey }: CustomMoo
                     : 'bg-slate-700 text-slate-300 hover:bg-slate-600'
                   }`}
               >
-                Manual ({currentKey.tonic} {currentKey.mode})
+                Manual ({formatKeyName(currentKey)})
               </button>
             </div>
           </div>
@@ -156,14 +326,14 @@ export function CustomMoodInput({ onGenerate, isLoading, currentKey }: CustomMoo
             <div className="p-3 bg-slate-900/50 border border-slate-700 rounded-lg">
               <div className="flex items-center gap-2 mb-2">
                 <span className="text-lg font-bold text-indigo-400">
-                  {keyRecommendation.key.tonic} {keyRecommendation.key.mode}
+                  {formatKeyName(keyRecommendation.key)}
                 </span>
                 <ConfidenceBadge confidence={keyRecommendation.confidence} />
               </div>
               <p className="text-sm text-slate-400">{keyRecommendation.rationale}</p>
               {keyRecommendation.alternativeKeys.length > 0 && (
                 <p className="text-xs text-slate-500 mt-2">
-                  Alternatives: {keyRecommendation.alternativeKeys.map(k => `${k.tonic} ${k.mode}`).join(', ')}
+                  Alternatives: {keyRecommendation.alternativeKeys.map(k => formatKeyName(k)).join(', ')}
                 </p>
               )}
             </div>
@@ -258,6 +428,110 @@ export function CustomMoodInput({ onGenerate, isLoading, currentKey }: CustomMoo
                 />
               </div>
 
+              {/* Style Profile */}
+              <div>
+                <label htmlFor="style-profile" className="block text-sm font-medium text-slate-300 mb-1">
+                  Style Profile
+                </label>
+                <div className="flex gap-2">
+                  <select
+                    id="style-profile"
+                    value={styleProfileId}
+                    onChange={(e) => setStyleProfileId(e.target.value)}
+                    className="flex-1 min-w-0 bg-slate-900 border border-slate-600 rounded-lg px-3 py-2 text-sm text-slate-100
+                               focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                  >
+                    <option value="">Match the style above</option>
+                    {STYLE_PROFILES.map((profile) => (
+                      <option key={profile.id} value={profile.id}>{profile.name}</option>
+                    ))}
+                    {customProfiles.length > 0 && (
+                      <optgroup label="My profiles">
+                        {customProfiles.map((profile) => (
+                          <option key={profile.id} value={profile.id}>{profile.name}</option>
+                        ))}
+                      </optgroup>
+                    )}
+                  </select>
+                  {styleProfile?.isCustom && (
+                    <button
+                      type="button"
+                      onClick={handleDeleteProfile}
+                      className="px-3 py-2 rounded-lg text-sm bg-slate-700 text-slate-300 hover:bg-slate-600 transition-colors"
+                    >
+                      Delete
+                    </button>
+                  )}
+                  <button
+                    type="button"
+                    onClick={() => setIsEditingProfile(!isEditingProfile)}
+                    className="px-3 py-2 rounded-lg text-sm bg-slate-700 text-slate-300 hover:bg-slate-600 transition-colors"
+                  >
+                    New
+                  </button>
+                </div>
+                {styleProfile && (
+                  <p className="mt-1 text-xs text-slate-500">{styleProfile.description}</p>
+                )}
+                {isEditingProfile && (
+                  <div className="mt-2">
+                    <StyleProfileEditor onSave={handleSaveProfile} onCancel={() => setIsEditingProfile(false)} />
+                  </div>
+                )}
+              </div>
+
+              {/* Song Form */}
+              <div>
+                <label htmlFor="song-form" className="block text-sm font-medium text-slate-300 mb-1">
+                  Song Form
+                </label>
+                <div className="flex gap-2">
+                  <select
+                    id="song-form"
+                    value={formId}
+                    onChange={(e) => setFormId(e.target.value)}
+                    className="flex-1 min-w-0 bg-slate-900 border border-slate-600 rounded-lg px-3 py-2 text-sm text-slate-100
+                               focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                  >
+                    <option value="">Auto (from complexity and style)</option>
+                    {(Object.keys(SONG_FORMS) as SongFormName[]).map((id) => (
+                      <option key={id} value={id}>{SONG_FORMS[id].name}</option>
+                    ))}
+                    {customForms.length > 0 && (
+                      <optgroup label="My forms">
+                        {customForms.map((f) => (
+                          <option key={f.id} value={f.id}>{f.name}</option>
+                        ))}
+                      </optgroup>
+                    )}
+                  </select>
+                  {songForm?.isCustom && (
+                    <button
+                      type="button"
+                      onClick={handleDeleteForm}
+                      className="px-3 py-2 rounded-lg text-sm bg-slate-700 text-slate-300 hover:bg-slate-600 transition-colors"
+                    >
+                      Delete
+                    </button>
+                  )}
+                  <button
+                    type="button"
+                    onClick={() => setIsEditingForm(!isEditingForm)}
+                    className="px-3 py-2 rounded-lg text-sm bg-slate-700 text-slate-300 hover:bg-slate-600 transition-colors"
+                  >
+                    New
+                  </button>
+                </div>
+                {formSummary && (
+                  <p className="mt-1 text-xs text-slate-500">{formSummary}</p>
+                )}
+                {isEditingForm && (
+                  <div className="mt-2">
+                    <SongFormEditor onSave={handleSaveForm} onCancel={() => setIsEditingForm(false)} />
+                  </div>
+                )}
+              </div>
+
               {/* Complexity */}
               <div>
                 <label className="block text-sm font-medium text-slate-300 mb-2">
@@ -285,6 +559,176 @@ export function CustomMoodInput({ onGenerate, isLoading, currentKey }: CustomMoo
                   {complexity === 'complex' && 'Extended chords, borrowed chords, sophisticated harmony'}
                 </p>
               </div>
+
+              {/* Key change */}
+              <div>
+                <label htmlFor="modulation" className="block text-sm font-medium text-slate-300 mb-1">
+                  Key Change
+                </label>
+                <select
+                  id="modulation"
+                  value={modulation}
+                  onChange={(e) => setModulation(e.target.value as ModulationType | '')}
+                  className="w-full bg-slate-900 border border-slate-600 rounded-lg px-3 py-2 text-sm text-slate-100
+                             focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                >
+                  <option value="">None (one key throughout)</option>
+                  {(Object.keys(MODULATION_NAMES) as ModulationType[]).map((type) => (
+                    <option key={type} value={type}>{MODULATION_NAMES[type]}</option>
+                  ))}
+                </select>
+              </div>
+
+              {/* Offline generator backend */}
+              <div>
+                <label className="block text-sm font-medium text-slate-300 mb-2">
+                  Offline Generator
+                </label>
+                <div className="flex gap-2">
+                  {([
+                    ['algorithmic', 'Patterns'],
+                    ['markov', 'Markov Chain'],
+                  ] as const).map(([backend, label]) => (
+                    <button
+                      key={backend}
+                      type="button"
+                      onClick={() => setGenerator(backend)}
+                      className={`flex-1 px-3 py-2 rounded-lg text-sm font-medium transition-colors
+                        ${generator === backend
+                          ? 'bg-indigo-600 text-white'
+                          : 'bg-slate-700 text-slate-300 hover:bg-slate-600'
+                        }`}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+                <p className="mt-1 text-xs text-slate-500">
+                  {generator === 'algorithmic' && 'Named progressions and chord-function rules'}
+                  {generator === 'markov' && `Chord transitions learned from the ${styleProfile?.genre ?? detectGenre(style) ?? 'all-genre'} corpus`}
+                  {apiKey && ' (only used without an API key)'}
+                </p>
+
+                {generator === 'markov' && (
+                  <div className="mt-3">
+                    <label htmlFor="temperature" className="flex justify-between text-xs text-slate-400 mb-1">
+                      <span>Temperature</span>
+                      <span>{temperature.toFixed(2)}</span>
+                    </label>
+                    <input
+                      id="temperature"
+                      type="range"
+                      min={0.05}
+                      max={3}
+                      step={0.05}
+                      value={temperature}
+                      onChange={(e) => setTemperature(Number(e.target.value))}
+                      className="w-full accent-indigo-500"
+                    />
+                    <p className="text-xs text-slate-500">
+                      Low sticks to the most common moves; high takes more surprising turns
+                    </p>
+                  </div>
+                )}
+
+                {/* Candidates are only generated offline */}
+                {!apiKey && (
+                  <div className="mt-3">
+                    <label htmlFor="candidates" className="block text-xs text-slate-400 mb-1">
+                      Songs to compare
+                    </label>
+                    <select
+                      id="candidates"
+                      value={candidates}
+                      onChange={(e) => setCandidates(Number(e.target.value))}
+                      className="w-full bg-slate-900 border border-slate-600 rounded-lg px-3 py-2 text-sm text-slate-100
+                                 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                    >
+                      {Array.from({ length: MAX_CANDIDATE_COUNT }, (_, i) => i + 1).map(count => (
+                        <option key={count} value={count}>{count === 1 ? 'One song' : `${count} candidates side by side`}</option>
+                      ))}
+                    </select>
+                    {candidates > 1 && (
+                      <p className="mt-1 text-xs text-slate-500">
+                        Each takes a different form, tempo and progression, scored for mood fit, voice leading and novelty
+                      </p>
+                    )}
+                  </div>
+                )}
+              </div>
+
+              {/* Constraints */}
+              <div className="space-y-2">
+                <label className="block text-sm font-medium text-slate-300">
+                  Constraints
+                </label>
+                <ConstraintField
+                  id="pinned-chords"
+                  label="Pinned chords"
+                  value={constraintInputs.pinned}
+                  placeholder="e.g., 1:C, 4:F"
+                  onChange={(pinned) => setConstraintInputs({ ...constraintInputs, pinned })}
+                />
+                <ConstraintField
+                  id="allowed-chords"
+                  label="Only use"
+                  value={constraintInputs.allowed}
+                  placeholder="e.g., C G Am F Em D"
+                  onChange={(allowed) => setConstraintInputs({ ...constraintInputs, allowed })}
+                />
+                <ConstraintField
+                  id="banned-chords"
+                  label="Never use"
+                  value={constraintInputs.banned}
+                  placeholder="e.g., F Bm"
+                  onChange={(banned) => setConstraintInputs({ ...constraintInputs, banned })}
+                />
+                <div className="grid grid-cols-2 gap-2">
+                  <ConstraintField
+                    id="max-distinct"
+                    label="Max different chords"
+                    value={constraintInputs.maxDistinct}
+                    type="number"
+                    onChange={(maxDistinct) => setConstraintInputs({ ...constraintInputs, maxDistinct })}
+                  />
+                  <ConstraintField
+                    id="max-fret"
+                    label="Max fret"
+                    value={constraintInputs.maxFret}
+                    type="number"
+                    onChange={(maxFret) => setConstraintInputs({ ...constraintInputs, maxFret })}
+                  />
+                </div>
+                <div className="flex items-center gap-2">
+                  <label htmlFor="ending-cadence" className="w-36 shrink-0 text-xs text-slate-400">
+                    Ending cadence
+                  </label>
+                  <select
+                    id="ending-cadence"
+                    value={constraintInputs.endingCadence}
+                    onChange={(e) => setConstraintInputs({
+                      ...constraintInputs,
+                      endingCadence: e.target.value as CadenceType | '',
+                    })}
+                    className="flex-1 bg-slate-900 border border-slate-600 rounded-lg px-2 py-1 text-sm text-slate-100
+                               focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                  >
+                    <option value="">Any</option>
+                    {(Object.keys(CADENCE_NAMES) as CadenceType[]).map((cadence) => (
+                      <option key={cadence} value={cadence}>{CADENCE_NAMES[cadence]}</option>
+                    ))}
+                  </select>
+                </div>
+                <label className="flex items-center gap-2 text-xs text-slate-400">
+                  <input
+                    type="checkbox"
+                    checked={constraintInputs.noBarre}
+                    onChange={(e) => setConstraintInputs({ ...constraintInputs, noBarre: e.target.checked })}
+                    className="rounded border-slate-600 bg-slate-900 text-indigo-500"
+                  />
+                  No barre chords
+                </label>
+              </div>
             </div>
           )}
         </div>
@@ -314,7 +758,10 @@ export function CustomMoodInput({ onGenerate, isLoading, currentKey }: CustomMoo
           ) : apiKey && !securityAcknowledged ? (
             'Acknowledge Security Warning to Continue'
           ) : (
-            <>Generate Progression {apiKey ? '(AI)' : '(Patterns)'}</>
+            <>
+              {!apiKey && candidates > 1 ? `Generate ${candidates} Songs` : 'Generate Progression'}
+              {' '}{apiKey ? '(AI)' : '(Patterns)'}
+            </>
           )}
         </button>
       </form>
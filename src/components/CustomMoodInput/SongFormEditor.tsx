@@ -0,0 +1,212 @@
+import { useState } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import type { FormSection, SectionType, SongForm, SongFormName } from '../../types/music';
+import { SONG_FORMS, SECTION_TYPE_NAMES, createFormSection, getSongForm } from '../../data/songForms';
+
+interface SongFormEditorProps {
+  onSave: (form: SongForm) => void;
+  onCancel: () => void;
+}
+
+const inputClass = `w-full min-w-0 bg-slate-900 border border-slate-600 rounded-lg px-2 py-1 text-sm text-slate-100
+                    placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-indigo-500`;
+
+const smallButtonClass = `px-1.5 py-0.5 rounded text-xs bg-slate-700 text-slate-300 hover:bg-slate-600
+                          disabled:opacity-40 disabled:hover:bg-slate-700 transition-colors`;
+
+// "Verse 2" and "Verse" are the same section for repeats
+function baseName(name: string): string {
+  return name.replace(/\d+/g, '').trim().toLowerCase();
+}
+
+/**
+ * Form for a user-defined song form: an ordered list of sections with a
+ * length in bars, optionally starting from a copy of a preset
+ */
+export function SongFormEditor({ onSave, onCancel }: SongFormEditorProps) {
+  const [name, setName] = useState('');
+  const [sections, setSections] = useState<FormSection[]>([]);
+
+  const totalBars = sections.reduce((sum, section) => sum + (section.bars ?? 0), 0);
+
+  const startFrom = (id: string) => {
+    const base = getSongForm(id);
+    if (!base) return;
+    setSections(base.sections.map(section => ({ ...section })));
+    if (!name) setName(`My ${base.name}`);
+  };
+
+  const updateSection = (index: number, changes: Partial<FormSection>) => {
+    setSections(sections.map((section, i) => (i === index ? { ...section, ...changes } : section)));
+  };
+
+  const moveSection = (index: number, offset: number) => {
+    const next = [...sections];
+    const [moved] = next.splice(index, 1);
+    next.splice(index + offset, 0, moved);
+    setSections(next);
+  };
+
+  const canRepeat = (index: number) =>
+    sections.slice(0, index).some(earlier => baseName(earlier.name) === baseName(sections[index].name));
+
+  const setBars = (index: number, value: string) => {
+    const bars = parseInt(value, 10);
+    updateSection(index, { bars: bars > 0 ? bars : undefined });
+  };
+
+  const handleSave = () => {
+    if (!name.trim() || sections.length === 0) return;
+    onSave({
+      id: `custom-${uuidv4()}`,
+      name: name.trim(),
+      // A repeat only makes sense after the section it copies
+      sections: sections.map((section, i) => ({
+        ...section,
+        name: section.name.trim() || SECTION_TYPE_NAMES[section.type],
+        repeat: section.repeat && canRepeat(i) ? true : undefined,
+      })),
+      isCustom: true,
+    });
+  };
+
+  return (
+    <div className="p-3 space-y-3 bg-slate-900/50 border border-slate-700 rounded-lg">
+      <div className="grid grid-cols-2 gap-2">
+        <input
+          aria-label="Form name"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Form name"
+          className={inputClass}
+        />
+        <select
+          aria-label="Start from"
+          value=""
+          onChange={(e) => startFrom(e.target.value)}
+          className={inputClass}
+        >
+          <option value="">Start from…</option>
+          {(Object.keys(SONG_FORMS) as SongFormName[]).map(form => (
+            <option key={form} value={form}>{SONG_FORMS[form].name}</option>
+          ))}
+        </select>
+      </div>
+
+      {sections.length > 0 ? (
+        <ol className="space-y-1">
+          {sections.map((section, index) => (
+            <li key={index} className="flex items-center gap-1">
+              <select
+                aria-label={`Section ${index + 1} type`}
+                value={section.type}
+                onChange={(e) => updateSection(index, { type: e.target.value as SectionType })}
+                className={`${inputClass} w-28 shrink-0`}
+              >
+                {(Object.keys(SECTION_TYPE_NAMES) as SectionType[]).map(type => (
+                  <option key={type} value={type}>{SECTION_TYPE_NAMES[type]}</option>
+                ))}
+              </select>
+              <input
+                aria-label={`Section ${index + 1} name`}
+                value={section.name}
+                onChange={(e) => updateSection(index, { name: e.target.value })}
+                className={inputClass}
+              />
+              <input
+                aria-label={`Section ${index + 1} bars`}
+                type="number"
+                min={1}
+                max={64}
+                value={section.bars ?? ''}
+                onChange={(e) => setBars(index, e.target.value)}
+                placeholder="bars"
+                className={`${inputClass} w-16 shrink-0`}
+              />
+              <label
+                className="flex items-center gap-1 text-xs text-slate-400 shrink-0"
+                title="Play the same chords as the earlier section with this name"
+              >
+                <input
+                  type="checkbox"
+                  checked={section.repeat ?? false}
+                  disabled={!canRepeat(index)}
+                  onChange={(e) => updateSection(index, { repeat: e.target.checked || undefined })}
+                  className="rounded border-slate-600 bg-slate-900 text-indigo-500"
+                />
+                Repeat
+              </label>
+              <button
+                type="button"
+                aria-label="Move up"
+                onClick={() => moveSection(index, -1)}
+                disabled={index === 0}
+                className={smallButtonClass}
+              >
+                ↑
+              </button>
+              <button
+                type="button"
+                aria-label="Move down"
+                onClick={() => moveSection(index, 1)}
+                disabled={index === sections.length - 1}
+                className={smallButtonClass}
+              >
+                ↓
+              </button>
+              <button
+                type="button"
+                aria-label="Remove section"
+                onClick={() => setSections(sections.filter((_, i) => i !== index))}
+                className={smallButtonClass}
+              >
+                ✕
+              </button>
+            </li>
+          ))}
+        </ol>
+      ) : (
+        <p className="text-xs text-slate-500">Add sections below or start from a preset.</p>
+      )}
+
+      <div className="flex flex-wrap gap-1">
+        {(Object.keys(SECTION_TYPE_NAMES) as SectionType[]).map(type => (
+          <button
+            key={type}
+            type="button"
+            onClick={() => setSections([...sections, createFormSection(type, sections)])}
+            className={smallButtonClass}
+          >
+            + {SECTION_TYPE_NAMES[type]}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-xs text-slate-400">
+          {sections.length} sections{totalBars > 0 && `, ${totalBars} bars`}
+        </span>
+        <div className="flex gap-2">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="px-3 py-1.5 rounded-lg text-sm bg-slate-700 text-slate-300 hover:bg-slate-600 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={handleSave}
+            disabled={!name.trim() || sections.length === 0}
+            className="px-3 py-1.5 rounded-lg text-sm font-medium bg-indigo-600 text-white hover:bg-indigo-500
+                       disabled:bg-slate-700 disabled:text-slate-500 transition-colors"
+          >
+            Save form
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default SongFormEditor;
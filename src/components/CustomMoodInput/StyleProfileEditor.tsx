@@ -0,0 +1,268 @@
+import { useState } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import type {
+  MoodAnalysis,
+  ProgressionGenre,
+  SongFormName,
+  StyleProfile,
+  SubstitutionKind,
+} from '../../types/music';
+import { STYLE_PROFILES } from '../../data/styleProfiles';
+import { SONG_FORM_NAMES } from '../../data/songForms';
+import { STRUMMING_PATTERNS } from '../../data/strummingPatterns';
+import { SUBSTITUTION_KIND_LABELS } from '../../utils/substitutions';
+
+interface StyleProfileEditorProps {
+  onSave: (profile: StyleProfile) => void;
+  onCancel: () => void;
+}
+
+type ChordTrait = 'useSevenths' | 'useBorrowedChords' | 'useSuspensions' | 'useInversions';
+
+const CHORD_TRAIT_LABELS: Record<ChordTrait, string> = {
+  useSevenths: 'Seventh chords',
+  useBorrowedChords: 'Borrowed chords',
+  useSuspensions: 'Suspensions',
+  useInversions: 'Inversions',
+};
+
+const GENRES: ProgressionGenre[] = [
+  'pop', 'rock', 'jazz', 'blues', 'folk', 'chill', 'metal', 'latin', 'funk', 'electronic',
+];
+
+const TIME_SIGNATURES: Record<string, StyleProfile['timeSignature']> = {
+  '4/4': { beats: 4, value: 4 },
+  '3/4': { beats: 3, value: 4 },
+  '6/8': { beats: 6, value: 8 },
+};
+
+// Substitutions ticked in the editor each replace this share of chords
+const SUBSTITUTION_CHANCE = 0.15;
+
+const inputClass = `w-full min-w-0 bg-slate-900 border border-slate-600 rounded-lg px-2 py-1 text-sm text-slate-100
+                    placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-indigo-500`;
+
+function timeSignatureLabel(profile: StyleProfile): string {
+  const { timeSignature } = profile;
+  return timeSignature ? `${timeSignature.beats}/${timeSignature.value}` : '';
+}
+
+/**
+ * Form for a user-defined style profile, optionally starting from a copy of
+ * a built-in one
+ */
+export function StyleProfileEditor({ onSave, onCancel }: StyleProfileEditorProps) {
+  const [draft, setDraft] = useState<StyleProfile>({ id: '', name: '', description: '' });
+
+  const traits: Partial<MoodAnalysis> = draft.traits ?? {};
+  const forms = draft.forms ?? [];
+  const kinds = (draft.substitutions ?? []).map(rule => rule.kind);
+
+  const startFrom = (id: string) => {
+    const base = STYLE_PROFILES.find(profile => profile.id === id);
+    if (!base) return;
+    setDraft({ ...base, id: '', name: draft.name || `My ${base.name}` });
+  };
+
+  const setTrait = (trait: ChordTrait, value: boolean) => {
+    setDraft({ ...draft, traits: { ...traits, [trait]: value } });
+  };
+
+  const toggleForm = (form: SongFormName) => {
+    const next = forms.includes(form) ? forms.filter(f => f !== form) : [...forms, form];
+    setDraft({ ...draft, forms: next.length > 0 ? next : undefined });
+  };
+
+  const toggleSubstitution = (kind: SubstitutionKind) => {
+    const rules = draft.substitutions ?? [];
+    const next = kinds.includes(kind)
+      ? rules.filter(rule => rule.kind !== kind)
+      : [...rules, { kind, chance: SUBSTITUTION_CHANCE }];
+    setDraft({ ...draft, substitutions: next.length > 0 ? next : undefined });
+  };
+
+  const setTempo = (bound: 'min' | 'max', value: string) => {
+    const tempo = parseInt(value, 10);
+    const range = draft.tempoRange ?? { min: 80, max: 120 };
+    setDraft({ ...draft, tempoRange: tempo > 0 ? { ...range, [bound]: tempo } : undefined });
+  };
+
+  const handleSave = () => {
+    if (!draft.name.trim()) return;
+    const { tempoRange } = draft;
+    onSave({
+      ...draft,
+      id: `custom-${uuidv4()}`,
+      name: draft.name.trim(),
+      description: draft.description.trim() || 'Custom style',
+      tempoRange: tempoRange && tempoRange.min > tempoRange.max
+        ? { min: tempoRange.max, max: tempoRange.min }
+        : tempoRange,
+      isCustom: true,
+    });
+  };
+
+  return (
+    <div className="p-3 space-y-3 bg-slate-900/50 border border-slate-700 rounded-lg">
+      <div className="grid grid-cols-2 gap-2">
+        <input
+          aria-label="Profile name"
+          value={draft.name}
+          onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+          placeholder="Profile name"
+          className={inputClass}
+        />
+        <select
+          aria-label="Start from"
+          value=""
+          onChange={(e) => startFrom(e.target.value)}
+          className={inputClass}
+        >
+          <option value="">Start from…</option>
+          {STYLE_PROFILES.map(profile => (
+            <option key={profile.id} value={profile.id}>{profile.name}</option>
+          ))}
+        </select>
+      </div>
+
+      <input
+        aria-label="Description"
+        value={draft.description}
+        onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+        placeholder="What the style sounds like"
+        className={inputClass}
+      />
+
+      <div className="grid grid-cols-2 gap-2">
+        <select
+          aria-label="Genre"
+          value={draft.genre ?? ''}
+          onChange={(e) => setDraft({ ...draft, genre: (e.target.value || undefined) as ProgressionGenre | undefined })}
+          className={inputClass}
+        >
+          <option value="">Any genre</option>
+          {GENRES.map(genre => (
+            <option key={genre} value={genre}>{genre.charAt(0).toUpperCase() + genre.slice(1)}</option>
+          ))}
+        </select>
+        <select
+          aria-label="Time signature"
+          value={timeSignatureLabel(draft)}
+          onChange={(e) => setDraft({ ...draft, timeSignature: TIME_SIGNATURES[e.target.value] })}
+          className={inputClass}
+        >
+          <option value="">Any meter</option>
+          {Object.keys(TIME_SIGNATURES).map(label => (
+            <option key={label} value={label}>{label}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="flex items-center gap-2 text-xs text-slate-400">
+        <span className="shrink-0">Tempo</span>
+        <input
+          aria-label="Slowest tempo"
+          type="number"
+          min={40}
+          value={draft.tempoRange?.min ?? ''}
+          onChange={(e) => setTempo('min', e.target.value)}
+          className={inputClass}
+        />
+        <span>to</span>
+        <input
+          aria-label="Fastest tempo"
+          type="number"
+          min={40}
+          value={draft.tempoRange?.max ?? ''}
+          onChange={(e) => setTempo('max', e.target.value)}
+          className={inputClass}
+        />
+        <span className="shrink-0">BPM</span>
+      </div>
+
+      <select
+        aria-label="Strumming pattern"
+        value={draft.strummingPatterns?.[0] ?? ''}
+        onChange={(e) => setDraft({ ...draft, strummingPatterns: e.target.value ? [e.target.value] : undefined })}
+        className={inputClass}
+      >
+        <option value="">Strumming to suit the mood</option>
+        {STRUMMING_PATTERNS.map(pattern => (
+          <option key={pattern.id} value={pattern.id}>{pattern.name}</option>
+        ))}
+      </select>
+
+      <fieldset>
+        <legend className="mb-1 text-xs text-slate-400">Chords</legend>
+        <div className="grid grid-cols-2 gap-1">
+          {(Object.keys(CHORD_TRAIT_LABELS) as ChordTrait[]).map(trait => (
+            <label key={trait} className="flex items-center gap-2 text-xs text-slate-300">
+              <input
+                type="checkbox"
+                checked={traits[trait] ?? false}
+                onChange={(e) => setTrait(trait, e.target.checked)}
+                className="rounded border-slate-600 bg-slate-900 text-indigo-500"
+              />
+              {CHORD_TRAIT_LABELS[trait]}
+            </label>
+          ))}
+        </div>
+      </fieldset>
+
+      <fieldset>
+        <legend className="mb-1 text-xs text-slate-400">Song forms</legend>
+        <div className="grid grid-cols-2 gap-1">
+          {(Object.keys(SONG_FORM_NAMES) as SongFormName[]).map(form => (
+            <label key={form} className="flex items-center gap-2 text-xs text-slate-300">
+              <input
+                type="checkbox"
+                checked={forms.includes(form)}
+                onChange={() => toggleForm(form)}
+                className="rounded border-slate-600 bg-slate-900 text-indigo-500"
+              />
+              {SONG_FORM_NAMES[form]}
+            </label>
+          ))}
+        </div>
+      </fieldset>
+
+      <fieldset>
+        <legend className="mb-1 text-xs text-slate-400">Substitutions</legend>
+        <div className="grid grid-cols-2 gap-1">
+          {(Object.keys(SUBSTITUTION_KIND_LABELS) as SubstitutionKind[]).map(kind => (
+            <label key={kind} className="flex items-center gap-2 text-xs text-slate-300">
+              <input
+                type="checkbox"
+                checked={kinds.includes(kind)}
+                onChange={() => toggleSubstitution(kind)}
+                className="rounded border-slate-600 bg-slate-900 text-indigo-500"
+              />
+              {SUBSTITUTION_KIND_LABELS[kind]}
+            </label>
+          ))}
+        </div>
+      </fieldset>
+
+      <div className="flex justify-end gap-2">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-3 py-1.5 rounded-lg text-sm bg-slate-700 text-slate-300 hover:bg-slate-600 transition-colors"
+        >
+          Cancel
+        </button>
+        <button
+          type="button"
+          onClick={handleSave}
+          disabled={!draft.name.trim()}
+          className="px-3 py-1.5 rounded-lg text-sm font-medium bg-indigo-600 text-white hover:bg-indigo-500
+                     disabled:bg-slate-700 disabled:text-slate-500 transition-colors"
+        >
+          Save profile
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default StyleProfileEditor;
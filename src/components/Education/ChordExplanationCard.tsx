@@ -2,16 +2,24 @@ import { useState } from 'react';
 import type { Chord, Key, DetailLevel, ChordFunction } from '../../types/music';
 import {
   CHORD_FUNCTION_CONTENT,
+  CADENCE_CONTENT,
+  SECONDARY_CHORD_CONTENT,
   getChordFunctionColor,
   getExtensionExplanation,
   getInversionExplanation,
 } from '../../data/educationalContent';
+import { buildChordNotes, formatKeyName, getKeyId, spellChord, spellChordRoot, spellBassNote } from '../../utils/musicTheory';
+import type { ChordAnalysis } from '../../utils/harmonicAnalysis';
+import type { ChordScale } from '../../utils/chordScales';
+import { Fretboard } from '../Fretboard/Fretboard';
 
 interface ChordExplanationCardProps {
   chord: Chord;
   position: number;
   keyContext: Key;
   detailLevel: DetailLevel;
+  analysis?: ChordAnalysis;
+  scales?: ChordScale[]; // Ranked scale suggestions, best first
   isExpanded?: boolean;
   onToggleExpand?: () => void;
 }
@@ -19,13 +27,20 @@ interface ChordExplanationCardProps {
 export function ChordExplanationCard({
   chord,
   position,
-  keyContext: _keyContext,
+  keyContext,
   detailLevel,
+  analysis,
+  scales = [],
   isExpanded = false,
   onToggleExpand,
 }: ChordExplanationCardProps) {
   const [showMore, setShowMore] = useState(false);
-  const chordFunction = chord.function || 'tonic';
+  const [scaleIndex, setScaleIndex] = useState(0);
+  const [showFretboard, setShowFretboard] = useState(false);
+  const scale = scales[scaleIndex] ?? scales[0];
+  // Analysis labels work for any chord, including AI and user input
+  const chordFunction = analysis?.function ?? chord.function ?? 'tonic';
+  const romanNumeral = analysis?.romanNumeral ?? chord.romanNumeral;
   const functionContent = CHORD_FUNCTION_CONTENT[chordFunction];
   const colorClass = getChordFunctionColor(chordFunction);
 
@@ -33,9 +48,17 @@ export function ChordExplanationCard({
   const extensionExplanation = getExtensionExplanation(chord.quality);
   const hasExtension = extensionExplanation !== null && chord.quality !== 'major' && chord.quality !== 'minor';
 
+  // Spell chord tones for the key (Eb G Bb in Bb, not D# G A#)
+  const keyId = getKeyId(keyContext);
+  const spelledNotes = spellChord(chord.root, chord.quality, keyId);
+
   // Get inversion explanation if this chord has a bass note different from root
   const inversionExplanation = chord.bassNote
-    ? getInversionExplanation(chord.root, chord.bassNote, chord.notes)
+    ? getInversionExplanation(
+        spellChordRoot(chord.root, chord.quality, keyId),
+        spellBassNote(chord.bassNote, chord.root, chord.quality, keyId),
+        spelledNotes
+      )
     : null;
   const hasInversion = inversionExplanation !== null;
 
@@ -92,9 +115,9 @@ export function ChordExplanationCard({
           <span className="text-sm font-medium text-slate-300">
             {position + 1}. {chord.name}
           </span>
-          {chord.romanNumeral && (
+          {romanNumeral && (
             <span className="text-xs text-slate-500">
-              ({chord.romanNumeral})
+              ({romanNumeral})
             </span>
           )}
         </div>
@@ -103,6 +126,50 @@ export function ChordExplanationCard({
         </span>
       </div>
 
+      {/* Chord tones */}
+      <p className="mt-1 text-xs text-slate-500">
+        Notes: {spelledNotes.join(' ')}
+      </p>
+
+      {/* Harmonic analysis: secondary target, borrowed source, cadence */}
+      {analysis?.secondaryTarget && (
+        <AnalysisNote
+          badge={`→ ${analysis.secondaryTarget}`}
+          text={`Leads to the ${analysis.secondaryTarget} chord. ${SECONDARY_CHORD_CONTENT[detailLevel]}`}
+        />
+      )}
+      {analysis?.borrowedFrom && (
+        <AnalysisNote
+          badge="borrowed"
+          text={`Borrowed from ${formatKeyName({ tonic: keyContext.tonic, mode: analysis.borrowedFrom })}.`}
+        />
+      )}
+      {analysis?.tonicizedKey && (
+        <AnalysisNote
+          badge="tonicization"
+          text={`Part of a brief turn toward ${formatKeyName(analysis.tonicizedKey)}.`}
+        />
+      )}
+      {analysis?.cadence && (
+        <AnalysisNote
+          badge={CADENCE_CONTENT[analysis.cadence].name}
+          text={CADENCE_CONTENT[analysis.cadence][detailLevel]}
+        />
+      )}
+
+      {/* Scale to play over the chord */}
+      {scale && (
+        <ScaleNote
+          scale={scale}
+          alternatives={scales}
+          selectedIndex={scales.indexOf(scale)}
+          onSelect={setScaleIndex}
+          showFretboard={showFretboard}
+          onToggleFretboard={() => setShowFretboard(!showFretboard)}
+          chordTones={buildChordNotes(chord.root, chord.quality)}
+        />
+      )}
+
       {/* Basic description (always visible) */}
       <p className="mt-2 text-sm text-slate-400">
         {content.description}
@@ -175,6 +242,103 @@ export function ChordExplanationCard({
   );
 }
 
+interface AnalysisNoteProps {
+  badge: string;
+  text: string;
+}
+
+function AnalysisNote({ badge, text }: AnalysisNoteProps) {
+  return (
+    <div className="mt-2 flex items-start gap-2">
+      <span className="px-1.5 py-0.5 text-xs font-medium bg-amber-500/20 text-amber-300 rounded shrink-0">
+        {badge}
+      </span>
+      <p className="text-sm text-amber-300/80">{text}</p>
+    </div>
+  );
+}
+
+interface ScaleNoteProps {
+  scale: ChordScale;
+  alternatives: ChordScale[];
+  selectedIndex: number;
+  onSelect: (index: number) => void;
+  showFretboard: boolean;
+  onToggleFretboard: () => void;
+  chordTones: Chord['root'][];
+}
+
+function ScaleNote({
+  scale,
+  alternatives,
+  selectedIndex,
+  onSelect,
+  showFretboard,
+  onToggleFretboard,
+  chordTones,
+}: ScaleNoteProps) {
+  const spelledAvoidNotes = scale.avoidNotes.map(note => scale.spelledNotes[scale.notes.indexOf(note)]);
+
+  return (
+    <div className="mt-2">
+      <div className="flex items-start gap-2">
+        <span className="px-1.5 py-0.5 text-xs font-medium bg-emerald-500/20 text-emerald-300 rounded shrink-0">
+          Scale
+        </span>
+        <div className="text-sm text-emerald-300/80">
+          <p>
+            {scale.name}: {scale.spelledNotes.join(' ')}
+            {spelledAvoidNotes.length > 0 && (
+              <span className="text-red-300/80"> · avoid {spelledAvoidNotes.join(', ')}</span>
+            )}
+          </p>
+          <p className="text-xs text-slate-500">{scale.reason}</p>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-1.5 mt-1.5">
+        {alternatives.length > 1 && alternatives.map((alternative, i) => (
+          <button
+            key={alternative.type}
+            onClick={(e) => {
+              e.stopPropagation();
+              onSelect(i);
+            }}
+            className={`px-1.5 py-0.5 text-xs rounded transition-colors
+              ${i === selectedIndex
+                ? 'bg-emerald-600/60 text-white'
+                : 'bg-slate-700/50 text-slate-400 hover:bg-slate-600/50'
+              }`}
+          >
+            {alternative.name}
+          </button>
+        ))}
+        <button
+          onClick={(e) => {
+            e.stopPropagation();
+            onToggleFretboard();
+          }}
+          className="text-xs text-indigo-400 hover:text-indigo-300 transition-colors"
+        >
+          {showFretboard ? 'Hide fretboard' : 'Show on fretboard'}
+        </button>
+      </div>
+
+      {showFretboard && (
+        <div className="mt-2">
+          <Fretboard
+            notes={scale.notes}
+            spelledNotes={scale.spelledNotes}
+            root={scale.root}
+            chordTones={chordTones}
+            avoidNotes={scale.avoidNotes}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
+
 interface ChordFunctionIndicatorProps {
   function: ChordFunction;
 }
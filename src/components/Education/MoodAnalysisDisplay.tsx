@@ -1,16 +1,24 @@
-import type { MoodAnalysis, DetailLevel } from '../../types/music';
+import type { MoodAnalysis, MoodArcStage, DetailLevel } from '../../types/music';
 import {
   ENERGY_CONTENT,
   BRIGHTNESS_CONTENT,
   TENSION_CONTENT,
 } from '../../data/educationalContent';
 
+export interface SectionMood {
+  name: string;
+  analysis: MoodAnalysis;
+  tempoShift?: number;
+}
+
 interface MoodAnalysisDisplayProps {
   analysis: MoodAnalysis;
   detailLevel: DetailLevel;
+  moodArc?: MoodArcStage[];       // Stages of a mood that changes over the song
+  sectionMoods?: SectionMood[];   // Each section's point on the arc, in order
 }
 
-export function MoodAnalysisDisplay({ analysis, detailLevel }: MoodAnalysisDisplayProps) {
+export function MoodAnalysisDisplay({ analysis, detailLevel, moodArc, sectionMoods }: MoodAnalysisDisplayProps) {
   const energyInfo = ENERGY_CONTENT[analysis.energy];
   const brightnessInfo = BRIGHTNESS_CONTENT[analysis.brightness];
   const tensionInfo = TENSION_CONTENT[analysis.tension];
@@ -36,6 +44,11 @@ export function MoodAnalysisDisplay({ analysis, detailLevel }: MoodAnalysisDispl
         </div>
       )}
 
+      {/* Mood Arc */}
+      {moodArc && sectionMoods && sectionMoods.length > 1 && (
+        <MoodArcChart stages={moodArc} sections={sectionMoods} detailLevel={detailLevel} />
+      )}
+
       {/* Trait Meters */}
       <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
         {/* Energy Meter */}
@@ -106,6 +119,83 @@ export function MoodAnalysisDisplay({ analysis, detailLevel }: MoodAnalysisDispl
   );
 }
 
+const ENERGY_VALUE: Record<MoodAnalysis['energy'], number> = { low: -0.8, medium: 0, high: 0.8 };
+
+const CHART_WIDTH = 300;
+const CHART_HEIGHT = 80;
+const CHART_PADDING = 8;
+
+interface MoodArcChartProps {
+  stages: MoodArcStage[];
+  sections: SectionMood[];
+  detailLevel: DetailLevel;
+}
+
+// Positivity and energy of each section, from -1 (bottom) to 1 (top)
+function MoodArcChart({ stages, sections, detailLevel }: MoodArcChartProps) {
+  const x = (i: number) => CHART_PADDING + (i / (sections.length - 1)) * (CHART_WIDTH - CHART_PADDING * 2);
+  const y = (value: number) => CHART_HEIGHT / 2 - value * (CHART_HEIGHT / 2 - CHART_PADDING);
+  const line = (value: (mood: SectionMood) => number) =>
+    sections.map((section, i) => `${x(i)},${y(value(section))}`).join(' ');
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-2 text-xs">
+        <span className="text-slate-400">Mood arc:</span>
+        {stages.map((stage, i) => (
+          <span key={stage.position} className="flex items-center gap-2">
+            {i > 0 && <span className="text-slate-600">&rarr;</span>}
+            <span className="px-2 py-0.5 bg-indigo-500/20 text-indigo-300 rounded-full">{stage.phrase}</span>
+          </span>
+        ))}
+      </div>
+
+      <svg
+        viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+        className="w-full h-20"
+        role="img"
+        aria-label="Positivity and energy across the sections"
+      >
+        <line
+          x1={CHART_PADDING}
+          x2={CHART_WIDTH - CHART_PADDING}
+          y1={y(0)}
+          y2={y(0)}
+          className="stroke-slate-700"
+          strokeDasharray="4 4"
+        />
+        <polyline points={line((s) => ENERGY_VALUE[s.analysis.energy])} fill="none" className="stroke-amber-500" strokeWidth={2} />
+        <polyline points={line((s) => s.analysis.positivity)} fill="none" className="stroke-green-400" strokeWidth={2} />
+        {sections.map((section, i) => (
+          <circle key={i} cx={x(i)} cy={y(section.analysis.positivity)} r={3} className="fill-green-400">
+            <title>{section.name}</title>
+          </circle>
+        ))}
+      </svg>
+
+      <div className="flex justify-between gap-1 text-[10px] text-slate-500">
+        {sections.map((section, i) => (
+          <span key={i} className="truncate" title={section.name}>
+            {section.name}
+            {detailLevel !== 'beginner' && section.tempoShift
+              ? ` (${section.tempoShift > 0 ? '+' : ''}${section.tempoShift} BPM)`
+              : ''}
+          </span>
+        ))}
+      </div>
+
+      <div className="flex gap-4 text-xs text-slate-400">
+        <span className="flex items-center gap-1">
+          <span className="w-3 h-0.5 bg-green-400" /> Positivity
+        </span>
+        <span className="flex items-center gap-1">
+          <span className="w-3 h-0.5 bg-amber-500" /> Energy
+        </span>
+      </div>
+    </div>
+  );
+}
+
 interface TraitMeterProps {
   label: string;
   description?: string;
@@ -1,12 +1,19 @@
-import { useState } from 'react';
-import type { Song, DetailLevel, Chord } from '../../types/music';
+import { useState, useMemo } from 'react';
+import type { Song, DetailLevel, Key, CadenceType } from '../../types/music';
 import { MoodAnalysisDisplay } from './MoodAnalysisDisplay';
 import { ChordExplanationCard } from './ChordExplanationCard';
 import {
   MODE_CONTENT,
   CHORD_FEATURES,
+  CADENCE_CONTENT,
   getDetailLevelLabel,
 } from '../../data/educationalContent';
+import { formatKeyName, spellScale } from '../../utils/musicTheory';
+import { analyzeSong } from '../../utils/harmonicAnalysis';
+import type { ChordAnalysis } from '../../utils/harmonicAnalysis';
+import { suggestSectionScales } from '../../utils/chordScales';
+import type { ChordScale } from '../../utils/chordScales';
+import { MODULATION_DESCRIPTIONS, MODULATION_NAMES, getSectionKey, getSongKeyChanges } from '../../utils/modulation';
 
 interface ProgressionExplainerProps {
   song: Song;
@@ -17,16 +24,46 @@ export function ProgressionExplainer({ song, onOpenCircleOfFifths }: Progression
   const [detailLevel, setDetailLevel] = useState<DetailLevel>('beginner');
   const [expandedChordIndex, setExpandedChordIndex] = useState<number | null>(null);
 
-  const { moodAnalysis, key, sections } = song;
+  const { moodAnalysis, key } = song;
 
-  // Get all unique chords from all sections
-  const allChords = sections.flatMap((section) => section.chords);
-  const uniqueChords = allChords.reduce<Chord[]>((acc, chord) => {
-    if (!acc.find((c) => c.name === chord.name)) {
-      acc.push(chord);
-    }
-    return acc;
-  }, []);
+  // Analyze every section and suggest scales in its own key, then keep the
+  // first occurrence of each chord
+  const { analyses, scales, keys, cadences } = useMemo(() => {
+    const sections = analyzeSong(song);
+    return {
+      // How each section closes; a repeated section is listed once
+      cadences: sections.reduce<{ sectionName: string; type: CadenceType }[]>((acc, section, i) => {
+        const type = section.cadences[section.cadences.length - 1]?.type;
+        const sectionName = song.sections[i].name;
+        if (type && !acc.some((c) => c.sectionName === sectionName && c.type === type)) {
+          acc.push({ sectionName, type });
+        }
+        return acc;
+      }, []),
+      analyses: sections.flatMap((section) => section.chords),
+      scales: sections.flatMap((section, i) =>
+        suggestSectionScales(section.chords.map((a) => a.chord), getSectionKey(song, i), section.chords).chords
+      ),
+      keys: sections.flatMap((section, i) => section.chords.map(() => getSectionKey(song, i))),
+    };
+  }, [song]);
+  const keyChanges = useMemo(() => getSongKeyChanges(song), [song]);
+  const { uniqueAnalyses, uniqueScales, uniqueKeys } = analyses.reduce<{
+    uniqueAnalyses: ChordAnalysis[];
+    uniqueScales: ChordScale[][];
+    uniqueKeys: Key[];
+  }>(
+    (acc, analysis, i) => {
+      if (!acc.uniqueAnalyses.find((a) => a.chord.name === analysis.chord.name)) {
+        acc.uniqueAnalyses.push(analysis);
+        acc.uniqueScales.push(scales[i]);
+        acc.uniqueKeys.push(keys[i]);
+      }
+      return acc;
+    },
+    { uniqueAnalyses: [], uniqueScales: [], uniqueKeys: [] }
+  );
+  const uniqueChords = uniqueAnalyses.map((analysis) => analysis.chord);
 
   const modeContent = MODE_CONTENT[key.mode];
 
@@ -67,7 +104,16 @@ export function ProgressionExplainer({ song, onOpenCircleOfFifths }: Progression
 
       {/* 1. Mood Analysis Section */}
       <section className="p-4 rounded-lg bg-slate-800/50 border border-slate-700/50">
-        <MoodAnalysisDisplay analysis={moodAnalysis} detailLevel={detailLevel} />
+        <MoodAnalysisDisplay
+          analysis={moodAnalysis}
+          detailLevel={detailLevel}
+          moodArc={song.moodArc}
+          sectionMoods={song.sections.flatMap((section) =>
+            section.moodAnalysis
+              ? [{ name: section.name, analysis: section.moodAnalysis, tempoShift: section.tempoShift }]
+              : []
+          )}
+        />
       </section>
 
       {/* 2. Key Selection Rationale */}
@@ -77,7 +123,10 @@ export function ProgressionExplainer({ song, onOpenCircleOfFifths }: Progression
         </h4>
         <div className="flex items-center gap-3 mb-3">
           <span className="px-3 py-1 text-lg font-bold bg-indigo-600/30 text-indigo-300 rounded-lg">
-            {key.tonic} {key.mode}
+            {formatKeyName(key)}
+          </span>
+          <span className="text-xs text-slate-500">
+            {spellScale(key).join(' ')}
           </span>
         </div>
 
@@ -133,6 +182,68 @@ export function ProgressionExplainer({ song, onOpenCircleOfFifths }: Progression
         )}
       </section>
 
+      {/* Key changes between sections */}
+      {keyChanges.length > 0 && (
+        <section className="p-4 rounded-lg bg-slate-800/50 border border-slate-700/50">
+          <h4 className="text-sm font-semibold text-slate-300 uppercase tracking-wide mb-3">
+            Key Changes
+          </h4>
+          <div className="space-y-3">
+            {keyChanges.map((change) => (
+              <div key={change.sectionIndex} className="space-y-1">
+                <div className="flex flex-wrap items-center gap-2 text-sm">
+                  <span className="text-slate-300 font-medium">{song.sections[change.sectionIndex].name}:</span>
+                  <span className="text-slate-400">{formatKeyName(change.from)}</span>
+                  <span className="text-slate-600">&rarr;</span>
+                  <span className="px-2 py-0.5 bg-emerald-500/20 text-emerald-300 rounded">
+                    {formatKeyName(change.to)}
+                  </span>
+                  {change.type && (
+                    <span className="text-xs text-slate-500">{MODULATION_NAMES[change.type]}</span>
+                  )}
+                </div>
+                {change.pivot && (
+                  <p className="text-xs text-slate-400">
+                    Pivot chord <span className="text-slate-200 font-medium">{change.pivot.chord.name}</span>:{' '}
+                    {change.pivot.fromNumeral} in {formatKeyName(change.from)} = {change.pivot.toNumeral} in {formatKeyName(change.to)}
+                  </p>
+                )}
+                {change.type && detailLevel !== 'beginner' && (
+                  <p className="text-xs text-slate-500">{MODULATION_DESCRIPTIONS[change.type]}</p>
+                )}
+              </div>
+            ))}
+          </div>
+        </section>
+      )}
+
+      {/* Section endings */}
+      {cadences.length > 0 && (
+        <section className="p-4 rounded-lg bg-slate-800/50 border border-slate-700/50">
+          <h4 className="text-sm font-semibold text-slate-300 uppercase tracking-wide mb-3">
+            How Each Section Ends
+          </h4>
+          <div className="space-y-2">
+            {cadences.map(({ sectionName, type }) => (
+              <div key={`${sectionName}-${type}`} className="flex flex-wrap items-center gap-2 text-sm">
+                <span className="text-slate-300 font-medium">{sectionName}:</span>
+                <span className="px-2 py-0.5 bg-indigo-600/20 text-indigo-300 rounded">
+                  {CADENCE_CONTENT[type].name}
+                </span>
+              </div>
+            ))}
+          </div>
+          <div className="mt-3 space-y-1">
+            {[...new Set(cadences.map((c) => c.type))].map((type) => (
+              <p key={type} className="text-xs text-slate-500">
+                <span className="text-slate-400">{CADENCE_CONTENT[type].name}:</span>{' '}
+                {CADENCE_CONTENT[type][detailLevel]}
+              </p>
+            ))}
+          </div>
+        </section>
+      )}
+
       {/* 3. Chord Function Breakdown */}
       <section className="p-4 rounded-lg bg-slate-800/50 border border-slate-700/50">
         <h4 className="text-sm font-semibold text-slate-300 uppercase tracking-wide mb-3">
@@ -167,8 +278,10 @@ export function ProgressionExplainer({ song, onOpenCircleOfFifths }: Progression
               key={`${chord.name}-${i}`}
               chord={chord}
               position={i}
-              keyContext={key}
+              keyContext={uniqueKeys[i]}
               detailLevel={detailLevel}
+              analysis={uniqueAnalyses[i]}
+              scales={uniqueScales[i]}
               isExpanded={expandedChordIndex === i}
               onToggleExpand={() => setExpandedChordIndex(expandedChordIndex === i ? null : i)}
             />
@@ -0,0 +1,135 @@
+import type { CanonicalNote, SpelledNote } from '../../types/music';
+import { STRING_BASE_MIDI } from '../../data/chords';
+import { CHROMATIC_NOTES } from '../../utils/musicTheory';
+
+interface FretboardProps {
+  notes: CanonicalNote[];           // Scale notes to mark
+  spelledNotes?: SpelledNote[];     // Labels for the notes, in the same order
+  root?: CanonicalNote;
+  chordTones?: CanonicalNote[];
+  avoidNotes?: CanonicalNote[];
+  numFrets?: number;
+}
+
+const FRET_WIDTH = 34;
+const STRING_SPACING = 16;
+const NUT_X = 28;
+const TOP_Y = 12;
+const DOT_RADIUS = 6.5;
+const INLAY_FRETS = [3, 5, 7, 9, 12, 15];
+
+// Dot colors: root, chord tone, avoid note, other scale note
+const NOTE_COLORS = {
+  root: { fill: '#6366f1', text: '#ffffff' },
+  chordTone: { fill: '#e2e8f0', text: '#1e293b' },
+  avoid: { fill: '#ef4444', text: '#ffffff' },
+  scale: { fill: '#334155', text: '#cbd5e1' },
+};
+
+export function Fretboard({
+  notes,
+  spelledNotes,
+  root,
+  chordTones = [],
+  avoidNotes = [],
+  numFrets = 12,
+}: FretboardProps) {
+  const numStrings = STRING_BASE_MIDI.length;
+  const width = NUT_X + FRET_WIDTH * numFrets + 8;
+  const height = TOP_Y + STRING_SPACING * (numStrings - 1) + 24;
+  // High E at the top, as guitarists read tab
+  const stringY = (stringIndex: number) => TOP_Y + (numStrings - 1 - stringIndex) * STRING_SPACING;
+  const fretX = (fret: number) => (fret === 0 ? NUT_X / 2 : NUT_X + (fret - 0.5) * FRET_WIDTH);
+
+  const getLabel = (note: CanonicalNote) => spelledNotes?.[notes.indexOf(note)] ?? note;
+  const getColors = (note: CanonicalNote) => {
+    if (note === root) return NOTE_COLORS.root;
+    if (avoidNotes.includes(note)) return NOTE_COLORS.avoid;
+    if (chordTones.includes(note)) return NOTE_COLORS.chordTone;
+    return NOTE_COLORS.scale;
+  };
+
+  return (
+    <div className="overflow-x-auto">
+      <svg width={width} height={height} viewBox={`0 0 ${width} ${height}`} className="select-none">
+        {/* Inlay markers */}
+        {INLAY_FRETS.filter(fret => fret <= numFrets).map(fret => (
+          <text
+            key={`inlay-${fret}`}
+            x={fretX(fret)}
+            y={height - 4}
+            textAnchor="middle"
+            fontSize={9}
+            fill="#64748b"
+          >
+            {fret}
+          </text>
+        ))}
+
+        {/* Nut and frets */}
+        {Array.from({ length: numFrets + 1 }).map((_, fret) => (
+          <line
+            key={`fret-${fret}`}
+            x1={NUT_X + fret * FRET_WIDTH}
+            y1={stringY(numStrings - 1)}
+            x2={NUT_X + fret * FRET_WIDTH}
+            y2={stringY(0)}
+            stroke={fret === 0 ? '#e2e8f0' : '#475569'}
+            strokeWidth={fret === 0 ? 3 : 1}
+          />
+        ))}
+
+        {/* Strings */}
+        {STRING_BASE_MIDI.map((_, stringIndex) => (
+          <line
+            key={`string-${stringIndex}`}
+            x1={NUT_X}
+            y1={stringY(stringIndex)}
+            x2={NUT_X + numFrets * FRET_WIDTH}
+            y2={stringY(stringIndex)}
+            stroke="#94a3b8"
+            strokeWidth={stringIndex < 3 ? 1.5 : 1}
+          />
+        ))}
+
+        {/* Scale notes, open strings left of the nut */}
+        {STRING_BASE_MIDI.flatMap((baseMidi, stringIndex) =>
+          Array.from({ length: numFrets + 1 }).map((_, fret) => {
+            const note = CHROMATIC_NOTES[(baseMidi + fret) % 12];
+            if (!notes.includes(note)) return null;
+            const colors = getColors(note);
+            const x = fretX(fret);
+            const y = stringY(stringIndex);
+            return (
+              <g key={`note-${stringIndex}-${fret}`}>
+                <circle cx={x} cy={y} r={DOT_RADIUS} fill={colors.fill} />
+                <text x={x} y={y + 2.5} textAnchor="middle" fontSize={7} fontWeight="bold" fill={colors.text}>
+                  {getLabel(note)}
+                </text>
+              </g>
+            );
+          })
+        )}
+      </svg>
+
+      {/* Legend */}
+      <div className="flex flex-wrap gap-3 mt-1 text-xs text-slate-500">
+        <LegendDot color={NOTE_COLORS.root.fill} label="Root" />
+        <LegendDot color={NOTE_COLORS.chordTone.fill} label="Chord tone" />
+        <LegendDot color={NOTE_COLORS.scale.fill} label="Scale tone" />
+        {avoidNotes.length > 0 && <LegendDot color={NOTE_COLORS.avoid.fill} label="Avoid" />}
+      </div>
+    </div>
+  );
+}
+
+function LegendDot({ color, label }: { color: string; label: string }) {
+  return (
+    <span className="flex items-center gap-1">
+      <span className="inline-block w-2.5 h-2.5 rounded-full" style={{ backgroundColor: color }} />
+      {label}
+    </span>
+  );
+}
+
+export default Fretboard;
@@ -44,6 +44,17 @@ export function KeySelector({ currentKey, onKeyChange }: KeySelectorProps) {
         >
           <option value="major">Major</option>
           <option value="minor">Minor</option>
+          <optgroup label="Modes">
+            <option value="lydian">Lydian</option>
+            <option value="mixolydian">Mixolydian</option>
+            <option value="dorian">Dorian</option>
+            <option value="phrygian">Phrygian</option>
+            <option value="locrian">Locrian</option>
+          </optgroup>
+          <optgroup label="Minor Variants">
+            <option value="harmonic-minor">Harmonic Minor</option>
+            <option value="melodic-minor">Melodic Minor</option>
+          </optgroup>
         </select>
       </div>
     </div>
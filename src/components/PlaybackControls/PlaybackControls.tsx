@@ -1,3 +1,6 @@
+import type { Key, PlaybackTrack } from '../../types/music';
+import { formatKeyName } from '../../utils/musicTheory';
+
 interface PlaybackControlsProps {
   isPlaying: boolean;
   tempo: number;
@@ -7,8 +10,21 @@ interface PlaybackControlsProps {
   onStop: () => void;
   onTempoChange: (tempo: number) => void;
   onLoopToggle: () => void;
+  currentKey?: Key;        // Key of the section being played
+  isKeyChanged?: boolean;  // The section is away from the song's home key
+  capo?: number;           // Fret the song's chord shapes are played at
+  tracks?: PlaybackTrack[];       // Instruments the current song has parts for
+  mutedTracks?: PlaybackTrack[];
+  onToggleTrack?: (track: PlaybackTrack) => void;
 }
 
+const TRACK_LABELS: Record<PlaybackTrack, string> = {
+  chords: 'Chords',
+  melody: 'Melody',
+  bass: 'Bass',
+  drums: 'Drums',
+};
+
 export function PlaybackControls({
   isPlaying,
   tempo,
@@ -18,6 +34,12 @@ export function PlaybackControls({
   onStop,
   onTempoChange,
   onLoopToggle,
+  currentKey,
+  isKeyChanged = false,
+  capo,
+  tracks = [],
+  mutedTracks = [],
+  onToggleTrack,
 }: PlaybackControlsProps) {
   return (
     <div className="flex flex-wrap items-center justify-center gap-4 p-4 bg-slate-800/80 backdrop-blur rounded-lg">
@@ -78,6 +100,46 @@ export function PlaybackControls({
         <span className="text-slate-100 font-mono text-sm w-8">{tempo}</span>
       </div>
 
+      {/* Current key (follows modulations during playback) */}
+      {currentKey && (
+        <span
+          className={`text-xs font-medium px-2 py-1 rounded transition-colors
+            ${isKeyChanged ? 'bg-emerald-500/20 text-emerald-300' : 'bg-slate-700 text-slate-400'}`}
+        >
+          Key: {formatKeyName(currentKey)}
+        </span>
+      )}
+
+      {/* Capo (playback still sounds at concert pitch) */}
+      {capo ? (
+        <span className="text-xs font-medium px-2 py-1 rounded bg-indigo-500/20 text-indigo-300">
+          Capo {capo}
+        </span>
+      ) : null}
+
+      {/* Track mutes (only worth showing with more than one instrument) */}
+      {onToggleTrack && tracks.length > 1 && (
+        <div className="flex items-center gap-1">
+          {tracks.map((track) => {
+            const isMuted = mutedTracks.includes(track);
+            return (
+              <button
+                key={track}
+                onClick={() => onToggleTrack(track)}
+                title={isMuted ? `Unmute ${TRACK_LABELS[track].toLowerCase()}` : `Mute ${TRACK_LABELS[track].toLowerCase()}`}
+                className={`text-xs font-medium px-2 py-1 rounded transition-colors
+                  ${isMuted
+                    ? 'bg-slate-700 text-slate-500 line-through'
+                    : 'bg-indigo-600/20 text-indigo-300 hover:bg-indigo-600/40'
+                  }`}
+              >
+                {TRACK_LABELS[track]}
+              </button>
+            );
+          })}
+        </div>
+      )}
+
       {/* Audio status indicator */}
       {!isAudioReady && (
         <span className="text-xs text-slate-500">Tap play to enable audio</span>
@@ -2,11 +2,14 @@ import { useState } from 'react';
 import type { Chord, Progression } from '../../types/music';
 import { ChordDiagram } from '../ChordDiagram/ChordDiagram';
 import { getFingeringForChord } from '../../data/chords';
+import { applySubstitution } from '../../utils/substitutions';
+import { SubstitutionPanel } from './SubstitutionPanel';
 
 interface ProgressionBuilderProps {
   progression: Progression;
   currentChordIndex: number;
   onChordClick?: (index: number) => void;
+  onProgressionChange?: (progression: Progression) => void;
 }
 
 const FUNCTION_COLORS: Record<string, string> = {
@@ -22,8 +25,11 @@ export function ProgressionBuilder({
   progression,
   currentChordIndex,
   onChordClick,
+  onProgressionChange,
 }: ProgressionBuilderProps) {
   const [showDiagrams, setShowDiagrams] = useState(false);
+  const [isSubstituting, setIsSubstituting] = useState(false);
+  const [substituteIndex, setSubstituteIndex] = useState<number | null>(null);
 
   if (progression.chords.length === 0) {
     return (
@@ -40,14 +46,31 @@ export function ProgressionBuilder({
         <span className="text-sm text-slate-400">
           {progression.chords.length} chords
         </span>
-        <button
-          onClick={() => setShowDiagrams(!showDiagrams)}
-          className="flex items-center gap-1 text-xs text-slate-400 hover:text-slate-200 transition-colors px-2 py-1 rounded hover:bg-slate-700/50"
-        >
-          <GuitarIcon />
-          <span>{showDiagrams ? 'Hide' : 'Show'} Fingerings</span>
-          <ChevronIcon isOpen={showDiagrams} />
-        </button>
+        <div className="flex items-center gap-2">
+          {onProgressionChange && (
+            <button
+              onClick={() => {
+                setIsSubstituting(!isSubstituting);
+                setSubstituteIndex(null);
+              }}
+              className={`text-xs px-2 py-1 rounded transition-colors
+                ${isSubstituting
+                  ? 'bg-indigo-600 text-white'
+                  : 'text-slate-400 hover:text-slate-200 hover:bg-slate-700/50'
+                }`}
+            >
+              {isSubstituting ? 'Done' : 'Substitute'}
+            </button>
+          )}
+          <button
+            onClick={() => setShowDiagrams(!showDiagrams)}
+            className="flex items-center gap-1 text-xs text-slate-400 hover:text-slate-200 transition-colors px-2 py-1 rounded hover:bg-slate-700/50"
+          >
+            <GuitarIcon />
+            <span>{showDiagrams ? 'Hide' : 'Show'} Fingerings</span>
+            <ChevronIcon isOpen={showDiagrams} />
+          </button>
+        </div>
       </div>
 
       {/* Chord progression row */}
@@ -56,12 +79,39 @@ export function ProgressionBuilder({
           <ChordSlot
             key={`${chord.name}-${index}`}
             chord={chord}
-            isActive={index === currentChordIndex}
-            onClick={() => onChordClick?.(index)}
+            isActive={index === currentChordIndex || index === substituteIndex}
+            onClick={() => {
+              onChordClick?.(index);
+              if (isSubstituting) setSubstituteIndex(index);
+            }}
           />
         ))}
       </div>
 
+      {/* Substitution toolkit for the selected slot */}
+      {isSubstituting && (
+        substituteIndex !== null && onProgressionChange ? (
+          <SubstitutionPanel
+            key={substituteIndex}
+            chords={progression.chords}
+            index={substituteIndex}
+            keyContext={progression.key}
+            onApply={(substitution) => {
+              onProgressionChange({
+                ...progression,
+                chords: applySubstitution(progression.chords, substituteIndex, substitution),
+              });
+              setSubstituteIndex(null);
+            }}
+            onClose={() => setSubstituteIndex(null)}
+          />
+        ) : (
+          <p className="text-xs text-slate-500 text-center">
+            Click a chord to see substitutions for it
+          </p>
+        )
+      )}
+
       {/* Chord diagrams (expandable) */}
       {showDiagrams && (
         <div className="grid grid-cols-2 sm:grid-cols-4 gap-4 mt-4 pt-4 border-t border-slate-700/50">
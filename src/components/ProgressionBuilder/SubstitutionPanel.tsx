@@ -0,0 +1,93 @@
+import { useState } from 'react';
+import type { Chord, Key } from '../../types/music';
+import { getSubstitutions, SUBSTITUTION_KIND_LABELS } from '../../utils/substitutions';
+import type { ChordSubstitution, SubstitutionKind } from '../../utils/substitutions';
+
+interface SubstitutionPanelProps {
+  chords: Chord[];
+  index: number;
+  keyContext: Key;
+  onApply: (substitution: ChordSubstitution) => void;
+  onClose?: () => void;
+}
+
+export function SubstitutionPanel({
+  chords,
+  index,
+  keyContext,
+  onApply,
+  onClose,
+}: SubstitutionPanelProps) {
+  const [selected, setSelected] = useState<ChordSubstitution | null>(null);
+  const chord = chords[index];
+  const substitutions = getSubstitutions(chords, index, keyContext);
+
+  // Group suggestions by kind, keeping the toolkit's order
+  const groups = substitutions.reduce<Partial<Record<SubstitutionKind, ChordSubstitution[]>>>((acc, substitution) => {
+    (acc[substitution.kind] ??= []).push(substitution);
+    return acc;
+  }, {});
+
+  if (!chord) return null;
+
+  return (
+    <div className="p-4 rounded-lg bg-slate-800/50 border border-slate-700/50">
+      <div className="flex items-center justify-between mb-3">
+        <h4 className="text-sm font-semibold text-slate-300 uppercase tracking-wide">
+          Substitute {chord.name}
+        </h4>
+        {onClose && (
+          <button
+            onClick={onClose}
+            className="text-xs text-slate-400 hover:text-slate-200 transition-colors px-2 py-1 rounded hover:bg-slate-700/50"
+          >
+            Close
+          </button>
+        )}
+      </div>
+
+      <div className="space-y-3">
+        {(Object.keys(groups) as SubstitutionKind[]).map((kind) => (
+          <div key={kind}>
+            <span className="text-xs text-slate-500">{SUBSTITUTION_KIND_LABELS[kind]}</span>
+            <div className="flex flex-wrap gap-2 mt-1">
+              {groups[kind]!.map((substitution, i) => (
+                <button
+                  key={`${kind}-${i}`}
+                  onClick={() => setSelected(substitution)}
+                  className={`px-2 py-1 rounded-lg text-sm transition-colors
+                    ${selected === substitution
+                      ? 'bg-indigo-600 text-white'
+                      : 'bg-slate-700/50 text-slate-300 hover:bg-slate-600/50'
+                    }`}
+                >
+                  {substitution.placement === 'insert-after' && '+ '}
+                  {substitution.chords.map((c) => c.name).join(' ')}
+                  <span className="ml-1 text-xs opacity-70">{substitution.label}</span>
+                </button>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {/* Explanation and apply for the selected suggestion */}
+      {selected && (
+        <div className="mt-4 pt-3 border-t border-slate-700/50 flex items-start justify-between gap-3">
+          <p className="text-sm text-slate-400">{selected.explanation}</p>
+          <button
+            onClick={() => {
+              onApply(selected);
+              setSelected(null);
+            }}
+            className="shrink-0 px-3 py-1.5 text-sm font-medium bg-indigo-600 hover:bg-indigo-500 text-white rounded-lg transition-colors"
+          >
+            {selected.placement === 'insert-after' ? 'Insert' : 'Replace'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default SubstitutionPanel;
@@ -0,0 +1,142 @@
+import { useState } from 'react';
+import type { Song } from '../../types/music';
+import { formatKeyName } from '../../utils/musicTheory';
+import { getSongBeatsPerBar } from '../../utils/harmonicRhythm';
+import type { SongScores } from '../../utils/songScoring';
+import { canMergeSections, mergeCandidateSections } from '../../services/songBatch';
+import type { SectionPick, SongCandidate } from '../../services/songBatch';
+
+interface SongCandidatesProps {
+  candidates: SongCandidate[];
+  selectedSong: Song | null;
+  onSelect: (song: Song) => void;
+}
+
+const SCORE_LABELS: Record<Exclude<keyof SongScores, 'total'>, string> = {
+  moodFit: 'Mood fit',
+  voiceLeading: 'Voice leading',
+  novelty: 'Novelty',
+};
+
+const smallButtonClass = `px-1.5 py-0.5 rounded text-xs bg-slate-700 text-slate-300 hover:bg-slate-600
+                          disabled:opacity-40 disabled:hover:bg-slate-700 transition-colors`;
+
+/**
+ * Generated songs side by side with their scores. One can be picked as the
+ * song, or sections from several put together into a new one.
+ */
+export function SongCandidates({ candidates, selectedSong, onSelect }: SongCandidatesProps) {
+  const [picks, setPicks] = useState<SectionPick[]>([]);
+
+  const candidateNumber = (song: Song) => candidates.findIndex(candidate => candidate.song === song) + 1;
+
+  const selectMerged = () => {
+    const merged = mergeCandidateSections(picks);
+    if (merged) onSelect(merged);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="grid gap-3 md:grid-cols-2 lg:grid-cols-3">
+        {candidates.map(({ song, form, scores }, index) => {
+          const isSelected = song === selectedSong;
+          const canPick = picks.length === 0 || canMergeSections(song, picks[0].song);
+          return (
+            <div
+              key={song.id}
+              className={`p-3 rounded-lg border transition-colors
+                ${isSelected ? 'border-indigo-500 bg-indigo-900/20' : 'border-slate-700/50 bg-slate-800/30'}`}
+            >
+              <div className="flex items-center justify-between gap-2">
+                <span className="text-sm font-medium text-slate-200">
+                  Candidate {index + 1}
+                  <span className="ml-2 text-xs text-slate-400">{Math.round(scores.total * 100)}%</span>
+                </span>
+                <button
+                  onClick={() => onSelect(song)}
+                  disabled={isSelected}
+                  className="px-2 py-1 text-xs font-medium rounded bg-indigo-600/20 text-indigo-300 hover:bg-indigo-600/40
+                             disabled:bg-indigo-600 disabled:text-white transition-colors"
+                >
+                  {isSelected ? 'Showing' : 'Use'}
+                </button>
+              </div>
+              <p className="mt-1 text-xs text-slate-400">
+                {form.name} · {song.tempo} BPM · {formatKeyName(song.key)} · {getSongBeatsPerBar(song)} beats a bar
+              </p>
+
+              {/* Scores */}
+              <div className="mt-2 space-y-1">
+                {(Object.keys(SCORE_LABELS) as (keyof typeof SCORE_LABELS)[]).map(score => (
+                  <div key={score} className="flex items-center gap-2 text-xs">
+                    <span className="w-24 shrink-0 text-slate-500">{SCORE_LABELS[score]}</span>
+                    <div className="flex-1 h-1.5 rounded bg-slate-700">
+                      <div className="h-full rounded bg-indigo-400" style={{ width: `${Math.round(scores[score] * 100)}%` }} />
+                    </div>
+                  </div>
+                ))}
+              </div>
+
+              {/* Sections, each of which can be added to a merged song */}
+              <ul className="mt-2 space-y-0.5 text-xs">
+                {song.sections.map((section, sectionIndex) => (
+                  <li key={section.id} className="flex items-center gap-2">
+                    <button
+                      aria-label={`Add ${section.name} to the merged song`}
+                      onClick={() => setPicks([...picks, { song, sectionIndex }])}
+                      disabled={!canPick}
+                      title={canPick ? undefined : 'Sections in another meter cannot be merged'}
+                      className={smallButtonClass}
+                    >
+                      +
+                    </button>
+                    <span className="w-20 shrink-0 truncate text-slate-400">{section.name}</span>
+                    <span className="truncate text-slate-300">{section.chords.map(chord => chord.name).join(' ')}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          );
+        })}
+      </div>
+
+      {/* Sections picked for a merged song */}
+      {picks.length > 0 && (
+        <div className="p-3 rounded-lg border border-slate-700/50 bg-slate-800/30">
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-sm font-medium text-slate-300 mr-1">Merged song</span>
+            {picks.map((pick, i) => (
+              <span key={i} className="flex items-center gap-1 px-2 py-0.5 rounded bg-slate-700/50 text-xs text-slate-200">
+                {pick.song.sections[pick.sectionIndex].name}
+                <span className="text-slate-500">#{candidateNumber(pick.song)}</span>
+                <button
+                  aria-label="Remove section"
+                  onClick={() => setPicks(picks.filter((_, j) => j !== i))}
+                  className="text-slate-400 hover:text-slate-200"
+                >
+                  ✕
+                </button>
+              </span>
+            ))}
+          </div>
+          <div className="mt-2 flex gap-2">
+            <button
+              onClick={selectMerged}
+              className="px-2 py-1 text-xs font-medium rounded bg-indigo-600/20 text-indigo-300 hover:bg-indigo-600/40 transition-colors"
+            >
+              Use merged song
+            </button>
+            <button
+              onClick={() => setPicks([])}
+              className="px-2 py-1 text-xs text-slate-400 hover:text-slate-200 rounded hover:bg-slate-700/50 transition-colors"
+            >
+              Clear
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default SongCandidates;
@@ -1,10 +1,39 @@
 import { useState, useMemo } from 'react';
-import type { Song, SongSection, DetailLevel } from '../../types/music';
+import type { Chord, Song, SongSection, DetailLevel, LineNote, VocalRange, BassStyle } from '../../types/music';
 import { ChordDiagram } from '../ChordDiagram/ChordDiagram';
 import { getFingeringForChord } from '../../data/chords';
+import { formatKeyName, getKeyId, midiToNoteName, transposeKey } from '../../utils/musicTheory';
 import { ProgressionExplainer } from '../Education/ProgressionExplainer';
 import { TheoryConceptModal } from '../Education/TheoryConceptModal';
 import { StrummingPatternDisplay } from '../StrummingPattern/StrummingPatternDisplay';
+import { TRANSFORM_PRESETS, transformChords } from '../../utils/transformations';
+import type { ChordTransform } from '../../utils/transformations';
+import { MODULATION_NAMES } from '../../utils/modulation';
+import { getSectionBeats, getSongBeatsPerBar, layoutSectionBars } from '../../utils/harmonicRhythm';
+import {
+  DEFAULT_VOCAL_RANGE,
+  VOCAL_RANGES,
+  VOCAL_RANGE_NAMES,
+  clearMelody,
+  generateMelody,
+} from '../../services/melodyGenerator';
+import {
+  BASS_STYLE_DESCRIPTIONS,
+  BASS_STYLE_NAMES,
+  chooseBassStyle,
+  clearBassLine,
+  generateBassLine,
+} from '../../services/bassLineGenerator';
+import {
+  REHARMONIZATION_LEVEL_DESCRIPTIONS,
+  REHARMONIZATION_LEVEL_NAMES,
+  reharmonizeSong,
+} from '../../services/reharmonizer';
+import type { ChordChange, ReharmonizationLevel } from '../../services/reharmonizer';
+import { DRUM_GROOVE_NAMES, planSectionDrums } from '../../utils/drumPatterns';
+import type { SectionDrums } from '../../utils/drumPatterns';
+import { MAX_CAPO, countHardShapes, findEasyChords, getCapoShape } from '../../utils/capo';
+import type { EasyChords } from '../../utils/capo';
 
 interface SongViewProps {
   song: Song;
@@ -12,6 +41,7 @@ interface SongViewProps {
   currentChordIndex: number;
   onChordClick?: (sectionIndex: number, chordIndex: number) => void;
   onSectionClick?: (sectionIndex: number) => void;
+  onSongChange?: (song: Song) => void;
 }
 
 const SECTION_COLORS: Record<string, string> = {
@@ -42,6 +72,7 @@ export function SongView({
   currentChordIndex,
   onChordClick,
   onSectionClick,
+  onSongChange,
 }: SongViewProps) {
   const [showExplainer, setShowExplainer] = useState(false);
   const [showStrumming, setShowStrumming] = useState(false);
@@ -49,11 +80,81 @@ export function SongView({
   const [detailLevel, setDetailLevel] = useState<DetailLevel>('beginner');
   // Track which sections are expanded (independent of playback)
   const [expandedSections, setExpandedSections] = useState<Set<number>>(new Set());
+  const [vocalRange, setVocalRange] = useState<VocalRange>(song.vocalRange ?? DEFAULT_VOCAL_RANGE);
+  const [melodyTake, setMelodyTake] = useState(0);
+  const hasMelody = song.sections.some(section => section.melody && section.melody.length > 0);
+  const [bassStyle, setBassStyle] = useState<BassStyle | 'auto'>(song.bassStyle ?? 'auto');
+  const hasBassLine = song.sections.some(section => section.bassLine && section.bassLine.length > 0);
+  const [harmonyLevel, setHarmonyLevel] = useState<ReharmonizationLevel>('moderate');
+  // The last reharmonization, kept while its result is the song on show
+  const [reharmonized, setReharmonized] = useState<{ original: Song; result: Song; changes: ChordChange[] } | null>(null);
+  const harmonyChanges = reharmonized?.result === song ? reharmonized.changes : null;
+  const [simplifyChords, setSimplifyChords] = useState(false);
+  // The last easy-chords pass, kept while its result is the song on show
+  const [easyChords, setEasyChords] = useState<{ original: Song; result: EasyChords } | null>(null);
+  const easyChordsResult = easyChords?.result.song === song ? easyChords.result : null;
+  const capo = song.capo ?? 0;
 
   // Pass sections directly for section-aware visualization
   // (Backward compatibility: can still flatten if needed)
   const sections = useMemo(() => song.sections, [song.sections]);
 
+  const transformSection = (sectionIndex: number, transform: ChordTransform) => {
+    onSongChange?.({
+      ...song,
+      sections: song.sections.map((section, i) =>
+        i === sectionIndex
+          // The old melody no longer fits the new chords
+          ? {
+              ...section,
+              chords: transformChords(section.chords, transform, section.key ?? song.key),
+              melody: undefined,
+              bassLine: undefined,
+            }
+          : section
+      ),
+    });
+  };
+
+  // Each press writes a new take over the same chords
+  const writeMelody = () => {
+    const take = melodyTake + 1;
+    setMelodyTake(take);
+    onSongChange?.(generateMelody(song, { range: vocalRange, seed: String(take) }));
+  };
+
+  const writeBassLine = () => {
+    onSongChange?.(generateBassLine(song, { style: bassStyle === 'auto' ? undefined : bassStyle }));
+  };
+
+  const reharmonize = () => {
+    const { song: result, changes } = reharmonizeSong(song, harmonyLevel);
+    setReharmonized({ original: song, result, changes });
+    onSongChange?.(result);
+  };
+
+  const undoReharmonize = () => {
+    if (!reharmonized) return;
+    onSongChange?.(reharmonized.original);
+    setReharmonized(null);
+  };
+
+  const setCapo = (fret: number) => {
+    onSongChange?.({ ...song, capo: fret > 0 ? fret : undefined });
+  };
+
+  const makeEasyChords = () => {
+    const result = findEasyChords(song, { simplify: simplifyChords });
+    setEasyChords({ original: song, result });
+    onSongChange?.(result.song);
+  };
+
+  const undoEasyChords = () => {
+    if (!easyChords) return;
+    onSongChange?.(easyChords.original);
+    setEasyChords(null);
+  };
+
   const toggleSectionExpanded = (sectionIndex: number) => {
     setExpandedSections(prev => {
       const next = new Set(prev);
@@ -96,6 +197,196 @@ export function SongView({
         </div>
       )}
 
+      {/* Constraints the generator could not satisfy */}
+      {song.unmetConstraints && song.unmetConstraints.length > 0 && (
+        <div className="p-3 rounded-lg border border-amber-500/30 bg-amber-500/10">
+          <p className="text-sm font-medium text-amber-300">Some constraints could not be met</p>
+          <ul className="mt-1 space-y-0.5 text-xs text-amber-200/80 list-disc list-inside">
+            {song.unmetConstraints.map((violation, i) => (
+              <li key={i}>{violation.message}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* Melody */}
+      {onSongChange && (
+        <div className="flex flex-wrap items-center gap-2 p-3 rounded-lg border border-slate-700/50 bg-slate-800/30">
+          <span className="text-sm font-medium text-slate-300 mr-1">Melody</span>
+          <select
+            value={vocalRange}
+            onChange={(e) => setVocalRange(e.target.value as VocalRange)}
+            className="px-2 py-1 text-xs bg-slate-800 border border-slate-600 rounded text-slate-200"
+          >
+            {(Object.keys(VOCAL_RANGES) as VocalRange[]).map((range) => (
+              <option key={range} value={range}>
+                {VOCAL_RANGE_NAMES[range]} ({midiToNoteName(VOCAL_RANGES[range].low)}–{midiToNoteName(VOCAL_RANGES[range].high)})
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={writeMelody}
+            className="px-2 py-1 text-xs font-medium rounded bg-indigo-600/20 text-indigo-300 hover:bg-indigo-600/40 transition-colors"
+          >
+            {hasMelody ? 'New Melody' : 'Write Melody'}
+          </button>
+          {hasMelody && (
+            <button
+              onClick={() => onSongChange(clearMelody(song))}
+              className="px-2 py-1 text-xs text-slate-400 hover:text-slate-200 rounded hover:bg-slate-700/50 transition-colors"
+            >
+              Clear
+            </button>
+          )}
+        </div>
+      )}
+
+      {/* Bass line */}
+      {onSongChange && (
+        <div className="flex flex-wrap items-center gap-2 p-3 rounded-lg border border-slate-700/50 bg-slate-800/30">
+          <span className="text-sm font-medium text-slate-300 mr-1">Bass</span>
+          <select
+            value={bassStyle}
+            onChange={(e) => setBassStyle(e.target.value as BassStyle | 'auto')}
+            title={bassStyle === 'auto' ? undefined : BASS_STYLE_DESCRIPTIONS[bassStyle]}
+            className="px-2 py-1 text-xs bg-slate-800 border border-slate-600 rounded text-slate-200"
+          >
+            <option value="auto">Auto ({BASS_STYLE_NAMES[chooseBassStyle(song.moodAnalysis)]})</option>
+            {(Object.keys(BASS_STYLE_NAMES) as BassStyle[]).map((style) => (
+              <option key={style} value={style}>{BASS_STYLE_NAMES[style]}</option>
+            ))}
+          </select>
+          <button
+            onClick={writeBassLine}
+            className="px-2 py-1 text-xs font-medium rounded bg-indigo-600/20 text-indigo-300 hover:bg-indigo-600/40 transition-colors"
+          >
+            {hasBassLine ? 'Rewrite Bass' : 'Write Bass'}
+          </button>
+          {hasBassLine && (
+            <button
+              onClick={() => onSongChange(clearBassLine(song))}
+              className="px-2 py-1 text-xs text-slate-400 hover:text-slate-200 rounded hover:bg-slate-700/50 transition-colors"
+            >
+              Clear
+            </button>
+          )}
+        </div>
+      )}
+
+      {/* Harmony: reharmonize the whole song at a complexity level */}
+      {onSongChange && (
+        <div className="p-3 rounded-lg border border-slate-700/50 bg-slate-800/30">
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-sm font-medium text-slate-300 mr-1">Harmony</span>
+            <select
+              value={harmonyLevel}
+              onChange={(e) => setHarmonyLevel(e.target.value as ReharmonizationLevel)}
+              title={REHARMONIZATION_LEVEL_DESCRIPTIONS[harmonyLevel]}
+              className="px-2 py-1 text-xs bg-slate-800 border border-slate-600 rounded text-slate-200"
+            >
+              {(Object.keys(REHARMONIZATION_LEVEL_NAMES) as ReharmonizationLevel[]).map((level) => (
+                <option key={level} value={level}>{REHARMONIZATION_LEVEL_NAMES[level]}</option>
+              ))}
+            </select>
+            <button
+              onClick={reharmonize}
+              className="px-2 py-1 text-xs font-medium rounded bg-indigo-600/20 text-indigo-300 hover:bg-indigo-600/40 transition-colors"
+            >
+              Reharmonize
+            </button>
+            {harmonyChanges && (
+              <button
+                onClick={undoReharmonize}
+                className="px-2 py-1 text-xs text-slate-400 hover:text-slate-200 rounded hover:bg-slate-700/50 transition-colors"
+              >
+                Undo
+              </button>
+            )}
+          </div>
+          {harmonyChanges && (
+            harmonyChanges.length > 0 ? (
+              <ul className="mt-2 max-h-40 overflow-y-auto space-y-0.5 text-xs">
+                {harmonyChanges.map((change, i) => (
+                  <li key={i} className="flex gap-2">
+                    <span className="w-36 shrink-0 text-slate-500">
+                      {song.sections[change.sectionIndex]?.name},{' '}
+                      {change.bar === 0 ? 'pickup' : `bar ${change.bar}`}{change.beat > 1 && ` beat ${change.beat}`}
+                    </span>
+                    {change.before && change.after ? (
+                      <span className="text-slate-300">{change.before.name} → {change.after.name}</span>
+                    ) : change.after ? (
+                      <span className="text-emerald-300">+ {change.after.name}</span>
+                    ) : (
+                      <span className="text-slate-500 line-through">{change.before?.name}</span>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="mt-2 text-xs text-slate-500">The harmony is already at this level; nothing changed.</p>
+            )
+          )}
+        </div>
+      )}
+
+      {/* Capo: play the song with easier shapes at the same pitch */}
+      {onSongChange && (
+        <div className="p-3 rounded-lg border border-slate-700/50 bg-slate-800/30">
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-sm font-medium text-slate-300 mr-1">Capo</span>
+            <select
+              value={capo}
+              onChange={(e) => setCapo(Number(e.target.value))}
+              className="px-2 py-1 text-xs bg-slate-800 border border-slate-600 rounded text-slate-200"
+            >
+              {Array.from({ length: MAX_CAPO + 1 }, (_, fret) => (
+                <option key={fret} value={fret}>{fret === 0 ? 'None' : `Fret ${fret}`}</option>
+              ))}
+            </select>
+            <button
+              onClick={makeEasyChords}
+              title="Find the capo that leaves the fewest barre chords"
+              className="px-2 py-1 text-xs font-medium rounded bg-indigo-600/20 text-indigo-300 hover:bg-indigo-600/40 transition-colors"
+            >
+              Easy chords
+            </button>
+            <label className="flex items-center gap-1 text-xs text-slate-400" title="F becomes Fmaj7, B7 becomes B and so on">
+              <input
+                type="checkbox"
+                checked={simplifyChords}
+                onChange={(e) => setSimplifyChords(e.target.checked)}
+                className="rounded border-slate-600 bg-slate-900 text-indigo-500"
+              />
+              Swap hard chords
+            </label>
+            {easyChordsResult && (
+              <button
+                onClick={undoEasyChords}
+                className="px-2 py-1 text-xs text-slate-400 hover:text-slate-200 rounded hover:bg-slate-700/50 transition-colors"
+              >
+                Undo
+              </button>
+            )}
+            <span className="text-xs text-slate-500">
+              {capo > 0 && `${formatKeyName(transposeKey(song.key, -capo))} shapes, `}
+              {countHardShapes(song)} barre chords
+            </span>
+          </div>
+          {easyChordsResult && (
+            <p className="mt-2 text-xs text-slate-400">
+              {easyChordsResult.hardAfter < easyChordsResult.hardBefore
+                ? `Barre chords: ${easyChordsResult.hardBefore} → ${easyChordsResult.hardAfter}.`
+                : 'No capo makes these chords easier.'}
+              {easyChordsResult.swaps.length > 0 && (
+                <span className="text-emerald-300">
+                  {' '}Swapped {easyChordsResult.swaps.map(swap => `${swap.from.name} → ${swap.to.name}`).join(', ')}.
+                </span>
+              )}
+            </p>
+          )}
+        </div>
+      )}
+
       {/* Why These Chords? Section */}
       {song.moodAnalysis && (
         <div className="border border-slate-700/50 rounded-lg overflow-hidden">
@@ -165,12 +456,18 @@ export function SongView({
             key={section.id}
             section={section}
             sectionIndex={sectionIndex}
+            keyContext={getKeyId(section.key ?? song.key)}
+            capo={capo}
+            shapeKeyContext={getKeyId(transposeKey(section.key ?? song.key, -capo))}
+            beatsPerBar={getSongBeatsPerBar(song)}
+            drums={planSectionDrums(song, sectionIndex)}
             isPlaying={sectionIndex === currentSectionIndex}
             isExpanded={expandedSections.has(sectionIndex) || sectionIndex === currentSectionIndex}
             activeChordIndex={sectionIndex === currentSectionIndex ? currentChordIndex : -1}
             onChordClick={(chordIndex) => onChordClick?.(sectionIndex, chordIndex)}
             onToggleExpand={() => toggleSectionExpanded(sectionIndex)}
             onClick={() => onSectionClick?.(sectionIndex)}
+            onTransform={onSongChange && ((transform) => transformSection(sectionIndex, transform))}
           />
         ))}
       </div>
@@ -251,26 +548,42 @@ function ChevronIcon({ isOpen }: { isOpen: boolean }) {
 interface SectionCardProps {
   section: SongSection;
   sectionIndex: number;
+  keyContext?: string;
+  capo: number;
+  shapeKeyContext?: string; // Key the shapes are named in under the capo
+  beatsPerBar: number;
+  drums?: SectionDrums;
   isPlaying: boolean;
   isExpanded: boolean;
   activeChordIndex: number;
   onChordClick?: (chordIndex: number) => void;
   onToggleExpand?: () => void;
   onClick?: () => void;
+  onTransform?: (transform: ChordTransform) => void;
 }
 
 function SectionCard({
   section,
   sectionIndex: _sectionIndex,
+  keyContext,
+  capo,
+  shapeKeyContext,
+  beatsPerBar,
+  drums,
   isPlaying,
   isExpanded,
   activeChordIndex,
   onChordClick,
   onToggleExpand,
   onClick: _onClick,
+  onTransform,
 }: SectionCardProps) {
   const colorClass = SECTION_COLORS[section.type] || SECTION_COLORS.verse;
   const badgeClass = SECTION_BADGES[section.type] || SECTION_BADGES.verse;
+  const [isEditingShapes, setIsEditingShapes] = useState(false);
+  const [showTransforms, setShowTransforms] = useState(false);
+  // With a capo the chords are named by the shape played, concert pitch in the tooltip
+  const shapeOf = (chord: Chord) => (capo > 0 ? getCapoShape(chord, capo, shapeKeyContext) : chord);
 
   return (
     <div
@@ -289,46 +602,144 @@ function SectionCard({
           {section.bars && (
             <span className="text-xs text-slate-500">{section.bars} bars</span>
           )}
+          {drums && (
+            <span className="text-xs text-slate-500" title="Drum groove during playback">
+              {DRUM_GROOVE_NAMES[drums.groove]} drums{drums.hasFill ? ', fill into the chorus' : ''}
+            </span>
+          )}
+          {section.modulation && (
+            <span
+              className="text-xs px-2 py-0.5 rounded bg-emerald-500/20 text-emerald-300"
+              title={section.modulation.type && MODULATION_NAMES[section.modulation.type]}
+            >
+              Key change: {formatKeyName(section.modulation.to)}
+            </span>
+          )}
         </div>
-        {/* Expand/Collapse button */}
-        <button
-          onClick={(e) => {
-            e.stopPropagation();
-            onToggleExpand?.();
-          }}
-          className="flex items-center gap-1 text-xs text-slate-400 hover:text-slate-200 transition-colors px-2 py-1 rounded hover:bg-slate-700/50"
-        >
-          <GuitarIcon />
-          <span>{isExpanded ? 'Hide' : 'Show'} Fingerings</span>
-          <ChevronIcon isOpen={isExpanded} />
-        </button>
-      </div>
-
-      {/* Chord progression (compact view) */}
-      <div className="flex flex-wrap gap-2 mb-2">
-        {section.chords.map((chord, chordIndex) => (
+        <div className="flex items-center gap-1">
+          {onTransform && (
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                setShowTransforms(!showTransforms);
+              }}
+              className="text-xs text-slate-400 hover:text-slate-200 transition-colors px-2 py-1 rounded hover:bg-slate-700/50"
+            >
+              Transform
+            </button>
+          )}
+          {/* Expand/Collapse button */}
           <button
-            key={`${chord.name}-${chordIndex}`}
             onClick={(e) => {
               e.stopPropagation();
-              onChordClick?.(chordIndex);
+              onToggleExpand?.();
             }}
-            className={`px-3 py-2 rounded-lg font-medium transition-all
-              ${chordIndex === activeChordIndex
-                ? 'bg-indigo-600 text-white scale-105'
-                : 'bg-slate-700/50 text-slate-200 hover:bg-slate-600/50'
-              }`}
+            className="flex items-center gap-1 text-xs text-slate-400 hover:text-slate-200 transition-colors px-2 py-1 rounded hover:bg-slate-700/50"
           >
-            {chord.name}
+            <GuitarIcon />
+            <span>{isExpanded ? 'Hide' : 'Show'} Fingerings</span>
+            <ChevronIcon isOpen={isExpanded} />
           </button>
+        </div>
+      </div>
+
+      {/* Transform this section (negative harmony, P/L/R) */}
+      {onTransform && showTransforms && (
+        <div className="flex flex-wrap gap-2 mb-3">
+          {TRANSFORM_PRESETS.map((preset) => (
+            <button
+              key={preset.id}
+              title={preset.description}
+              onClick={(e) => {
+                e.stopPropagation();
+                onTransform(preset.transform);
+              }}
+              className="px-2 py-1 text-xs font-medium rounded bg-indigo-600/20 text-indigo-300 hover:bg-indigo-600/40 transition-colors"
+            >
+              {preset.label}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {/* Chord progression by bar (compact view); width follows each chord's beats */}
+      <div className="flex flex-wrap gap-y-2 mb-2">
+        {layoutSectionBars(section, beatsPerBar).map((bar, barIndex, bars) => (
+          <div
+            key={barIndex}
+            title={bar.isPickup ? 'Pickup' : undefined}
+            style={{ width: `${(bar.beats / beatsPerBar) * 8}rem` }}
+            className={`flex gap-1 px-1 border-l-2 border-slate-600
+              ${barIndex === bars.length - 1 ? 'border-r-2' : ''}
+              ${bar.isPickup ? 'border-l-0 border-dashed' : ''}`}
+          >
+            {bar.slots.map((slot, slotIndex) => {
+              const chord = section.chords[slot.chordIndex];
+              const shape = shapeOf(chord);
+              const sounds = capo > 0 ? `Sounds as ${chord.name}` : '';
+              return (
+                <button
+                  key={`${slot.chordIndex}-${slotIndex}`}
+                  title={slot.isContinuation ? `${shape.name} (held)` : sounds || undefined}
+                  style={{ flex: slot.beats }}
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onChordClick?.(slot.chordIndex);
+                  }}
+                  className={`min-w-0 px-2 py-2 rounded-lg font-medium truncate transition-all
+                    ${slot.chordIndex === activeChordIndex
+                      ? 'bg-indigo-600 text-white'
+                      : 'bg-slate-700/50 text-slate-200 hover:bg-slate-600/50'
+                    }
+                    ${slot.isContinuation ? 'opacity-60' : ''}`}
+                >
+                  {slot.isContinuation ? '–' : shape.name}
+                </button>
+              );
+            })}
+          </div>
         ))}
       </div>
 
+      {/* Melody and bass under the section (pitch against beats) */}
+      {section.melody && section.melody.length > 0 && (
+        <NoteRoll
+          notes={section.melody}
+          totalBeats={getSectionBeats(section, beatsPerBar)}
+          beatsPerBar={beatsPerBar}
+          keyContext={keyContext}
+          noteClass="fill-indigo-400"
+        />
+      )}
+      {section.bassLine && section.bassLine.length > 0 && (
+        <NoteRoll
+          notes={section.bassLine}
+          totalBeats={getSectionBeats(section, beatsPerBar)}
+          beatsPerBar={beatsPerBar}
+          keyContext={keyContext}
+          noteClass="fill-teal-400"
+        />
+      )}
+
       {/* Chord diagrams (expandable) */}
       {isExpanded && (
-        <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-6 gap-3 mt-4 pt-4 border-t border-slate-700/50">
+        <div className="flex justify-end mt-4 pt-4 border-t border-slate-700/50">
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              setIsEditingShapes(!isEditingShapes);
+            }}
+            className="text-xs text-slate-400 hover:text-slate-200 transition-colors px-2 py-1 rounded hover:bg-slate-700/50"
+          >
+            {isEditingShapes ? 'Done Editing' : 'Edit Shapes'}
+          </button>
+        </div>
+      )}
+      {isExpanded && (
+        <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-6 gap-3 mt-2">
           {section.chords.map((chord, chordIndex) => {
-            const fingering = getFingeringForChord(chord);
+            const shape = shapeOf(chord);
+            const fingering = getFingeringForChord(shape);
             if (!fingering) return null;
 
             return (
@@ -345,11 +756,14 @@ function SectionCard({
                 }}
               >
                 <ChordDiagram
-                  chord={chord.name}
+                  chord={shape.name}
                   fingering={fingering}
                   size="medium"
                   showFingerNumbers
                   isHighlighted={chordIndex === activeChordIndex}
+                  editable={isEditingShapes}
+                  keyContext={capo > 0 ? shapeKeyContext : keyContext}
+                  capo={capo}
                 />
               </div>
             );
@@ -367,6 +781,58 @@ function SectionCard({
   );
 }
 
+interface NoteRollProps {
+  notes: LineNote[];
+  totalBeats: number;
+  beatsPerBar: number;
+  keyContext?: string;
+  noteClass: string;
+}
+
+function NoteRoll({ notes, totalBeats, beatsPerBar, keyContext, noteClass }: NoteRollProps) {
+  const pitches = notes.flatMap(note => (note.midi === null ? [] : [note.midi]));
+  if (pitches.length === 0) return null;
+  const top = Math.max(...pitches) + 1;
+  const bottom = Math.min(...pitches) - 1;
+  const rowHeight = 4;
+  const beatWidth = 16;
+  const height = (top - bottom + 1) * rowHeight;
+  const bars = Array.from({ length: Math.ceil(totalBeats / beatsPerBar) }, (_, i) => i * beatsPerBar);
+
+  return (
+    <svg
+      viewBox={`0 0 ${totalBeats * beatWidth} ${height}`}
+      preserveAspectRatio="none"
+      className="w-full h-12 mb-2 rounded bg-slate-900/40"
+    >
+      {bars.map((beat) => (
+        <line
+          key={beat}
+          x1={beat * beatWidth}
+          x2={beat * beatWidth}
+          y1={0}
+          y2={height}
+          className="stroke-slate-700"
+          strokeWidth={0.5}
+        />
+      ))}
+      {notes.map((note, i) => note.midi !== null && (
+        <rect
+          key={i}
+          x={note.startBeat * beatWidth + 0.5}
+          y={(top - note.midi) * rowHeight}
+          width={Math.max(1, note.beats * beatWidth - 1)}
+          height={rowHeight}
+          rx={1}
+          className={noteClass}
+        >
+          <title>{midiToNoteName(note.midi, keyContext)}</title>
+        </rect>
+      ))}
+    </svg>
+  );
+}
+
 function GuitarIcon() {
   return (
     <svg
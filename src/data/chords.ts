@@ -111,6 +111,73 @@ export const BARRE_SHAPES: BarreShape[] = [
 
   { name: 'D-shape', quality: 'power', rootString: 4,
     shape: ['x', 'x', 0, 2, 3, 'x'], fingers: [null, null, 1, 2, 3, null] },
+
+  // Major 6 shapes
+  { name: 'E-shape', quality: 'major6', rootString: 6,
+    shape: [0, 'x', 2, 1, 2, 'x'], fingers: [1, null, 3, 2, 4, null] },
+
+  { name: 'A-shape', quality: 'major6', rootString: 5,
+    shape: ['x', 0, 2, 2, 2, 2], fingers: [null, 1, 3, 3, 3, 3] },
+
+  // Minor 6 shapes
+  { name: 'E-shape', quality: 'minor6', rootString: 6,
+    shape: [0, 'x', 2, 0, 2, 'x'], fingers: [1, null, 3, 1, 4, null] },
+
+  { name: 'A-shape', quality: 'minor6', rootString: 5,
+    shape: ['x', 0, 2, 'x', 1, 2], fingers: [null, 1, 3, null, 2, 4] },
+
+  // Dominant 9 (5th string root shape drops the 5th)
+  { name: 'E-shape', quality: 'dominant9', rootString: 6,
+    shape: [0, 'x', 0, 1, 0, 2], fingers: [1, null, 1, 2, 1, 3] },
+
+  // Major 9
+  { name: 'E-shape', quality: 'major9', rootString: 6,
+    shape: [0, 'x', 1, 1, 0, 2], fingers: [1, null, 2, 3, 1, 4] },
+
+  // Minor 9
+  { name: 'E-shape', quality: 'minor9', rootString: 6,
+    shape: [0, 'x', 0, 0, 0, 2], fingers: [1, null, 1, 1, 1, 3] },
+
+  // Dominant 11 (11th on the 5th string)
+  { name: 'E-shape', quality: 'dominant11', rootString: 6,
+    shape: [0, 0, 0, 1, 0, 2], fingers: [1, 1, 1, 2, 1, 3] },
+
+  // Minor 11
+  { name: 'E-shape', quality: 'minor11', rootString: 6,
+    shape: [0, 0, 0, 0, 0, 2], fingers: [1, 1, 1, 1, 1, 3] },
+
+  // Dominant 13 (jazz voicing: root, b7, 3rd, 13th)
+  { name: 'E-shape', quality: 'dominant13', rootString: 6,
+    shape: [0, 'x', 0, 1, 2, 'x'], fingers: [1, null, 1, 2, 3, null] },
+
+  { name: 'A-shape', quality: 'dominant13', rootString: 5,
+    shape: ['x', 0, 'x', 0, 2, 2], fingers: [null, 1, null, 1, 3, 4] },
+
+  // Add11
+  { name: 'E-shape', quality: 'add11', rootString: 6,
+    shape: [0, 0, 2, 1, 0, 0], fingers: [1, 1, 3, 2, 1, 1] },
+
+  // 7sus4 shapes
+  { name: 'E-shape', quality: 'dominant7sus4', rootString: 6,
+    shape: [0, 2, 0, 2, 0, 0], fingers: [1, 3, 1, 4, 1, 1] },
+
+  { name: 'A-shape', quality: 'dominant7sus4', rootString: 5,
+    shape: ['x', 0, 2, 0, 3, 0], fingers: [null, 1, 3, 1, 4, 1] },
+
+  // 7b9
+  { name: 'E-shape', quality: 'dominant7b9', rootString: 6,
+    shape: [0, 'x', 0, 1, 0, 1], fingers: [1, null, 1, 2, 1, 3] },
+
+  // 7#9 ("Hendrix chord" voicing with root on the 6th string)
+  { name: 'E-shape', quality: 'dominant7#9', rootString: 6,
+    shape: [0, 'x', 0, 1, 'x', 3], fingers: [1, null, 1, 2, null, 4] },
+
+  // Minor-major 7 shapes
+  { name: 'E-shape', quality: 'minorMajor7', rootString: 6,
+    shape: [0, 2, 1, 0, 0, 0], fingers: [1, 3, 2, 1, 1, 1] },
+
+  { name: 'A-shape', quality: 'minorMajor7', rootString: 5,
+    shape: ['x', 0, 2, 1, 1, 0], fingers: [null, 1, 4, 2, 3, 1] },
 ];
 
 // ============================================================================
@@ -134,6 +201,10 @@ export const STRING_NOTES: CanonicalNote[][] = [
   ['E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B', 'C', 'C#', 'D', 'D#', 'E'],
 ];
 
+// Standard guitar tuning: base MIDI note for each open string
+// String index 0 = 6th string (low E), index 5 = 1st string (high E)
+export const STRING_BASE_MIDI = [40, 45, 50, 55, 59, 64]; // E2, A2, D3, G3, B3, E4
+
 // ============================================================================
 // OPEN CHORD VOICINGS
 // ============================================================================
@@ -184,6 +255,32 @@ export const OPEN_VOICINGS: Record<string, GuitarFingering> = {
   'Dsus4': { chord: 'Dsus4', strings: ['x', 'x', 0, 2, 3, 3], fingers: [null, null, null, 1, 2, 3], voicingType: 'open' },
   'Esus4': { chord: 'Esus4', strings: [0, 2, 2, 2, 0, 0], fingers: [null, 2, 3, 4, null, null], voicingType: 'open' },
 
+  // Sixth chords
+  'C6': { chord: 'C6', strings: ['x', 3, 2, 2, 1, 0], fingers: [null, 4, 2, 3, 1, null], voicingType: 'open' },
+  'D6': { chord: 'D6', strings: ['x', 'x', 0, 2, 0, 2], fingers: [null, null, null, 2, null, 3], voicingType: 'open' },
+  'E6': { chord: 'E6', strings: [0, 2, 2, 1, 2, 0], fingers: [null, 2, 3, 1, 4, null], voicingType: 'open' },
+  'G6': { chord: 'G6', strings: [3, 2, 0, 0, 0, 0], fingers: [2, 1, null, null, null, null], voicingType: 'open' },
+  'A6': { chord: 'A6', strings: ['x', 0, 2, 2, 2, 2], fingers: [null, null, 1, 1, 1, 1], voicingType: 'open' },
+  'Am6': { chord: 'Am6', strings: ['x', 0, 2, 2, 1, 2], fingers: [null, null, 2, 3, 1, 4], voicingType: 'open' },
+  'Dm6': { chord: 'Dm6', strings: ['x', 'x', 0, 2, 0, 1], fingers: [null, null, null, 2, null, 1], voicingType: 'open' },
+  'Em6': { chord: 'Em6', strings: [0, 2, 2, 0, 2, 0], fingers: [null, 2, 3, null, 4, null], voicingType: 'open' },
+
+  // Ninth chords
+  'C9': { chord: 'C9', strings: ['x', 3, 2, 3, 3, 3], fingers: [null, 2, 1, 3, 3, 3], voicingType: 'open' },
+  'E9': { chord: 'E9', strings: [0, 2, 0, 1, 0, 2], fingers: [null, 2, null, 1, null, 3], voicingType: 'open' },
+  'Cmaj9': { chord: 'Cmaj9', strings: ['x', 3, 2, 4, 3, 0], fingers: [null, 2, 1, 4, 3, null], voicingType: 'open' },
+  'Em9': { chord: 'Em9', strings: [0, 2, 2, 0, 3, 2], fingers: [null, 1, 2, null, 4, 3], voicingType: 'open' },
+
+  // 7sus4 chords
+  'A7sus4': { chord: 'A7sus4', strings: ['x', 0, 2, 0, 3, 0], fingers: [null, null, 2, null, 3, null], voicingType: 'open' },
+  'D7sus4': { chord: 'D7sus4', strings: ['x', 'x', 0, 2, 1, 3], fingers: [null, null, null, 2, 1, 3], voicingType: 'open' },
+  'E7sus4': { chord: 'E7sus4', strings: [0, 2, 0, 2, 0, 0], fingers: [null, 2, null, 3, null, null], voicingType: 'open' },
+
+  // Minor-major 7 chords
+  'AmMaj7': { chord: 'AmMaj7', strings: ['x', 0, 2, 1, 1, 0], fingers: [null, null, 3, 1, 2, null], voicingType: 'open' },
+  'DmMaj7': { chord: 'DmMaj7', strings: ['x', 'x', 0, 2, 2, 1], fingers: [null, null, null, 2, 3, 1], voicingType: 'open' },
+  'EmMaj7': { chord: 'EmMaj7', strings: [0, 2, 1, 0, 0, 0], fingers: [null, 2, 1, null, null, null], voicingType: 'open' },
+
   // Diminished (common voicings)
   'Bdim': { chord: 'Bdim', strings: ['x', 2, 3, 4, 3, 'x'], fingers: [null, 1, 2, 4, 3, null], voicingType: 'open' },
 
@@ -196,6 +293,17 @@ export const OPEN_VOICINGS: Record<string, GuitarFingering> = {
 // CHORD FINGERING FUNCTIONS
 // ============================================================================
 
+/**
+ * Convert a fingering to MIDI note values for each string
+ * Muted strings ('x') are represented as null
+ */
+export function fingeringToMidi(fingering: GuitarFingering): (number | null)[] {
+  return fingering.strings.map((fret, stringIndex) => {
+    if (fret === 'x') return null;
+    return STRING_BASE_MIDI[stringIndex] + (fret as number);
+  });
+}
+
 /**
  * Find the fret position for a note on a given string
  */
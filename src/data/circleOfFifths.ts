@@ -1,8 +1,13 @@
-import type { CanonicalNote, Key } from '../types/music';
+import type { CanonicalNote, Key, Mode } from '../types/music';
 import {
   getRelativeMinor,
   getRelativeMajor,
-  getKeyId
+  getKeyId,
+  getParentMajor,
+  getModeTonic,
+  isMinorMode,
+  MODE_DISPLAY_NAMES,
+  SHARP_TO_FLAT,
 } from '../utils/musicTheory';
 
 // Circle of fifths order for major keys (clockwise from C)
@@ -44,8 +49,12 @@ export const FLAT_KEY_DISPLAY: Record<string, string> = {
 
 /**
  * Get position on circle of fifths (0-11, 0 = C/Am)
+ * Modal keys sit at their parent major's position (D Dorian shares C's signature)
  */
 export function getCirclePosition(key: Key): number {
+  if (key.mode !== 'major' && key.mode !== 'minor') {
+    return CIRCLE_OF_FIFTHS_MAJOR.indexOf(getParentMajor(key));
+  }
   const notes = key.mode === 'major' ? CIRCLE_OF_FIFTHS_MAJOR : CIRCLE_OF_FIFTHS_MINOR;
   return notes.indexOf(key.tonic);
 }
@@ -53,8 +62,12 @@ export function getCirclePosition(key: Key): number {
 /**
  * Get the key at a specific position on the circle
  */
-export function getKeyAtPosition(position: number, mode: 'major' | 'minor'): Key {
+export function getKeyAtPosition(position: number, mode: Mode): Key {
   const normalizedPos = ((position % 12) + 12) % 12;
+  if (mode !== 'major' && mode !== 'minor') {
+    // Find the mode's tonic from the parent major at this position
+    return { tonic: getModeTonic(CIRCLE_OF_FIFTHS_MAJOR[normalizedPos], mode), mode };
+  }
   const notes = mode === 'major' ? CIRCLE_OF_FIFTHS_MAJOR : CIRCLE_OF_FIFTHS_MINOR;
   return {
     tonic: notes[normalizedPos],
@@ -89,7 +102,7 @@ export function getNeighboringKeys(key: Key): {
 } {
   const relativeNote = key.mode === 'major'
     ? getRelativeMinor(key.tonic)
-    : getRelativeMajor(key.tonic);
+    : getParentMajor(key);
 
   return {
     clockwise: moveClockwise(key),
@@ -100,7 +113,7 @@ export function getNeighboringKeys(key: Key): {
     },
     parallel: {
       tonic: key.tonic,
-      mode: key.mode === 'major' ? 'minor' : 'major'
+      mode: isMinorMode(key.mode) ? 'major' : 'minor'
     }
   };
 }
@@ -120,9 +133,9 @@ export function getAllCircleKeys(): { major: Key[]; minor: Key[] } {
  * (useful for determining how "far" a modulation is)
  */
 export function getCircleDistance(from: Key, to: Key): number {
-  // Convert both to major for comparison (minor keys use relative major position)
-  const fromMajor = from.mode === 'major' ? from.tonic : getRelativeMajor(from.tonic);
-  const toMajor = to.mode === 'major' ? to.tonic : getRelativeMajor(to.tonic);
+  // Convert both to major for comparison (minor and modal keys use their parent major position)
+  const fromMajor = getParentMajor(from);
+  const toMajor = getParentMajor(to);
 
   const fromPos = CIRCLE_OF_FIFTHS_MAJOR.indexOf(fromMajor);
   const toPos = CIRCLE_OF_FIFTHS_MAJOR.indexOf(toMajor);
@@ -138,6 +151,12 @@ export function getCircleDistance(from: Key, to: Key): number {
  * Get display name for a key (handles flat key display)
  */
 export function getKeyDisplayName(key: Key): string {
+  if (key.mode !== 'major' && key.mode !== 'minor') {
+    // Spell the tonic with the parent major's signature: "Eb Dorian", "F# Lydian"
+    const usesFlats = (KEY_SIGNATURES[getParentMajor(key)] ?? 0) < 0;
+    const tonic = usesFlats ? SHARP_TO_FLAT[key.tonic] : key.tonic;
+    return `${tonic} ${MODE_DISPLAY_NAMES[key.mode]}`;
+  }
   const keyId = getKeyId(key);
   return FLAT_KEY_DISPLAY[keyId] ?? keyId;
 }
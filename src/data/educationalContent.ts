@@ -1,4 +1,5 @@
-import type { ChordFunction, DetailLevel } from '../types/music';
+import type { ChordFunction, DetailLevel, Mode } from '../types/music';
+import type { CadenceType } from '../types/music';
 
 // ============================================================================
 // CHORD FUNCTION EXPLANATIONS
@@ -119,7 +120,7 @@ export interface ModeExplanation {
   advanced: { theory: string; intervals: string; commonUses: string[] };
 }
 
-export const MODE_CONTENT: Record<'major' | 'minor', ModeExplanation> = {
+export const MODE_CONTENT: Record<Mode, ModeExplanation> = {
   major: {
     beginner: {
       feeling: 'Generally happy, bright, and uplifting',
@@ -158,6 +159,139 @@ export const MODE_CONTENT: Record<'major' | 'minor', ModeExplanation> = {
       commonUses: ['Blues', 'Rock', 'Classical', 'Film scores', 'Emotional ballads', 'Metal'],
     },
   },
+  dorian: {
+    beginner: {
+      feeling: 'Cool, soulful minor with a hopeful lift',
+      example: 'Think of "Scarborough Fair" or Santana\'s "Oye Como Va"',
+    },
+    intermediate: {
+      description: 'Dorian is a minor mode with a raised 6th, which makes the IV chord major and gives the mode its bittersweet brightness.',
+      characteristics: [
+        'Minor tonic, but less gloomy than natural minor',
+        'Major IV chord is the signature sound (i-IV vamps)',
+        'No leading tone, so cadences feel open rather than final',
+      ],
+    },
+    advanced: {
+      theory: 'Second mode of the major scale. Intervallic structure: W-H-W-W-W-H-W. The natural 6th forms a tritone with the b3, coloring the i-IV motion. Symmetric around its 4th degree.',
+      intervals: '1-2-b3-4-5-6-b7 (natural minor with a raised 6th)',
+      commonUses: ['Funk', 'Modal jazz', 'Classic rock', 'Celtic folk', 'Neo-soul'],
+    },
+  },
+  phrygian: {
+    beginner: {
+      feeling: 'Dark, exotic, and tense',
+      example: 'Think of flamenco guitar or heavy metal riffs',
+    },
+    intermediate: {
+      description: 'Phrygian is a minor mode with a lowered 2nd. The half-step from b2 down to the tonic gives it a brooding, Spanish flavor.',
+      characteristics: [
+        'Half-step above the tonic (bII) creates menace',
+        'bII-i replaces V-i as the main cadence',
+        'Darkest of the commonly used modes',
+      ],
+    },
+    advanced: {
+      theory: 'Third mode of the major scale. Intervallic structure: H-W-W-W-H-W-W. The b2 produces the Phrygian cadence; a raised 3rd variant (Phrygian dominant) is the 5th mode of harmonic minor.',
+      intervals: '1-b2-b3-4-5-b6-b7 (natural minor with a lowered 2nd)',
+      commonUses: ['Flamenco', 'Metal', 'Film scores', 'Middle Eastern music'],
+    },
+  },
+  lydian: {
+    beginner: {
+      feeling: 'Dreamy, floating, and full of wonder',
+      example: 'Think of the flying themes in Spielberg and Pixar films',
+    },
+    intermediate: {
+      description: 'Lydian is a major mode with a raised 4th. The major II chord gives it a bright, weightless quality.',
+      characteristics: [
+        'Brightest of all the modes',
+        'Major II chord (I-II vamps) is the signature sound',
+        'The #4 removes the pull toward IV, so it hovers',
+      ],
+    },
+    advanced: {
+      theory: 'Fourth mode of the major scale. Intervallic structure: W-W-W-H-W-W-H. The #4 forms a tritone with the tonic, eliminating the avoid note of Ionian and making maj7#11 the natural tonic sound.',
+      intervals: '1-2-3-#4-5-6-7 (major with a raised 4th)',
+      commonUses: ['Film scores', 'Video game music', 'Dream pop', 'Jazz fusion'],
+    },
+  },
+  mixolydian: {
+    beginner: {
+      feeling: 'Bluesy, laid-back, and confident',
+      example: 'Think of "Sweet Home Alabama" or "Norwegian Wood"',
+    },
+    intermediate: {
+      description: 'Mixolydian is a major mode with a lowered 7th. The major bVII chord gives it a relaxed rock swagger.',
+      characteristics: [
+        'Major tonic without a leading tone',
+        'bVII-I replaces V-I as the home cadence',
+        'The I chord naturally becomes a dominant 7th',
+      ],
+    },
+    advanced: {
+      theory: 'Fifth mode of the major scale. Intervallic structure: W-W-H-W-W-H-W. The b7 turns the tonic into a dominant-quality chord, which is why blues and rock feel at home here.',
+      intervals: '1-2-3-4-5-6-b7 (major with a lowered 7th)',
+      commonUses: ['Classic rock', 'Blues', 'Celtic folk', 'Jam bands', 'Country'],
+    },
+  },
+  locrian: {
+    beginner: {
+      feeling: 'Unstable, eerie, and unresolved',
+      example: 'Think of the most dissonant heavy metal riffs',
+    },
+    intermediate: {
+      description: 'Locrian has both a lowered 2nd and a lowered 5th. Its tonic chord is diminished, so it never quite feels at rest.',
+      characteristics: [
+        'Diminished tonic chord',
+        'Tritone above the tonic undermines stability',
+        'Rarely used for whole songs - mostly riffs and textures',
+      ],
+    },
+    advanced: {
+      theory: 'Seventh mode of the major scale. Intervallic structure: H-W-W-H-W-W-W. The b5 means there is no perfect 5th over the tonic, so tonal gravity depends on rhythm and pedal points.',
+      intervals: '1-b2-b3-4-b5-b6-b7 (natural minor with lowered 2nd and 5th)',
+      commonUses: ['Metal', 'Horror scores', 'Experimental music'],
+    },
+  },
+  'harmonic-minor': {
+    beginner: {
+      feeling: 'Dramatic, exotic, and classical',
+      example: 'Think of Bach, tango, or neoclassical metal',
+    },
+    intermediate: {
+      description: 'Harmonic minor raises the 7th of natural minor, creating a true leading tone and a major V chord.',
+      characteristics: [
+        'Major V chord gives minor keys a strong cadence',
+        'Augmented 2nd between b6 and 7 sounds exotic',
+        'Diminished vii° chord adds drama',
+      ],
+    },
+    advanced: {
+      theory: 'Natural minor with a raised 7th. Intervallic structure: W-H-W-W-H-W+H-H. Produces V7 and vii°7 in minor, and the augmented III+ chord. Its 5th mode is Phrygian dominant.',
+      intervals: '1-2-b3-4-5-b6-7 (natural minor with a raised 7th)',
+      commonUses: ['Classical', 'Tango', 'Neoclassical metal', 'Klezmer', 'Film scores'],
+    },
+  },
+  'melodic-minor': {
+    beginner: {
+      feeling: 'Sophisticated minor with a bright, jazzy edge',
+      example: 'Think of jazz ballads and film-noir themes',
+    },
+    intermediate: {
+      description: 'Melodic minor raises both the 6th and 7th of natural minor. It keeps a minor tonic but borrows the bright top half of the major scale.',
+      characteristics: [
+        'Minor tonic with major IV and V chords',
+        'Smooth stepwise melodies up to the tonic',
+        'Source of many jazz chord-scales (altered, Lydian dominant)',
+      ],
+    },
+    advanced: {
+      theory: 'Jazz (ascending) melodic minor. Intervallic structure: W-H-W-W-W-W-H. Its modes give the altered scale (7th mode) and Lydian dominant (4th mode). The tonic chord is mMaj7.',
+      intervals: '1-2-b3-4-5-6-7 (major with a lowered 3rd)',
+      commonUses: ['Jazz', 'Film noir', 'Classical', 'Fusion'],
+    },
+  },
 };
 
 // ============================================================================
@@ -304,6 +438,84 @@ export const CHORD_EXTENSION_CONTENT: Partial<Record<ChordQuality, ExtensionExpl
     intermediate: 'Diminished chords have a lowered 5th, creating a tritone with the root. They often function as leading-tone chords (vii°).',
     advanced: 'The diminished triad contains a tritone between root and ♭5. As vii°, it shares two notes with V7 and has dominant function.',
   },
+  major6: {
+    badge: '6',
+    beginner: 'An extra sweet note on top gives this chord a warm, vintage sound.',
+    intermediate: 'The major 6th adds color without the tension of a 7th. A classic tonic sound in swing, bossa nova, and old-time pop.',
+    advanced: 'The 6 chord shares all its notes with the relative minor 7th (C6 = Am7/C). As a tonic, it avoids the leading-tone clash of maj7 against a melody on the root.',
+  },
+  minor6: {
+    badge: 'm6',
+    beginner: 'A minor chord with a bittersweet, mysterious twist.',
+    intermediate: 'The major 6th over a minor triad creates a dark-but-hopeful color heard in film noir, tango, and gypsy jazz.',
+    advanced: 'The m6 contains a tritone between the ♭3 and 6, giving it a dominant-like edge. It is the natural tonic chord of the melodic minor scale (Dorian sound).',
+  },
+  dominant9: {
+    badge: '9',
+    beginner: 'A bluesy, funky version of the tension chord with an extra high note.',
+    intermediate: 'The 9th is stacked on top of a dominant 7th, softening its bite. A staple of funk, blues, and soul.',
+    advanced: 'A dominant 7th with a natural 9th (Mixolydian color). The 5th is usually omitted on guitar; the 3rd, ♭7 and 9 carry the sound.',
+  },
+  major9: {
+    badge: 'maj9',
+    beginner: 'A lush, shimmering chord that sounds dreamy and open.',
+    intermediate: 'Major 9 chords add the 9th to a major 7th, creating the rich pad sound of neo-soul and smooth jazz.',
+    advanced: 'Stacked thirds up to the 9th (1-3-5-7-9). Functions as a colorful tonic or IV chord; the 9th is a diatonic tension that rarely needs resolution.',
+  },
+  minor9: {
+    badge: 'm9',
+    beginner: 'A smooth, mellow minor chord with extra warmth.',
+    intermediate: 'Adding the 9th to a minor 7th creates the velvety sound at the heart of R&B and neo-soul.',
+    advanced: 'Dorian/Aeolian tension on a minor 7th. As ii9 in a ii-V-I, the 9th often becomes the 13th or 5th of the following chord by common tone.',
+  },
+  dominant11: {
+    badge: '11',
+    beginner: 'A wide, open chord that floats without fully settling.',
+    intermediate: 'The 11th sits above a dominant 9th. Players often drop the 3rd, making it sound like a suspended chord over the bass.',
+    advanced: 'The natural 11 clashes a ♭9 above the 3rd, so the 3rd is usually omitted — effectively IV/V (e.g. F/G). A soft gospel and fusion dominant.',
+  },
+  minor11: {
+    badge: 'm11',
+    beginner: 'A spacious, floating minor chord.',
+    intermediate: 'The 11th adds airy fourths-based color to a minor chord. Modal jazz and neo-soul use it as a home chord.',
+    advanced: 'Unlike on major chords, the 11 is not an avoid note over a minor 3rd, so m11 can sustain as a stable Dorian tonic or ii chord.',
+  },
+  dominant13: {
+    badge: '13',
+    beginner: 'A big, jazzy tension chord full of color.',
+    intermediate: 'The 13th (6th an octave up) adds sophistication to a dominant 7th. Common in jazz, blues, and big-band endings.',
+    advanced: 'The 13 implies the 9 and omits the 11 to avoid clashing with the 3rd. A guide-tone voicing of 3, ♭7 and 13 captures the sound on guitar.',
+  },
+  add11: {
+    badge: 'add11',
+    beginner: 'A chord with an extra note that gives it a chiming, open feel.',
+    intermediate: 'Add11 places the 4th above the triad without a 7th, creating gentle friction against the 3rd.',
+    advanced: 'The 11 against the major 3rd forms a ♭9 interval — a deliberate rub used in indie and ambient music for shimmer.',
+  },
+  dominant7sus4: {
+    badge: '7sus4',
+    beginner: 'A tension chord that hangs in the air before resolving.',
+    intermediate: 'The 4th replaces the 3rd in a dominant 7th, delaying the resolution. Often resolves to the regular 7th chord.',
+    advanced: 'The 7sus4 removes the tritone, so the dominant pull comes from the bass and ♭7 alone. Modal jazz treats it as a static color (the "sus" sound of Herbie Hancock).',
+  },
+  dominant7b9: {
+    badge: '7♭9',
+    beginner: 'A dark, dramatic tension chord that really wants to resolve.',
+    intermediate: 'The flat 9th adds a spicy half-step clash above the root. Classic for resolving to minor chords.',
+    advanced: 'V7♭9 contains a diminished 7th chord built on its 3rd. It is the default dominant in minor keys, borrowing the ♭6 of harmonic minor.',
+  },
+  'dominant7#9': {
+    badge: '7♯9',
+    beginner: 'A gritty, bluesy chord with an edgy bite.',
+    intermediate: 'The "Hendrix chord" - the sharp 9th clashes with the major 3rd, blending major and minor at once.',
+    advanced: 'The ♯9 is enharmonically the minor 3rd, so the chord sounds both thirds. An altered-scale tension common on blues I7 and rock dominants.',
+  },
+  minorMajor7: {
+    badge: 'mMaj7',
+    beginner: 'A spooky, suspenseful minor chord.',
+    intermediate: 'A minor chord with a major 7th creates the classic spy-film and film-noir sound.',
+    advanced: 'The tonic chord of harmonic and melodic minor. Often appears in a descending line cliché (m → mMaj7 → m7 → m6).',
+  },
 };
 
 // Helper to get extension explanation for a chord quality
@@ -404,6 +616,56 @@ export function getInversionExplanation(
   };
 }
 
+// ============================================================================
+// HARMONIC ANALYSIS EXPLANATIONS (cadences, secondary chords)
+// ============================================================================
+
+export interface CadenceExplanation {
+  name: string;
+  beginner: string;
+  intermediate: string;
+  advanced: string;
+}
+
+export const CADENCE_CONTENT: Record<CadenceType, CadenceExplanation> = {
+  authentic: {
+    name: 'Authentic cadence',
+    beginner: 'The tension chord lands firmly back home - the musical equivalent of a full stop.',
+    intermediate: 'V→I (or vii°→I) resolves the leading tone up to the tonic. It is the strongest way to end a phrase.',
+    advanced: 'Authentic cadence: dominant to tonic with root motion down a fifth. The leading tone resolves to 1 and the chordal 7th (if present) falls to 3, closing the phrase.',
+  },
+  half: {
+    name: 'Half cadence',
+    beginner: 'The phrase stops on the tension chord, like a question waiting for an answer.',
+    intermediate: 'Ending on V leaves the phrase open. The next section usually answers it by returning to I.',
+    advanced: 'Half cadence: a phrase ending on V, approached from any chord. It creates an antecedent that a later authentic cadence completes.',
+  },
+  plagal: {
+    name: 'Plagal cadence',
+    beginner: 'A gentle way home from the IV chord - the "Amen" ending.',
+    intermediate: 'IV→I (or iv→I) resolves without a leading tone, so it sounds softer than V→I.',
+    advanced: 'Plagal cadence: subdominant to tonic. Scale degree 4 falls to 3 and 6 to 5, with the tonic held as a common tone. Often appended after an authentic cadence.',
+  },
+  deceptive: {
+    name: 'Deceptive cadence',
+    beginner: 'The music sets up a return home, then steps somewhere unexpected instead.',
+    intermediate: 'V→vi swaps the expected tonic for its relative, extending the phrase with a surprise.',
+    advanced: 'Deceptive cadence: dominant resolving to the submediant. The leading tone still rises to 1, but the bass steps up to 6, so the tonic substitute delays closure.',
+  },
+  'phrygian-half': {
+    name: 'Phrygian half cadence',
+    beginner: 'A dark, old-world pause on the tension chord with a sliding bass.',
+    intermediate: 'In minor, iv6→V moves the bass down a half step from b6 to 5 before pausing.',
+    advanced: 'Phrygian half cadence: iv6–V in minor. The half-step bass descent b6→5 against a rising upper voice echoes the Phrygian mode\'s b2→1 cadence.',
+  },
+};
+
+export const SECONDARY_CHORD_CONTENT: ChordFeatureExplanation = {
+  beginner: 'This chord acts as a tension chord for a different chord in the key, pulling strongly toward it.',
+  intermediate: 'A secondary dominant (V/x) or leading-tone chord (vii°/x) borrows the pull of V→I to point at a chord other than the tonic.',
+  advanced: 'Secondary function: the chord is the dominant or leading-tone chord of a diatonic target, adding a chromatic leading tone. When it resolves, the target is briefly tonicized.',
+};
+
 // ============================================================================
 // COMMON PROGRESSION PATTERN EXPLANATIONS
 // ============================================================================
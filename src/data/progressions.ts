@@ -1,11 +1,15 @@
 import { v4 as uuidv4 } from 'uuid';
-import type { Chord, Key, Mood, Progression, RomanNumeral } from '../types/music';
+import type { Chord, Key, Mode, Mood, Progression, RomanNumeral } from '../types/music';
 import {
-  getDiatonicChords,
   createChord,
   transposeNote,
   getKeyId,
+  getScaleDegree,
+  getChordFunction,
 } from '../utils/musicTheory';
+import { parseRomanNumeral, resolveRomanNumeral, romanNumeralForChord } from '../utils/romanNumerals';
+import { detectBestKey } from '../utils/keyDetection';
+import { getProgressionSubstitutions } from '../utils/substitutions';
 import { getMoodMapping, suggestTempoForMood } from './moods';
 
 // ============================================================================
@@ -13,7 +17,8 @@ import { getMoodMapping, suggestTempoForMood } from './moods';
 // ============================================================================
 
 // Named common progressions with their roman numeral patterns
-export const COMMON_PROGRESSIONS: { name: string; pattern: RomanNumeral[]; description: string }[] = [
+// Modal progressions are tagged with the mode they are written for
+export const COMMON_PROGRESSIONS: { name: string; pattern: RomanNumeral[]; description: string; mode?: Mode }[] = [
   { name: 'Pop Progression', pattern: ['I', 'V', 'vi', 'IV'], description: 'The most common pop/rock progression' },
   { name: '50s Progression', pattern: ['I', 'vi', 'IV', 'V'], description: 'Classic doo-wop and ballad progression' },
   { name: 'Basic Cadence', pattern: ['I', 'IV', 'V', 'I'], description: 'Simple and resolved' },
@@ -24,60 +29,51 @@ export const COMMON_PROGRESSIONS: { name: string; pattern: RomanNumeral[]; descr
   { name: 'Blues Turnaround', pattern: ['I', 'IV', 'I', 'V'], description: 'Basic blues foundation' },
   { name: 'Royal Road', pattern: ['IV', 'V', 'iii', 'vi'], description: 'Common in J-pop and anime' },
   { name: 'Axis Progression', pattern: ['vi', 'IV', 'I', 'V'], description: 'Minor start variant of pop progression' },
+  // Modal progressions
+  { name: 'Dorian Vamp', pattern: ['i', 'IV', 'i', 'IV'], description: 'Funky minor groove built on the bright IV', mode: 'dorian' },
+  { name: 'Dorian Rock', pattern: ['i', 'bVII', 'IV', 'i'], description: 'Classic-rock Dorian movement', mode: 'dorian' },
+  { name: 'Phrygian Vamp', pattern: ['i', 'bII', 'i', 'bII'], description: 'Dark, Spanish-tinged half-step rocking', mode: 'phrygian' },
+  { name: 'Phrygian Descent', pattern: ['i', 'bvii', 'bVI', 'bII'], description: 'Brooding descent landing on the Phrygian bII', mode: 'phrygian' },
+  { name: 'Lydian Float', pattern: ['I', 'II', 'I', 'II'], description: 'Dreamy film-score shimmer from the raised 4th', mode: 'lydian' },
+  { name: 'Lydian Rise', pattern: ['I', 'II', 'vii', 'I'], description: 'Wide-eyed, hovering wonder', mode: 'lydian' },
+  { name: 'Mixolydian Rock', pattern: ['I', 'bVII', 'IV', 'I'], description: 'The "double plagal" rock anthem move', mode: 'mixolydian' },
+  { name: 'Mixolydian Jam', pattern: ['I', 'v', 'bVII', 'IV'], description: 'Laid-back jam-band groove', mode: 'mixolydian' },
+  { name: 'Locrian Tension', pattern: ['i°', 'bII', 'biii', 'bII'], description: 'Unstable, unresolved metal riffing', mode: 'locrian' },
+  { name: 'Harmonic Minor Cadence', pattern: ['i', 'iv', 'V', 'i'], description: 'Minor with a true leading-tone dominant', mode: 'harmonic-minor' },
+  { name: 'Harmonic Minor Drama', pattern: ['i', 'VI', 'vii°', 'V'], description: 'Gothic, neoclassical tension', mode: 'harmonic-minor' },
+  { name: 'Melodic Minor Lift', pattern: ['i', 'IV', 'V', 'i'], description: 'Minor tonic with bright IV and V', mode: 'melodic-minor' },
 ];
 
 // ============================================================================
 // ROMAN NUMERAL TO CHORD CONVERSION
 // ============================================================================
 
-// Roman numeral definitions with interval and quality
-const ROMAN_NUMERAL_DATA: Record<RomanNumeral, { interval: number; quality: 'major' | 'minor' | 'diminished' }> = {
-  'I': { interval: 0, quality: 'major' },
-  'ii': { interval: 2, quality: 'minor' },
-  'iii': { interval: 4, quality: 'minor' },
-  'IV': { interval: 5, quality: 'major' },
-  'V': { interval: 7, quality: 'major' },
-  'vi': { interval: 9, quality: 'minor' },
-  'vii°': { interval: 11, quality: 'diminished' },
-  // Minor key numerals
-  'i': { interval: 0, quality: 'minor' },
-  'ii°': { interval: 2, quality: 'diminished' },
-  'III': { interval: 3, quality: 'major' },
-  'iv': { interval: 5, quality: 'minor' },
-  'v': { interval: 7, quality: 'minor' },
-  'VI': { interval: 8, quality: 'major' },
-  'VII': { interval: 10, quality: 'major' },
-  // Borrowed/chromatic numerals
-  'bII': { interval: 1, quality: 'major' },  // Neapolitan
-  'bIII': { interval: 3, quality: 'major' },
-  'bVI': { interval: 8, quality: 'major' },
-  'bVII': { interval: 10, quality: 'major' },
-};
-
 /**
  * Convert a roman numeral to a chord in a given key
+ * Accepts the full numeral grammar: "V7", "bVII", "vii°7/V", "N6", "I64"
  */
 export function romanNumeralToChord(numeral: RomanNumeral, key: Key): Chord {
-  const data = ROMAN_NUMERAL_DATA[numeral];
-  if (!data) {
+  const keyContext = getKeyId(key);
+  const parsed = parseRomanNumeral(numeral);
+  const resolved = parsed && resolveRomanNumeral(parsed, key);
+  if (!parsed || !resolved) {
     // Fallback for unknown numerals
-    return createChord(key.tonic, 'major', numeral, 'tonic', getKeyId(key));
+    return createChord(key.tonic, 'major', numeral, 'tonic', keyContext);
   }
 
-  const root = transposeNote(key.tonic, data.interval);
-  const keyContext = getKeyId(key);
-
-  // Determine chord function based on numeral
-  let chordFunction: Chord['function'] = 'tonic';
-  if (['IV', 'iv', 'II', 'ii'].some(n => numeral.includes(n))) {
-    chordFunction = 'subdominant';
-  } else if (['V', 'v', 'VII', 'vii'].some(n => numeral.includes(n))) {
-    chordFunction = 'dominant';
-  } else if (numeral.startsWith('b')) {
+  // Secondary chords act as dominants (or predominants) of their target;
+  // chromatic roots are borrowed; diatonic roots take their scale function
+  let chordFunction: Chord['function'];
+  const scaleDegree = getScaleDegree(resolved.root, key);
+  if (parsed.of) {
+    chordFunction = parsed.degree === 5 || parsed.degree === 7 ? 'dominant' : 'predominant';
+  } else if (scaleDegree < 0) {
     chordFunction = 'borrowed';
+  } else {
+    chordFunction = getChordFunction(scaleDegree, key.mode);
   }
 
-  return createChord(root, data.quality, numeral, chordFunction, keyContext);
+  return createChord(resolved.root, resolved.quality, numeral, chordFunction, keyContext, resolved.bassNote);
 }
 
 /**
@@ -117,6 +113,11 @@ export function createProgression(
 export function getCommonProgressions(key: Key): Progression[] {
   // Filter progressions appropriate for the key's mode
   const appropriate = COMMON_PROGRESSIONS.filter(prog => {
+    if (key.mode !== 'major' && key.mode !== 'minor') {
+      return prog.mode === key.mode;
+    }
+    if (prog.mode) return false;
+
     const firstNumeral = prog.pattern[0];
     const isMinorProg = firstNumeral === 'i' || firstNumeral === 'vi';
     return key.mode === 'minor' ? isMinorProg : !isMinorProg;
@@ -161,7 +162,7 @@ export function suggestProgressions(input: {
   if (input.key) {
     key = input.key;
   } else if (input.startingChord) {
-    key = inferKeyFromChord(input.startingChord);
+    key = detectBestKey([input.startingChord]);
   } else if (input.mood) {
     const mapping = getMoodMapping(input.mood);
     key = {
@@ -191,17 +192,6 @@ export function suggestProgressions(input: {
   return progressions.slice(0, 5);
 }
 
-/**
- * Infer a likely key from a chord
- */
-export function inferKeyFromChord(chord: Chord): Key {
-  // Simple heuristic: major chord suggests major key, minor chord suggests minor key
-  if (chord.quality === 'minor' || chord.quality === 'minor7') {
-    return { tonic: chord.root, mode: 'minor' };
-  }
-  return { tonic: chord.root, mode: 'major' };
-}
-
 /**
  * Modify a progression to start with a specific chord
  */
@@ -223,8 +213,8 @@ function ensureStartsWithChord(progression: Progression, chord: Chord): Progress
     return { ...progression, chords: rotated, id: uuidv4() };
   }
 
-  // Replace the first chord
-  chords[0] = { ...chord };
+  // Replace the first chord, relabelled against the progression's key
+  chords[0] = { ...chord, romanNumeral: romanNumeralForChord(chord, progression.key) };
   return { ...progression, chords, id: uuidv4() };
 }
 
@@ -287,40 +277,11 @@ export function replaceChordInProgression(progression: Progression, index: numbe
 
 /**
  * Get alternative chords for a position in a progression
+ * Single-chord replacements from the substitution toolkit: diatonic, borrowed,
+ * secondary dominants, tritone subs and chromatic mediants
  */
 export function getAlternativeChords(progression: Progression, index: number): Chord[] {
-  const currentChord = progression.chords[index];
-  if (!currentChord) return [];
-
-  const diatonicChords = getDiatonicChords(progression.key);
-  const keyContext = getKeyId(progression.key);
-
-  // Filter out the current chord and return alternatives
-  const alternatives = diatonicChords.filter(c =>
-    !(c.root === currentChord.root && c.quality === currentChord.quality)
-  );
-
-  // Add some borrowed chords as options
-  const borrowedOptions: Array<{ interval: number; quality: 'major' | 'minor'; numeral: RomanNumeral }> = [];
-
-  if (progression.key.mode === 'major') {
-    // Borrow from parallel minor
-    borrowedOptions.push(
-      { interval: 10, quality: 'major', numeral: 'bVII' },  // bVII
-      { interval: 5, quality: 'minor', numeral: 'iv' },     // iv
-      { interval: 8, quality: 'major', numeral: 'bVI' },    // bVI
-    );
-  } else {
-    // In minor, the VII is already natural, add major V
-    borrowedOptions.push(
-      { interval: 7, quality: 'major', numeral: 'V' },  // Major V (dominant)
-    );
-  }
-
-  borrowedOptions.forEach(opt => {
-    const root = transposeNote(progression.key.tonic, opt.interval);
-    alternatives.push(createChord(root, opt.quality, opt.numeral, 'borrowed', keyContext));
-  });
-
-  return alternatives;
+  return getProgressionSubstitutions(progression, index)
+    .filter(substitution => substitution.placement === 'replace' && substitution.chords.length === 1)
+    .map(substitution => substitution.chords[0]);
 }
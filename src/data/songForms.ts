@@ -0,0 +1,217 @@
+import type { CadenceType, FormSection, SectionType, SongForm, SongFormName } from '../types/music';
+
+// ============================================================================
+// PRESET FORMS
+// ============================================================================
+
+export const SONG_FORM_NAMES: Record<SongFormName, string> = {
+  simple: 'Verse and chorus',
+  standard: 'Two verses and choruses',
+  withBridge: 'Verses, choruses and a bridge',
+  extended: 'Intro, pre-choruses, bridge and outro',
+  twelveBar: '12-bar blues choruses',
+  aaba: '32-bar AABA',
+  verseBridge: 'Verse, verse, bridge, verse',
+};
+
+export const SONG_FORMS: Record<SongFormName, SongForm> = {
+  simple: {
+    id: 'simple',
+    name: SONG_FORM_NAMES.simple,
+    sections: [
+      { type: 'verse', name: 'Verse', minChords: 4, maxChords: 4, cadence: 'half' },
+      { type: 'chorus', name: 'Chorus', minChords: 4, maxChords: 4, cadence: 'authentic' },
+    ],
+  },
+  standard: {
+    id: 'standard',
+    name: SONG_FORM_NAMES.standard,
+    sections: [
+      { type: 'verse', name: 'Verse 1', minChords: 4, maxChords: 8, cadence: 'half' },
+      { type: 'chorus', name: 'Chorus', minChords: 4, maxChords: 8, cadence: 'authentic' },
+      { type: 'verse', name: 'Verse 2', minChords: 4, maxChords: 8, cadence: 'half' },
+      { type: 'chorus', name: 'Chorus', minChords: 4, maxChords: 8, cadence: 'authentic' },
+    ],
+  },
+  withBridge: {
+    id: 'withBridge',
+    name: SONG_FORM_NAMES.withBridge,
+    sections: [
+      { type: 'verse', name: 'Verse 1', minChords: 4, maxChords: 8, cadence: 'half' },
+      { type: 'chorus', name: 'Chorus', minChords: 4, maxChords: 8, cadence: 'authentic' },
+      { type: 'verse', name: 'Verse 2', minChords: 4, maxChords: 6, cadence: 'deceptive' },
+      { type: 'chorus', name: 'Chorus', minChords: 4, maxChords: 8, cadence: 'authentic' },
+      { type: 'bridge', name: 'Bridge', minChords: 4, maxChords: 8, cadence: 'phrygian-half' },
+      { type: 'chorus', name: 'Final Chorus', minChords: 4, maxChords: 8, cadence: 'authentic' },
+    ],
+  },
+  extended: {
+    id: 'extended',
+    name: SONG_FORM_NAMES.extended,
+    sections: [
+      { type: 'intro', name: 'Intro', minChords: 2, maxChords: 4 },
+      { type: 'verse', name: 'Verse 1', minChords: 4, maxChords: 8, cadence: 'deceptive' },
+      { type: 'pre-chorus', name: 'Pre-Chorus', minChords: 2, maxChords: 4, cadence: 'half' },
+      { type: 'chorus', name: 'Chorus', minChords: 4, maxChords: 8, cadence: 'authentic' },
+      { type: 'verse', name: 'Verse 2', minChords: 4, maxChords: 8, cadence: 'deceptive' },
+      { type: 'pre-chorus', name: 'Pre-Chorus', minChords: 2, maxChords: 4, cadence: 'half' },
+      { type: 'chorus', name: 'Chorus', minChords: 4, maxChords: 8, cadence: 'authentic' },
+      { type: 'bridge', name: 'Bridge', minChords: 4, maxChords: 8, cadence: 'phrygian-half' },
+      { type: 'chorus', name: 'Final Chorus', minChords: 6, maxChords: 12, cadence: 'authentic' },
+      { type: 'outro', name: 'Outro', minChords: 2, maxChords: 4, cadence: 'plagal' },
+    ],
+  },
+  // Blues choruses: the same twelve bars three times
+  twelveBar: {
+    id: 'twelveBar',
+    name: SONG_FORM_NAMES.twelveBar,
+    sections: [
+      { type: 'chorus', name: 'Chorus 1', bars: 12, barPerChord: true },
+      { type: 'chorus', name: 'Chorus 2', bars: 12, barPerChord: true },
+      { type: 'chorus', name: 'Chorus 3', bars: 12, barPerChord: true },
+    ],
+  },
+  // 32-bar song form: three statements of A around a contrasting bridge; the
+  // first A turns aside into its repeat, the second closes
+  aaba: {
+    id: 'aaba',
+    name: SONG_FORM_NAMES.aaba,
+    sections: [
+      { type: 'verse', name: 'A', bars: 8, cadence: 'deceptive' },
+      { type: 'verse', name: 'A', bars: 8, repeat: true, cadence: 'authentic' },
+      { type: 'bridge', name: 'B', bars: 8, cadence: 'half' },
+      { type: 'verse', name: 'A', bars: 8, repeat: true, cadence: 'authentic' },
+    ],
+  },
+  // Verses with a refrain line and no chorus; the bridge comes third
+  verseBridge: {
+    id: 'verseBridge',
+    name: SONG_FORM_NAMES.verseBridge,
+    sections: [
+      { type: 'verse', name: 'Verse 1', bars: 8, cadence: 'authentic' },
+      { type: 'verse', name: 'Verse 2', bars: 8, repeat: true, cadence: 'authentic' },
+      { type: 'bridge', name: 'Bridge', bars: 8, cadence: 'half' },
+      { type: 'verse', name: 'Verse 3', bars: 8, repeat: true, cadence: 'authentic' },
+    ],
+  },
+};
+
+export const SECTION_TYPE_NAMES: Record<SectionType, string> = {
+  'intro': 'Intro',
+  'verse': 'Verse',
+  'pre-chorus': 'Pre-Chorus',
+  'chorus': 'Chorus',
+  'bridge': 'Bridge',
+  'outro': 'Outro',
+  'solo': 'Solo',
+  'breakdown': 'Breakdown',
+};
+
+// How a new section of each type closes, and how long it runs
+const SECTION_CADENCES: Partial<Record<SectionType, CadenceType>> = {
+  'verse': 'half',
+  'pre-chorus': 'half',
+  'chorus': 'authentic',
+  'bridge': 'phrygian-half',
+  'outro': 'plagal',
+};
+
+const SECTION_BARS: Record<SectionType, number> = {
+  'intro': 4,
+  'verse': 8,
+  'pre-chorus': 4,
+  'chorus': 8,
+  'bridge': 8,
+  'outro': 4,
+  'solo': 8,
+  'breakdown': 4,
+};
+
+// ============================================================================
+// LOOKUP
+// ============================================================================
+
+/**
+ * Find a form by id among the presets and any user-defined forms
+ */
+export function getSongForm(id: string, customForms: SongForm[] = []): SongForm | undefined {
+  const custom = customForms.find(form => form.id === id);
+  if (custom) return custom;
+  // A bare index would also find Object prototype members ("constructor")
+  return Object.hasOwn(SONG_FORMS, id) ? SONG_FORMS[id as SongFormName] : undefined;
+}
+
+// ============================================================================
+// BUILDING FORMS
+// ============================================================================
+
+/**
+ * A new section for a form, named after its type (numbered when the form
+ * already has one) with a typical length and cadence
+ */
+export function createFormSection(type: SectionType, sections: FormSection[] = []): FormSection {
+  const sameType = sections.filter(section => section.type === type).length;
+  const label = SECTION_TYPE_NAMES[type];
+  return {
+    type,
+    name: sameType > 0 ? `${label} ${sameType + 1}` : label,
+    bars: SECTION_BARS[type],
+    cadence: SECTION_CADENCES[type],
+  };
+}
+
+/**
+ * A one-line summary of a form: "Verse 1 (8 bars), Chorus, B (bridge, 8 bars)".
+ * The type is given when the name does not say it.
+ */
+export function describeForm(form: SongForm): string {
+  return form.sections
+    .map(section => {
+      const type = SECTION_TYPE_NAMES[section.type].toLowerCase();
+      const details = [
+        section.name.toLowerCase().includes(type) ? '' : type,
+        section.bars ? `${section.bars} bars` : '',
+        section.repeat ? 'repeat' : '',
+      ].filter(Boolean);
+      return details.length > 0 ? `${section.name} (${details.join(', ')})` : section.name;
+    })
+    .join(', ');
+}
+
+// ============================================================================
+// USER-DEFINED FORMS
+// ============================================================================
+
+const CUSTOM_FORMS_STORAGE_KEY = 'chord-flow:song-forms';
+
+// A stored section needs a known type for the form to be described and generated
+function isStoredFormSection(section: unknown): section is FormSection {
+  if (typeof section !== 'object' || section === null) return false;
+  const { type, name } = section as Partial<Record<keyof FormSection, unknown>>;
+  return typeof type === 'string' && Object.hasOwn(SECTION_TYPE_NAMES, type) && typeof name === 'string';
+}
+
+/**
+ * Forms the user has saved in this browser
+ */
+export function loadCustomSongForms(): SongForm[] {
+  try {
+    const stored = localStorage.getItem(CUSTOM_FORMS_STORAGE_KEY);
+    const parsed: unknown = stored ? JSON.parse(stored) : [];
+    return Array.isArray(parsed)
+      ? parsed.filter((form): form is SongForm =>
+          typeof form?.id === 'string' && typeof form?.name === 'string' && Array.isArray(form?.sections) && form.sections.every(isStoredFormSection))
+        .map(form => ({ ...form, isCustom: true }))
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveCustomSongForms(forms: SongForm[]): void {
+  try {
+    localStorage.setItem(CUSTOM_FORMS_STORAGE_KEY, JSON.stringify(forms));
+  } catch {
+    // Storage can be full or disabled; the forms still last for this session
+  }
+}
@@ -0,0 +1,232 @@
+import type { StyleProfile } from '../types/music';
+
+// ============================================================================
+// BUILT-IN STYLE PROFILES
+// ============================================================================
+
+export const STYLE_PROFILES: StyleProfile[] = [
+  {
+    id: 'pop',
+    name: 'Pop',
+    description: 'Plain triads, four-chord loops and a verse-chorus form with a steady strum.',
+    genre: 'pop',
+    traits: { useSevenths: false, useBorrowedChords: false, strummingStyle: 'straight' },
+    progressions: ['Four Chord Song', 'Sensitive Female Chord Progression', '50s Progression'],
+    forms: ['standard', 'withBridge', 'extended'],
+    tempoRange: { min: 95, max: 125 },
+    strummingPatterns: ['pop-strum', 'basic-down-up'],
+  },
+  {
+    id: 'folk',
+    name: 'Folk',
+    description: 'Open triads with the odd suspension, three-chord verses and fingerpicked accompaniment.',
+    genre: 'folk',
+    traits: { useSevenths: false, useBorrowedChords: false, useSuspensions: true, strummingStyle: 'fingerpicking' },
+    progressions: ['Three Chord Trick', 'Folk Waltz', 'Gospel'],
+    forms: ['simple', 'standard'],
+    tempoRange: { min: 80, max: 110 },
+    strummingPatterns: ['folk-fingerpicking', 'campfire-strum'],
+  },
+  {
+    id: 'country',
+    name: 'Country',
+    description: 'I, IV and V with a boom-chick strum and a bridge before the last chorus.',
+    genre: 'folk',
+    traits: { useSevenths: false, useBorrowedChords: false, preferredMode: 'major', strummingStyle: 'straight' },
+    progressions: ['Three Chord Trick', '50s Progression'],
+    forms: ['standard', 'withBridge'],
+    tempoRange: { min: 100, max: 130 },
+    strummingPatterns: ['country-boom-chick'],
+    substitutions: [{ kind: 'secondary-dominant', chance: 0.1 }],
+  },
+  {
+    id: 'blues',
+    name: 'Blues',
+    description: 'Dominant sevenths on I, IV and V through repeated twelve-bar choruses with a shuffle.',
+    genre: 'blues',
+    traits: { useSevenths: true, useBorrowedChords: false, preferredMode: 'major', strummingStyle: 'swing' },
+    progressions: ['12-Bar Blues', 'Quick Change Blues'],
+    forms: ['twelveBar'],
+    tempoRange: { min: 70, max: 110 },
+    strummingPatterns: ['shuffle-blues'],
+  },
+  {
+    id: 'jazz-standard',
+    name: 'Jazz Standard',
+    description: 'Seventh chords, ii–V motion and turnarounds in a 32-bar AABA form, with approach chords and tritone subs.',
+    genre: 'jazz',
+    traits: { useSevenths: true, useBorrowedChords: true, preferredMode: 'major', strummingStyle: 'swing' },
+    progressions: ['Jazz ii-V-I', 'Jazz Turnaround', 'Rhythm Changes Bridge'],
+    forms: ['aaba'],
+    tempoRange: { min: 110, max: 180 },
+    strummingPatterns: ['jazz-swing'],
+    substitutions: [
+      { kind: 'ii-v-approach', chance: 0.2 },
+      { kind: 'tritone-sub', chance: 0.15 },
+      { kind: 'secondary-dominant', chance: 0.15 },
+    ],
+  },
+  {
+    id: 'bossa',
+    name: 'Bossa Nova',
+    description: 'Major and minor sevenths over a syncopated Brazilian pattern, with passing diminished chords.',
+    genre: 'latin',
+    traits: { useSevenths: true, energy: 'low', tension: 'low', strummingStyle: 'latin' },
+    progressions: ['Bossa Nova', 'Latin ii-V'],
+    forms: ['aaba', 'standard'],
+    tempoRange: { min: 120, max: 145 },
+    strummingPatterns: ['latin-bossa'],
+    substitutions: [
+      { kind: 'tritone-sub', chance: 0.1 },
+      { kind: 'diminished-passing', chance: 0.1 },
+    ],
+  },
+  {
+    id: 'neo-soul',
+    name: 'Neo-Soul',
+    description: 'Lush sevenths, suspensions and slash chords at a laid-back tempo, with chromatic side-steps.',
+    genre: 'funk',
+    traits: { useSevenths: true, useSuspensions: true, useInversions: true, energy: 'low', strummingStyle: 'straight' },
+    progressions: ['Lo-fi Chill', 'Minor Funk'],
+    forms: ['standard', 'withBridge'],
+    tempoRange: { min: 70, max: 95 },
+    strummingPatterns: ['muted-groove', 'syncopated-funk'],
+    substitutions: [
+      { kind: 'ii-v-approach', chance: 0.15 },
+      { kind: 'chromatic-mediant', chance: 0.1 },
+    ],
+  },
+  {
+    id: 'punk',
+    name: 'Punk',
+    description: 'Fast downstroked triads, no colour chords, short songs.',
+    genre: 'rock',
+    traits: {
+      useSevenths: false,
+      useBorrowedChords: false,
+      useSuspensions: false,
+      useInversions: false,
+      pedalBassChance: 0,
+      energy: 'high',
+      tension: 'high',
+      strummingStyle: 'palm-muted',
+    },
+    progressions: ['Pop-Punk', 'Three Chord Trick', 'Four Chord Song'],
+    forms: ['simple', 'standard'],
+    tempoRange: { min: 160, max: 200 },
+    strummingPatterns: ['all-downstrokes', 'aggressive-eighth'],
+  },
+  {
+    id: 'cinematic',
+    name: 'Cinematic',
+    description: 'Slow arpeggios over pedal bass, borrowed chords and chromatic mediants in a long, building form.',
+    traits: {
+      useSuspensions: true,
+      useInversions: true,
+      useBorrowedChords: true,
+      pedalBassChance: 0.5,
+      brightness: 'dark',
+      strummingStyle: 'arpeggiated',
+    },
+    progressions: ['Pachelbel Canon', 'Emotional Minor', 'Andalusian Cadence'],
+    forms: ['extended'],
+    tempoRange: { min: 60, max: 90 },
+    strummingPatterns: ['arpeggio-climb', 'gentle-arpeggio'],
+    substitutions: [
+      { kind: 'chromatic-mediant', chance: 0.2 },
+      { kind: 'borrowed', chance: 0.15 },
+    ],
+  },
+  {
+    id: 'lo-fi',
+    name: 'Lo-fi',
+    description: 'Jazzy seventh-chord loops at a slow, relaxed tempo.',
+    genre: 'chill',
+    traits: { useSevenths: true, energy: 'low', tension: 'low', strummingStyle: 'straight' },
+    progressions: ['Lo-fi Chill', 'Dreamy'],
+    forms: ['simple', 'standard'],
+    tempoRange: { min: 70, max: 90 },
+    strummingPatterns: ['muted-groove', 'gentle-arpeggio'],
+    substitutions: [{ kind: 'secondary-dominant', chance: 0.1 }],
+  },
+  {
+    id: 'reggae',
+    name: 'Reggae',
+    description: 'Simple triads with the strum on the offbeats and a one-drop groove.',
+    traits: { useSevenths: false, energy: 'low', strummingStyle: 'reggae' },
+    progressions: ['Four Chord Song', 'Three Chord Trick'],
+    forms: ['standard', 'withBridge'],
+    tempoRange: { min: 70, max: 90 },
+    strummingPatterns: ['island-strum'],
+  },
+];
+
+// Words in a free-text style that select a built-in profile; checked in
+// order, so "pop punk" finds punk before pop
+const STYLE_KEYWORDS: [string, string[]][] = [
+  ['neo-soul', ['neo soul', 'neo-soul', 'r&b']],
+  ['jazz-standard', ['jazz', 'bebop', 'swing', 'standard']],
+  ['bossa', ['bossa', 'samba', 'brazil']],
+  ['lo-fi', ['lo-fi', 'lofi', 'chillhop']],
+  ['punk', ['punk']],
+  ['blues', ['blues']],
+  ['cinematic', ['cinematic', 'film', 'score', 'soundtrack']],
+  ['country', ['country', 'americana', 'bluegrass']],
+  ['folk', ['folk', 'acoustic', 'singer-songwriter']],
+  ['reggae', ['reggae', 'ska', 'dub']],
+  ['pop', ['pop']],
+];
+
+// ============================================================================
+// LOOKUP
+// ============================================================================
+
+/**
+ * Find a profile by id among the built-ins and any user-defined profiles
+ */
+export function getStyleProfile(id: string, customProfiles: StyleProfile[] = []): StyleProfile | undefined {
+  return [...customProfiles, ...STYLE_PROFILES].find(profile => profile.id === id);
+}
+
+/**
+ * Pick the profile a free-text style refers to ("bossa nova" -> Bossa Nova)
+ */
+export function findStyleProfile(style?: string, customProfiles: StyleProfile[] = []): StyleProfile | undefined {
+  if (!style) return undefined;
+  const lower = style.toLowerCase().trim();
+  const named = [...customProfiles, ...STYLE_PROFILES].find(profile => profile.name.toLowerCase() === lower);
+  if (named) return named;
+  const id = STYLE_KEYWORDS.find(([, keywords]) => keywords.some(keyword => lower.includes(keyword)))?.[0];
+  return id ? getStyleProfile(id) : undefined;
+}
+
+// ============================================================================
+// USER-DEFINED PROFILES
+// ============================================================================
+
+const CUSTOM_PROFILES_STORAGE_KEY = 'chord-flow:style-profiles';
+
+/**
+ * Profiles the user has saved in this browser
+ */
+export function loadCustomStyleProfiles(): StyleProfile[] {
+  try {
+    const stored = localStorage.getItem(CUSTOM_PROFILES_STORAGE_KEY);
+    const parsed: unknown = stored ? JSON.parse(stored) : [];
+    return Array.isArray(parsed)
+      ? parsed.filter((profile): profile is StyleProfile =>
+          typeof profile?.id === 'string' && typeof profile?.name === 'string')
+        .map(profile => ({ ...profile, isCustom: true }))
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveCustomStyleProfiles(profiles: StyleProfile[]): void {
+  try {
+    localStorage.setItem(CUSTOM_PROFILES_STORAGE_KEY, JSON.stringify(profiles));
+  } catch {
+    // Storage can be full or disabled; the profiles still last for this session
+  }
+}
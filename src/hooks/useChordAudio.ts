@@ -1,16 +1,23 @@
 import { useState, useRef, useCallback, useEffect } from 'react';
 import * as Tone from 'tone';
-import type { Chord, Progression, Song, AudioState, GuitarFingering } from '../types/music';
-import { getChordVoicings } from '../data/chords';
+import type { Chord, GuitarFingering, MoodAnalysis, Progression, Song, AudioState, PlaybackTrack } from '../types/music';
+import { getChordVoicings, fingeringToMidi } from '../data/chords';
+import {
+  DEFAULT_BEATS_PER_BAR,
+  getChordDurations,
+  getChordEvents,
+  getSectionStartBeats,
+  getSongBeatsPerBar,
+  getSongEvents,
+} from '../utils/harmonicRhythm';
+import { planSectionDrums } from '../utils/drumPatterns';
+import { transposeNote } from '../utils/musicTheory';
+import type { DrumVoice } from '../utils/drumPatterns';
 
 // ============================================================================
 // VOICE LEADING - Minimum Travel Algorithm
 // ============================================================================
 
-// Standard guitar tuning: base MIDI note for each open string
-// String index 0 = 6th string (low E), index 5 = 1st string (high E)
-const STRING_BASE_MIDI = [40, 45, 50, 55, 59, 64]; // E2, A2, D3, G3, B3, E4
-
 // Note name to semitone offset within octave
 const NOTE_TO_SEMITONE: Record<string, number> = {
   'C': 0, 'C#': 1, 'Db': 1,
@@ -85,17 +92,6 @@ function adjustVoicingForBass(
   return adjusted;
 }
 
-/**
- * Convert a fingering to MIDI note values for each string
- * Muted strings ('x') are represented as null
- */
-function fingeringToMidi(fingering: GuitarFingering): (number | null)[] {
-  return fingering.strings.map((fret, stringIndex) => {
-    if (fret === 'x') return null;
-    return STRING_BASE_MIDI[stringIndex] + (fret as number);
-  });
-}
-
 /**
  * Convert MIDI note values back to note names with octaves for playback
  */
@@ -142,17 +138,24 @@ function calculateVoicingCost(
   return comparedStrings > 0 ? cost : 1000;
 }
 
+// A shape fingered above a capo sounds that many semitones higher
+function fingeringToCapoMidi(fingering: GuitarFingering, capo: number): (number | null)[] {
+  return fingeringToMidi(fingering).map(midi => (midi === null ? null : midi + capo));
+}
+
 /**
  * Select the best voicing from candidates using minimum travel algorithm
  * Returns the MIDI notes for the selected voicing
  * If chord has a bassNote, adjusts the voicing so that note is the lowest
+ * With a capo, the shapes fingered under it are raised back to concert pitch
  */
 function selectBestVoicing(
   chord: Chord,
-  lastMidi: (number | null)[] | null
+  lastMidi: (number | null)[] | null,
+  capo: number = 0
 ): (number | null)[] {
-  // Get all available voicings for this chord
-  const voicings = getChordVoicings(chord.root, chord.quality);
+  // Get all available voicings for this chord (as shapes under the capo)
+  const voicings = getChordVoicings(capo ? transposeNote(chord.root, -capo) : chord.root, chord.quality);
 
   // If no voicings found, return a fallback
   if (voicings.length === 0) {
@@ -167,7 +170,7 @@ function selectBestVoicing(
 
   // If this is the first chord (no previous voicing), use the first/open voicing
   if (!lastMidi) {
-    const selectedMidi = fingeringToMidi(voicings[0]);
+    const selectedMidi = fingeringToCapoMidi(voicings[0], capo);
     // Apply bass note adjustment if needed
     if (chord.bassNote) {
       return adjustVoicingForBass(selectedMidi, chord.bassNote);
@@ -180,7 +183,7 @@ function selectBestVoicing(
   let bestCost = Infinity;
 
   for (const voicing of voicings) {
-    let candidateMidi = fingeringToMidi(voicing);
+    let candidateMidi = fingeringToCapoMidi(voicing, capo);
 
     // If chord has a bass note, adjust the candidate voicing
     if (chord.bassNote) {
@@ -195,7 +198,7 @@ function selectBestVoicing(
     }
   }
 
-  let result = fingeringToMidi(bestVoicing);
+  let result = fingeringToCapoMidi(bestVoicing, capo);
 
   // Apply bass note adjustment to final selection
   if (chord.bassNote) {
@@ -217,9 +220,11 @@ function createFallbackVoicing(chord: Chord): (number | null)[] {
   const third = notes[1] || root;
   const fifth = notes[2] || root;
   const seventh = notes[3];
+  const ninth = notes[4];
+  const upper = notes[5];
 
-  // Simple voicing pattern: root-fifth-root/7th-third-fifth-root
-  const voicingNotes = [root, fifth, seventh || root, third, fifth, root];
+  // Simple voicing pattern: root-fifth-root/7th-third-fifth/9th-root/11th/13th
+  const voicingNotes = [root, fifth, seventh || root, third, ninth || fifth, upper || root];
   const octaves = [2, 2, 3, 3, 3, 4];
 
   return voicingNotes.map((note, i) => {
@@ -228,21 +233,122 @@ function createFallbackVoicing(chord: Chord): (number | null)[] {
   });
 }
 
+// ============================================================================
+// MOOD ARC
+// ============================================================================
+
+// Strum velocity for sections with their own energy on a mood arc
+const ARC_STRUM_STRENGTH: Record<MoodAnalysis['energy'], number> = { low: 0.8, medium: 1, high: 1.15 };
+
+// ============================================================================
+// DRUM KIT - Synthesized, no samples
+// ============================================================================
+
+interface DrumKit {
+  bus: Tone.Volume;
+  kick: Tone.MembraneSynth;
+  tom: Tone.MembraneSynth;
+  snare: Tone.NoiseSynth;
+  snareFilter: Tone.Filter;
+  hihat: Tone.MetalSynth;
+  crash: Tone.MetalSynth;
+}
+
+function createDrumKit(destination: Tone.ToneAudioNode): DrumKit {
+  const bus = new Tone.Volume(-8).connect(destination);
+
+  const kick = new Tone.MembraneSynth({
+    pitchDecay: 0.05,
+    octaves: 6,
+    envelope: { attack: 0.001, decay: 0.35, sustain: 0, release: 0.1 },
+  }).connect(bus);
+
+  const tom = new Tone.MembraneSynth({
+    pitchDecay: 0.08,
+    octaves: 2,
+    volume: -4,
+    envelope: { attack: 0.001, decay: 0.3, sustain: 0, release: 0.1 },
+  }).connect(bus);
+
+  // Noise through a band-pass for the snare wires
+  const snareFilter = new Tone.Filter({ type: 'bandpass', frequency: 2500, Q: 0.8 }).connect(bus);
+  const snare = new Tone.NoiseSynth({
+    noise: { type: 'white' },
+    envelope: { attack: 0.001, decay: 0.15, sustain: 0, release: 0.05 },
+  }).connect(snareFilter);
+
+  const hihat = new Tone.MetalSynth({
+    volume: -20,
+    harmonicity: 5.1,
+    modulationIndex: 32,
+    resonance: 5000,
+    octaves: 1.5,
+    envelope: { attack: 0.001, decay: 0.05, release: 0.01 },
+  }).connect(bus);
+
+  const crash = new Tone.MetalSynth({
+    volume: -18,
+    harmonicity: 5.1,
+    modulationIndex: 40,
+    resonance: 4000,
+    octaves: 1.5,
+    envelope: { attack: 0.001, decay: 1.2, release: 0.5 },
+  }).connect(bus);
+
+  return { bus, kick, tom, snare, snareFilter, hihat, crash };
+}
+
+function triggerDrum(kit: DrumKit, voice: DrumVoice, time: number, velocity: number) {
+  try {
+    switch (voice) {
+      case 'kick':
+        kit.kick.triggerAttackRelease('C1', '8n', time, velocity);
+        break;
+      case 'tom':
+        kit.tom.triggerAttackRelease('A2', '8n', time, velocity);
+        break;
+      case 'snare':
+        kit.snare.triggerAttackRelease('16n', time, velocity);
+        break;
+      case 'hihat':
+        kit.hihat.triggerAttackRelease(300, '32n', time, velocity);
+        break;
+      case 'crash':
+        kit.crash.triggerAttackRelease(300, '1n', time, velocity);
+        break;
+    }
+  } catch {
+    // A monophonic voice cannot start twice at the same instant; drop the repeat
+  }
+}
+
+function disposeDrumKit(kit: DrumKit) {
+  [kit.kick, kit.tom, kit.snare, kit.snareFilter, kit.hihat, kit.crash, kit.bus].forEach(node => node.dispose());
+}
+
 export function useChordAudio() {
   const [audioState, setAudioState] = useState<AudioState>({
     isReady: false,
     isPlaying: false,
     currentChordIndex: -1,
     currentSectionIndex: -1,
+    mutedTracks: [],
   });
 
   // Audio nodes
   const synthRef = useRef<Tone.PolySynth | null>(null);
+  const melodySynthRef = useRef<Tone.Synth | null>(null);
+  const bassSynthRef = useRef<Tone.MonoSynth | null>(null);
+  const drumKitRef = useRef<DrumKit | null>(null);
+  const mutedTracksRef = useRef<Set<PlaybackTrack>>(new Set());
   const reverbRef = useRef<Tone.Reverb | null>(null);
   const limiterRef = useRef<Tone.Limiter | null>(null);
   const filterRef = useRef<Tone.Filter | null>(null);
   const isLoopingRef = useRef(false);
+  const baseTempoRef = useRef(120);
+  const tempoShiftRef = useRef(0);   // Current section's offset from the base tempo
   const strumDirectionRef = useRef<'down' | 'up'>('down');
+  const capoRef = useRef(0);         // Capo the chord shapes are played with
 
   // Voice leading: track the last played voicing for smooth transitions
   const lastVoicingRef = useRef<(number | null)[] | null>(null);
@@ -297,6 +403,42 @@ export function useChordAudio() {
       synthRef.current.maxPolyphony = 12;
       synthRef.current.connect(filterRef.current);
 
+      // Soft monophonic lead for the melody, sitting just above the guitar
+      melodySynthRef.current = new Tone.Synth({
+        volume: -10,
+        oscillator: { type: 'triangle' },
+        envelope: {
+          attack: 0.02,
+          decay: 0.1,
+          sustain: 0.6,
+          release: 0.3,
+        },
+      });
+      melodySynthRef.current.connect(filterRef.current);
+
+      // Round electric bass: filtered saw with a quick pluck; skips the reverb
+      bassSynthRef.current = new Tone.MonoSynth({
+        volume: -6,
+        oscillator: { type: 'sawtooth' },
+        filter: { type: 'lowpass', Q: 1 },
+        envelope: {
+          attack: 0.005,
+          decay: 0.2,
+          sustain: 0.5,
+          release: 0.15,
+        },
+        filterEnvelope: {
+          attack: 0.005,
+          decay: 0.15,
+          sustain: 0.3,
+          baseFrequency: 150,
+          octaves: 2.5,
+        },
+      });
+      bassSynthRef.current.connect(limiterRef.current);
+
+      drumKitRef.current = createDrumKit(limiterRef.current);
+
       setAudioState(prev => ({ ...prev, isReady: true }));
       return true;
     } catch (error) {
@@ -311,6 +453,9 @@ export function useChordAudio() {
       Tone.getTransport().stop();
       Tone.getTransport().cancel();
       synthRef.current?.dispose();
+      melodySynthRef.current?.dispose();
+      bassSynthRef.current?.dispose();
+      if (drumKitRef.current) disposeDrumKit(drumKitRef.current);
       filterRef.current?.dispose();
       reverbRef.current?.dispose();
       limiterRef.current?.dispose();
@@ -319,11 +464,11 @@ export function useChordAudio() {
 
   // Play a strummed chord with realistic guitar sound and voice leading
   const playStrummedChord = useCallback(
-    (chord: Chord, time: number, duration: string = '2n') => {
+    (chord: Chord, time: number, duration: Tone.Unit.Time = '2n', strength: number = 1) => {
       if (!synthRef.current) return;
 
       // Select the best voicing using minimum travel algorithm
-      const selectedMidi = selectBestVoicing(chord, lastVoicingRef.current);
+      const selectedMidi = selectBestVoicing(chord, lastVoicingRef.current, capoRef.current);
 
       // Update the last voicing for the next chord
       lastVoicingRef.current = selectedMidi;
@@ -344,9 +489,9 @@ export function useChordAudio() {
 
         const noteTime = time + strumOffset;
         // Slight velocity variation for realism (lower strings slightly louder)
-        const velocity = direction === 'down'
+        const velocity = strength * (direction === 'down'
           ? 0.7 + (index * 0.03)
-          : 0.85 - (index * 0.02);
+          : 0.85 - (index * 0.02));
 
         try {
           synthRef.current?.triggerAttackRelease(
@@ -366,14 +511,30 @@ export function useChordAudio() {
     []
   );
 
+  // Strum a chord on its first beat and again every bar while it is held;
+  // a strum rings for at most half a bar
+  const scheduleStrums = useCallback(
+    (chord: Chord, startBeat: number, beats: number, beatsPerBar: number, beatDuration: number, strength: number = 1) => {
+      for (let offset = 0; offset < beats; offset += beatsPerBar) {
+        const ring = Math.min(beats - offset, beatsPerBar / 2) * beatDuration;
+        Tone.getTransport().schedule((time) => {
+          if (mutedTracksRef.current.has('chords')) return;
+          playStrummedChord(chord, time, ring, strength);
+        }, (startBeat + offset) * beatDuration);
+      }
+    },
+    [playStrummedChord]
+  );
+
   // Play a single chord (for clicking on individual chords)
   const playChord = useCallback(
-    async (chord: Chord, duration: string = '2n') => {
+    async (chord: Chord, duration: string = '2n', capo: number = 0) => {
       if (!audioState.isReady) {
         const success = await initializeAudio();
         if (!success) return;
       }
 
+      capoRef.current = capo;
       const now = Tone.now();
       playStrummedChord(chord, now, duration);
     },
@@ -387,7 +548,10 @@ export function useChordAudio() {
     Tone.getTransport().position = 0;
     Tone.getTransport().loop = false;
     synthRef.current?.releaseAll();
+    melodySynthRef.current?.triggerRelease();
+    bassSynthRef.current?.triggerRelease();
     strumDirectionRef.current = 'down';
+    tempoShiftRef.current = 0;
     // Reset voice leading state so next playback starts fresh
     lastVoicingRef.current = null;
     setAudioState(prev => ({
@@ -409,28 +573,68 @@ export function useChordAudio() {
       stopPlayback();
 
       isLoopingRef.current = loop;
+      baseTempoRef.current = tempo;
+      capoRef.current = song.capo ?? 0;
       Tone.getTransport().bpm.value = tempo;
 
-      // Flatten all chords with section tracking
-      const allChords: { chord: Chord; sectionIndex: number; chordIndex: number }[] = [];
+      // Every chord with its section and start beat
+      const events = getSongEvents(song);
+      if (events.length === 0) return;
+
+      // Schedule each chord at its beat
+      const beatDuration = Tone.Time('4n').toSeconds();
+      const beatsPerBar = getSongBeatsPerBar(song);
+      const lastEvent = events[events.length - 1];
+      const totalBeats = lastEvent.songBeat + lastEvent.beats;
+
+      // Melody and bass notes (slightly detached so repeated pitches
+      // re-articulate) and the drum part for each section
+      const sectionStarts = getSectionStartBeats(song);
+      const followsArc = song.sections.some(section => section.tempoShift);
       song.sections.forEach((section, sectionIndex) => {
-        section.chords.forEach((chord, chordIndex) => {
-          allChords.push({ chord, sectionIndex, chordIndex });
+        const sectionTime = sectionStarts[sectionIndex] * beatDuration;
+        // Sections on a mood arc speed up or slow down; events are already
+        // placed in beats, so they follow the tempo
+        if (followsArc) {
+          Tone.getTransport().schedule((time) => {
+            tempoShiftRef.current = section.tempoShift ?? 0;
+            Tone.getTransport().bpm.setValueAtTime(baseTempoRef.current + tempoShiftRef.current, time);
+          }, sectionTime);
+        }
+        section.melody?.forEach(({ midi, startBeat, beats }) => {
+          if (midi === null) return;
+          Tone.getTransport().schedule((time) => {
+            if (mutedTracksRef.current.has('melody')) return;
+            melodySynthRef.current?.triggerAttackRelease(
+              Tone.Frequency(midi, 'midi').toNote(),
+              beats * beatDuration * 0.9,
+              time,
+              0.8
+            );
+          }, sectionTime + startBeat * beatDuration);
+        });
+        section.bassLine?.forEach(({ midi, startBeat, beats }) => {
+          if (midi === null) return;
+          Tone.getTransport().schedule((time) => {
+            if (mutedTracksRef.current.has('bass')) return;
+            bassSynthRef.current?.triggerAttackRelease(
+              Tone.Frequency(midi, 'midi').toNote(),
+              beats * beatDuration * 0.85,
+              time,
+              0.9
+            );
+          }, sectionTime + startBeat * beatDuration);
+        });
+        planSectionDrums(song, sectionIndex).hits.forEach(({ voice, beat, velocity }) => {
+          Tone.getTransport().schedule((time) => {
+            if (mutedTracksRef.current.has('drums') || !drumKitRef.current) return;
+            triggerDrum(drumKitRef.current, voice, time, velocity);
+          }, sectionTime + beat * beatDuration);
         });
       });
 
-      if (allChords.length === 0) return;
-
-      // Schedule each chord
-      const measureDuration = Tone.Time('1m').toSeconds();
-
-      allChords.forEach((item, index) => {
-        const { chord, sectionIndex, chordIndex } = item;
-        const startTime = index * measureDuration;
-
+      events.forEach(({ chord, sectionIndex, chordIndex, songBeat, beats }) => {
         Tone.getTransport().schedule((time) => {
-          playStrummedChord(chord, time, '2n');
-
           // Update UI on the main thread
           Tone.getDraw().schedule(() => {
             setAudioState(prev => ({
@@ -439,12 +643,15 @@ export function useChordAudio() {
               currentChordIndex: chordIndex,
             }));
           }, time);
-        }, startTime);
+        }, songBeat * beatDuration);
+
+        const arcEnergy = song.sections[sectionIndex].moodAnalysis?.energy;
+        scheduleStrums(chord, songBeat, beats, beatsPerBar, beatDuration, arcEnergy ? ARC_STRUM_STRENGTH[arcEnergy] : 1);
       });
 
       // Set up looping
       if (loop) {
-        const loopDuration = allChords.length * measureDuration;
+        const loopDuration = totalBeats * beatDuration;
         Tone.getTransport().loop = true;
         Tone.getTransport().loopStart = 0;
         Tone.getTransport().loopEnd = loopDuration;
@@ -460,13 +667,13 @@ export function useChordAudio() {
 
       // Schedule end for non-looping playback
       if (!loop) {
-        const endTime = allChords.length * measureDuration + 2;
+        const endTime = totalBeats * beatDuration + 2;
         Tone.getTransport().scheduleOnce(() => {
           stopPlayback();
         }, endTime);
       }
     },
-    [audioState.isReady, initializeAudio, stopPlayback, playStrummedChord]
+    [audioState.isReady, initializeAudio, stopPlayback, scheduleStrums]
   );
 
   // Play a simple progression
@@ -480,29 +687,30 @@ export function useChordAudio() {
       stopPlayback();
 
       isLoopingRef.current = loop;
+      capoRef.current = 0;
       Tone.getTransport().bpm.value = tempo;
 
       const chords = progression.chords;
       if (chords.length === 0) return;
 
-      // Schedule each chord
-      const measureDuration = Tone.Time('1m').toSeconds();
-
-      chords.forEach((chord, index) => {
-        const startTime = index * measureDuration;
+      // Progressions are one bar per chord
+      const events = getChordEvents(chords, getChordDurations({ chords }, DEFAULT_BEATS_PER_BAR));
+      const beatDuration = Tone.Time('4n').toSeconds();
+      const totalBeats = events.reduce((sum, event) => sum + event.beats, 0);
 
+      events.forEach(({ chord, chordIndex, startBeat, beats }) => {
         Tone.getTransport().schedule((time) => {
-          playStrummedChord(chord, time, '2n');
-
           Tone.getDraw().schedule(() => {
-            setAudioState(prev => ({ ...prev, currentChordIndex: index }));
+            setAudioState(prev => ({ ...prev, currentChordIndex: chordIndex }));
           }, time);
-        }, startTime);
+        }, startBeat * beatDuration);
+
+        scheduleStrums(chord, startBeat, beats, DEFAULT_BEATS_PER_BAR, beatDuration);
       });
 
       // Set up looping
       if (loop) {
-        const loopDuration = chords.length * measureDuration;
+        const loopDuration = totalBeats * beatDuration;
         Tone.getTransport().loop = true;
         Tone.getTransport().loopStart = 0;
         Tone.getTransport().loopEnd = loopDuration;
@@ -513,18 +721,31 @@ export function useChordAudio() {
 
       // Schedule end for non-looping playback
       if (!loop) {
-        const endTime = chords.length * measureDuration + 2;
+        const endTime = totalBeats * beatDuration + 2;
         Tone.getTransport().scheduleOnce(() => {
           stopPlayback();
         }, endTime);
       }
     },
-    [audioState.isReady, initializeAudio, stopPlayback, playStrummedChord]
+    [audioState.isReady, initializeAudio, stopPlayback, scheduleStrums]
   );
 
   // Update tempo while playing
   const setTempo = useCallback((tempo: number) => {
-    Tone.getTransport().bpm.value = tempo;
+    baseTempoRef.current = tempo;
+    Tone.getTransport().bpm.value = tempo + tempoShiftRef.current;
+  }, []);
+
+  // Mute or unmute one instrument; scheduled notes check this as they fire
+  // so it takes effect while playing
+  const toggleTrack = useCallback((track: PlaybackTrack) => {
+    const muted = mutedTracksRef.current;
+    if (muted.has(track)) {
+      muted.delete(track);
+    } else {
+      muted.add(track);
+    }
+    setAudioState(prev => ({ ...prev, mutedTracks: Array.from(muted) }));
   }, []);
 
   // Update loop setting
@@ -542,6 +763,7 @@ export function useChordAudio() {
     stopPlayback,
     setTempo,
     setLooping,
+    toggleTrack,
   };
 }
 
@@ -5,12 +5,24 @@ import type {
   Chord,
   Key,
   AIGenerationRequest,
-  CanonicalNote,
-  ChordQuality,
+  GenerationConstraints,
+  Mode,
+  ModulationType,
   SectionType,
+  StyleProfile,
 } from '../types/music';
-import { normalizeNoteName, createChord, getKeyId } from '../utils/musicTheory';
+import { createChord, getKeyId, formatKeyName, parseSpelledNote, ALL_MODES } from '../utils/musicTheory';
+import { parseChordSymbol } from '../utils/chordSymbols';
+import { annotateChords } from '../utils/harmonicAnalysis';
+import { detectBestKey } from '../utils/keyDetection';
+import { CADENCE_NAMES, constrainSong } from '../utils/constraints';
+import { linkSectionKeys } from '../utils/modulation';
+import { DEFAULT_BEATS_PER_BAR, countSectionBars } from '../utils/harmonicRhythm';
 import { generateAlgorithmicSong } from './algorithmicGenerator';
+import { generateMarkovSong } from './markovGenerator';
+import { SUBSTITUTION_KIND_LABELS } from '../utils/substitutions';
+import { splitMoodArc } from '../utils/moodArc';
+import { describeForm } from '../data/songForms';
 
 const ANTHROPIC_API_URL = 'https://api.anthropic.com/v1/messages';
 
@@ -24,6 +36,8 @@ When generating chord progressions, follow these principles:
 4. Include varied sections (verse, chorus, bridge) for a complete song structure
 5. Use appropriate chord qualities (major, minor, 7ths, suspended, etc.) to enhance the mood
 
+The key mode may be "major", "minor", "dorian", "phrygian", "lydian", "mixolydian", "locrian", "harmonic-minor" or "melodic-minor". When using a mode, keep the harmony modal (e.g. D dorian: Dm, G, C, Am) rather than drifting to the relative major.
+
 IMPORTANT: You must respond with ONLY valid JSON in the exact format specified. No explanations outside the JSON.
 
 Response format:
@@ -41,14 +55,16 @@ Response format:
     {
       "type": "chorus",
       "name": "Chorus",
-      "chords": ["F", "G", "C", "Am"],
-      "bars": 8
+      "chords": ["F", "G", "C", { "chord": "Am", "beats": 2 }, { "chord": "G", "beats": 2 }],
+      "bars": 4
     }
   ],
   "explanation": "Brief explanation of the musical choices"
 }
 
 Valid section types: intro, verse, pre-chorus, chorus, bridge, outro, solo, breakdown
+A chord lasts one 4/4 bar unless written as { "chord": "Am", "beats": 2 } (beats are quarter notes), so two chords can share a bar or one chord can be held for several bars. A section that starts with a pickup before its first downbeat sets "pickupBeats" to the length of the pickup.
+A section that modulates may add its own "key" (same format as the song key); sections without one are in the song key.
 Valid chord formats:
 - Basic: C, D, E, F, G, A, B (with #/b for sharps/flats)
 - Minor: Am, Dm, Em, etc.
@@ -56,85 +72,81 @@ Valid chord formats:
 - Suspended: Csus2, Dsus4, etc.
 - Diminished: Bdim, C#dim7, etc.
 - Augmented: Caug, etc.
-- Extended: Cadd9, Dm9, G13, etc.
+- Sixths: C6, Am6, etc.
+- Extended: Cadd9, Cadd11, G9, Cmaj9, Dm9, Dm11, G11, G13, etc.
+- Altered/other: G7sus4, G7b9, E7#9, CmMaj7, etc.
+- Slash chords (bass note): C/E, G/B, Am/G, etc.
 
 Match complexity to the mood - simple folk songs need fewer complex chords, jazz/progressive needs more sophisticated harmony.`;
 
-// Parse a chord string into root and quality
-function parseChordString(chordStr: string): { root: CanonicalNote; quality: ChordQuality } | null {
-  const str = chordStr.trim();
-
-  // Match root note (with optional sharp/flat)
-  const rootMatch = str.match(/^([A-G][#b]?)/);
-  if (!rootMatch) return null;
-
-  const rootRaw = rootMatch[1];
-  const root = normalizeNoteName(rootRaw as any);
-
-  const suffix = str.slice(rootMatch[0].length).toLowerCase();
-
-  // Determine quality from suffix
-  let quality: ChordQuality = 'major';
-
-  if (suffix === '' || suffix === 'maj') {
-    quality = 'major';
-  } else if (suffix === 'm' || suffix === 'min' || suffix === 'minor') {
-    quality = 'minor';
-  } else if (suffix === 'dim' || suffix === '°' || suffix === 'dim7' || suffix === '°7') {
-    quality = suffix.includes('7') ? 'dim7' : 'diminished';
-  } else if (suffix === 'aug' || suffix === '+') {
-    quality = 'augmented';
-  } else if (suffix === '7' || suffix === 'dom7') {
-    quality = 'dominant7';
-  } else if (suffix === 'maj7' || suffix === 'M7' || suffix === 'Δ7') {
-    quality = 'major7';
-  } else if (suffix === 'm7' || suffix === 'min7' || suffix === '-7') {
-    quality = 'minor7';
-  } else if (suffix === 'm7b5' || suffix === 'ø' || suffix === 'ø7') {
-    quality = 'half-dim7';
-  } else if (suffix === 'sus2') {
-    quality = 'sus2';
-  } else if (suffix === 'sus4' || suffix === 'sus') {
-    quality = 'sus4';
-  } else if (suffix === 'add9' || suffix === '2') {
-    quality = 'add9';
-  } else if (suffix.includes('m')) {
-    // Catch-all for minor variants (m9, m11, etc.)
-    quality = 'minor7';
-  } else if (suffix.match(/^\d/)) {
-    // Numbers like 9, 11, 13 - treat as dominant
-    quality = 'dominant7';
-  }
+// How to ask for each planned key change
+const MODULATION_PROMPTS: Record<ModulationType, string> = {
+  'truck-driver': 'Lift the final chorus up a whole step with no preparation (truck-driver modulation).',
+  'relative': 'Put the bridge in the relative major/minor key, then return to the home key.',
+  'dominant': 'Modulate to the dominant key for the second half, using a pivot chord common to both keys followed by V7 of the new key.',
+};
+
+// A key as the AI states it, or null when the tonic or mode is not valid
+function parseResponseKey(value: { tonic?: unknown; mode?: unknown } | undefined): Key | null {
+  const tonic = parseSpelledNote(String(value?.tonic ?? ''));
+  const mode = ALL_MODES.find((candidate: Mode) => candidate === value?.mode);
+  return tonic && mode ? { tonic, mode } : null;
+}
+
+// A chord entry is a symbol, or { chord, beats } for a chord that is not one bar long
+type ChordEntry = string | { chord?: unknown; beats?: unknown };
 
-  return { root, quality };
+function readChordEntry(entry: ChordEntry): { symbol: string; beats?: number } {
+  if (typeof entry !== 'object' || entry === null) return { symbol: String(entry) };
+  const beats = Number(entry.beats);
+  return { symbol: String(entry.chord ?? ''), beats: beats > 0 ? beats : undefined };
 }
 
 // Convert parsed AI response to Song structure
 function parseAIResponse(response: any, customMood: string): Song {
-  const keyTonic = normalizeNoteName((response.key?.tonic || 'C') as any);
-  const keyMode = response.key?.mode === 'minor' ? 'minor' : 'major';
-  const key: Key = { tonic: keyTonic, mode: keyMode };
+  // Trust the stated key when it is valid; otherwise detect it from the chords
+  const key: Key = parseResponseKey(response.key)
+    ?? detectBestKey(
+      (response.sections || [])
+        .flatMap((section: { chords?: ChordEntry[] }) => section.chords || [])
+        .flatMap((entry: ChordEntry) => {
+          const parsed = parseChordSymbol(readChordEntry(entry).symbol, { lenient: true });
+          return parsed.ok ? [parsed.chord] : [];
+        })
+    );
   const keyContext = getKeyId(key);
 
   const sections: SongSection[] = (response.sections || []).map((section: any, index: number) => {
-    const chords: Chord[] = (section.chords || []).map((chordStr: string) => {
-      const parsed = parseChordString(chordStr);
-      if (!parsed) {
+    const sectionKey = parseResponseKey(section.key) ?? key;
+    const sectionKeyContext = getKeyId(sectionKey);
+    const entries = (section.chords || []).map(readChordEntry);
+    const parsedChords: Chord[] = entries.map(({ symbol }: { symbol: string }) => {
+      const parsed = parseChordSymbol(symbol, { keyContext: sectionKeyContext, lenient: true });
+      if (!parsed.ok) {
         // Fallback to C major if parsing fails
-        return createChord('C', 'major', undefined, undefined, keyContext);
+        return createChord('C', 'major', undefined, undefined, sectionKeyContext);
       }
-      return createChord(parsed.root, parsed.quality, undefined, undefined, keyContext);
+      return parsed.chord;
     });
 
+    const chords = annotateChords(parsedChords, sectionKey);
     const sectionType = validateSectionType(section.type);
 
-    return {
+    // Durations only when some chord is not a whole bar
+    const hasDurations = entries.some((entry: { beats?: number }) => entry.beats !== undefined);
+    const pickupBeats = Number(section.pickupBeats) > 0 ? Number(section.pickupBeats) : undefined;
+    const parsedSection: SongSection = {
       id: uuidv4(),
       type: sectionType,
       name: section.name || `${sectionType} ${index + 1}`,
       chords,
-      bars: section.bars || chords.length,
+      durations: hasDurations
+        ? entries.map((entry: { beats?: number }) => entry.beats ?? DEFAULT_BEATS_PER_BAR)
+        : undefined,
+      pickupBeats,
+      key: sectionKey,
     };
+    return { ...parsedSection, bars: countSectionBars(parsedSection, DEFAULT_BEATS_PER_BAR) };
   });
 
   // Ensure at least one section
@@ -159,7 +171,7 @@ function parseAIResponse(response: any, customMood: string): Song {
     description: response.explanation,
     key,
     tempo: response.tempo || 100,
-    sections,
+    sections: linkSectionKeys(sections, key),
     customMood,
     generatedBy: 'ai',
   };
@@ -251,15 +263,21 @@ export async function generateProgressionWithAI(
     throw new Error('Failed to parse AI response as JSON');
   }
 
-  return parseAIResponse(parsed, request.mood);
+  // The prompt asks for the constraints; enforce and report them regardless
+  return constrainSong(parseAIResponse(parsed, request.mood), request.constraints);
 }
 
 function buildUserPrompt(request: AIGenerationRequest): string {
   let prompt = `Generate a chord progression for a song with the following characteristics:\n\n`;
   prompt += `Mood/Feeling: ${request.mood}\n`;
 
+  const arc = splitMoodArc(request.mood);
+  if (arc.length > 1) {
+    prompt += `Mood arc: ${arc.map(stage => stage.phrase).join(' → ')} (let the sections follow it in order, with chord colour, borrowed chords and energy changing along the way)\n`;
+  }
+
   if (request.key) {
-    prompt += `Key: ${request.key.tonic} ${request.key.mode}\n`;
+    prompt += `Key: ${formatKeyName(request.key)}\n`;
   } else {
     prompt += `Key: Choose an appropriate key for the mood\n`;
   }
@@ -268,6 +286,10 @@ function buildUserPrompt(request: AIGenerationRequest): string {
     prompt += `Style/Genre: ${request.style}\n`;
   }
 
+  if (request.styleProfile) {
+    prompt += buildStylePrompt(request.styleProfile);
+  }
+
   if (request.complexity) {
     prompt += `Complexity: ${request.complexity}\n`;
     if (request.complexity === 'simple') {
@@ -277,12 +299,78 @@ function buildUserPrompt(request: AIGenerationRequest): string {
     }
   }
 
-  prompt += `\nPlease generate a complete song structure with verse, chorus, and optionally bridge or other sections. Make the progression musically interesting and appropriate for the mood.`;
+  if (request.modulation) {
+    prompt += `Key change: ${MODULATION_PROMPTS[request.modulation]}\n`;
+  }
+
+  if (request.form) {
+    prompt += `Song form: ${describeForm(request.form)}\n`;
+    prompt += `(Use exactly these sections in this order with these names and types; fill each bar count exactly, and give a "repeat" section the same chords as the earlier section it repeats)\n`;
+  }
+
+  if (request.constraints) {
+    prompt += buildConstraintPrompt(request.constraints);
+  }
+
+  prompt += request.form
+    ? `\nPlease generate the chords for every section of this form. Make the progression musically interesting and appropriate for the mood.`
+    : `\nPlease generate a complete song structure with verse, chorus, and optionally bridge or other sections. Make the progression musically interesting and appropriate for the mood.`;
 
   return prompt;
 }
 
-// Fallback generation without AI (uses algorithmic music theory generator)
+function buildConstraintPrompt(constraints: GenerationConstraints): string {
+  const lines: string[] = [];
+
+  for (const pin of constraints.pinnedChords ?? []) {
+    const where = pin.sectionType ? `every ${pin.sectionType}` : 'every section';
+    lines.push(`Chord ${pin.position + 1} of ${where} must be ${pin.chord}`);
+  }
+  if (constraints.allowedChords?.length) {
+    lines.push(`Use only these chords: ${constraints.allowedChords.join(', ')}`);
+  }
+  if (constraints.bannedChords?.length) {
+    lines.push(`Never use these chords: ${constraints.bannedChords.join(', ')}`);
+  }
+  if (constraints.maxDistinctChords !== undefined) {
+    lines.push(`Use at most ${constraints.maxDistinctChords} different chords in the whole song`);
+  }
+  if (constraints.endingCadence) {
+    lines.push(`End the last section with a ${CADENCE_NAMES[constraints.endingCadence]} cadence`);
+  }
+  if (constraints.noBarreChords) {
+    lines.push('Every chord must be playable on guitar without a barre');
+  }
+  if (constraints.maxFret !== undefined) {
+    lines.push(`Every chord must be playable on guitar at or below fret ${constraints.maxFret}`);
+  }
+
+  return lines.length > 0 ? `\nHard constraints (must be followed):\n${lines.map(line => `- ${line}`).join('\n')}\n` : '';
+}
+
+function buildStylePrompt(style: StyleProfile): string {
+  const lines: string[] = [style.description];
+
+  if (style.progressions?.length) {
+    lines.push(`Favour progressions like: ${style.progressions.join(', ')}`);
+  }
+  if (style.tempoRange) {
+    lines.push(`Tempo between ${style.tempoRange.min} and ${style.tempoRange.max} BPM`);
+  }
+  if (style.timeSignature) {
+    lines.push(`Time signature ${style.timeSignature.beats}/${style.timeSignature.value}`);
+  }
+  if (style.traits?.useSevenths !== undefined) {
+    lines.push(style.traits.useSevenths ? 'Use seventh chords freely' : 'Avoid seventh chords');
+  }
+  if (style.substitutions?.length) {
+    lines.push(`Typical substitutions: ${style.substitutions.map(rule => SUBSTITUTION_KIND_LABELS[rule.kind]).join(', ')}`);
+  }
+
+  return `\nStyle profile "${style.name}":\n${lines.map(line => `- ${line}`).join('\n')}\n`;
+}
+
+// Fallback generation without AI (uses the requested offline backend)
 export function generateProgressionFallback(request: AIGenerationRequest): Song {
-  return generateAlgorithmicSong(request);
+  return request.generator === 'markov' ? generateMarkovSong(request) : generateAlgorithmicSong(request);
 }
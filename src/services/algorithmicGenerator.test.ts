@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { generateAlgorithmicSong } from './algorithmicGenerator';
+import { SONG_FORMS } from '../data/songForms';
+import { analyzeProgression } from '../utils/harmonicAnalysis';
+import { getSectionKey } from '../utils/modulation';
+import type { AIGenerationRequest, Mode } from '../types/music';
+
+describe('generateAlgorithmicSong', () => {
+  it('keeps inversions and pedal bass off the cadence chords', () => {
+    const form = SONG_FORMS.extended;
+    const request: AIGenerationRequest = { mood: 'dreamy cinematic', complexity: 'complex', form };
+
+    for (let seed = 0; seed < 12; seed++) {
+      const song = generateAlgorithmicSong({ ...request, seed: String(seed) });
+      expect(song.sections).toHaveLength(form.sections.length);
+      song.sections.forEach((section, i) => {
+        const { cadence } = form.sections[i];
+        if (!cadence) return;
+        const [approach, arrival] = section.chords.slice(-2);
+        // A Phrygian half cadence approaches from iv6, which has its own bass
+        if (cadence !== 'phrygian-half') expect(approach.bassNote).toBeUndefined();
+        expect(arrival.bassNote).toBeUndefined();
+      });
+    }
+  });
+
+  it('lands planned deceptive cadences on the sixth degree in modal keys', () => {
+    const modes: Mode[] = ['dorian', 'phrygian', 'locrian', 'melodic-minor', 'minor', 'mixolydian'];
+    const form = SONG_FORMS.extended;
+
+    for (const mode of modes) {
+      const song = generateAlgorithmicSong({ mood: 'wistful', key: { tonic: 'D', mode }, form, seed: mode });
+      song.sections.forEach((section, i) => {
+        if (form.sections[i].cadence !== 'deceptive') return;
+        const { cadences } = analyzeProgression(section.chords, getSectionKey(song, i));
+        expect(cadences.map(cadence => cadence.type), `${mode} ${section.name}`).toContain('deceptive');
+      });
+    }
+  });
+});
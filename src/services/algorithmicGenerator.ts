@@ -1,5 +1,6 @@
 import { v4 as uuidv4 } from 'uuid';
 import type {
+  CadenceType,
   Song,
   SongSection,
   Chord,
@@ -9,15 +10,41 @@ import type {
   SectionType,
   AIGenerationRequest,
   MoodAnalysis,
-  RomanNumeral,
+  MoodArcStage,
+  Mode,
+  ProgressionGenre,
+  RhythmGuidance,
+  FormSection,
+  SongForm,
+  SongFormName,
+  StyleProfile,
+  StyleSubstitutionRule,
 } from '../types/music';
 import {
   getDiatonicChords,
   createChord,
+  formatChordName,
   getKeyId,
   getChordFunction,
+  getScaleNotes,
+  formatKeyName,
+  isMinorMode,
+  MODE_DISPLAY_NAMES,
 } from '../utils/musicTheory';
-import { selectStrummingPatterns } from '../data/strummingPatterns';
+import {
+  romanNumeralForChord,
+  withRomanNumeralQuality,
+  withRomanNumeralInversion,
+} from '../utils/romanNumerals';
+import { getStrummingPatternById, selectStrummingPatterns, STRUMMING_PATTERNS } from '../data/strummingPatterns';
+import { findStyleProfile } from '../data/styleProfiles';
+import { SONG_FORMS } from '../data/songForms';
+import { applySubstitution, getSubstitutions } from '../utils/substitutions';
+import { constrainSong, getCadenceChords } from '../utils/constraints';
+import { analyzeProgression } from '../utils/harmonicAnalysis';
+import { getArcMood, getArcPosition, splitMoodArc } from '../utils/moodArc';
+import { linkSectionKeys, planSectionKeys, transposeSectionChords } from '../utils/modulation';
+import { countSectionBars, fitChordsToBars, getBeatsPerBar, planHarmonicRhythm } from '../utils/harmonicRhythm';
 
 // ============================================================================
 // MOOD ANALYSIS - Comprehensive Natural Language Interpretation
@@ -34,6 +61,13 @@ const TRAITS = {
   // Mode presets
   majorMode: { preferredMode: 'major' as const },
   minorMode: { preferredMode: 'minor' as const },
+  dorianMode: { preferredMode: 'dorian' as const },
+  phrygianMode: { preferredMode: 'phrygian' as const },
+  lydianMode: { preferredMode: 'lydian' as const },
+  mixolydianMode: { preferredMode: 'mixolydian' as const },
+  locrianMode: { preferredMode: 'locrian' as const },
+  harmonicMinorMode: { preferredMode: 'harmonic-minor' as const },
+  melodicMinorMode: { preferredMode: 'melodic-minor' as const },
 
   // Energy presets
   lowEnergy: { energy: 'low' as const },
@@ -680,7 +714,7 @@ const MOOD_KEYWORDS: Record<string, Partial<MoodAnalysis>> = {
   celtic: { ...TRAITS.majorMode, ...TRAITS.mediumEnergy },
   irish: { ...TRAITS.majorMode, ...TRAITS.mediumEnergy },
   scottish: { ...TRAITS.majorMode, ...TRAITS.mediumEnergy },
-  flamenco: { ...TRAITS.minorMode, ...TRAITS.highEnergy, ...TRAITS.highTension },
+  flamenco: { ...TRAITS.phrygianMode, ...TRAITS.highEnergy, ...TRAITS.highTension },
   gypsy: { ...TRAITS.minorMode, ...TRAITS.highEnergy, ...TRAITS.colorful },
   eastern: { ...TRAITS.minorMode, ...TRAITS.mediumEnergy },
   middleeastern: { ...TRAITS.minorMode, ...TRAITS.mediumEnergy },
@@ -806,6 +840,41 @@ const MOOD_KEYWORDS: Record<string, Partial<MoodAnalysis>> = {
   modern: { ...TRAITS.mediumEnergy },
   futuristic: { ...TRAITS.mediumEnergy, ...TRAITS.extended },
   oldies: { ...TRAITS.majorMode, ...TRAITS.mediumEnergy },
+
+  // =========================================================================
+  // MODES (explicit modal requests)
+  // =========================================================================
+  ionian: { ...TRAITS.majorMode },
+  aeolian: { ...TRAITS.minorMode },
+  dorian: { ...TRAITS.dorianMode, ...TRAITS.neutral },
+  phrygian: { ...TRAITS.phrygianMode, ...TRAITS.dark, ...TRAITS.highTension },
+  lydian: { ...TRAITS.lydianMode, ...TRAITS.bright, ...TRAITS.extended },
+  mixolydian: { ...TRAITS.mixolydianMode, ...TRAITS.bright },
+  locrian: { ...TRAITS.locrianMode, ...TRAITS.dark, ...TRAITS.highTension },
+  modal: { ...TRAITS.dorianMode },
+};
+
+// Mode names that override mood-based mode guesses wherever they appear
+const EXPLICIT_MODE_PATTERNS: { pattern: RegExp; mode: Mode }[] = [
+  { pattern: /harmonic\s+minor/i, mode: 'harmonic-minor' },
+  { pattern: /melodic\s+minor/i, mode: 'melodic-minor' },
+  { pattern: /\bdorian\b/i, mode: 'dorian' },
+  { pattern: /\bphrygian\b/i, mode: 'phrygian' },
+  { pattern: /\blydian\b/i, mode: 'lydian' },
+  { pattern: /\bmixolydian\b/i, mode: 'mixolydian' },
+  { pattern: /\blocrian\b/i, mode: 'locrian' },
+  { pattern: /\bionian\b/i, mode: 'major' },
+  { pattern: /\baeolian\b/i, mode: 'minor' },
+];
+
+// Characteristic chord each mode cadences from (0-indexed scale degree)
+// e.g. Dorian IV-i, Phrygian bII-i, Lydian II-I, Mixolydian bVII-I
+const MODAL_CADENCE_DEGREES: Partial<Record<Mode, number>> = {
+  'dorian': 3,
+  'phrygian': 1,
+  'lydian': 1,
+  'mixolydian': 6,
+  'locrian': 1,
 };
 
 // ============================================================================
@@ -1085,6 +1154,12 @@ function analyzeMood(moodText: string): MoodAnalysis {
     }
   }
 
+  // Explicitly named modes ("dorian groove", "harmonic minor") beat emotional guesses
+  const namedMode = EXPLICIT_MODE_PATTERNS.find(({ pattern }) => pattern.test(text));
+  if (namedMode) {
+    analysis.preferredMode = namedMode.mode;
+  }
+
   // =========================================================================
   // 3. SENTIMENT ANALYSIS
   // =========================================================================
@@ -1192,12 +1267,24 @@ function analyzeMood(moodText: string): MoodAnalysis {
   return analysis;
 }
 
+/**
+ * Analyze each stage of a mood that changes over the song ("starts lonely,
+ * ends triumphant"); a mood without an arc is a single stage
+ */
+export function analyzeMoodArc(moodText: string): MoodArcStage[] {
+  return splitMoodArc(moodText).map(({ phrase, position }) => ({
+    phrase,
+    position,
+    analysis: analyzeMood(phrase),
+  }));
+}
+
 // ============================================================================
 // CHORD GENERATION
 // ============================================================================
 
 // Seeded random for reproducible but varied results
-function seededRandom(seed: string): () => number {
+export function seededRandom(seed: string): () => number {
   let hash = 0;
   for (let i = 0; i < seed.length; i++) {
     hash = ((hash << 5) - hash) + seed.charCodeAt(i);
@@ -1217,7 +1304,7 @@ function pickRandom<T>(array: T[], random: () => number): T {
 function getBorrowedChords(key: Key): Chord[] {
   const parallelKey: Key = {
     tonic: key.tonic,
-    mode: key.mode === 'major' ? 'minor' : 'major',
+    mode: isMinorMode(key.mode) ? 'major' : 'minor',
   };
   const parallelChords = getDiatonicChords(parallelKey);
 
@@ -1225,13 +1312,16 @@ function getBorrowedChords(key: Key): Chord[] {
   const originalChords = getDiatonicChords(key);
   const originalRoots = new Set(originalChords.map(c => `${c.root}-${c.quality}`));
 
+  // Relabel against the home key (Eb in C major is bIII, not the minor key's III)
   return parallelChords
     .filter(c => !originalRoots.has(`${c.root}-${c.quality}`))
-    .map(c => ({ ...c, function: 'borrowed' as const }));
+    .map(c => ({ ...c, romanNumeral: romanNumeralForChord(c, key), function: 'borrowed' as const }));
 }
 
-// Upgrade a chord to a 7th chord
-function upgradeToSeventh(chord: Chord, keyContext: string): Chord {
+/**
+ * Upgrade a triad to its seventh chord (V to V7, others to maj7, m7 or m7b5)
+ */
+export function upgradeToSeventh(chord: Chord, keyContext: string): Chord {
   let newQuality: ChordQuality;
 
   switch (chord.quality) {
@@ -1250,32 +1340,37 @@ function upgradeToSeventh(chord: Chord, keyContext: string): Chord {
       return chord;
   }
 
-  return createChord(chord.root, newQuality, chord.romanNumeral, chord.function, keyContext);
+  const romanNumeral = chord.romanNumeral && withRomanNumeralQuality(chord.romanNumeral, newQuality);
+  return createChord(chord.root, newQuality, romanNumeral, chord.function, keyContext, chord.bassNote);
 }
 
-// Add a suspension variant
-function addSuspension(chord: Chord, keyContext: string, random: () => number): Chord {
+/**
+ * Suspend a major or minor triad (sus4 or sus2); other chords are returned as they are
+ */
+export function addSuspension(chord: Chord, keyContext: string, random: () => number): Chord {
   if (chord.quality !== 'major' && chord.quality !== 'minor') return chord;
 
   const suspType = random() > 0.5 ? 'sus4' : 'sus2';
-  return createChord(chord.root, suspType, chord.romanNumeral, chord.function, keyContext);
+  const romanNumeral = chord.romanNumeral && withRomanNumeralQuality(chord.romanNumeral, suspType);
+  return createChord(chord.root, suspType, romanNumeral, chord.function, keyContext, chord.bassNote);
 }
 
 // ============================================================================
 // FAMOUS NAMED PROGRESSION PATTERNS
 // ============================================================================
 
-interface NamedProgression {
+export interface NamedProgression {
   name: string;
   degrees: number[]; // 1-indexed scale degrees
   qualities: ('diatonic' | 'major' | 'minor' | 'dominant7' | 'major7' | 'minor7' | 'power' | 'diminished')[]; // 'diatonic' means use key's natural quality
   mood: ('happy' | 'sad' | 'epic' | 'nostalgic' | 'tense' | 'romantic' | 'chill' | 'energetic' | 'any')[];
   suitableFor: SectionType[];
+  genre: ProgressionGenre;
   description: string;
 }
 
-// Classic progressions mapped to scale degrees
-const NAMED_PROGRESSIONS: NamedProgression[] = [
+// Classic progressions mapped to scale degrees; also the Markov generator's corpus
+export const NAMED_PROGRESSIONS: NamedProgression[] = [
   // Pop/Rock classics
   {
     name: 'Four Chord Song',
@@ -1283,6 +1378,7 @@ const NAMED_PROGRESSIONS: NamedProgression[] = [
     qualities: ['diatonic', 'diatonic', 'diatonic', 'diatonic'],
     mood: ['happy', 'energetic', 'nostalgic', 'any'],
     suitableFor: ['chorus', 'verse'],
+    genre: 'pop',
     description: 'The famous I-V-vi-IV used in countless pop hits (Axis of Awesome progression)',
   },
   {
@@ -1291,6 +1387,7 @@ const NAMED_PROGRESSIONS: NamedProgression[] = [
     qualities: ['diatonic', 'diatonic', 'diatonic', 'diatonic'],
     mood: ['sad', 'nostalgic', 'romantic'],
     suitableFor: ['verse', 'chorus'],
+    genre: 'pop',
     description: 'vi-IV-I-V - A slightly melancholic take on the four-chord progression',
   },
   {
@@ -1299,6 +1396,7 @@ const NAMED_PROGRESSIONS: NamedProgression[] = [
     qualities: ['diatonic', 'diatonic', 'diatonic', 'diatonic'],
     mood: ['nostalgic', 'romantic', 'happy'],
     suitableFor: ['verse', 'chorus'],
+    genre: 'pop',
     description: 'I-vi-IV-V - Classic doo-wop and oldies progression',
   },
   {
@@ -1307,6 +1405,7 @@ const NAMED_PROGRESSIONS: NamedProgression[] = [
     qualities: ['diatonic', 'diatonic', 'diatonic', 'diatonic', 'diatonic', 'diatonic', 'diatonic', 'diatonic'],
     mood: ['romantic', 'epic', 'nostalgic'],
     suitableFor: ['verse', 'chorus', 'bridge'],
+    genre: 'pop',
     description: 'I-V-vi-iii-IV-I-IV-V - The timeless classical progression',
   },
   {
@@ -1315,6 +1414,7 @@ const NAMED_PROGRESSIONS: NamedProgression[] = [
     qualities: ['minor', 'major', 'major', 'major'],
     mood: ['sad', 'tense', 'epic'],
     suitableFor: ['verse', 'bridge', 'intro'],
+    genre: 'rock',
     description: 'i-bVII-bVI-V flamenco/rock descent with chromatic bass line',
   },
   {
@@ -1323,6 +1423,7 @@ const NAMED_PROGRESSIONS: NamedProgression[] = [
     qualities: ['major', 'major', 'minor', 'major'],
     mood: ['energetic', 'happy'],
     suitableFor: ['chorus', 'verse'],
+    genre: 'rock',
     description: 'I-V-vi-IV with driving energy',
   },
 
@@ -1333,6 +1434,7 @@ const NAMED_PROGRESSIONS: NamedProgression[] = [
     qualities: ['minor7', 'dominant7', 'major7'],
     mood: ['chill', 'romantic', 'any'],
     suitableFor: ['verse', 'bridge', 'outro'],
+    genre: 'jazz',
     description: 'The fundamental jazz cadence: ii7-V7-Imaj7',
   },
   {
@@ -1341,6 +1443,7 @@ const NAMED_PROGRESSIONS: NamedProgression[] = [
     qualities: ['major7', 'minor7', 'minor7', 'dominant7'],
     mood: ['chill', 'romantic'],
     suitableFor: ['verse', 'outro', 'intro'],
+    genre: 'jazz',
     description: 'Imaj7-vi7-ii7-V7 - Classic jazz turnaround',
   },
   {
@@ -1349,6 +1452,7 @@ const NAMED_PROGRESSIONS: NamedProgression[] = [
     qualities: ['dominant7', 'dominant7', 'dominant7', 'dominant7', 'dominant7', 'dominant7', 'dominant7', 'dominant7'],
     mood: ['energetic', 'any'],
     suitableFor: ['bridge'],
+    genre: 'jazz',
     description: 'III7-VI7-II7-V7 - The "Rhythm Changes" B section',
   },
 
@@ -1359,6 +1463,7 @@ const NAMED_PROGRESSIONS: NamedProgression[] = [
     qualities: ['minor', 'major', 'major', 'major'],
     mood: ['sad', 'epic', 'nostalgic'],
     suitableFor: ['verse', 'chorus'],
+    genre: 'pop',
     description: 'i-bVI-bIII-bVII natural minor progression - Anthem-like emotional power',
   },
   {
@@ -1367,6 +1472,7 @@ const NAMED_PROGRESSIONS: NamedProgression[] = [
     qualities: ['minor', 'minor', 'major', 'major'],
     mood: ['sad', 'tense'],
     suitableFor: ['verse'],
+    genre: 'pop',
     description: 'i-iv-VI-V - Minor with unexpected resolution',
   },
 
@@ -1377,6 +1483,7 @@ const NAMED_PROGRESSIONS: NamedProgression[] = [
     qualities: ['diatonic', 'diatonic', 'diatonic', 'diatonic'],
     mood: ['epic', 'romantic', 'energetic'],
     suitableFor: ['chorus'],
+    genre: 'rock',
     description: 'I-IV-V-I - Simple but powerful rock progression',
   },
   {
@@ -1385,6 +1492,7 @@ const NAMED_PROGRESSIONS: NamedProgression[] = [
     qualities: ['major', 'major', 'minor', 'major'],
     mood: ['sad', 'tense', 'energetic'],
     suitableFor: ['verse', 'chorus'],
+    genre: 'rock',
     description: 'I-IV-vi-V - 90s alternative rock staple',
   },
   {
@@ -1393,6 +1501,7 @@ const NAMED_PROGRESSIONS: NamedProgression[] = [
     qualities: ['major', 'major', 'major', 'major'],
     mood: ['epic', 'chill'],
     suitableFor: ['verse', 'chorus'],
+    genre: 'rock',
     description: 'I-bVII-IV-I - Mixolydian rock sound (Fortunate Son, Born To Be Wild)',
   },
 
@@ -1403,6 +1512,7 @@ const NAMED_PROGRESSIONS: NamedProgression[] = [
     qualities: ['minor7', 'dominant7', 'major7', 'minor7'],
     mood: ['chill', 'sad', 'nostalgic'],
     suitableFor: ['verse', 'chorus'],
+    genre: 'chill',
     description: 'ii7-V7-Imaj7-vi7 - Smooth, jazzy lo-fi progression',
   },
   {
@@ -1411,6 +1521,7 @@ const NAMED_PROGRESSIONS: NamedProgression[] = [
     qualities: ['major7', 'minor7', 'major7', 'major7'],
     mood: ['chill', 'romantic', 'nostalgic'],
     suitableFor: ['verse', 'intro', 'outro'],
+    genre: 'chill',
     description: 'Imaj7-iii7-IVmaj7 - Ethereal, floating quality',
   },
 
@@ -1421,6 +1532,7 @@ const NAMED_PROGRESSIONS: NamedProgression[] = [
     qualities: ['diatonic', 'diatonic', 'diatonic', 'diatonic'],
     mood: ['happy', 'energetic', 'any'],
     suitableFor: ['verse', 'chorus'],
+    genre: 'folk',
     description: 'I-IV-V-I - The most basic but effective progression',
   },
   {
@@ -1429,6 +1541,7 @@ const NAMED_PROGRESSIONS: NamedProgression[] = [
     qualities: ['diatonic', 'diatonic', 'diatonic', 'diatonic'],
     mood: ['happy', 'nostalgic', 'romantic'],
     suitableFor: ['verse'],
+    genre: 'folk',
     description: 'I-V-I-IV - Simple folk/country progression',
   },
   {
@@ -1437,6 +1550,7 @@ const NAMED_PROGRESSIONS: NamedProgression[] = [
     qualities: ['diatonic', 'diatonic', 'diatonic', 'diatonic', 'diatonic', 'diatonic', 'diatonic', 'diatonic'],
     mood: ['happy', 'epic', 'energetic'],
     suitableFor: ['verse', 'chorus'],
+    genre: 'folk',
     description: 'I-I-IV-IV-I-V-I - Classic gospel/blues form',
   },
 
@@ -1447,6 +1561,7 @@ const NAMED_PROGRESSIONS: NamedProgression[] = [
     qualities: ['dominant7', 'dominant7', 'dominant7', 'dominant7', 'dominant7', 'dominant7', 'dominant7', 'dominant7', 'dominant7', 'dominant7', 'dominant7', 'dominant7'],
     mood: ['sad', 'nostalgic', 'any'],
     suitableFor: ['verse', 'chorus'],
+    genre: 'blues',
     description: 'I7-I7-I7-I7-IV7-IV7-I7-I7-V7-IV7-I7-V7 - The foundation of blues and rock',
   },
   {
@@ -1455,6 +1570,7 @@ const NAMED_PROGRESSIONS: NamedProgression[] = [
     qualities: ['dominant7', 'dominant7', 'dominant7', 'dominant7', 'dominant7', 'dominant7', 'dominant7', 'dominant7', 'dominant7', 'dominant7', 'dominant7', 'dominant7'],
     mood: ['sad', 'energetic', 'any'],
     suitableFor: ['verse', 'chorus'],
+    genre: 'blues',
     description: 'I7-IV7-I7-I7-IV7-IV7-I7-I7-V7-IV7-I7-V7 - Blues with quick change to IV in bar 2',
   },
   {
@@ -1463,6 +1579,7 @@ const NAMED_PROGRESSIONS: NamedProgression[] = [
     qualities: ['minor7', 'minor7', 'minor7', 'minor7', 'minor7', 'minor7', 'minor7', 'minor7', 'dominant7', 'dominant7', 'minor7', 'dominant7'],
     mood: ['sad', 'tense', 'any'],
     suitableFor: ['verse', 'chorus'],
+    genre: 'blues',
     description: 'i7-i7-i7-i7-iv7-iv7-i7-i7-V7-IV7-i7-V7 - Dark, soulful minor blues',
   },
 
@@ -1473,6 +1590,7 @@ const NAMED_PROGRESSIONS: NamedProgression[] = [
     qualities: ['power', 'power', 'power', 'power'],
     mood: ['epic', 'tense', 'energetic'],
     suitableFor: ['verse', 'chorus', 'intro'],
+    genre: 'metal',
     description: 'I5-bVII5-bVI5-V5 - Heavy chromatic descent (Black Sabbath style)',
   },
   {
@@ -1481,6 +1599,7 @@ const NAMED_PROGRESSIONS: NamedProgression[] = [
     qualities: ['power', 'diminished', 'power', 'power'],
     mood: ['tense', 'epic'],
     suitableFor: ['verse', 'intro', 'breakdown'],
+    genre: 'metal',
     description: 'I5-bV5-I5-V5 - Tritone tension for heavy, ominous sound',
   },
   {
@@ -1489,6 +1608,7 @@ const NAMED_PROGRESSIONS: NamedProgression[] = [
     qualities: ['power', 'power', 'power', 'power'],
     mood: ['tense', 'epic', 'energetic'],
     suitableFor: ['verse', 'breakdown'],
+    genre: 'metal',
     description: 'i5-bII5-bVI5-iv5 - Modern metal/djent with Phrygian flavor',
   },
 
@@ -1499,6 +1619,7 @@ const NAMED_PROGRESSIONS: NamedProgression[] = [
     qualities: ['major7', 'minor7', 'dominant7', 'major7'],
     mood: ['chill', 'romantic', 'nostalgic'],
     suitableFor: ['verse', 'chorus'],
+    genre: 'latin',
     description: 'Imaj7-ii7-V7-Imaj7 - Smooth Brazilian bossa nova',
   },
   {
@@ -1507,6 +1628,7 @@ const NAMED_PROGRESSIONS: NamedProgression[] = [
     qualities: ['minor7', 'dominant7', 'major7', 'major7'],
     mood: ['chill', 'romantic', 'happy'],
     suitableFor: ['verse', 'chorus'],
+    genre: 'latin',
     description: 'ii7-V7-Imaj7-Imaj7 - Latin jazz foundation',
   },
   {
@@ -1515,6 +1637,7 @@ const NAMED_PROGRESSIONS: NamedProgression[] = [
     qualities: ['major', 'major', 'dominant7', 'major'],
     mood: ['happy', 'energetic'],
     suitableFor: ['verse', 'chorus'],
+    genre: 'latin',
     description: 'I-IV-V7-I - Driving salsa piano montuno pattern',
   },
   {
@@ -1523,6 +1646,7 @@ const NAMED_PROGRESSIONS: NamedProgression[] = [
     qualities: ['minor', 'major', 'minor', 'major'],
     mood: ['tense', 'epic', 'sad'],
     suitableFor: ['verse', 'bridge', 'intro'],
+    genre: 'latin',
     description: 'i-bII-i-bVII - Flamenco/Spanish Phrygian tension',
   },
 
@@ -1533,6 +1657,7 @@ const NAMED_PROGRESSIONS: NamedProgression[] = [
     qualities: ['dominant7', 'dominant7', 'dominant7', 'dominant7'],
     mood: ['energetic', 'happy'],
     suitableFor: ['verse', 'chorus'],
+    genre: 'funk',
     description: 'I7-IV7-I7-V7 - Classic funk with dominant 7th crunch',
   },
   {
@@ -1541,6 +1666,7 @@ const NAMED_PROGRESSIONS: NamedProgression[] = [
     qualities: ['minor7', 'minor7', 'dominant7', 'minor7'],
     mood: ['energetic', 'tense'],
     suitableFor: ['verse', 'chorus'],
+    genre: 'funk',
     description: 'i7-i7-IV7-i7 - Dark, groovy minor funk (James Brown style)',
   },
   {
@@ -1549,6 +1675,7 @@ const NAMED_PROGRESSIONS: NamedProgression[] = [
     qualities: ['minor7', 'dominant7', 'minor7', 'dominant7'],
     mood: ['energetic', 'happy'],
     suitableFor: ['verse', 'chorus'],
+    genre: 'funk',
     description: 'i7-IV7-v7-IV7 - Disco-era dance floor grooves',
   },
 
@@ -1559,6 +1686,7 @@ const NAMED_PROGRESSIONS: NamedProgression[] = [
     qualities: ['diatonic', 'diatonic', 'diatonic', 'diatonic'],
     mood: ['epic', 'energetic', 'happy'],
     suitableFor: ['chorus', 'breakdown'],
+    genre: 'electronic',
     description: 'vi-IV-I-V - Festival anthem progression (Avicii, Swedish House Mafia)',
   },
   {
@@ -1567,6 +1695,7 @@ const NAMED_PROGRESSIONS: NamedProgression[] = [
     qualities: ['minor', 'major'],
     mood: ['epic', 'energetic', 'tense'],
     suitableFor: ['verse', 'intro', 'breakdown'],
+    genre: 'electronic',
     description: 'i-V - Hypnotic two-chord trance loop',
   },
   {
@@ -1575,6 +1704,7 @@ const NAMED_PROGRESSIONS: NamedProgression[] = [
     qualities: ['minor7', 'major7', 'major', 'major7'],
     mood: ['chill', 'epic', 'nostalgic'],
     suitableFor: ['verse', 'chorus'],
+    genre: 'electronic',
     description: 'vi7-Imaj7-V-IVmaj7 - Emotional future bass progression',
   },
   {
@@ -1583,6 +1713,7 @@ const NAMED_PROGRESSIONS: NamedProgression[] = [
     qualities: ['minor', 'minor', 'major', 'major'],
     mood: ['tense', 'epic'],
     suitableFor: ['verse', 'intro', 'breakdown'],
+    genre: 'electronic',
     description: 'i-i-bVII-bVII - Minimal, dark electronic loop',
   },
   {
@@ -1591,6 +1722,7 @@ const NAMED_PROGRESSIONS: NamedProgression[] = [
     qualities: ['major7', 'minor7', 'major7', 'dominant7'],
     mood: ['happy', 'energetic', 'chill'],
     suitableFor: ['verse', 'chorus'],
+    genre: 'electronic',
     description: 'Imaj7-vi7-IVmaj7-V7 - Classic house piano chords',
   },
 ];
@@ -1614,13 +1746,29 @@ function matchProgressionToMood(analysis: MoodAnalysis): ('happy' | 'sad' | 'epi
   return [...new Set(moods)]; // Remove duplicates
 }
 
-// Select a named progression based on mood and section type
+// How often a style's preferred progressions win when one fits the section
+const STYLE_PROGRESSION_CHANCE = 0.85;
+
+// Select a named progression based on mood and section type (a style's own
+// progressions first, then others from its genre)
 function selectNamedProgression(
   analysis: MoodAnalysis,
   sectionType: SectionType,
   length: number,
-  random: () => number
+  random: () => number,
+  style?: StyleProfile
 ): NamedProgression | null {
+  const fits = (prog: NamedProgression) =>
+    prog.suitableFor.includes(sectionType) &&
+    prog.degrees.length <= length + 2 && prog.degrees.length >= Math.max(3, length - 2);
+
+  if (style && random() < STYLE_PROGRESSION_CHANCE) {
+    const preferred = NAMED_PROGRESSIONS.filter(prog => style.progressions?.includes(prog.name) && fits(prog));
+    const genreMatches = NAMED_PROGRESSIONS.filter(prog => prog.genre === style.genre && fits(prog));
+    if (preferred.length > 0) return pickRandom(preferred, random);
+    if (genreMatches.length > 0) return pickRandom(genreMatches, random);
+  }
+
   const targetMoods = matchProgressionToMood(analysis);
 
   // Filter progressions that match mood and section type
@@ -1646,42 +1794,6 @@ function selectNamedProgression(
   return pickRandom(candidates, random);
 }
 
-// Get roman numeral based on scale degree and chord quality
-function getRomanNumeral(degree: number, quality: ChordQuality, mode: 'major' | 'minor'): RomanNumeral {
-  // Map of scale degrees (1-7) to roman numerals
-  const majorNumerals: Record<number, RomanNumeral> = {
-    1: 'I', 2: 'ii', 3: 'iii', 4: 'IV', 5: 'V', 6: 'vi', 7: 'vii°'
-  };
-  const minorNumerals: Record<number, RomanNumeral> = {
-    1: 'i', 2: 'ii°', 3: 'III', 4: 'iv', 5: 'v', 6: 'VI', 7: 'VII'
-  };
-
-  // Handle borrowed/chromatic chords (bVII, bVI, bIII, etc.)
-  const isMajorQuality = quality === 'major' || quality === 'major7' || quality === 'dominant7';
-  const isDiminished = quality === 'diminished' || quality === 'dim7' || quality === 'half-dim7';
-
-  // Get base numeral
-  let numeral = mode === 'major' ? majorNumerals[degree] : minorNumerals[degree];
-
-  // Override based on explicit quality if it differs from diatonic
-  if (mode === 'major') {
-    // In major: adjust for borrowed chords
-    if (degree === 7 && isMajorQuality) numeral = 'bVII';
-    if (degree === 6 && isMajorQuality) numeral = 'bVI';
-    if (degree === 3 && isMajorQuality) numeral = 'bIII';
-  } else {
-    // In minor: degrees 6 and 7 are naturally flat, adjust for raised versions
-    if (degree === 5 && isMajorQuality) numeral = 'V'; // Raised 7th for dominant V
-  }
-
-  // Handle diminished explicitly
-  if (isDiminished && !numeral.includes('°')) {
-    numeral = (numeral.toLowerCase() + '°') as RomanNumeral;
-  }
-
-  return numeral || 'I';
-}
-
 // Build chords from a named progression
 function buildChordsFromPattern(
   pattern: NamedProgression,
@@ -1696,9 +1808,7 @@ function buildChordsFromPattern(
   const chords: Chord[] = [];
 
   // Get scale notes for the key
-  const scaleNotes: CanonicalNote[] = key.mode === 'major'
-    ? getMajorScaleNotes(key.tonic)
-    : getMinorScaleNotes(key.tonic);
+  const scaleNotes = getScaleNotes(key);
 
   for (let i = 0; i < Math.min(pattern.degrees.length, length); i++) {
     const degree = pattern.degrees[i];
@@ -1732,8 +1842,8 @@ function buildChordsFromPattern(
     // Get the chord function based on scale degree (0-indexed for getChordFunction)
     const chordFunction = getChordFunction((degree - 1) % 7, key.mode);
 
-    // Get the roman numeral
-    const romanNumeral = getRomanNumeral(degree, quality, key.mode);
+    // Label the chord from its actual root and quality
+    const romanNumeral = romanNumeralForChord({ root, quality }, key);
 
     const chord = createChord(root, quality, romanNumeral, chordFunction, keyContext);
     chords.push(chord);
@@ -1748,22 +1858,6 @@ function buildChordsFromPattern(
   return chords.slice(0, length);
 }
 
-// Helper to get major scale notes
-function getMajorScaleNotes(tonic: CanonicalNote): CanonicalNote[] {
-  const allNotes: CanonicalNote[] = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
-  const majorIntervals = [0, 2, 4, 5, 7, 9, 11]; // W-W-H-W-W-W-H
-  const tonicIndex = allNotes.indexOf(tonic);
-  return majorIntervals.map(interval => allNotes[(tonicIndex + interval) % 12]);
-}
-
-// Helper to get natural minor scale notes
-function getMinorScaleNotes(tonic: CanonicalNote): CanonicalNote[] {
-  const allNotes: CanonicalNote[] = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
-  const minorIntervals = [0, 2, 3, 5, 7, 8, 10]; // W-H-W-W-H-W-W
-  const tonicIndex = allNotes.indexOf(tonic);
-  return minorIntervals.map(interval => allNotes[(tonicIndex + interval) % 12]);
-}
-
 // ============================================================================
 // INVERSIONS AND BASS LINE PROCESSING
 // ============================================================================
@@ -1789,11 +1883,12 @@ function createInversion(
     return chord;
   }
 
-  // Create new chord with bass note - use the createChord function for proper naming
+  // Create new chord with bass note and the matching inversion figure (I6, I64)
   return {
     ...chord,
     bassNote,
     name: chord.name + '/' + bassNote,
+    romanNumeral: chord.romanNumeral && withRomanNumeralInversion(chord.romanNumeral, bassNoteIndex),
   };
 }
 
@@ -1867,10 +1962,12 @@ function applyPedalBass(
     const isTonic = pedalNote === key.tonic;
 
     if (noteExistsInChord || isTonic) {
+      const bassNoteIndex = chord.notes.indexOf(pedalNote as CanonicalNote);
       result[i] = {
         ...chord,
         bassNote: pedalNote as CanonicalNote,
-        name: chord.root === pedalNote ? chord.name : chord.name + '/' + pedalNote,
+        name: formatChordName(chord.root, chord.quality, getKeyId(key), pedalNote),
+        romanNumeral: chord.romanNumeral && withRomanNumeralInversion(chord.romanNumeral, Math.max(0, bassNoteIndex)),
       };
     }
   }
@@ -1885,11 +1982,12 @@ function generateProgression(
   analysis: MoodAnalysis,
   complexity: 'simple' | 'moderate' | 'complex',
   sectionType: SectionType,
-  random: () => number
+  random: () => number,
+  style?: StyleProfile
 ): Chord[] {
-  // Try to use a named progression pattern first (70% chance)
-  if (random() < 0.7) {
-    const namedProg = selectNamedProgression(analysis, sectionType, length, random);
+  // Try to use a named progression pattern first (70% chance, always with a style)
+  if (style || random() < 0.7) {
+    const namedProg = selectNamedProgression(analysis, sectionType, length, random, style);
     if (namedProg) {
       return buildChordsFromPattern(namedProg, key, length, analysis, complexity, random);
     }
@@ -1939,8 +2037,11 @@ function generateProgression(
       // End on tonic for resolution (except bridges which can leave tension)
       nextChord = diatonic[0]; // I or i
     } else if (isSecondToLast && sectionType !== 'bridge') {
-      // Penultimate chord is often dominant
-      nextChord = pickRandom(dominantChords, random);
+      // Penultimate chord is often dominant; modes cadence from their characteristic chord
+      const modalCadence = MODAL_CADENCE_DEGREES[key.mode];
+      nextChord = modalCadence !== undefined
+        ? diatonic[modalCadence]
+        : pickRandom(dominantChords, random);
     } else {
       // Pick based on harmonic movement preferences
       const pool: Chord[] = [];
@@ -1987,56 +2088,36 @@ function generateProgression(
 // SONG STRUCTURE GENERATION
 // ============================================================================
 
-interface SectionTemplate {
-  type: SectionType;
-  name: string;
-  minChords: number;
-  maxChords: number;
-}
-
-const STRUCTURE_TEMPLATES: Record<string, SectionTemplate[]> = {
-  simple: [
-    { type: 'verse', name: 'Verse', minChords: 4, maxChords: 4 },
-    { type: 'chorus', name: 'Chorus', minChords: 4, maxChords: 4 },
-  ],
-  standard: [
-    { type: 'verse', name: 'Verse 1', minChords: 4, maxChords: 8 },
-    { type: 'chorus', name: 'Chorus', minChords: 4, maxChords: 8 },
-    { type: 'verse', name: 'Verse 2', minChords: 4, maxChords: 8 },
-    { type: 'chorus', name: 'Chorus', minChords: 4, maxChords: 8 },
-  ],
-  withBridge: [
-    { type: 'verse', name: 'Verse 1', minChords: 4, maxChords: 8 },
-    { type: 'chorus', name: 'Chorus', minChords: 4, maxChords: 8 },
-    { type: 'verse', name: 'Verse 2', minChords: 4, maxChords: 6 },
-    { type: 'chorus', name: 'Chorus', minChords: 4, maxChords: 8 },
-    { type: 'bridge', name: 'Bridge', minChords: 4, maxChords: 8 },
-    { type: 'chorus', name: 'Final Chorus', minChords: 4, maxChords: 8 },
-  ],
-  extended: [
-    { type: 'intro', name: 'Intro', minChords: 2, maxChords: 4 },
-    { type: 'verse', name: 'Verse 1', minChords: 4, maxChords: 8 },
-    { type: 'pre-chorus', name: 'Pre-Chorus', minChords: 2, maxChords: 4 },
-    { type: 'chorus', name: 'Chorus', minChords: 4, maxChords: 8 },
-    { type: 'verse', name: 'Verse 2', minChords: 4, maxChords: 8 },
-    { type: 'pre-chorus', name: 'Pre-Chorus', minChords: 2, maxChords: 4 },
-    { type: 'chorus', name: 'Chorus', minChords: 4, maxChords: 8 },
-    { type: 'bridge', name: 'Bridge', minChords: 4, maxChords: 8 },
-    { type: 'chorus', name: 'Final Chorus', minChords: 6, maxChords: 12 },
-    { type: 'outro', name: 'Outro', minChords: 2, maxChords: 4 },
-  ],
-};
+// Chord count for sections with neither a length nor a range
+const DEFAULT_MIN_CHORDS = 4;
+const DEFAULT_MAX_CHORDS = 8;
 
-function selectStructure(complexity: 'simple' | 'moderate' | 'complex', random: () => number): SectionTemplate[] {
+function selectStructure(
+  complexity: 'simple' | 'moderate' | 'complex',
+  random: () => number,
+  forms?: SongFormName[]
+): SongForm {
+  if (forms && forms.length > 0) {
+    return SONG_FORMS[pickRandom(forms, random)];
+  }
   if (complexity === 'simple') {
-    return STRUCTURE_TEMPLATES.simple;
+    return SONG_FORMS.simple;
   } else if (complexity === 'moderate') {
-    return random() > 0.5 ? STRUCTURE_TEMPLATES.standard : STRUCTURE_TEMPLATES.withBridge;
+    return random() > 0.5 ? SONG_FORMS.standard : SONG_FORMS.withBridge;
   } else {
-    return random() > 0.3 ? STRUCTURE_TEMPLATES.extended : STRUCTURE_TEMPLATES.withBridge;
+    return random() > 0.3 ? SONG_FORMS.extended : SONG_FORMS.withBridge;
   }
 }
 
+// Chords for one section: its own range, or for a fixed length between one
+// chord every two bars and one per bar (exactly one per bar for twelve-bar forms)
+function pickChordCount(section: FormSection, random: () => number): number {
+  const { bars } = section;
+  const min = section.minChords ?? (bars ? (section.barPerChord ? bars : Math.ceil(bars / 2)) : DEFAULT_MIN_CHORDS);
+  const max = Math.max(min, section.maxChords ?? bars ?? DEFAULT_MAX_CHORDS);
+  return min + Math.floor(random() * (max - min + 1));
+}
+
 // ============================================================================
 // KEY RECOMMENDATION
 // ============================================================================
@@ -2062,6 +2143,7 @@ export function recommendKeyForMood(moodText: string): KeyRecommendation {
   // Darker moods -> keys with more flats (F, Bb, Eb) or flat keys
   // Neutral -> C, G, or Am, Em
 
+  const modeName = MODE_DISPLAY_NAMES[analysis.preferredMode];
   let recommendedRoot: CanonicalNote;
   let rationale: string;
   let confidence: 'high' | 'medium' | 'low';
@@ -2073,12 +2155,12 @@ export function recommendKeyForMood(moodText: string): KeyRecommendation {
     if (analysis.energy === 'high') {
       // High energy + bright = D or A (energetic, open guitar keys)
       recommendedRoot = random() > 0.5 ? 'D' : 'A';
-      rationale = `${recommendedRoot} ${analysis.preferredMode} is a bright, energetic key - perfect for uplifting moods.`;
+      rationale = `${recommendedRoot} ${modeName} is a bright, energetic key - perfect for uplifting moods.`;
       confidence = 'high';
     } else {
       // Lower energy + bright = G (warm, accessible)
       recommendedRoot = 'G';
-      rationale = `G ${analysis.preferredMode} is warm and bright without being overly intense.`;
+      rationale = `G ${modeName} is warm and bright without being overly intense.`;
       confidence = 'high';
     }
     // Add alternatives
@@ -2087,19 +2169,19 @@ export function recommendKeyForMood(moodText: string): KeyRecommendation {
       { tonic: 'C', mode: analysis.preferredMode }
     );
   } else if (analysis.brightness === 'dark') {
-    // Dark moods: minor keys, or flat major keys
-    if (analysis.preferredMode === 'minor') {
+    // Dark moods: minor keys (or minor-third modes), or flat major keys
+    if (isMinorMode(analysis.preferredMode)) {
       // Dark + minor: Am, Em, Dm, Bm
       const darkMinorRoots: CanonicalNote[] = ['A', 'E', 'D', 'B'];
       if (analysis.tension === 'high') {
         // High tension = more dramatic keys
         recommendedRoot = random() > 0.5 ? 'B' : 'E';
-        rationale = `${recommendedRoot} minor creates the dramatic tension your mood suggests.`;
+        rationale = `${recommendedRoot} ${modeName} creates the dramatic tension your mood suggests.`;
         confidence = 'high';
       } else {
         // Low tension = Am or Dm (softer, melancholic)
         recommendedRoot = random() > 0.5 ? 'A' : 'D';
-        rationale = `${recommendedRoot} minor has a natural melancholic quality that matches your mood.`;
+        rationale = `${recommendedRoot} ${modeName} has a natural melancholic quality that matches your mood.`;
         confidence = 'high';
       }
       alternativeKeys.push(
@@ -2109,7 +2191,7 @@ export function recommendKeyForMood(moodText: string): KeyRecommendation {
     } else {
       // Dark + major = unusual, use F or flat keys for somber major
       recommendedRoot = 'F';
-      rationale = `F major has a warmer, more introspective quality than brighter major keys.`;
+      rationale = `F ${modeName} has a warmer, more introspective quality than brighter major keys.`;
       confidence = 'medium';
       alternativeKeys.push(
         { tonic: 'C', mode: 'major' },
@@ -2118,9 +2200,9 @@ export function recommendKeyForMood(moodText: string): KeyRecommendation {
     }
   } else {
     // Neutral brightness - versatile keys
-    if (analysis.preferredMode === 'minor') {
+    if (isMinorMode(analysis.preferredMode)) {
       recommendedRoot = random() > 0.5 ? 'A' : 'E';
-      rationale = `${recommendedRoot} minor is versatile and widely used - a solid choice for your mood.`;
+      rationale = `${recommendedRoot} ${modeName} is versatile and widely used - a solid choice for your mood.`;
       confidence = 'medium';
       alternativeKeys.push(
         { tonic: 'D', mode: 'minor' },
@@ -2129,7 +2211,7 @@ export function recommendKeyForMood(moodText: string): KeyRecommendation {
     } else {
       // Neutral major: C or G
       recommendedRoot = random() > 0.5 ? 'C' : 'G';
-      rationale = `${recommendedRoot} major is accessible and works well across many styles.`;
+      rationale = `${recommendedRoot} ${modeName} is accessible and works well across many styles.`;
       confidence = 'medium';
       alternativeKeys.push(
         { tonic: recommendedRoot === 'C' ? 'G' : 'C', mode: 'major' },
@@ -2141,7 +2223,7 @@ export function recommendKeyForMood(moodText: string): KeyRecommendation {
   // Adjust confidence based on how many keywords were detected
   if (analysis.detectedKeywords && analysis.detectedKeywords.length === 0) {
     confidence = 'low';
-    rationale = `${recommendedRoot} ${analysis.preferredMode} is a good starting point. Add more mood descriptors for better recommendations.`;
+    rationale = `${recommendedRoot} ${modeName} is a good starting point. Add more mood descriptors for better recommendations.`;
   }
 
   return {
@@ -2156,12 +2238,142 @@ export function recommendKeyForMood(moodText: string): KeyRecommendation {
 // MAIN GENERATOR
 // ============================================================================
 
-export function generateAlgorithmicSong(request: AIGenerationRequest): Song {
+/** Everything a backend needs to fill one section with chords */
+export interface SectionGenerationContext {
+  key: Key;
+  length: number;
+  analysis: MoodAnalysis;
+  complexity: 'simple' | 'moderate' | 'complex';
+  sectionType: SectionType;
+  random: () => number;
+  style?: StyleProfile;
+}
+
+export type SectionChordGenerator = (context: SectionGenerationContext) => Chord[];
+
+// Default backend: named patterns, then function-weighted sampling
+const generatePatternChords: SectionChordGenerator = ({ key, length, analysis, complexity, sectionType, random, style }) =>
+  generateProgression(key, length, analysis, complexity, sectionType, random, style);
+
+// Try each of a style's substitutions once per chord (not the last, which
+// carries the cadence); approach chords are inserted, replacements swapped in
+function applyStyleSubstitutions(
+  chords: Chord[],
+  key: Key,
+  rules: StyleSubstitutionRule[],
+  random: () => number
+): Chord[] {
+  let result = chords;
+  for (let i = result.length - 2; i >= 0; i--) {
+    const rule = rules.find(r => random() < r.chance);
+    if (!rule) continue;
+    const options = getSubstitutions(result, i, key).filter(sub => sub.kind === rule.kind);
+    if (options.length > 0) {
+      result = applySubstitution(result, i, pickRandom(options, random));
+    }
+  }
+  return result;
+}
+
+// Rewrite the last two chords so the section closes on its planned cadence,
+// leaving sections that already do alone
+function applySectionCadence(
+  chords: Chord[],
+  cadence: CadenceType,
+  key: Key,
+  analysis: MoodAnalysis,
+  complexity: 'simple' | 'moderate' | 'complex'
+): Chord[] {
+  if (chords.length < 2) return chords;
+  const target = cadence === 'phrygian-half' && !isMinorMode(key.mode) ? 'half' : cadence;
+  if (analyzeProgression(chords, key).cadences.some(c => c.type === target)) return chords;
+
+  const pair = getCadenceChords(target, key);
+  if (!pair) return chords;
+  const [approach, arrival] = pair;
+  const useSeventh = complexity !== 'simple' && analysis.useSevenths && (target === 'authentic' || target === 'deceptive');
+  return [...chords.slice(0, -2), useSeventh ? upgradeToSeventh(approach, getKeyId(key)) : approach, arrival];
+}
+
+// Most a section's tempo moves away from the song tempo along a mood arc
+const MAX_ARC_TEMPO_SHIFT = 12;
+
+// Style hints from the free-text style, then the style profile, which has the
+// last word on vocabulary, tempo and meter
+function applyStyleTraits(analysis: MoodAnalysis, styleText?: string, style?: StyleProfile): MoodAnalysis {
+  if (styleText) {
+    const styleLower = styleText.toLowerCase();
+    for (const [keyword, traits] of Object.entries(MOOD_KEYWORDS)) {
+      if (styleLower.includes(keyword)) {
+        Object.assign(analysis, traits);
+      }
+    }
+  }
+
+  if (style) {
+    Object.assign(analysis, style.traits);
+    if (style.tempoRange) analysis.tempoRange = style.tempoRange;
+    if (style.timeSignature) analysis.suggestedTimeSignature = style.timeSignature;
+  }
+  return analysis;
+}
+
+// Sections whose stage of the arc is in the other mode borrow from it
+const ARC_BORROWING: StyleSubstitutionRule[] = [{ kind: 'borrowed', chance: 0.3 }];
+
+// Half the distance between the middle of a section's tempo range and the song's
+function getArcTempoShift(sectionMood: MoodAnalysis, songMood: MoodAnalysis): number {
+  const middle = ({ min, max }: MoodAnalysis['tempoRange']) => (min + max) / 2;
+  const shift = Math.round((middle(sectionMood.tempoRange) - middle(songMood.tempoRange)) / 2);
+  return Math.max(-MAX_ARC_TEMPO_SHIFT, Math.min(MAX_ARC_TEMPO_SHIFT, shift));
+}
+
+// Rhythm guidance from a style's strumming patterns, preferring one that
+// suits the tempo; meter-only styles take any pattern in their meter
+function applyStyleRhythm(guidance: RhythmGuidance, style: StyleProfile, tempo: number): RhythmGuidance {
+  const { timeSignature } = style;
+  let patterns = (style.strummingPatterns ?? [])
+    .map(id => getStrummingPatternById(id))
+    .filter((pattern): pattern is NonNullable<typeof pattern> => !!pattern);
+  if (patterns.length === 0 && timeSignature) {
+    patterns = STRUMMING_PATTERNS.filter(pattern =>
+      pattern.timeSignature.beats === timeSignature.beats && pattern.timeSignature.value === timeSignature.value
+    );
+  }
+  if (patterns.length === 0) return guidance;
+
+  const fitsTempo = patterns.filter(pattern => tempo >= pattern.tempoRange.min && tempo <= pattern.tempoRange.max);
+  const [primaryPattern, ...alternatives] = fitsTempo.length > 0
+    ? [...fitsTempo, ...patterns.filter(pattern => !fitsTempo.includes(pattern))]
+    : patterns;
+  return {
+    ...guidance,
+    primaryPattern,
+    alternativePatterns: alternatives.length > 0 ? alternatives.slice(0, 2) : undefined,
+  };
+}
+
+/**
+ * Generate a song for a mood. Structure, tempo, voicing (inversions, pedal
+ * bass) and rhythm are shared; the section chords come from the given backend.
+ */
+export function generateAlgorithmicSong(
+  request: AIGenerationRequest,
+  generateSectionChords: SectionChordGenerator = generatePatternChords
+): Song {
   const mood = request.mood;
   const complexity = request.complexity || 'moderate';
 
-  // Analyze the mood
-  const analysis = analyzeMood(mood);
+  // Analyze the mood, applying style hints before picking the key so a
+  // style like "dorian funk" sets the mode
+  const style = request.styleProfile ?? findStyleProfile(request.style);
+  const analysis = applyStyleTraits(analyzeMood(mood), request.style, style);
+
+  // A mood that changes over the song gets an analysis per stage
+  const stages = analyzeMoodArc(mood);
+  const moodArc = stages.length > 1
+    ? stages.map(stage => ({ ...stage, analysis: applyStyleTraits(stage.analysis, request.style, style) }))
+    : undefined;
 
   // Determine key
   let key: Key;
@@ -2175,77 +2387,153 @@ export function generateAlgorithmicSong(request: AIGenerationRequest): Song {
     key = { tonic: root, mode: analysis.preferredMode };
   }
 
-  // Apply style hints
-  if (request.style) {
-    const styleLower = request.style.toLowerCase();
-    for (const [keyword, traits] of Object.entries(MOOD_KEYWORDS)) {
-      if (styleLower.includes(keyword)) {
-        Object.assign(analysis, traits);
-      }
-    }
-  }
-
   // Create seeded random for this specific request
-  const random = seededRandom(`${mood}-${key.tonic}-${key.mode}-${complexity}`);
+  const random = seededRandom(`${mood}-${key.tonic}-${key.mode}-${complexity}${request.seed ? `-${request.seed}` : ''}`);
 
-  // Select song structure
-  const structure = selectStructure(complexity, random);
+  // Select song structure (a form from the request wins over the style's)
+  const form = request.form ?? selectStructure(complexity, random, style?.forms);
+  const structure = form.sections;
 
-  // Generate tempo
-  const tempo = Math.round(
+  // Generate tempo (drawn even when one is given, so the rest of the song does not change)
+  const moodTempo = Math.round(
     analysis.tempoRange.min + random() * (analysis.tempoRange.max - analysis.tempoRange.min)
   );
+  const tempo = request.tempo ?? moodTempo;
+
+  // Select strumming patterns based on mood analysis; chord lengths follow their meter
+  const selectedRhythm = selectStrummingPatterns(analysis, tempo);
+  const rhythmGuidance = style ? applyStyleRhythm(selectedRhythm, style, tempo) : selectedRhythm;
+  const beatsPerBar = getBeatsPerBar(rhythmGuidance.primaryPattern.timeSignature);
+
+  // Keys for each section (all the home key unless a modulation is planned)
+  const sectionKeys = request.modulation
+    ? planSectionKeys(structure.map(template => template.type), key, request.modulation)
+    : structure.map(() => key);
 
   // Generate sections (using reduce to allow looking back at already-generated sections)
-  const sections: SongSection[] = structure.reduce<SongSection[]>((acc, template) => {
-    const chordCount = template.minChords +
-      Math.floor(random() * (template.maxChords - template.minChords + 1));
+  const generatedSections: SongSection[] = structure.reduce<SongSection[]>((acc, template, index) => {
+    const sectionKey = sectionKeys[index];
+    const sectionMood = moodArc ? getArcMood(moodArc, getArcPosition(index, structure.length)) : analysis;
+    const chordCount = pickChordCount(template, random);
 
     // For repeated sections (like chorus), reuse the progression
     const existingSection = acc.find(s =>
       s.type === template.type && s.name.replace(/\d+$/, '').trim() === template.name.replace(/\d+$/, '').trim()
+    ) ?? (
+      // A chorus in a new key lifts the first chorus, whatever it is called
+      template.type === 'chorus' && getKeyId(sectionKey) !== getKeyId(key)
+        ? acc.find(s => s.type === 'chorus')
+        : undefined
     );
 
+    const existingKey = existingSection?.key ?? key;
+
     let chords: Chord[];
-    if (existingSection && template.type === 'chorus') {
-      // Reuse chorus progression
-      chords = [...existingSection.chords];
+    let durations: number[] | undefined;
+    const isRepeat = template.type === 'chorus' || template.repeat;
+    if (existingSection && isRepeat && getKeyId(existingKey) === getKeyId(sectionKey)) {
+      // Reuse chorus progression (or a repeated section such as the A of AABA)
+      chords = template.cadence
+        ? applySectionCadence(existingSection.chords, template.cadence, sectionKey, sectionMood, complexity)
+        : [...existingSection.chords];
+      durations = existingSection.durations;
+    } else if (existingSection && isRepeat && existingKey.mode === sectionKey.mode) {
+      // Same chorus, lifted into the new key
+      chords = transposeSectionChords(existingSection.chords, existingKey, sectionKey);
+      durations = existingSection.durations;
     } else {
-      chords = generateProgression(key, chordCount, analysis, complexity, template.type, random);
+      chords = generateSectionChords({
+        key: sectionKey,
+        length: chordCount,
+        analysis: sectionMood,
+        complexity,
+        sectionType: template.type,
+        random,
+        style,
+      });
+
+      // Style substitutions (ii-V approaches, tritone subs...)
+      if (style?.substitutions && complexity !== 'simple') {
+        chords = applyStyleSubstitutions(chords, sectionKey, style.substitutions, random);
+      }
+
+      // A dark stage of the arc in a major key (or a bright one in minor)
+      // takes its colour from the parallel mode
+      if (moodArc && isMinorMode(sectionMood.preferredMode) !== isMinorMode(sectionKey.mode)) {
+        chords = applyStyleSubstitutions(chords, sectionKey, ARC_BORROWING, random);
+      }
+
+      if (template.cadence) {
+        chords = applySectionCadence(chords, template.cadence, sectionKey, sectionMood, complexity);
+      }
+
+      // Inversions and pedal bass leave the cadence chords in root position,
+      // so the section still closes on its planned cadence
+      const cadenceChords = template.cadence ? chords.slice(-2) : [];
+      let voiced = chords.slice(0, chords.length - cadenceChords.length);
 
       // Apply inversions for smoother bass movement (dreamy, ethereal, ambient moods)
-      if (analysis.useInversions && complexity !== 'simple') {
-        chords = applyInversions(chords, analysis, random);
+      if (sectionMood.useInversions && complexity !== 'simple') {
+        voiced = applyInversions(voiced, sectionMood, random);
       }
 
       // Apply pedal bass for cinematic effect
-      if (analysis.pedalBassChance > 0 && complexity !== 'simple') {
-        chords = applyPedalBass(chords, analysis, key, random);
+      if (sectionMood.pedalBassChance > 0 && complexity !== 'simple') {
+        voiced = applyPedalBass(voiced, sectionMood, sectionKey, random);
+      }
+      chords = [...voiced, ...cadenceChords];
+
+      if (template.bars) {
+        durations = fitChordsToBars(chords.length, template.bars, beatsPerBar);
+      } else if (template.barPerChord) {
+        durations = chords.map(() => beatsPerBar);
+      } else {
+        durations = planHarmonicRhythm(chords.length, {
+          sectionType: template.type,
+          energy: sectionMood.energy,
+          complexity,
+          beatsPerBar,
+          random,
+        });
       }
     }
 
-    acc.push({
+    const section: SongSection = {
       id: uuidv4(),
       type: template.type,
       name: template.name,
       chords,
-      bars: chords.length,
-    });
+      durations,
+      key: sectionKey,
+    };
+    if (moodArc) {
+      section.moodAnalysis = sectionMood;
+      const tempoShift = getArcTempoShift(sectionMood, analysis);
+      if (tempoShift !== 0) section.tempoShift = tempoShift;
+    }
+    acc.push({ ...section, bars: countSectionBars(section, beatsPerBar) });
 
     return acc;
   }, []);
 
+  // Record key changes and set up pivot chords before them
+  const sections = request.modulation
+    ? linkSectionKeys(generatedSections, key, request.modulation)
+    : generatedSections;
+
   // Generate title
   const titleWords = mood.split(/\s+/).slice(0, 3);
   const title = titleWords.map(w => w.charAt(0).toUpperCase() + w.slice(1)).join(' ');
 
   // Build description
-  const description = buildDescription(analysis, complexity, key);
-
-  // Select strumming patterns based on mood analysis
-  const rhythmGuidance = selectStrummingPatterns(analysis, tempo);
-
-  return {
+  const description = [
+    style ? `Style: ${style.name}. ` : '',
+    request.form ? `Form: ${form.name}. ` : '',
+    buildDescription(analysis, complexity, key, sections, moodArc),
+  ].join('');
+
+  // Constraints are enforced on the finished song so both backends share them
+  return constrainSong({
     id: uuidv4(),
     title,
     description,
@@ -2255,15 +2543,35 @@ export function generateAlgorithmicSong(request: AIGenerationRequest): Song {
     customMood: mood,
     generatedBy: 'preset',
     moodAnalysis: analysis,
+    moodArc,
     rhythmGuidance,
-  };
+  }, request.constraints);
 }
 
-function buildDescription(analysis: MoodAnalysis, complexity: string, key: Key): string {
+function buildDescription(
+  analysis: MoodAnalysis,
+  complexity: string,
+  key: Key,
+  sections: SongSection[],
+  moodArc?: MoodArcStage[]
+): string {
   const parts: string[] = [];
 
   // Key and mode
-  parts.push(`Generated in ${key.tonic} ${key.mode}.`);
+  parts.push(`Generated in ${formatKeyName(key)}.`);
+
+  // Mood arc
+  if (moodArc) {
+    parts.push(`Mood arc: ${moodArc.map(stage => stage.phrase).join(' → ')}.`);
+  }
+
+  // Key changes
+  const keyChanges = sections.flatMap(section =>
+    section.modulation ? [`${section.name} in ${formatKeyName(section.modulation.to)}`] : []
+  );
+  if (keyChanges.length > 0) {
+    parts.push(`Key changes: ${keyChanges.join(', ')}.`);
+  }
 
   // Detected characteristics
   const characteristics: string[] = [];
@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { generateBassLine } from './bassLineGenerator';
+import { CHROMATIC_NOTES, transposeNote } from '../utils/musicTheory';
+import { getSectionBeats, getSectionEvents } from '../utils/harmonicRhythm';
+import { sectionOf, songOf } from '../test/fixtures';
+import type { BassStyle, LineNote } from '../types/music';
+
+const SONG = songOf([
+  sectionOf('verse', ['C', 'C/E', 'F', 'G/B', 'Am', 'Dm7', 'G7', 'C', 'C'], { durations: [4, 4, 4, 4, 2, 2, 3, 1, 2] }),
+  sectionOf('chorus', ['F', 'G', 'Em', 'A7', 'Dm', 'G', 'C']),
+]);
+const STYLES: BassStyle[] = ['root-fifth', 'walking', 'pedal', 'pump'];
+
+// Four-string bass, E1 to G3
+const BASS_LOW = 28;
+const BASS_HIGH = 55;
+
+const pitchClass = (midi: number) => CHROMATIC_NOTES[midi % 12];
+const noteAt = (line: LineNote[] = [], beat: number) => line.find(note => note.startBeat === beat);
+
+describe('generateBassLine', () => {
+  it('plays the chord root, or the slash bass, on each chord change', () => {
+    for (const style of STYLES.filter(style => style !== 'pedal')) {
+      const song = generateBassLine(SONG, { style });
+      expect(song.bassStyle).toBe(style);
+      for (const section of song.sections) {
+        for (const { chord, startBeat } of getSectionEvents(section, 4)) {
+          const note = noteAt(section.bassLine, startBeat);
+          expect(note?.midi).not.toBeNull();
+          expect(pitchClass(note!.midi!)).toBe(transposeNote(chord.bassNote ?? chord.root, 0));
+        }
+      }
+    }
+  });
+
+  it('holds the tonic under a pedal', () => {
+    const song = generateBassLine(SONG, { style: 'pedal' });
+    for (const section of song.sections) {
+      expect(section.bassLine!.every(note => pitchClass(note.midi!) === 'C')).toBe(true);
+    }
+  });
+
+  it('approaches each new chord from a semitone away when walking', () => {
+    const song = generateBassLine(SONG, { style: 'walking' });
+    // Both sections laid end to end, so the verse's last chord leads into the chorus
+    const chorusStart = getSectionBeats(SONG.sections[0], 4);
+    const line = song.sections.flatMap((section, sectionIndex) =>
+      section.bassLine!.map(note => ({ ...note, startBeat: note.startBeat + sectionIndex * chorusStart }))
+    );
+    const changes = song.sections.flatMap((section, sectionIndex) =>
+      getSectionEvents(section, 4).map(event => ({ ...event, startBeat: event.startBeat + sectionIndex * chorusStart }))
+    );
+
+    let approaches = 0;
+    changes.slice(1).forEach((change, i) => {
+      // Chords a beat long have no room for an approach note
+      if (changes[i].beats < 2) return;
+      const approach = noteAt(line, change.startBeat - 1)!;
+      const arrival = noteAt(line, change.startBeat)!;
+      expect(Math.abs(approach.midi! - arrival.midi!)).toBe(1);
+      approaches++;
+    });
+    expect(approaches).toBeGreaterThan(10);
+  });
+
+  it('keeps every note in the range of a four-string bass', () => {
+    for (const style of STYLES) {
+      for (const section of generateBassLine(SONG, { style }).sections) {
+        for (const note of section.bassLine ?? []) {
+          expect(note.midi).toBeGreaterThanOrEqual(BASS_LOW);
+          expect(note.midi).toBeLessThanOrEqual(BASS_HIGH);
+        }
+      }
+    }
+  });
+});
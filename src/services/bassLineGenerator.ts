@@ -0,0 +1,225 @@
+import type {
+  BassStyle,
+  Chord,
+  LineNote,
+  MoodAnalysis,
+  NoteName,
+  Song,
+  SongSection,
+} from '../types/music';
+import { CHROMATIC_NOTES, transposeNote } from '../utils/musicTheory';
+import { getSectionKey } from '../utils/modulation';
+import { getSectionBeats, getSectionEvents, getSongBeatsPerBar } from '../utils/harmonicRhythm';
+import type { ChordEvent } from '../utils/harmonicRhythm';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface BassLineOptions {
+  style?: BassStyle;    // Defaults to a style that suits the song's mood
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const BASS_STYLE_NAMES: Record<BassStyle, string> = {
+  'root-fifth': 'Root-fifth',
+  'walking': 'Walking',
+  'pedal': 'Pedal',
+  'pump': 'Octave pump',
+};
+
+export const BASS_STYLE_DESCRIPTIONS: Record<BassStyle, string> = {
+  'root-fifth': 'Alternates the root and fifth on the strong beats, like a country or folk bass.',
+  'walking': 'Quarter notes through the chord tones, approaching each new chord from a half step away.',
+  'pedal': 'Holds the tonic under every chord so the harmony moves over a fixed floor.',
+  'pump': 'Driving eighth notes on the root, jumping up an octave into each chord change.',
+};
+
+// Four-string bass, E1 to G3; lines gravitate to the middle
+const BASS_LOW = 28;
+const BASS_HIGH = 55;
+const BASS_CENTER = 40;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function pitchClassOf(note: NoteName): number {
+  return CHROMATIC_NOTES.indexOf(transposeNote(note, 0));
+}
+
+// Closest pitch of a note to the previous one, pulled gently toward the center
+function placeNote(note: NoteName, previous: number): number {
+  const pitchClass = pitchClassOf(note);
+  let best = BASS_CENTER;
+  let bestScore = Infinity;
+  for (let midi = BASS_LOW; midi <= BASS_HIGH; midi++) {
+    if (midi % 12 !== pitchClass) continue;
+    const score = Math.abs(midi - previous) + Math.abs(midi - BASS_CENTER) * 0.3;
+    if (score < bestScore) {
+      best = midi;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+function bassOf(chord: Chord): NoteName {
+  return chord.bassNote ?? chord.root;
+}
+
+// Fifth of the chord, preferably below the root where the bass sits lower
+function fifthBelow(chord: Chord, root: number): number {
+  const fifth = placeNote(chord.notes[2] ?? transposeNote(chord.root, 7), root);
+  return fifth > root && fifth - 12 >= BASS_LOW ? fifth - 12 : fifth;
+}
+
+// Next chord tone in the given direction, turning back if the line runs out of room
+function nextChordTone(chord: Chord, previous: number, direction: 1 | -1): number {
+  const classes = new Set(chord.notes.map(pitchClassOf));
+  for (const step of [direction, -direction]) {
+    for (let midi = previous + step; midi >= BASS_LOW && midi <= BASS_HIGH; midi += step) {
+      if (classes.has(midi % 12)) return midi;
+    }
+  }
+  return previous;
+}
+
+// ============================================================================
+// STYLES
+// ============================================================================
+
+function rootFifth(events: ChordEvent[], beatsPerBar: number, previous: number): LineNote[] {
+  const step = beatsPerBar === 4 ? 2 : beatsPerBar;
+  const notes: LineNote[] = [];
+  for (const event of events) {
+    const root = placeNote(bassOf(event.chord), previous);
+    for (let offset = 0, i = 0; offset < event.beats; offset += step, i++) {
+      const midi = i % 2 === 0 ? root : fifthBelow(event.chord, root);
+      notes.push({ midi, startBeat: event.startBeat + offset, beats: Math.min(1, event.beats - offset) });
+    }
+    previous = root;
+  }
+  return notes;
+}
+
+function walking(events: ChordEvent[], nextChord: Chord | undefined, previous: number): LineNote[] {
+  const notes: LineNote[] = [];
+  events.forEach((event, i) => {
+    const following = events[i + 1]?.chord ?? nextChord;
+    let current = placeNote(bassOf(event.chord), previous);
+    const direction = current > BASS_CENTER + 2 ? -1 : 1;   // Walk back toward the middle
+    for (let offset = 0; offset < event.beats; offset++) {
+      const beats = Math.min(1, event.beats - offset);
+      const isLastBeat = offset + 1 >= event.beats;
+      if (offset > 0 && isLastBeat && following) {
+        // Chromatic approach from the side the line is coming from
+        const target = placeNote(bassOf(following), current);
+        current = target > current ? target - 1 : target + 1;
+      } else if (offset > 0) {
+        current = nextChordTone(event.chord, current, direction);
+      }
+      notes.push({ midi: current, startBeat: event.startBeat + offset, beats });
+    }
+    previous = current;
+  });
+  return notes;
+}
+
+function pedal(section: SongSection, tonic: NoteName, beatsPerBar: number): LineNote[] {
+  const pickup = Math.max(0, section.pickupBeats ?? 0);
+  const totalBeats = getSectionBeats(section, beatsPerBar);
+  const midi = placeNote(tonic, BASS_CENTER - 4);
+  const notes: LineNote[] = [];
+  for (let startBeat = pickup; startBeat < totalBeats; startBeat += beatsPerBar) {
+    notes.push({ midi, startBeat, beats: Math.min(beatsPerBar, totalBeats - startBeat) });
+  }
+  return notes;
+}
+
+function pump(events: ChordEvent[], previous: number): LineNote[] {
+  const notes: LineNote[] = [];
+  for (const event of events) {
+    const root = placeNote(bassOf(event.chord), previous);
+    const octave = root + 12 <= BASS_HIGH ? root + 12 : root;
+    for (let offset = 0; offset < event.beats; offset += 0.5) {
+      const isLastEighth = offset + 0.5 >= event.beats && event.beats > 1;
+      notes.push({
+        midi: isLastEighth ? octave : root,
+        startBeat: event.startBeat + offset,
+        beats: Math.min(0.5, event.beats - offset),
+      });
+    }
+    previous = root;
+  }
+  return notes;
+}
+
+// ============================================================================
+// MAIN GENERATION
+// ============================================================================
+
+/**
+ * Bass style that fits a mood: swing walks, palm-muted and high-energy
+ * straight strumming pump, quiet songs hold a pedal, the rest alternate
+ * root and fifth.
+ */
+export function chooseBassStyle(analysis?: MoodAnalysis): BassStyle {
+  const style = analysis?.strummingStyle;
+  const energy = analysis?.energy ?? 'medium';
+  if (style === 'swing') return 'walking';
+  if (style === 'palm-muted') return 'pump';
+  if (energy === 'low' && (style === 'fingerpicking' || style === 'arpeggiated' || !style)) return 'pedal';
+  if (energy === 'high' && style === 'straight') return 'pump';
+  return 'root-fifth';
+}
+
+/**
+ * Write a bass line for every section of a song in one style. Lines follow
+ * the chord bass notes (slash chords included) and carry on smoothly from
+ * one section into the next; a pedal holds each section's tonic.
+ */
+export function generateBassLine(song: Song, options: BassLineOptions = {}): Song {
+  const bassStyle = options.style ?? chooseBassStyle(song.moodAnalysis);
+  const beatsPerBar = getSongBeatsPerBar(song);
+  let previous = BASS_CENTER;
+
+  const sections = song.sections.map((section, index) => {
+    const events = getSectionEvents(section, beatsPerBar);
+    if (events.length === 0) return { ...section, bassLine: [] };
+
+    let bassLine: LineNote[];
+    switch (bassStyle) {
+      case 'walking':
+        bassLine = walking(events, song.sections[index + 1]?.chords[0], previous);
+        break;
+      case 'pedal':
+        bassLine = pedal(section, getSectionKey(song, index).tonic, beatsPerBar);
+        break;
+      case 'pump':
+        bassLine = pump(events, previous);
+        break;
+      default:
+        bassLine = rootFifth(events, beatsPerBar, previous);
+    }
+
+    previous = bassLine[bassLine.length - 1]?.midi ?? previous;
+    return { ...section, bassLine };
+  });
+
+  return { ...song, sections, bassStyle };
+}
+
+/**
+ * Remove the bass line from every section
+ */
+export function clearBassLine(song: Song): Song {
+  return {
+    ...song,
+    bassStyle: undefined,
+    sections: song.sections.map(section => ({ ...section, bassLine: undefined })),
+  };
+}
@@ -0,0 +1,155 @@
+import { describe, it, expect } from 'vitest';
+import {
+  generateMarkovProgression,
+  generateMarkovSong,
+  sampleWithTemperature,
+  songToCorpus,
+  trainMarkovModel,
+} from './markovGenerator';
+import type { CorpusSequence } from './markovGenerator';
+import { seededRandom } from './algorithmicGenerator';
+import { chordFromSymbol } from '../utils/chordSymbols';
+import type { AIGenerationRequest, Key, RomanNumeral, Song } from '../types/music';
+
+const C_MAJOR: Key = { tonic: 'C', mode: 'major' };
+const CORPUS: CorpusSequence[] = [
+  { numerals: ['I', 'IV', 'V'], family: 'major', genre: 'pop' },
+  { numerals: ['I', 'V'], family: 'major', genre: 'rock' },
+  { numerals: ['i', 'iv'], family: 'minor' },
+];
+const WEIGHTS: Record<RomanNumeral, number> = { I: 5, IV: 3, V: 1 };
+
+// How often each numeral comes up over many seeded draws
+const shares = (temperature: number, draws = 2000): Record<RomanNumeral, number> => {
+  const random = seededRandom(`temperature-${temperature}`);
+  const counts: Record<RomanNumeral, number> = {};
+  for (let i = 0; i < draws; i++) {
+    const numeral = sampleWithTemperature(WEIGHTS, temperature, random)!;
+    counts[numeral] = (counts[numeral] ?? 0) + 1 / draws;
+  }
+  return counts;
+};
+
+describe('trainMarkovModel', () => {
+  it('counts first chords and transitions, looping back to the start', () => {
+    const model = trainMarkovModel(CORPUS, 'major');
+    expect(model.starts).toEqual({ I: 2 });
+    expect(model.transitions).toEqual({
+      I: { IV: 1, V: 1 },
+      IV: { V: 1 },
+      V: { I: 2 },
+    });
+  });
+
+  it('only counts sequences of the key family', () => {
+    const model = trainMarkovModel(CORPUS, 'minor');
+    expect(model.starts).toEqual({ i: 1 });
+    expect(model.transitions).toEqual({ i: { iv: 1 }, iv: { i: 1 } });
+  });
+
+  it('counts other genres at a background weight', () => {
+    const model = trainMarkovModel(CORPUS, 'major', 'pop');
+    expect(model.transitions.I.IV).toBe(1);
+    expect(model.transitions.I.V).toBeGreaterThan(0);
+    expect(model.transitions.I.V).toBeLessThan(0.1);
+    expect(model.transitions.V.I).toBeCloseTo(1 + model.transitions.I.V);
+  });
+});
+
+describe('sampleWithTemperature', () => {
+  it('always picks the likeliest chord at a very low temperature', () => {
+    for (const draw of [0, 0.5, 0.99]) {
+      expect(sampleWithTemperature(WEIGHTS, 0.01, () => draw)).toBe('I');
+    }
+  });
+
+  it('follows the weights at temperature 1', () => {
+    const counts = shares(1);
+    expect(counts.I).toBeCloseTo(5 / 9, 1);
+    expect(counts.V).toBeCloseTo(1 / 9, 1);
+  });
+
+  it('flattens the odds toward uniform at a high temperature', () => {
+    const counts = shares(100);
+    for (const numeral of ['I', 'IV', 'V']) {
+      expect(counts[numeral]).toBeCloseTo(1 / 3, 1);
+    }
+    expect(shares(0.5).I).toBeGreaterThan(shares(1).I);
+  });
+
+  it('returns null with nothing to pick', () => {
+    expect(sampleWithTemperature({}, 1, Math.random)).toBeNull();
+    expect(sampleWithTemperature({ I: 0 }, 1, Math.random)).toBeNull();
+  });
+});
+
+describe('generateMarkovProgression', () => {
+  it('walks the chain and realizes the numerals in the key', () => {
+    const model = trainMarkovModel([CORPUS[0]], 'major');
+    const chords = generateMarkovProgression(model, C_MAJOR, 6, seededRandom('walk'));
+    expect(chords.map(chord => chord.name)).toEqual(['C', 'F', 'G', 'C', 'F', 'G']);
+  });
+
+  it('only takes moves the model has seen', () => {
+    const model = trainMarkovModel(CORPUS, 'major');
+    const chords = generateMarkovProgression(model, C_MAJOR, 16, seededRandom('moves'));
+    expect(chords).toHaveLength(16);
+    expect(chords[0].name).toBe('C');
+    chords.slice(1).forEach((chord, i) => {
+      const next = { C: ['F', 'G'], F: ['G'], G: ['C'] }[chords[i].name];
+      expect(next).toContain(chord.name);
+    });
+  });
+
+  it('is the same for the same seed', () => {
+    const model = trainMarkovModel(CORPUS, 'major');
+    const names = (seed: string) =>
+      generateMarkovProgression(model, C_MAJOR, 12, seededRandom(seed), 2).map(chord => chord.name);
+    expect(names('again')).toEqual(names('again'));
+  });
+
+  it('returns nothing from an empty model', () => {
+    const model = trainMarkovModel([], 'major');
+    expect(generateMarkovProgression(model, C_MAJOR, 4, seededRandom('empty'))).toEqual([]);
+  });
+});
+
+describe('generateMarkovSong', () => {
+  const request: AIGenerationRequest = {
+    mood: 'calm and dreamy',
+    key: C_MAJOR,
+    style: 'lo-fi hip hop',
+    generator: 'markov',
+    seed: 'markov-song',
+  };
+  const chordNames = (song: Song) => song.sections.map(section => section.chords.map(chord => chord.name));
+
+  it('is the same for the same seed', () => {
+    expect(chordNames(generateMarkovSong(request))).toEqual(chordNames(generateMarkovSong(request)));
+  });
+
+  it('samples the genre the style names at the requested temperature', () => {
+    const song = generateMarkovSong({ ...request, temperature: 0.5 });
+    expect(song.description).toContain('chill Markov model (temperature 0.5)');
+    expect(song.sections.length).toBeGreaterThan(0);
+    song.sections.forEach(section => expect(section.chords.length).toBeGreaterThan(0));
+  });
+});
+
+describe('songToCorpus', () => {
+  const song: Song = {
+    id: 'corpus-test',
+    key: { tonic: 'A', mode: 'minor' },
+    tempo: 80,
+    customMood: 'a lo-fi rainy evening',
+    sections: [{ id: 'verse', type: 'verse', name: 'Verse', chords: ['Am', 'F', 'C', 'G'].map(symbol => chordFromSymbol(symbol)) }],
+  };
+
+  it('tags sections with the genre of the song itself', () => {
+    expect(songToCorpus(song)).toEqual([{ numerals: ['i', 'VI', 'III', 'VII'], family: 'minor', genre: 'chill' }]);
+  });
+
+  it('leaves a song without a genre untagged', () => {
+    expect(songToCorpus({ ...song, customMood: undefined })[0].genre).toBeUndefined();
+  });
+});
@@ -0,0 +1,262 @@
+import type {
+  AIGenerationRequest,
+  Chord,
+  ChordQuality,
+  Key,
+  ProgressionGenre,
+  RomanNumeral,
+  Song,
+} from '../types/music';
+import { getDiatonicChords, getScaleNotes, isMinorMode } from '../utils/musicTheory';
+import { parseRomanNumeral, romanNumeralForChord } from '../utils/romanNumerals';
+import { analyzeSong } from '../utils/harmonicAnalysis';
+import { COMMON_PROGRESSIONS, romanNumeralToChord } from '../data/progressions';
+import { NAMED_PROGRESSIONS, generateAlgorithmicSong } from './algorithmicGenerator';
+import type { NamedProgression } from './algorithmicGenerator';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+// Major-like and minor-like keys get separate models (I vs i as the home chord)
+export type KeyFamily = 'major' | 'minor';
+
+export interface CorpusSequence {
+  numerals: RomanNumeral[];
+  family: KeyFamily;
+  genre?: ProgressionGenre;     // Untagged sequences only feed the background model
+}
+
+export interface MarkovModel {
+  family: KeyFamily;
+  genre?: ProgressionGenre;
+  starts: Record<RomanNumeral, number>;                              // Weighted first chords
+  transitions: Record<RomanNumeral, Record<RomanNumeral, number>>;   // Weighted next chords
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const DEFAULT_TEMPERATURE = 1;
+const MIN_TEMPERATURE = 0.05;   // At or below this, always take the likeliest chord
+
+// Other genres still count a little, so a genre model never dead-ends
+const BACKGROUND_WEIGHT = 0.02;
+
+// Style keywords per genre; checked in order, so "hard rock" finds metal first
+const GENRE_KEYWORDS: [ProgressionGenre, string[]][] = [
+  ['metal', ['metal', 'djent', 'hard rock']],
+  ['electronic', ['edm', 'electronic', 'house', 'techno', 'trance', 'dance', 'future bass']],
+  ['chill', ['lo-fi', 'lofi', 'chill', 'ambient', 'dream']],
+  ['jazz', ['jazz', 'swing', 'bebop']],
+  ['blues', ['blues']],
+  ['funk', ['funk', 'disco']],
+  ['latin', ['latin', 'bossa', 'salsa', 'flamenco', 'spanish']],
+  ['folk', ['folk', 'country', 'acoustic', 'gospel']],
+  ['rock', ['rock', 'punk', 'grunge', 'alternative', 'indie']],
+  ['pop', ['pop']],
+];
+
+// ============================================================================
+// CORPUS
+// ============================================================================
+
+type PatternQuality = NamedProgression['qualities'][number];
+
+const MINOR_TONIC_QUALITIES: PatternQuality[] = ['minor', 'minor7'];
+const MAJOR_TONIC_QUALITIES: PatternQuality[] = ['major', 'major7', 'dominant7'];
+
+// The families a named pattern fits, judged by the quality of its tonic chord;
+// diatonic and power-chord tonics follow the key, so they fit both
+function getPatternFamilies(progression: NamedProgression): KeyFamily[] {
+  const tonicIndex = progression.degrees.indexOf(1);
+  const tonicQuality = progression.qualities[tonicIndex === -1 ? 0 : tonicIndex];
+  if (MINOR_TONIC_QUALITIES.includes(tonicQuality)) return ['minor'];
+  if (MAJOR_TONIC_QUALITIES.includes(tonicQuality)) return ['major'];
+  return ['major', 'minor'];
+}
+
+// Named patterns store degrees and qualities; label them in C to get numerals
+function namedProgressionToSequences(progression: NamedProgression): CorpusSequence[] {
+  return getPatternFamilies(progression).map(family => {
+    const key: Key = { tonic: 'C', mode: family };
+    const scale = getScaleNotes(key);
+    const diatonic = getDiatonicChords(key);
+
+    const numerals = progression.degrees.map((degree, i) => {
+      const root = scale[(degree - 1) % 7];
+      const hint = progression.qualities[i];
+      const quality: ChordQuality = hint === 'diatonic'
+        ? diatonic.find(chord => chord.root === root)?.quality ?? 'major'
+        : hint;
+      return romanNumeralForChord({ root, quality }, key);
+    });
+
+    return { numerals, family, genre: progression.genre };
+  });
+}
+
+function numeralFamily(numeral: RomanNumeral): KeyFamily {
+  const quality = parseRomanNumeral(numeral)?.quality;
+  return quality === 'major' || quality === 'augmented' ? 'major' : 'minor';
+}
+
+/**
+ * The bundled corpus: the generator's named progressions (genre-tagged) plus
+ * the major/minor common progressions from the preset library (untagged)
+ */
+export function getBundledCorpus(): CorpusSequence[] {
+  return [
+    ...NAMED_PROGRESSIONS.flatMap(namedProgressionToSequences),
+    ...COMMON_PROGRESSIONS
+      .filter(progression => !progression.mode)
+      .map(({ pattern }) => ({ numerals: pattern, family: numeralFamily(pattern[0]) })),
+  ];
+}
+
+/**
+ * Turn a song into corpus sequences (one per section) via harmonic analysis,
+ * tagged with the genre its own mood text names (untagged if none)
+ */
+export function songToCorpus(song: Song): CorpusSequence[] {
+  const family: KeyFamily = isMinorMode(song.key.mode) ? 'minor' : 'major';
+  const genre = detectGenre(song.customMood);
+  return analyzeSong(song)
+    .filter(section => section.chords.length > 0)
+    .map(section => ({ numerals: section.chords.map(chord => chord.romanNumeral), family, genre }));
+}
+
+/**
+ * Pick the genre model for a free-text style ("lo-fi hip hop" -> chill)
+ */
+export function detectGenre(style?: string): ProgressionGenre | undefined {
+  if (!style) return undefined;
+  const lower = style.toLowerCase();
+  return GENRE_KEYWORDS.find(([, keywords]) => keywords.some(keyword => lower.includes(keyword)))?.[0];
+}
+
+// ============================================================================
+// TRAINING
+// ============================================================================
+
+function addWeight(table: Record<RomanNumeral, number>, numeral: RomanNumeral, weight: number): void {
+  table[numeral] = (table[numeral] ?? 0) + weight;
+}
+
+/**
+ * Count first chords and chord-to-chord transitions for one key family.
+ * Sections loop, so the last chord also leads back to the first. With a
+ * genre, sequences from other genres only count at a background weight.
+ */
+export function trainMarkovModel(
+  corpus: CorpusSequence[],
+  family: KeyFamily,
+  genre?: ProgressionGenre
+): MarkovModel {
+  const model: MarkovModel = { family, genre, starts: {}, transitions: {} };
+
+  for (const sequence of corpus) {
+    if (sequence.family !== family || sequence.numerals.length === 0) continue;
+    const weight = !genre || sequence.genre === genre ? 1 : BACKGROUND_WEIGHT;
+    const { numerals } = sequence;
+
+    addWeight(model.starts, numerals[0], weight);
+    numerals.forEach((numeral, i) => {
+      const next = numerals[(i + 1) % numerals.length];
+      addWeight((model.transitions[numeral] ??= {}), next, weight);
+    });
+  }
+
+  return model;
+}
+
+const MODEL_CACHE = new Map<string, MarkovModel>();
+
+/**
+ * The bundled model for a genre and key family (cached)
+ */
+export function getMarkovModel(family: KeyFamily, genre?: ProgressionGenre): MarkovModel {
+  const cacheKey = `${family}-${genre ?? 'all'}`;
+  let model = MODEL_CACHE.get(cacheKey);
+  if (!model) {
+    model = trainMarkovModel(getBundledCorpus(), family, genre);
+    MODEL_CACHE.set(cacheKey, model);
+  }
+  return model;
+}
+
+// ============================================================================
+// SAMPLING
+// ============================================================================
+
+/**
+ * Sample from weights reshaped by temperature: below 1 sharpens toward the
+ * likeliest choice, above 1 flattens toward uniform
+ */
+export function sampleWithTemperature(
+  weights: Record<RomanNumeral, number>,
+  temperature: number,
+  random: () => number
+): RomanNumeral | null {
+  const entries = Object.entries(weights).filter(([, weight]) => weight > 0);
+  if (entries.length === 0) return null;
+
+  if (temperature <= MIN_TEMPERATURE) {
+    return entries.reduce((best, entry) => (entry[1] > best[1] ? entry : best))[0];
+  }
+
+  const scaled = entries.map(([numeral, weight]) => [numeral, Math.pow(weight, 1 / temperature)] as const);
+  const total = scaled.reduce((sum, [, weight]) => sum + weight, 0);
+  let threshold = random() * total;
+  for (const [numeral, weight] of scaled) {
+    threshold -= weight;
+    if (threshold <= 0) return numeral;
+  }
+  return scaled[scaled.length - 1][0];
+}
+
+/**
+ * Walk the chain for a section's worth of numerals, then realize them in the key
+ */
+export function generateMarkovProgression(
+  model: MarkovModel,
+  key: Key,
+  length: number,
+  random: () => number,
+  temperature: number = DEFAULT_TEMPERATURE
+): Chord[] {
+  const numerals: RomanNumeral[] = [];
+  let current = sampleWithTemperature(model.starts, temperature, random);
+
+  while (current && numerals.length < length) {
+    numerals.push(current);
+    // Dead ends restart from the opening distribution
+    current = sampleWithTemperature(model.transitions[current] ?? model.starts, temperature, random);
+  }
+
+  return numerals.map(numeral => romanNumeralToChord(numeral, key));
+}
+
+// ============================================================================
+// SONG GENERATION
+// ============================================================================
+
+/**
+ * Generate a song whose section chords are sampled from a Markov model.
+ * Same request/response contract as generateAlgorithmicSong.
+ */
+export function generateMarkovSong(request: AIGenerationRequest): Song {
+  const genre = request.genre ?? request.styleProfile?.genre ?? detectGenre(request.style);
+  const temperature = request.temperature ?? DEFAULT_TEMPERATURE;
+
+  const song = generateAlgorithmicSong(request, ({ key, length, random }) => {
+    const family: KeyFamily = isMinorMode(key.mode) ? 'minor' : 'major';
+    return generateMarkovProgression(getMarkovModel(family, genre), key, length, random, temperature);
+  });
+
+  return {
+    ...song,
+    description: `${song.description} Chords sampled from the ${genre ?? 'all-genre'} Markov model (temperature ${temperature}).`,
+  };
+}
@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import { VOCAL_RANGES, generateMelody } from './melodyGenerator';
+import { CHROMATIC_NOTES } from '../utils/musicTheory';
+import { getSectionEvents } from '../utils/harmonicRhythm';
+import { sectionOf, songOf } from '../test/fixtures';
+import type { LineNote, VocalRange } from '../types/music';
+
+const pitchClass = (midi: number) => CHROMATIC_NOTES[((midi % 12) + 12) % 12];
+const sung = (melody: LineNote[] = []) => melody.flatMap(note => (note.midi === null ? [] : [note.midi]));
+
+const SONG = songOf([
+  sectionOf('verse', ['C', 'Am', 'F', 'G', 'C', 'Am', 'Dm', 'G']),
+  sectionOf('chorus', ['F', 'G', 'Em', 'Am', 'F', 'G', 'C', 'C'], { type: 'chorus' }),
+]);
+const RANGES = Object.keys(VOCAL_RANGES) as VocalRange[];
+const SEEDS = ['one', 'two', 'three', 'four'];
+
+describe('generateMelody', () => {
+  it('keeps every note inside the vocal range', () => {
+    for (const range of RANGES) {
+      const { low, high } = VOCAL_RANGES[range];
+      for (const seed of SEEDS) {
+        const melody = generateMelody(SONG, { range, seed });
+        expect(melody.vocalRange).toBe(range);
+        for (const midi of melody.sections.flatMap(section => sung(section.melody))) {
+          expect(midi).toBeGreaterThanOrEqual(low);
+          expect(midi).toBeLessThanOrEqual(high);
+        }
+      }
+    }
+  });
+
+  it('puts a tone of the sounding chord on every strong beat', () => {
+    for (const seed of SEEDS) {
+      const melody = generateMelody(SONG, { seed });
+      for (const section of melody.sections) {
+        const events = getSectionEvents(section, 4);
+        for (const note of section.melody ?? []) {
+          if (note.midi === null || (note.startBeat % 4 !== 0 && note.startBeat % 4 !== 2)) continue;
+          const chord = events.find(event => note.startBeat >= event.startBeat && note.startBeat < event.startBeat + event.beats)!.chord;
+          expect(chord.notes).toContain(pitchClass(note.midi));
+        }
+      }
+    }
+  });
+
+  it('ends on the tonic', () => {
+    const melody = generateMelody(SONG, { seed: 'end' });
+    expect(pitchClass(sung(melody.sections[1].melody).at(-1)!)).toBe('C');
+  });
+
+  it('is the same for the same seed and changes with it', () => {
+    const lines = (seed: string) => generateMelody(SONG, { seed }).sections.map(section => section.melody);
+    expect(lines('again')).toEqual(lines('again'));
+    expect(lines('again')).not.toEqual(lines('other'));
+  });
+
+  it('sings the pickup beats', () => {
+    const song = songOf([sectionOf('verse', ['G', 'C', 'F', 'G', 'C'], { durations: [1.5, 4, 4, 4, 4], pickupBeats: 1.5 })]);
+    const melody = generateMelody(song, { seed: 'pickup' }).sections[0].melody!;
+    expect(melody.slice(0, 2).map(note => [note.startBeat, note.beats])).toEqual([[0, 0.5], [0.5, 1]]);
+    expect(melody.slice(0, 2).every(note => note.midi !== null)).toBe(true);
+    expect(melody[2].startBeat).toBe(1.5);
+  });
+
+  it('keeps a transposed repeat inside the range', () => {
+    // The second verse is the first a fourth lower
+    const song = songOf([
+      sectionOf('verse-1', ['C', 'Am', 'F', 'G']),
+      sectionOf('verse-2', ['G', 'Em', 'C', 'D']),
+    ]);
+    for (const range of RANGES) {
+      const { low, high } = VOCAL_RANGES[range];
+      for (const seed of SEEDS) {
+        const [first, second] = generateMelody(song, { range, seed }).sections.map(section => sung(section.melody));
+        for (const midi of second) {
+          expect(midi).toBeGreaterThanOrEqual(low);
+          expect(midi).toBeLessThanOrEqual(high);
+        }
+        expect(second).toHaveLength(first.length);
+      }
+    }
+  });
+});
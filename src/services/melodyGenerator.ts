@@ -0,0 +1,362 @@
+import type {
+  Chord,
+  LineNote,
+  MoodAnalysis,
+  NoteName,
+  SectionType,
+  Song,
+  SongSection,
+  VocalRange,
+} from '../types/music';
+import { CHROMATIC_NOTES, getInterval, getScaleNotes, transposeNote } from '../utils/musicTheory';
+import { getSectionKey } from '../utils/modulation';
+import { getSectionBeats, getSectionEvents, getSongBeatsPerBar } from '../utils/harmonicRhythm';
+import type { ChordEvent } from '../utils/harmonicRhythm';
+import { seededRandom } from './algorithmicGenerator';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface MelodyOptions {
+  range?: VocalRange;
+  seed?: string;        // Change to get a different melody over the same chords
+}
+
+// One bar of rhythm in beats; negative values are rests
+type BarRhythm = number[];
+
+interface RhythmMotif {
+  a: BarRhythm;
+  b: BarRhythm;
+  cadence: BarRhythm;
+}
+
+interface SectionContext {
+  events: ChordEvent[];
+  scale: number[];      // Scale pitches inside the range
+  low: number;
+  high: number;
+  center: number;       // Middle of the contour for this section
+  maxLeap: number;
+  chordToneChance: number;
+  random: () => number;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+// MIDI ranges a typical untrained singer can manage comfortably
+export const VOCAL_RANGES: Record<VocalRange, { low: number; high: number }> = {
+  soprano: { low: 60, high: 79 },   // C4–G5
+  alto: { low: 55, high: 74 },      // G3–D5
+  tenor: { low: 48, high: 67 },     // C3–G4
+  baritone: { low: 45, high: 64 },  // A2–E4
+  bass: { low: 41, high: 60 },      // F2–C4
+};
+
+export const VOCAL_RANGE_NAMES: Record<VocalRange, string> = {
+  soprano: 'Soprano',
+  alto: 'Alto',
+  tenor: 'Tenor',
+  baritone: 'Baritone',
+  bass: 'Bass',
+};
+
+export const DEFAULT_VOCAL_RANGE: VocalRange = 'alto';
+
+const BAR_RHYTHMS: Record<number, Record<MoodAnalysis['energy'] | 'cadence', BarRhythm[]>> = {
+  4: {
+    low: [[2, 2], [3, 1], [4], [2, 1, 1]],
+    medium: [[1, 1, 2], [2, 1, 1], [1, 1, 1, 1], [1.5, 0.5, 2]],
+    high: [[1, 0.5, 0.5, 1, 1], [0.5, 0.5, 1, 0.5, 0.5, 1], [1, 1, 0.5, 0.5, 1]],
+    cadence: [[3, -1], [2, -2], [1, 1, 2]],
+  },
+  3: {
+    low: [[3], [2, 1]],
+    medium: [[1, 1, 1], [2, 1]],
+    high: [[1, 0.5, 0.5, 1], [0.5, 0.5, 1, 1]],
+    cadence: [[3], [2, -1]],
+  },
+};
+
+// Where the contour sits in the range, from the bottom (0) to the top (1)
+const SECTION_HEIGHT: Record<SectionType, number> = {
+  'intro': 0.4,
+  'verse': 0.4,
+  'pre-chorus': 0.5,
+  'chorus': 0.62,
+  'bridge': 0.55,
+  'outro': 0.38,
+  'solo': 0.55,
+  'breakdown': 0.35,
+};
+
+const ENERGY_LIFT: Record<MoodAnalysis['energy'], number> = { low: -0.08, medium: 0, high: 0.08 };
+
+// Higher tension allows wider leaps and more notes outside the chord
+const MAX_LEAP: Record<MoodAnalysis['tension'], number> = { low: 4, medium: 5, high: 7 };
+const CHORD_TONE_CHANCE: Record<MoodAnalysis['tension'], number> = { low: 0.5, medium: 0.35, high: 0.2 };
+
+const PHRASE_BARS = 4;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function pitchClass(midi: number): number {
+  return ((midi % 12) + 12) % 12;
+}
+
+function pitchesIn(notes: NoteName[], low: number, high: number): number[] {
+  const classes = new Set(notes.map(note => CHROMATIC_NOTES.indexOf(transposeNote(note, 0))));
+  const pitches: number[] = [];
+  for (let midi = low; midi <= high; midi++) {
+    if (classes.has(pitchClass(midi))) pitches.push(midi);
+  }
+  return pitches;
+}
+
+function nearest(pitches: number[], target: number): number {
+  return pitches.reduce((best, midi) => (Math.abs(midi - target) < Math.abs(best - target) ? midi : best));
+}
+
+function chordAt(events: ChordEvent[], beat: number): Chord {
+  const event = events.find(e => beat >= e.startBeat && beat < e.startBeat + e.beats);
+  return (event ?? events[events.length - 1]).chord;
+}
+
+function bar(rhythms: BarRhythm[], random: () => number): BarRhythm {
+  return rhythms[Math.floor(random() * rhythms.length)];
+}
+
+// Quarter notes for meters without templates, with any half beat at the end
+function plainBar(beatsPerBar: number): BarRhythm {
+  const rhythm: BarRhythm = Array(Math.floor(beatsPerBar)).fill(1);
+  if (beatsPerBar % 1) rhythm.push(beatsPerBar % 1);
+  return rhythm;
+}
+
+function pickMotif(beatsPerBar: number, energy: MoodAnalysis['energy'], random: () => number): RhythmMotif {
+  const rhythms = BAR_RHYTHMS[beatsPerBar];
+  if (!rhythms) {
+    const plain = plainBar(beatsPerBar);
+    return { a: plain, b: plain, cadence: plain };
+  }
+  return {
+    a: bar(rhythms[energy], random),
+    b: bar(rhythms[energy], random),
+    cadence: bar(rhythms.cadence, random),
+  };
+}
+
+function isStrongBeat(barBeat: number, beatsPerBar: number): boolean {
+  return barBeat === 0 || (beatsPerBar === 4 && barBeat === 2);
+}
+
+// Arch over each phrase: start near the center, peak in the middle, settle at the end
+function contourTarget(context: SectionContext, phraseProgress: number): number {
+  const span = context.high - context.low;
+  return context.center + span * 0.3 * (Math.sin(Math.PI * phraseProgress) - 0.4);
+}
+
+// Chord tone on a strong beat: close to the last note and the contour, no big leaps
+function pickChordTone(chord: Chord, previous: number | null, target: number, context: SectionContext): number {
+  const tones = pitchesIn(chord.notes, context.low, context.high);
+  if (tones.length === 0) return nearest(context.scale, target);
+  if (previous === null) return nearest(tones, target);
+
+  const score = (midi: number) => {
+    const leap = Math.abs(midi - previous);
+    return leap + Math.abs(midi - target) * 0.5 + (leap > context.maxLeap ? 10 : 0) + context.random();
+  };
+  return tones.reduce((best, midi) => (score(midi) < score(best) ? midi : best));
+}
+
+// Weak beat: usually a passing step through the scale toward the contour
+function pickPassingTone(chord: Chord, previous: number, target: number, context: SectionContext): number {
+  if (context.random() < context.chordToneChance) {
+    return pickChordTone(chord, previous, target, context);
+  }
+  const direction = target > previous + 1 ? 1 : target < previous - 1 ? -1 : (context.random() < 0.5 ? 1 : -1);
+  const index = context.scale.indexOf(nearest(context.scale, previous));
+  const next = context.scale[index + direction] ?? context.scale[index - direction];
+  return next ?? previous;
+}
+
+// ============================================================================
+// SECTIONS
+// ============================================================================
+
+function writeSectionMelody(section: SongSection, motif: RhythmMotif, beatsPerBar: number, context: SectionContext): LineNote[] {
+  const pickup = Math.max(0, section.pickupBeats ?? 0);
+  const totalBeats = getSectionBeats(section, beatsPerBar);
+  const barCount = Math.ceil((totalBeats - pickup) / beatsPerBar);
+  const notes: LineNote[] = [];
+  let previous: number | null = null;
+
+  // Pickup beats lead into the first downbeat a beat at a time, any half beat first
+  let pickupBeat = 0;
+  for (const beats of plainBar(pickup).reverse()) {
+    const chord = chordAt(context.events, pickupBeat);
+    const target = contourTarget(context, 0);
+    const midi: number = previous === null
+      ? pickChordTone(chord, previous, target, context)
+      : pickPassingTone(chord, previous, target, context);
+    notes.push({ midi, startBeat: pickupBeat, beats });
+    previous = midi;
+    pickupBeat += beats;
+  }
+
+  for (let barIndex = 0; barIndex < barCount; barIndex++) {
+    const phraseBar = barIndex % PHRASE_BARS;
+    const isLastBar = barIndex === barCount - 1;
+    const rhythm = isLastBar || phraseBar === PHRASE_BARS - 1
+      ? motif.cadence
+      : phraseBar % 2 === 0 ? motif.a : motif.b;
+    let barBeat = 0;
+
+    for (const value of rhythm) {
+      const beats = Math.abs(value);
+      const startBeat = pickup + barIndex * beatsPerBar + barBeat;
+      if (startBeat >= totalBeats) break;
+      const length = Math.min(beats, totalBeats - startBeat);
+
+      if (value < 0) {
+        notes.push({ midi: null, startBeat, beats: length });
+      } else {
+        const chord = chordAt(context.events, startBeat);
+        const progress = (phraseBar + barBeat / beatsPerBar) / PHRASE_BARS;
+        const target = contourTarget(context, progress);
+        const midi: number = previous === null || isStrongBeat(barBeat, beatsPerBar)
+          ? pickChordTone(chord, previous, target, context)
+          : pickPassingTone(chord, previous, target, context);
+        notes.push({ midi, startBeat, beats: length });
+        previous = midi;
+      }
+      barBeat += beats;
+    }
+  }
+
+  // Close the section on the root of its last chord
+  const last = [...notes].reverse().find(note => note.midi !== null);
+  if (last && last.midi !== null) {
+    const roots = pitchesIn([context.events[context.events.length - 1].chord.root], context.low, context.high);
+    if (roots.length > 0) last.midi = nearest(roots, last.midi);
+  }
+
+  return notes;
+}
+
+// Same section type and durations with every chord moved by the same interval
+function findRepeatShift(section: SongSection, earlier: SongSection): number | null {
+  if (section.type !== earlier.type || section.chords.length !== earlier.chords.length) return null;
+  if ((section.pickupBeats ?? 0) !== (earlier.pickupBeats ?? 0)) return null;
+  if ((section.durations ?? []).join() !== (earlier.durations ?? []).join()) return null;
+
+  const shift = getInterval(earlier.chords[0].root, section.chords[0].root);
+  const matches = section.chords.every((chord, i) =>
+    chord.quality === earlier.chords[i].quality &&
+    getInterval(earlier.chords[i].root, chord.root) === shift
+  );
+  if (!matches) return null;
+  return shift > 6 ? shift - 12 : shift;
+}
+
+// An earlier melody moved by a shift, then by an octave if that leaves the
+// range; null if it fits neither way
+function transposeMelody(melody: LineNote[], shift: number, low: number, high: number): LineNote[] | null {
+  const pitches = melody.flatMap(note => (note.midi === null ? [] : [note.midi + shift]));
+  const top = Math.max(...pitches);
+  const bottom = Math.min(...pitches);
+  const octave = top > high ? -12 : bottom < low ? 12 : 0;
+  if (top + octave > high || bottom + octave < low) return null;
+  return melody.map(note => ({ ...note, midi: note.midi === null ? null : note.midi + shift + octave }));
+}
+
+// ============================================================================
+// MAIN GENERATION
+// ============================================================================
+
+/**
+ * Write a singable top line for every section of a song. Strong beats take
+ * tones from the sounding chord, weak beats step between them, and the line
+ * arches through each four-bar phrase within the vocal range; pickup beats
+ * lead into the first bar. Sections of the same type share a rhythm motif,
+ * and repeated sections repeat their melody (transposed if the section moved
+ * key, while that stays in range). The song ends on the tonic.
+ */
+export function generateMelody(song: Song, options: MelodyOptions = {}): Song {
+  const vocalRange = options.range ?? song.vocalRange ?? DEFAULT_VOCAL_RANGE;
+  const { low, high } = VOCAL_RANGES[vocalRange];
+  const energy = song.moodAnalysis?.energy ?? 'medium';
+  const tension = song.moodAnalysis?.tension ?? 'medium';
+  const beatsPerBar = getSongBeatsPerBar(song);
+  const random = seededRandom(`${song.id}-melody-${options.seed ?? ''}`);
+  const motifs = new Map<SectionType, RhythmMotif>();
+
+  const sections: SongSection[] = [];
+  song.sections.forEach((section, index) => {
+    if (section.chords.length === 0) {
+      sections.push({ ...section, melody: [] });
+      return;
+    }
+
+    for (let i = 0; i < sections.length; i++) {
+      const shift = findRepeatShift(section, sections[i]);
+      const earlier = sections[i].melody;
+      if (shift === null || !earlier) continue;
+      const moved = transposeMelody(earlier, shift, low, high);
+      if (!moved) continue;
+      sections.push({ ...section, melody: moved });
+      return;
+    }
+
+    const key = getSectionKey(song, index);
+    let motif = motifs.get(section.type);
+    if (!motif) {
+      motif = pickMotif(beatsPerBar, energy, random);
+      motifs.set(section.type, motif);
+    }
+    // Sections on a mood arc sit higher or lower with their own energy
+    const height = SECTION_HEIGHT[section.type] + ENERGY_LIFT[section.moodAnalysis?.energy ?? energy];
+    const context: SectionContext = {
+      events: getSectionEvents(section, beatsPerBar),
+      scale: pitchesIn(getScaleNotes(key), low, high),
+      low,
+      high,
+      center: low + (high - low) * height,
+      maxLeap: MAX_LEAP[tension],
+      chordToneChance: CHORD_TONE_CHANCE[tension],
+      random,
+    };
+    sections.push({ ...section, melody: writeSectionMelody(section, motif, beatsPerBar, context) });
+  });
+
+  // The last sung note resolves to the tonic of the final key
+  const lastIndex = sections.length - 1;
+  const finalMelody = sections[lastIndex]?.melody;
+  if (finalMelody) {
+    const notes = finalMelody.map(note => ({ ...note }));
+    const last = [...notes].reverse().find(note => note.midi !== null);
+    if (last && last.midi !== null) {
+      const tonics = pitchesIn([getSectionKey(song, lastIndex).tonic], low, high);
+      if (tonics.length > 0) last.midi = nearest(tonics, last.midi);
+    }
+    sections[lastIndex] = { ...sections[lastIndex], melody: notes };
+  }
+
+  return { ...song, sections, vocalRange };
+}
+
+/**
+ * Remove the melody from every section
+ */
+export function clearMelody(song: Song): Song {
+  return {
+    ...song,
+    vocalRange: undefined,
+    sections: song.sections.map(section => ({ ...section, melody: undefined })),
+  };
+}
@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest';
+import { diffSongChords, reharmonizeSong } from './reharmonizer';
+import type { ReharmonizationLevel } from './reharmonizer';
+import { chordFromSymbol } from '../utils/chordSymbols';
+import { getSectionEvents } from '../utils/harmonicRhythm';
+import { analyzeProgression } from '../utils/harmonicAnalysis';
+import { isDominantQuality } from '../utils/musicTheory';
+import type { Key, Song } from '../types/music';
+
+const C_MAJOR: Key = { tonic: 'C', mode: 'major' };
+const songIn = (key: Key, symbols: string[], durations?: number[], pickupBeats?: number): Song => ({
+  id: 'reharmonize-test',
+  key,
+  tempo: 100,
+  sections: [{
+    id: 'verse',
+    type: 'verse',
+    name: 'Verse',
+    chords: symbols.map(symbol => chordFromSymbol(symbol)),
+    durations,
+    pickupBeats,
+  }],
+});
+const names = (song: Song) => song.sections[0].chords.map(chord => chord.name);
+// Roots on each bar line, which every level keeps
+const barRoots = (song: Song) => getSectionEvents(song.sections[0], 4)
+  .filter(event => event.startBeat % 4 === 0)
+  .map(event => event.chord.root);
+
+const TURNAROUND = songIn(C_MAJOR, ['C', 'Am', 'Dm', 'G', 'Em', 'A7', 'Dm', 'G', 'C']);
+const LEVELS: ReharmonizationLevel[] = ['simple', 'moderate', 'complex'];
+
+describe('reharmonizeSong', () => {
+  it('plays triads at the simple level', () => {
+    expect(names(reharmonizeSong(TURNAROUND, 'simple').song)).toEqual(['C', 'Am', 'Dm', 'G', 'Em', 'A', 'Dm', 'G', 'C']);
+  });
+
+  it('plays sevenths at the moderate level', () => {
+    const { song } = reharmonizeSong(TURNAROUND, 'moderate');
+    const onBarLines = getSectionEvents(song.sections[0], 4)
+      .filter(event => event.startBeat % 4 === 0)
+      .map(event => event.chord.name);
+    expect(onBarLines).toEqual(['Cmaj7', 'Am7', 'Dm7', 'G7', 'Em7', 'A7', 'Dm7', 'G7', 'Cmaj7']);
+    // Anything added between them is a seventh or an opening suspension
+    expect(song.sections[0].chords.every(chord => chord.notes.length === 4 || chord.quality.startsWith('sus'))).toBe(true);
+  });
+
+  it('adds ninths and approach chords at the complex level', () => {
+    const chords = names(reharmonizeSong(TURNAROUND, 'complex').song);
+    expect(chords.length).toBeGreaterThan(9);
+    expect(chords).toContain('Cmaj9');
+  });
+
+  it('keeps the roots on the bar lines and the closing cadence at every level', () => {
+    for (const level of LEVELS) {
+      const { song } = reharmonizeSong(TURNAROUND, level);
+      expect(barRoots(song), level).toEqual(barRoots(TURNAROUND));
+      expect(names(song).slice(-2).map(name => chordFromSymbol(name).root), level).toEqual(['G', 'C']);
+    }
+  });
+
+  it('is undone by going back down a level', () => {
+    const complex = reharmonizeSong(TURNAROUND, 'complex').song;
+    expect(names(reharmonizeSong(complex, 'simple').song)).toEqual(names(reharmonizeSong(TURNAROUND, 'simple').song));
+  });
+
+  it('keeps the leading tone when reducing an altered dominant', () => {
+    const song = songIn({ tonic: 'A', mode: 'minor' }, ['Am', 'E7#9', 'Am']);
+    expect(names(reharmonizeSong(song, 'simple').song)).toEqual(['Am', 'E', 'Am']);
+  });
+
+  it('keeps a borrowed V a dominant so a mixolydian deceptive cadence survives', () => {
+    const key: Key = { tonic: 'E', mode: 'mixolydian' };
+    const song = songIn(key, ['E', 'A', 'B', 'C#m']);
+    for (const level of LEVELS.slice(1)) {
+      const chords = reharmonizeSong(song, level).song.sections[0].chords;
+      const [dominant, arrival] = chords.slice(-2);
+      expect(dominant.root, level).toBe('B');
+      expect(isDominantQuality(dominant.quality), level).toBe(true);
+      // D# is not in E mixolydian, so the arrival takes no ninth
+      expect(arrival.name, level).toBe('C#m7');
+      expect(analyzeProgression(chords, key).cadences.at(-1)?.type, level).toBe('deceptive');
+    }
+  });
+});
+
+describe('diffSongChords', () => {
+  it('places each change at its bar and beat', () => {
+    const before = songIn(C_MAJOR, ['C', 'F', 'G7', 'C'], [4, 2, 2, 4]);
+    const after = songIn(C_MAJOR, ['C', 'Dm', 'G7', 'C'], [4, 2, 2, 4]);
+    const [change, ...rest] = diffSongChords(before, after);
+    expect(rest).toEqual([]);
+    expect(change).toMatchObject({ sectionIndex: 0, bar: 2, beat: 1 });
+    expect([change.before?.name, change.after?.name]).toEqual(['F', 'Dm']);
+  });
+
+  it('reports added and removed chords and counts the pickup as bar 0', () => {
+    const before = songIn(C_MAJOR, ['G', 'C', 'F', 'C'], [1, 4, 4, 4], 1);
+    const after = songIn(C_MAJOR, ['G', 'C', 'F', 'Fm', 'C'], [1, 4, 2, 2, 4], 1);
+    expect(diffSongChords(before, after).map(change => [change.bar, change.beat, change.before?.name, change.after?.name]))
+      .toEqual([[2, 3, undefined, 'Fm']]);
+    expect(diffSongChords(after, before).map(change => [change.bar, change.beat, change.before?.name, change.after?.name]))
+      .toEqual([[2, 3, 'Fm', undefined]]);
+
+    const newPickup = songIn(C_MAJOR, ['G7', 'C', 'F', 'C'], [1, 4, 4, 4], 1);
+    expect(diffSongChords(before, newPickup).map(change => [change.bar, change.beat])).toEqual([[0, 4]]);
+  });
+});
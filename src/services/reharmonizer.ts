@@ -0,0 +1,315 @@
+import type { Chord, ChordQuality, Key, Song, SongSection, SubstitutionKind } from '../types/music';
+import {
+  createChord,
+  getDiatonicChords,
+  getInterval,
+  getKeyId,
+  getScaleNotes,
+  getTriadFamily,
+  isDominantQuality,
+  transposeNote,
+} from '../utils/musicTheory';
+import { withRomanNumeralQuality } from '../utils/romanNumerals';
+import { analyzeChord, annotateChords } from '../utils/harmonicAnalysis';
+import { getSubstitutions } from '../utils/substitutions';
+import { getSectionKey } from '../utils/modulation';
+import { getChordDurations, getSectionEvents, getSongBeatsPerBar } from '../utils/harmonicRhythm';
+import { addSuspension, seededRandom, upgradeToSeventh } from './algorithmicGenerator';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type ReharmonizationLevel = 'simple' | 'moderate' | 'complex';
+
+/** One chord that differs between two versions of a song, matched by where it starts */
+export interface ChordChange {
+  sectionIndex: number;
+  bar: number;          // 1-based; 0 is the pickup
+  beat: number;         // 1-based beat within the bar
+  before?: Chord;       // Missing for an added chord
+  after?: Chord;        // Missing for a removed chord
+}
+
+export interface Reharmonization {
+  song: Song;
+  changes: ChordChange[];
+}
+
+// A chord and how long it lasts, while a section is being rewritten
+interface Slot {
+  chord: Chord;
+  beats: number;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const REHARMONIZATION_LEVEL_NAMES: Record<ReharmonizationLevel, string> = {
+  simple: 'Triads',
+  moderate: 'Sevenths',
+  complex: 'Jazz',
+};
+
+export const REHARMONIZATION_LEVEL_DESCRIPTIONS: Record<ReharmonizationLevel, string> = {
+  simple: 'Plain triads. Approach and passing chords between the bar lines are taken out.',
+  moderate: 'Seventh chords, secondary dominants into the next chord and the odd opening suspension.',
+  complex: 'Ninths, tritone subs and passing diminished chords on top of the sevenths.',
+};
+
+// Chords that lead into their neighbour which each level uses, in order of preference
+const APPROACH_KINDS: Record<ReharmonizationLevel, SubstitutionKind[]> = {
+  simple: [],
+  moderate: ['secondary-dominant'],
+  complex: ['diminished-passing', 'tritone-sub', 'secondary-dominant'],
+};
+
+// Share of chords held for a bar or more that gain an approach chord
+const APPROACH_CHANCE: Record<ReharmonizationLevel, number> = {
+  simple: 0,
+  moderate: 0.4,
+  complex: 0.7,
+};
+
+// Share of sections that open on a suspension resolving to their first chord
+const SUSPENSION_CHANCE = 0.5;
+
+// Extended chords brought back to the seventh (or triad) they are built on
+const SEVENTH_REDUCTIONS: Partial<Record<ChordQuality, ChordQuality>> = {
+  'add9': 'major',
+  'add11': 'major',
+  'major6': 'major',
+  'minor6': 'minor',
+  'major9': 'major7',
+  'minor9': 'minor7',
+  'minor11': 'minor7',
+  'dominant9': 'dominant7',
+  'dominant11': 'dominant7',
+  'dominant13': 'dominant7',
+  'dominant7b9': 'dominant7',
+  'dominant7#9': 'dominant7',
+};
+
+const NINTHS: Partial<Record<ChordQuality, ChordQuality>> = {
+  'major7': 'major9',
+  'minor7': 'minor9',
+  'dominant7': 'dominant9',
+};
+
+// ============================================================================
+// CHORD QUALITIES
+// ============================================================================
+
+function withQuality(chord: Chord, quality: ChordQuality, keyContext: string): Chord {
+  if (quality === chord.quality) return chord;
+  const romanNumeral = chord.romanNumeral && withRomanNumeralQuality(chord.romanNumeral, quality);
+  return createChord(chord.root, quality, romanNumeral, chord.function, keyContext, chord.bassNote);
+}
+
+// Sus and power chords have no third, so they take the triad the key gives their root
+function reduceToTriad(chord: Chord, key: Key): Chord {
+  const family = getTriadFamily(chord.quality);
+  if (family !== 'other') return withQuality(chord, family, getKeyId(key));
+  const diatonic = getDiatonicChords(key).find(d => d.root === chord.root);
+  return withQuality(chord, diatonic?.quality ?? 'major', getKeyId(key));
+}
+
+// A major triad on the fifth degree, or one falling a fifth into the next
+// chord with its seventh in the key, is a dominant; other major triads take
+// a major seventh
+function isDominantTriad(chord: Chord, next: Chord | undefined, key: Key): boolean {
+  if (getInterval(key.tonic, chord.root) === 7) return true;
+  return !!next && getInterval(chord.root, next.root) === 5 &&
+    getScaleNotes(key).includes(transposeNote(chord.root, 10));
+}
+
+function applyLevelQuality(chord: Chord, level: ReharmonizationLevel, key: Key, next?: Chord): Chord {
+  const keyContext = getKeyId(key);
+  if (level === 'simple') return reduceToTriad(chord, key);
+
+  const base = withQuality(chord, SEVENTH_REDUCTIONS[chord.quality] ?? chord.quality, keyContext);
+  const seventh = base.quality === 'major'
+    ? withQuality(base, isDominantTriad(base, next, key) ? 'dominant7' : 'major7', keyContext)
+    : upgradeToSeventh(base, keyContext);
+  if (level === 'moderate') return seventh;
+
+  // Only add a ninth the key has
+  const ninth = NINTHS[seventh.quality];
+  if (!ninth || !getScaleNotes(key).includes(transposeNote(seventh.root, 2))) return seventh;
+  return withQuality(seventh, ninth, keyContext);
+}
+
+// What a chord does when it only leads into the next one
+function getApproachKind(chord: Chord, next: Chord, key: Key): SubstitutionKind | undefined {
+  const step = getInterval(chord.root, next.root);
+  if (getTriadFamily(chord.quality) === 'diminished' && (step === 1 || step === 11)) return 'diminished-passing';
+  if (isDominantQuality(chord.quality) && step === 11) return 'tritone-sub';
+  if (analyzeChord(chord, key, next).secondaryTarget) return 'secondary-dominant';
+  return undefined;
+}
+
+// ============================================================================
+// SECTION PASSES
+// ============================================================================
+
+// Where each slot starts within its bar; 0 is on a bar line
+function getBarPositions(slots: Slot[], pickupBeats: number, beatsPerBar: number): number[] {
+  let beat = -pickupBeats;
+  return slots.map(slot => {
+    const position = ((beat % beatsPerBar) + beatsPerBar) % beatsPerBar;
+    beat += slot.beats;
+    return position;
+  });
+}
+
+// Approach chords the level does not use fold back into the chord before
+// them. Only chords that start between bar lines go, and never the opening
+// chord or the closing two that carry the cadence.
+function removeApproachChords(slots: Slot[], positions: number[], level: ReharmonizationLevel, key: Key): Slot[] {
+  const result: Slot[] = [];
+  slots.forEach((slot, i) => {
+    const next = slots[i + 1];
+    const kind = next && i < slots.length - 2 ? getApproachKind(slot.chord, next.chord, key) : undefined;
+    const previous = result[result.length - 1];
+    if (previous && kind && !APPROACH_KINDS[level].includes(kind) && positions[i] !== 0) {
+      result[result.length - 1] = { ...previous, beats: previous.beats + slot.beats };
+    } else {
+      result.push(slot);
+    }
+  });
+  return result;
+}
+
+// A chord struck again between bar lines is held instead
+function mergeRepeatedChords(slots: Slot[], positions: number[]): Slot[] {
+  const result: Slot[] = [];
+  slots.forEach((slot, i) => {
+    const previous = result[result.length - 1];
+    if (previous && previous.chord.name === slot.chord.name && positions[i] !== 0) {
+      result[result.length - 1] = { ...previous, beats: previous.beats + slot.beats };
+    } else {
+      result.push(slot);
+    }
+  });
+  return result;
+}
+
+// Chords held for a bar or more can open on a suspension (the first chord
+// only) and close on a chord leading into the next; the cadence is left alone
+function addColorChords(slots: Slot[], level: ReharmonizationLevel, key: Key, beatsPerBar: number, random: () => number): Slot[] {
+  if (level === 'simple') return slots;
+  const keyContext = getKeyId(key);
+  const chords = slots.map(slot => slot.chord);
+  const splitBeats = Math.max(1, Math.floor(beatsPerBar / 2));
+
+  return slots.flatMap((slot, i) => {
+    if (i >= slots.length - 2 || slot.beats < beatsPerBar) return [slot];
+
+    if (i === 0 && !slot.chord.bassNote && random() < SUSPENSION_CHANCE) {
+      const suspension = addSuspension(reduceToTriad(slot.chord, key), keyContext, random);
+      if (suspension.quality === 'sus2' || suspension.quality === 'sus4') {
+        return [{ chord: suspension, beats: splitBeats }, { ...slot, beats: slot.beats - splitBeats }];
+      }
+    }
+
+    if (random() >= APPROACH_CHANCE[level]) return [slot];
+    const next = chords[i + 1];
+    const options = getSubstitutions(chords, i, key)
+      .filter(sub => sub.chords.length === 1 && sub.chords[0].root !== slot.chord.root && sub.chords[0].root !== next.root);
+    const approach = APPROACH_KINDS[level]
+      .map(kind => options.find(sub => sub.kind === kind))
+      .find(sub => sub !== undefined);
+    if (!approach) return [slot];
+    return [{ ...slot, beats: slot.beats - splitBeats }, { chord: approach.chords[0], beats: splitBeats }];
+  });
+}
+
+function reharmonizeSection(
+  section: SongSection,
+  key: Key,
+  level: ReharmonizationLevel,
+  beatsPerBar: number,
+  random: () => number
+): SongSection {
+  if (section.chords.length === 0) return section;
+  const pickupBeats = section.pickupBeats ?? 0;
+  const durations = getChordDurations(section, beatsPerBar);
+
+  let slots: Slot[] = annotateChords(section.chords, key).map((chord, i) => ({ chord, beats: durations[i] }));
+  slots = removeApproachChords(slots, getBarPositions(slots, pickupBeats, beatsPerBar), level, key);
+  slots = slots.map((slot, i) => ({ ...slot, chord: applyLevelQuality(slot.chord, level, key, slots[i + 1]?.chord) }));
+  slots = mergeRepeatedChords(slots, getBarPositions(slots, pickupBeats, beatsPerBar));
+  slots = addColorChords(slots, level, key, beatsPerBar, random);
+
+  const chords = annotateChords(slots.map(slot => slot.chord), key);
+  const unchanged = chords.length === section.chords.length &&
+    chords.every((chord, i) => chord.name === section.chords[i].name && slots[i].beats === durations[i]);
+  if (unchanged) return section;
+
+  // The old melody and bass line no longer fit the new chords
+  return {
+    ...section,
+    chords,
+    durations: slots.map(slot => slot.beats),
+    melody: undefined,
+    bassLine: undefined,
+  };
+}
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+/**
+ * Compare the chords of two versions of a song with the same sections,
+ * chord by chord at each point where a chord starts
+ */
+export function diffSongChords(before: Song, after: Song): ChordChange[] {
+  const beatsPerBar = getSongBeatsPerBar(after);
+  const changes: ChordChange[] = [];
+
+  after.sections.forEach((section, sectionIndex) => {
+    const original = before.sections[sectionIndex];
+    if (!original) return;
+    const pickupBeats = section.pickupBeats ?? 0;
+    const oldEvents = getSectionEvents(original, beatsPerBar);
+    const newEvents = getSectionEvents(section, beatsPerBar);
+    const starts = [...new Set([...oldEvents, ...newEvents].map(event => event.startBeat))].sort((a, b) => a - b);
+
+    for (const start of starts) {
+      const oldChord = oldEvents.find(event => event.startBeat === start)?.chord;
+      const newChord = newEvents.find(event => event.startBeat === start)?.chord;
+      if (oldChord?.name === newChord?.name) continue;
+      const fromBarLine = start - pickupBeats;
+      changes.push({
+        sectionIndex,
+        bar: fromBarLine < 0 ? 0 : Math.floor(fromBarLine / beatsPerBar) + 1,
+        beat: (((fromBarLine % beatsPerBar) + beatsPerBar) % beatsPerBar) + 1,
+        before: oldChord,
+        after: newChord,
+      });
+    }
+  });
+
+  return changes;
+}
+
+/**
+ * Rewrite a song's harmony at a complexity level, up or down. Simple strips
+ * chords back to triads and drops approach chords; moderate uses sevenths,
+ * secondary dominants and suspensions; complex adds ninths, tritone subs and
+ * passing diminished chords. Sections, the root on every bar line, slash
+ * basses and each section's closing cadence are kept, and sections with the
+ * same chords come out the same.
+ */
+export function reharmonizeSong(song: Song, level: ReharmonizationLevel): Reharmonization {
+  const beatsPerBar = getSongBeatsPerBar(song);
+  const sections = song.sections.map((section, index) => {
+    const random = seededRandom(`${song.id}-reharmonize-${level}-${section.chords.map(chord => chord.name).join(' ')}`);
+    return reharmonizeSection(section, getSectionKey(song, index), level, beatsPerBar, random);
+  });
+
+  const reharmonized = { ...song, sections };
+  return { song: reharmonized, changes: diffSongChords(song, reharmonized) };
+}
@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest';
+import { generateSongBatch, mergeCandidateSections } from './songBatch';
+import { getPatternSimilarity } from '../utils/songScoring';
+import { sectionOf, songOf } from '../test/fixtures';
+import type { AIGenerationRequest, Key } from '../types/music';
+
+const C_MAJOR: Key = { tonic: 'C', mode: 'major' };
+const D_MAJOR: Key = { tonic: 'D', mode: 'major' };
+const G_MAJOR: Key = { tonic: 'G', mode: 'major' };
+
+describe('generateSongBatch', () => {
+  const request: AIGenerationRequest = { mood: 'happy and hopeful', key: C_MAJOR, complexity: 'moderate' };
+  const batch = generateSongBatch(request, 4);
+
+  it('gives each candidate its own tempo and form', () => {
+    expect(batch).toHaveLength(4);
+    expect(new Set(batch.map(candidate => candidate.song.tempo)).size).toBe(4);
+    expect(new Set(batch.map(candidate => candidate.form.name)).size).toBe(4);
+  });
+
+  it('keeps every pair of candidates under the similarity bound', () => {
+    batch.forEach((candidate, i) => {
+      for (const other of batch.slice(i + 1)) {
+        expect(getPatternSimilarity(candidate.song, other.song)).toBeLessThanOrEqual(0.6);
+      }
+    });
+  });
+
+  it('sorts the candidates best first', () => {
+    const totals = batch.map(candidate => candidate.scores.total);
+    expect(totals).toEqual([...totals].sort((a, b) => b - a));
+  });
+
+  it('varies the batch with the request seed', () => {
+    const again = generateSongBatch(request, 4);
+    const reseeded = generateSongBatch({ ...request, seed: 'another take' }, 4);
+    const chordNames = (candidates: typeof batch) =>
+      candidates.map(candidate => candidate.song.sections.map(section => section.chords.map(chord => chord.name)));
+    expect(chordNames(again)).toEqual(chordNames(batch));
+    expect(chordNames(reseeded)).not.toEqual(chordNames(batch));
+  });
+
+  it('uses the form the request names for every candidate', () => {
+    const form = batch[0].form;
+    const fixed = generateSongBatch({ ...request, form }, 3);
+    expect(fixed.every(candidate => candidate.form === form)).toBe(true);
+  });
+});
+
+describe('mergeCandidateSections', () => {
+  const first = songOf([
+    sectionOf('verse', ['C', 'F', 'G', 'C']),
+    sectionOf('chorus', ['D', 'G', 'A', 'D'], {
+      key: D_MAJOR,
+      modulation: { from: C_MAJOR, to: D_MAJOR, type: 'truck-driver' },
+    }),
+  ], C_MAJOR, 'first');
+  const second = songOf([
+    sectionOf('verse', ['G', 'C', 'D', 'G']),
+    sectionOf('bridge', ['D', 'Bm', 'A', 'D'], {
+      key: D_MAJOR,
+      modulation: { from: G_MAJOR, to: D_MAJOR },
+    }),
+  ], G_MAJOR, 'second');
+
+  it('keeps the key of every section', () => {
+    const merged = mergeCandidateSections([
+      { song: first, sectionIndex: 0 },
+      { song: second, sectionIndex: 0 },
+      { song: first, sectionIndex: 1 },
+    ])!;
+    expect(merged.key).toEqual(C_MAJOR);
+    expect(merged.tempo).toBe(first.tempo);
+    expect(merged.sections.map(section => section.key)).toEqual([C_MAJOR, G_MAJOR, D_MAJOR]);
+    expect(merged.sections.map(section => section.chords[0].name)).toEqual(['C', 'G', 'D']);
+  });
+
+  it('records the key changes the merge makes', () => {
+    const merged = mergeCandidateSections([
+      { song: first, sectionIndex: 0 },
+      { song: second, sectionIndex: 0 },
+    ])!;
+    expect(merged.sections[0].modulation).toBeUndefined();
+    expect(merged.sections[1].modulation).toMatchObject({ from: C_MAJOR, to: G_MAJOR });
+  });
+
+  it('only drops key changes that no longer change the key', () => {
+    const merged = mergeCandidateSections([
+      { song: first, sectionIndex: 0 },
+      { song: first, sectionIndex: 1 },
+      { song: second, sectionIndex: 1 },
+    ])!;
+    expect(merged.sections[1].modulation?.to).toEqual(D_MAJOR);
+    // The bridge moved into D, but here it follows a chorus already in D
+    expect(merged.sections[2].modulation).toBeUndefined();
+    expect(merged.sections[2].key).toEqual(D_MAJOR);
+  });
+
+  it('gives nothing for no picks', () => {
+    expect(mergeCandidateSections([])).toBeNull();
+  });
+});
@@ -0,0 +1,142 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { AIGenerationRequest, Song, SongForm, SongFormName } from '../types/music';
+import { SONG_FORMS } from '../data/songForms';
+import { findStyleProfile } from '../data/styleProfiles';
+import { getSongBeatsPerBar } from '../utils/harmonicRhythm';
+import { linkSectionKeys } from '../utils/modulation';
+import { getPatternSimilarity, scoreSong } from '../utils/songScoring';
+import type { SongScores } from '../utils/songScoring';
+import { generateProgressionFallback } from './aiProgressionGenerator';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface SongCandidate {
+  song: Song;
+  form: SongForm;
+  scores: SongScores;
+}
+
+/** A section chosen from one of the candidates for a merged song */
+export interface SectionPick {
+  song: Song;
+  sectionIndex: number;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const DEFAULT_CANDIDATE_COUNT = 4;
+export const MAX_CANDIDATE_COUNT = 6;
+
+// Candidates whose progressions share more of their moves than this are too alike
+const MAX_PATTERN_SIMILARITY = 0.6;
+
+// Seeds tried per candidate before the batch stops short
+const ATTEMPTS_PER_CANDIDATE = 24;
+
+// Forms the candidates take turns with when neither the request nor the
+// style names one
+const CANDIDATE_FORMS: Record<NonNullable<AIGenerationRequest['complexity']>, SongFormName[]> = {
+  simple: ['simple', 'standard', 'verseBridge'],
+  moderate: ['standard', 'withBridge', 'aaba', 'verseBridge'],
+  complex: ['extended', 'withBridge', 'aaba'],
+};
+
+// ============================================================================
+// BATCH GENERATION
+// ============================================================================
+
+// Tempos spread evenly across a range, one per candidate
+function spreadTempos(range: { min: number; max: number }, count: number): number[] {
+  return Array.from({ length: count }, (_, i) =>
+    Math.round(range.min + ((i + 0.5) / count) * (range.max - range.min))
+  );
+}
+
+function getCandidateForms(request: AIGenerationRequest): SongForm[] {
+  if (request.form) return [request.form];
+  const styleForms = (request.styleProfile ?? findStyleProfile(request.style))?.forms;
+  const forms = styleForms && styleForms.length > 0 ? styleForms : CANDIDATE_FORMS[request.complexity ?? 'moderate'];
+  return forms.map(id => SONG_FORMS[id]);
+}
+
+/**
+ * Generate several different songs for one request with the offline
+ * generators. The candidates take turns through the forms (unless the request
+ * or style fixes one), spread across the mood's tempo range, and are re-rolled
+ * while their progressions are too like an earlier candidate's. A candidate
+ * that cannot be made different enough ends the batch early, so fewer may
+ * come back. They come back scored against each other, best first.
+ */
+export function generateSongBatch(request: AIGenerationRequest, count: number = DEFAULT_CANDIDATE_COUNT): SongCandidate[] {
+  const forms = getCandidateForms(request);
+  // The tempo range the mood and style give, from a plain generation
+  const range = generateProgressionFallback(request).moodAnalysis?.tempoRange;
+  const tempos = range ? spreadTempos(range, count) : [];
+
+  const accepted: { song: Song; form: SongForm }[] = [];
+  let attempt = 0;
+  while (accepted.length < count) {
+    const index = accepted.length;
+    const form = forms[index % forms.length];
+
+    // The first take that is different enough from every earlier candidate
+    let found: Song | null = null;
+    for (let i = 0; i < ATTEMPTS_PER_CANDIDATE && !found; i++) {
+      // Each attempt varies the request's own seed, so a new seed gives a new batch
+      attempt++;
+      const song = generateProgressionFallback({ ...request, form, tempo: tempos[index], seed: `${request.seed ?? 'candidate'}-${attempt}` });
+      if (accepted.every(other => getPatternSimilarity(song, other.song) <= MAX_PATTERN_SIMILARITY)) found = song;
+    }
+    if (!found) break;
+    accepted.push({ song: found, form });
+  }
+
+  return accepted
+    .map(({ song, form }) => ({
+      song,
+      form,
+      scores: scoreSong(song, accepted.filter(other => other.song !== song).map(other => other.song)),
+    }))
+    .sort((a, b) => b.scores.total - a.scores.total);
+}
+
+// ============================================================================
+// MERGING
+// ============================================================================
+
+/**
+ * Build a song from sections picked out of several candidates, in the order
+ * picked. Tempo, key and rhythm come from the first pick's song. Sections keep
+ * their own keys, and every place the key now changes gets a key change.
+ * Durations are in beats, so the candidates should share a meter.
+ */
+export function mergeCandidateSections(picks: SectionPick[]): Song | null {
+  if (picks.length === 0) return null;
+  const base = picks[0].song;
+
+  const sections = linkSectionKeys(picks.map(({ song, sectionIndex }) => {
+    const section = song.sections[sectionIndex];
+    return { ...section, id: uuidv4(), key: section.key ?? song.key };
+  }), base.key);
+
+  const sources = new Set(picks.map(pick => pick.song)).size;
+  return {
+    ...base,
+    id: uuidv4(),
+    description: `Merged from sections of ${sources} candidate${sources === 1 ? '' : 's'}.`,
+    sections,
+    unmetConstraints: undefined,
+  };
+}
+
+/**
+ * Whether a candidate's sections can be merged into a song with another's
+ * (sections are timed in beats, so the meters have to match)
+ */
+export function canMergeSections(song: Song, into: Song): boolean {
+  return getSongBeatsPerBar(song) === getSongBeatsPerBar(into);
+}
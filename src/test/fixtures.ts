@@ -0,0 +1,32 @@
+import { chordFromSymbol } from '../utils/chordSymbols';
+import type { Chord, Key, SectionType, Song, SongSection } from '../types/music';
+
+// ============================================================================
+// SONG FIXTURES
+// ============================================================================
+
+const C_MAJOR: Key = { tonic: 'C', mode: 'major' };
+
+/** Chords from their symbols */
+export const chords = (symbols: string[]): Chord[] => symbols.map(symbol => chordFromSymbol(symbol));
+
+/** A verse named after its id, with any other fields given */
+export const sectionOf = (id: string, symbols: string[], extra: Partial<SongSection> = {}): SongSection => ({
+  id,
+  type: 'verse',
+  name: id,
+  chords: chords(symbols),
+  ...extra,
+});
+
+/** A song at 100 bpm from finished sections */
+export const songOf = (sections: SongSection[], key: Key = C_MAJOR, id = 'song'): Song => ({
+  id,
+  key,
+  tempo: 100,
+  sections,
+});
+
+/** A song from each section's type and chord symbols */
+export const makeSong = (sections: [SectionType, string[]][], key: Key = C_MAJOR): Song =>
+  songOf(sections.map(([type, symbols], i) => sectionOf(`section-${i}`, symbols, { type, name: type })), key);
@@ -11,6 +11,9 @@ export type NoteName =
 // Canonical note names use sharps internally for consistency
 export type CanonicalNote = 'C' | 'C#' | 'D' | 'D#' | 'E' | 'F' | 'F#' | 'G' | 'G#' | 'A' | 'A#' | 'B';
 
+// Display-only spelling: a letter plus up to two accidentals ("Cb", "F##", "Ebb")
+export type SpelledNote = string;
+
 // Chord qualities
 export type ChordQuality =
   | 'major'
@@ -25,13 +28,48 @@ export type ChordQuality =
   | 'sus2'
   | 'sus4'
   | 'add9'
-  | 'power';
+  | 'power'
+  // Sixths
+  | 'major6'
+  | 'minor6'
+  // Extended (9ths, 11ths, 13ths)
+  | 'dominant9'
+  | 'major9'
+  | 'minor9'
+  | 'dominant11'
+  | 'minor11'
+  | 'dominant13'
+  | 'add11'
+  // Altered and suspended sevenths
+  | 'dominant7sus4'
+  | 'dominant7b9'
+  | 'dominant7#9'
+  | 'minorMajor7';
+
+// Underlying triad of a chord quality (sus and power chords have no third)
+export type TriadFamily = 'major' | 'minor' | 'diminished' | 'augmented' | 'other';
+
+// Roman numeral notation as text ("I", "vii°7/V", "bVII7", "N6", "I64")
+// Parsed and rendered by utils/romanNumerals.ts
+export type RomanNumeral = string;
 
-// Roman numeral notation
-export type RomanNumeral =
-  | 'I' | 'ii' | 'iii' | 'IV' | 'V' | 'vi' | 'vii°'
-  | 'i' | 'ii°' | 'III' | 'iv' | 'v' | 'VI' | 'VII'
-  | 'bII' | 'bIII' | 'bVI' | 'bVII';
+// Triad quality shown by a numeral's case and quality mark
+export type RomanNumeralQuality = 'major' | 'minor' | 'diminished' | 'half-diminished' | 'augmented';
+
+// Extensions written after the numeral (figures like 65/43 are stored as inversion)
+export type RomanNumeralExtension =
+  | '7' | 'maj7' | 'add6' | '9' | 'maj9' | '11' | '13'
+  | 'add9' | 'add11' | 'sus2' | 'sus4' | '7sus4' | '7b9' | '7#9' | '5';
+
+// Structured roman numeral
+export interface ParsedRomanNumeral {
+  degree: number;                  // Scale degree 1-7
+  accidental: number;              // -1 flat, 0 none, 1 sharp
+  quality: RomanNumeralQuality;
+  extension?: RomanNumeralExtension;
+  inversion: number;               // 0 root position, 1-3 for 1st-3rd inversion
+  of?: ParsedRomanNumeral;         // Secondary target: V/V has of = V
+}
 
 // Chord function in harmonic context
 export type ChordFunction = 'tonic' | 'tonic-substitute' | 'subdominant' | 'dominant' | 'predominant' | 'borrowed';
@@ -58,9 +96,21 @@ export interface GuitarFingering {
 }
 
 // Musical key
+// Scale modes: major/minor plus the church modes and the minor-scale variants
+export type Mode =
+  | 'major'
+  | 'minor'
+  | 'dorian'
+  | 'phrygian'
+  | 'lydian'
+  | 'mixolydian'
+  | 'locrian'
+  | 'harmonic-minor'
+  | 'melodic-minor';
+
 export interface Key {
   tonic: CanonicalNote;
-  mode: 'major' | 'minor';
+  mode: Mode;
 }
 
 // Key identifier string (e.g., "C", "Am", "F#m")
@@ -123,8 +173,12 @@ export interface AudioState {
   isPlaying: boolean;
   currentChordIndex: number;
   currentSectionIndex: number;
+  mutedTracks: PlaybackTrack[];
 }
 
+// Instruments that can be muted independently during playback
+export type PlaybackTrack = 'chords' | 'melody' | 'bass' | 'drums';
+
 // Song section types
 export type SectionType = 'intro' | 'verse' | 'pre-chorus' | 'chorus' | 'bridge' | 'outro' | 'solo' | 'breakdown';
 
@@ -135,6 +189,47 @@ export interface SongSection {
   name: string;
   chords: Chord[];
   bars?: number; // Number of bars/measures
+  durations?: number[];            // Beats (quarter notes) per chord, parallel to chords; one bar each when unset
+  pickupBeats?: number;            // Beats of the first chords that come before bar 1
+  key?: Key;                       // Key of this section (defaults to the song key)
+  modulation?: SectionModulation;  // Set on the first section after a key change
+  melody?: LineNote[];           // Top line, if one has been written
+  bassLine?: LineNote[];         // Bass part, if one has been written
+  moodAnalysis?: MoodAnalysis;   // This section's point on the song's mood arc
+  tempoShift?: number;           // BPM above or below the song tempo, following the arc
+}
+
+// One note of a melody or bass line; beats are quarter notes from the start of the section
+export interface LineNote {
+  midi: number | null;   // null for a rest
+  startBeat: number;
+  beats: number;
+}
+
+// Singer ranges the melody generator can write for
+export type VocalRange = 'soprano' | 'alto' | 'tenor' | 'baritone' | 'bass';
+
+// Ways the bass line generator can move under the chords
+export type BassStyle = 'root-fifth' | 'walking' | 'pedal' | 'pump';
+
+// Planned key changes between sections
+export type ModulationType =
+  | 'truck-driver'  // Final chorus lifted a whole step, no preparation
+  | 'relative'      // Bridge in the relative major/minor, then home
+  | 'dominant';     // Pivot into the dominant key for the second half
+
+// A chord diatonic to both keys that carries a modulation
+export interface PivotChord {
+  chord: Chord;
+  fromNumeral: RomanNumeral;
+  toNumeral: RomanNumeral;
+}
+
+export interface SectionModulation {
+  from: Key;
+  to: Key;
+  type?: ModulationType;   // Unset for key changes the generator did not plan
+  pivot?: PivotChord;      // Closes the previous section, followed by V7 of the new key
 }
 
 // Strumming style characteristics
@@ -149,7 +244,7 @@ export type StrummingStyle =
 
 // Mood analysis result from algorithmic generator
 export interface MoodAnalysis {
-  preferredMode: 'major' | 'minor';
+  preferredMode: Mode;
   energy: 'low' | 'medium' | 'high';
   tension: 'low' | 'medium' | 'high';
   brightness: 'dark' | 'neutral' | 'bright';
@@ -169,6 +264,13 @@ export interface MoodAnalysis {
   suggestedTimeSignature?: { beats: number; value: number };
 }
 
+// One stage of a mood that changes over the song ("starts lonely, ends triumphant")
+export interface MoodArcStage {
+  phrase: string;          // The part of the mood text describing this stage
+  position: number;        // 0 (start of the song) to 1 (end)
+  analysis: MoodAnalysis;
+}
+
 // Detail level for educational content
 export type DetailLevel = 'beginner' | 'intermediate' | 'advanced';
 
@@ -184,6 +286,117 @@ export interface Song {
   generatedBy?: 'preset' | 'ai';
   moodAnalysis?: MoodAnalysis; // Analysis data for educational explanations
   rhythmGuidance?: RhythmGuidance; // Suggested strumming patterns
+  unmetConstraints?: ConstraintViolation[]; // Generation constraints that could not be satisfied
+  vocalRange?: VocalRange; // Range the melody was written for
+  bassStyle?: BassStyle;   // Style the bass line was written in
+  moodArc?: MoodArcStage[]; // Stages of a mood that changes over the song
+  capo?: number;           // Capo fret the chord shapes are played with; chords stay at concert pitch
+}
+
+// Genres used to tag the progression corpus and pick a generator model
+export type ProgressionGenre =
+  | 'pop'
+  | 'rock'
+  | 'jazz'
+  | 'blues'
+  | 'folk'
+  | 'chill'
+  | 'metal'
+  | 'latin'
+  | 'funk'
+  | 'electronic';
+
+// Closing cadences recognized by the harmonic analysis
+export type CadenceType = 'authentic' | 'half' | 'plagal' | 'deceptive' | 'phrygian-half';
+
+// A chord locked to a position (0-based) in every section, or one section type
+export interface PinnedChord {
+  position: number;
+  chord: string;               // Chord symbol, e.g. "Am7"
+  sectionType?: SectionType;
+}
+
+// Hard limits on generated harmony
+export interface GenerationConstraints {
+  pinnedChords?: PinnedChord[];
+  allowedChords?: string[];     // Only these chord symbols may be used
+  bannedChords?: string[];      // These chord symbols may not be used
+  maxDistinctChords?: number;   // Across the whole song
+  endingCadence?: CadenceType;  // How the last section must close
+  noBarreChords?: boolean;      // Every chord needs a voicing without a barre
+  maxFret?: number;             // Every chord needs a voicing at or below this fret
+}
+
+// A constraint the generator could not satisfy
+export interface ConstraintViolation {
+  constraint: keyof GenerationConstraints;
+  message: string;
+  sectionIndex?: number;
+}
+
+// Offline generator backends behind the AIGenerationRequest -> Song contract
+export type GeneratorBackend = 'algorithmic' | 'markov';
+
+// Song forms the generator can lay out
+export type SongFormName =
+  | 'simple'
+  | 'standard'
+  | 'withBridge'
+  | 'extended'
+  | 'twelveBar'
+  | 'aaba'
+  | 'verseBridge';
+
+// One section of a song form
+export interface FormSection {
+  type: SectionType;
+  name: string;
+  bars?: number;          // Fixed length; otherwise the chord count and harmonic rhythm decide
+  minChords?: number;     // Chord count range when the length is free (default 4-8)
+  maxChords?: number;
+  repeat?: boolean;       // Reuse the chords of the earlier section with this name
+  barPerChord?: boolean;  // Keep one chord per bar (twelve-bar forms)
+  cadence?: CadenceType;  // How the section closes; phrygian-half falls back to half in major
+}
+
+// The order and length of a song's sections: a preset or one a user built
+export interface SongForm {
+  id: string;
+  name: string;
+  sections: FormSection[];
+  isCustom?: boolean;
+}
+
+// Kinds of chord substitution (see utils/substitutions)
+export type SubstitutionKind =
+  | 'diatonic'
+  | 'borrowed'
+  | 'secondary-dominant'
+  | 'ii-v-approach'
+  | 'tritone-sub'
+  | 'diminished-passing'
+  | 'chromatic-mediant';
+
+// A substitution a style applies while generating
+export interface StyleSubstitutionRule {
+  kind: SubstitutionKind;
+  chance: number;               // 0-1, tried once per chord
+}
+
+// A named genre preset: the chords, forms and feel the generators should use
+export interface StyleProfile {
+  id: string;
+  name: string;
+  description: string;
+  genre?: ProgressionGenre;           // Named progressions and Markov model to favour
+  traits?: Partial<MoodAnalysis>;     // Chord vocabulary and feel (sevenths, borrowed chords, mode, energy...)
+  progressions?: string[];            // Named progressions to prefer
+  forms?: SongFormName[];
+  tempoRange?: { min: number; max: number };
+  timeSignature?: TimeSignature;
+  strummingPatterns?: string[];       // Strumming pattern ids, best first
+  substitutions?: StyleSubstitutionRule[];
+  isCustom?: boolean;                 // Defined by the user
 }
 
 // AI generation request
@@ -192,6 +405,15 @@ export interface AIGenerationRequest {
   key?: Key;
   style?: string;
   complexity?: 'simple' | 'moderate' | 'complex';
+  generator?: GeneratorBackend; // Offline backend (default 'algorithmic')
+  genre?: ProgressionGenre;     // Markov model to sample; inferred from style if omitted
+  temperature?: number;         // Markov sampling temperature (default 1)
+  constraints?: GenerationConstraints;
+  modulation?: ModulationType;
+  styleProfile?: StyleProfile;  // Found from the style text if omitted
+  form?: SongForm;              // Chosen from the complexity and style if omitted
+  tempo?: number;               // Picked from the mood's tempo range if omitted
+  seed?: string;                // Varies the song for the same mood, key and complexity
 }
 
 // AI generation response (parsed)
@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import { countHardShapes, findEasyChords, getCapoShape } from './capo';
+import { chordFromSymbol } from './chordSymbols';
+import { getKeyId } from './musicTheory';
+import type { Key, Song } from '../types/music';
+
+const songIn = (key: Key, symbols: string[]): Song => ({
+  id: 'capo-test',
+  key,
+  tempo: 100,
+  sections: [{ id: 'verse', type: 'verse', name: 'Verse', chords: symbols.map(symbol => chordFromSymbol(symbol)) }],
+});
+const names = (song: Song) => song.sections[0].chords.map(chord => chord.name);
+
+describe('getCapoShape', () => {
+  it('moves the chord and its bass down by the capo', () => {
+    expect(getCapoShape(chordFromSymbol('A'), 2).name).toBe('G');
+    expect(getCapoShape(chordFromSymbol('Bm7'), 2).name).toBe('Am7');
+    expect(getCapoShape(chordFromSymbol('D/F#'), 2).bassNote).toBe('E');
+  });
+});
+
+describe('findEasyChords', () => {
+  it('finds a capo that turns barre chords into open shapes', () => {
+    const song = songIn({ tonic: 'A#', mode: 'major' }, ['A#', 'D#', 'Gm', 'F']);
+    const easy = findEasyChords(song);
+
+    expect(easy.hardBefore).toBeGreaterThan(0);
+    expect(easy.hardAfter).toBe(0);
+    expect(easy.capo).toBeGreaterThan(0);
+    expect(easy.song.capo).toBe(easy.capo);
+    expect(countHardShapes(easy.song)).toBe(0);
+    // The song still sounds the same
+    expect(names(easy.song)).toEqual(names(song));
+    expect(getKeyId(easy.shapeKey)).not.toBe(getKeyId(song.key));
+  });
+
+  it('leaves a song that is already easy without a capo', () => {
+    const song = songIn({ tonic: 'G', mode: 'major' }, ['G', 'C', 'D', 'Em']);
+    const easy = findEasyChords(song, { simplify: true });
+    expect(easy.capo).toBe(0);
+    expect(easy.song.capo).toBeUndefined();
+    expect(easy.swaps).toEqual([]);
+  });
+
+  it('swaps hard chords for easier relatives when asked', () => {
+    const song = songIn({ tonic: 'C', mode: 'major' }, ['C', 'F', 'G', 'C']);
+    const easy = findEasyChords(song, { simplify: true, maxCapo: 0 });
+    expect(names(easy.song)).toEqual(['C', 'Fmaj7', 'G', 'C']);
+    expect(easy.swaps).toHaveLength(1);
+    expect(easy.swaps[0].from.name).toBe('F');
+  });
+
+  it('drops the melody and bass line only where chords were swapped', () => {
+    const line = [{ midi: 60, startBeat: 0, beats: 4 }];
+    const base = songIn({ tonic: 'C', mode: 'major' }, ['C', 'F', 'G', 'C']);
+    const song: Song = {
+      ...base,
+      sections: [
+        { ...base.sections[0], melody: line, bassLine: line },
+        {
+          id: 'chorus',
+          type: 'chorus',
+          name: 'Chorus',
+          chords: ['C', 'G'].map(symbol => chordFromSymbol(symbol)),
+          melody: line,
+          bassLine: line,
+        },
+      ],
+    };
+    const [verse, chorus] = findEasyChords(song, { simplify: true, maxCapo: 0 }).song.sections;
+    expect(verse.melody).toBeUndefined();
+    expect(verse.bassLine).toBeUndefined();
+    expect(chorus.melody).toBe(line);
+    expect(chorus.bassLine).toBe(line);
+  });
+
+  it('keeps the melody when only the capo changes', () => {
+    const line = [{ midi: 60, startBeat: 0, beats: 4 }];
+    const base = songIn({ tonic: 'A#', mode: 'major' }, ['A#', 'D#', 'Gm', 'F']);
+    const song: Song = { ...base, sections: [{ ...base.sections[0], melody: line }] };
+    const easy = findEasyChords(song);
+    expect(easy.capo).toBeGreaterThan(0);
+    expect(easy.song.sections[0].melody).toBe(line);
+  });
+});
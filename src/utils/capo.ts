@@ -0,0 +1,179 @@
+import type { Chord, ChordQuality, GuitarFingering, Key, Song } from '../types/music';
+import { getChordFingering } from '../data/chords';
+import { createChord, getKeyId, transposeKey, transposeNote } from './musicTheory';
+import { withRomanNumeralQuality } from './romanNumerals';
+import { getSectionKey } from './modulation';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface EasyChordsOptions {
+  simplify?: boolean;   // Also swap hard chords for easier relatives (F -> Fmaj7)
+  maxCapo?: number;
+}
+
+/** A chord replaced by an easier relative on the same root */
+export interface ChordSwap {
+  sectionIndex: number;
+  chordIndex: number;
+  from: Chord;
+  to: Chord;
+}
+
+export interface EasyChords {
+  song: Song;           // With the capo set and any swaps made; still at concert pitch
+  capo: number;
+  shapeKey: Key;        // Key the shapes are played in
+  swaps: ChordSwap[];
+  hardBefore: number;   // Barre or unknown shapes with no capo
+  hardAfter: number;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+// Highest capo fret worth trying; above it the neck gets cramped
+export const MAX_CAPO = 7;
+
+// Cost of a shape: open chords are free, a partial barre (the beginner F)
+// costs a little, a full barre or no known shape costs most
+const PARTIAL_BARRE_COST = 2;
+const BARRE_COST = 3;
+const NO_SHAPE_COST = 4;
+
+// Easier chords on the same root that can stand in, closest in sound first
+const EASY_RELATIVES: Partial<Record<ChordQuality, ChordQuality[]>> = {
+  'major': ['major7', 'sus2', 'sus4', 'major6'],
+  'minor': ['minor7', 'sus2', 'sus4'],
+  'dominant7': ['major', 'dominant7sus4'],
+  'major7': ['major', 'sus2'],
+  'minor7': ['minor', 'sus2'],
+  'major9': ['major7', 'major'],
+  'minor9': ['minor7', 'minor'],
+  'minor11': ['minor7', 'minor'],
+  'dominant9': ['dominant7', 'major'],
+  'dominant11': ['dominant7', 'dominant7sus4'],
+  'dominant13': ['dominant7', 'major'],
+  'dominant7b9': ['dominant7'],
+  'dominant7#9': ['dominant7'],
+  'add9': ['sus2', 'major'],
+  'major6': ['major'],
+  'minor6': ['minor'],
+  'half-dim7': ['minor7'],
+};
+
+// ============================================================================
+// SHAPES
+// ============================================================================
+
+/**
+ * How hard a fingering is to play; 0 for open shapes
+ */
+export function getFingeringCost(fingering: GuitarFingering | null): number {
+  if (!fingering) return NO_SHAPE_COST;
+  if (fingering.voicingType === 'barre') return BARRE_COST;
+  return fingering.barrePosition ? PARTIAL_BARRE_COST : 0;
+}
+
+/**
+ * The shape a chord is fingered as with a capo: the chord moved down by the
+ * capo's frets (A with capo 2 is played as a G shape)
+ */
+export function getCapoShape(chord: Chord, capo: number, keyContext?: string): Chord {
+  if (capo === 0) return chord;
+  return createChord(
+    transposeNote(chord.root, -capo),
+    chord.quality,
+    chord.romanNumeral,
+    chord.function,
+    keyContext,
+    chord.bassNote && transposeNote(chord.bassNote, -capo)
+  );
+}
+
+// Slash basses are left out of the cost; the shape above them decides it
+function getShapeCost(chord: Chord, capo: number): number {
+  return getFingeringCost(getChordFingering(transposeNote(chord.root, -capo), chord.quality));
+}
+
+function withQuality(chord: Chord, quality: ChordQuality, keyContext: string): Chord {
+  const romanNumeral = chord.romanNumeral && withRomanNumeralQuality(chord.romanNumeral, quality);
+  return createChord(chord.root, quality, romanNumeral, chord.function, keyContext, chord.bassNote);
+}
+
+// ============================================================================
+// EASY MODE
+// ============================================================================
+
+/**
+ * Find the capo fret (and, when simplifying, the chord swaps) that leave a
+ * song with the fewest barre and unknown shapes. Fewer swaps win a tie, then
+ * the lower capo. The chords stay at concert pitch; only the shapes move.
+ */
+export function findEasyChords(song: Song, options: EasyChordsOptions = {}): EasyChords {
+  const maxCapo = options.maxCapo ?? MAX_CAPO;
+  const chords = song.sections.flatMap((section, sectionIndex) =>
+    section.chords.map((chord, chordIndex) => ({ chord, sectionIndex, chordIndex }))
+  );
+
+  let best: { capo: number; cost: number; swaps: ChordSwap[] } | null = null;
+  for (let capo = 0; capo <= maxCapo; capo++) {
+    let cost = 0;
+    const swaps: ChordSwap[] = [];
+    for (const { chord, sectionIndex, chordIndex } of chords) {
+      let chordCost = getShapeCost(chord, capo);
+      let easier: ChordQuality | undefined;
+      for (const quality of options.simplify ? EASY_RELATIVES[chord.quality] ?? [] : []) {
+        const relativeCost = getShapeCost({ ...chord, quality }, capo);
+        if (relativeCost < chordCost) {
+          chordCost = relativeCost;
+          easier = quality;
+        }
+      }
+      cost += chordCost;
+      if (easier) {
+        const keyContext = getKeyId(getSectionKey(song, sectionIndex));
+        swaps.push({ sectionIndex, chordIndex, from: chord, to: withQuality(chord, easier, keyContext) });
+      }
+    }
+    if (!best || cost < best.cost || (cost === best.cost && swaps.length < best.swaps.length)) {
+      best = { capo, cost, swaps };
+    }
+  }
+
+  const { capo, swaps } = best ?? { capo: 0, swaps: [] };
+  const sections = song.sections.map((section, sectionIndex) => {
+    const sectionSwaps = swaps.filter(swap => swap.sectionIndex === sectionIndex);
+    if (sectionSwaps.length === 0) return section;
+    // The old melody and bass line no longer fit the swapped chords
+    return {
+      ...section,
+      chords: section.chords.map((chord, chordIndex) =>
+        sectionSwaps.find(swap => swap.chordIndex === chordIndex)?.to ?? chord
+      ),
+      melody: undefined,
+      bassLine: undefined,
+    };
+  });
+  const easySong: Song = { ...song, sections, capo: capo > 0 ? capo : undefined };
+
+  return {
+    song: easySong,
+    capo,
+    shapeKey: transposeKey(song.key, -capo),
+    swaps,
+    hardBefore: countHardShapes(song, 0),
+    hardAfter: countHardShapes(easySong, capo),
+  };
+}
+
+/**
+ * Chords in a song that need a barre (or have no known shape) at a capo fret
+ */
+export function countHardShapes(song: Song, capo: number = song.capo ?? 0): number {
+  return song.sections
+    .flatMap(section => section.chords)
+    .filter(chord => getShapeCost(chord, capo) >= PARTIAL_BARRE_COST).length;
+}
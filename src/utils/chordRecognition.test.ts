@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import { identifyChord, identifyChordFromMidi, identifyChordFromFingering } from './chordRecognition';
+import { OPEN_VOICINGS } from '../data/chords';
+import { CHORD_INTERVALS, buildChordNotes } from './musicTheory';
+import type { ChordQuality } from '../types/music';
+
+describe('identifyChord', () => {
+  it('identifies triads and sevenths', () => {
+    expect(identifyChord(['C', 'E', 'G'])[0].chord.name).toBe('C');
+    expect(identifyChord(['A', 'C', 'E', 'G'], { bassNote: 'A' })[0].chord.name).toBe('Am7');
+    expect(identifyChord(['B', 'D', 'F', 'A'], { bassNote: 'B' })[0].quality).toBe('half-dim7');
+  });
+
+  it('uses the bass to separate C6 from Am7/C', () => {
+    const withCBass = identifyChord(['C', 'E', 'G', 'A'], { bassNote: 'C' });
+    expect(withCBass[0].chord.name).toBe('C6');
+    expect(withCBass[1].chord.name).toBe('Am7/C');
+    expect(withCBass[1].inversion).toBe(1);
+
+    const withABass = identifyChord(['C', 'E', 'G', 'A'], { bassNote: 'A' });
+    expect(withABass[0].chord.name).toBe('Am7');
+  });
+
+  it('reports inversions and slash basses', () => {
+    const firstInversion = identifyChord(['C', 'E', 'G'], { bassNote: 'E' })[0];
+    expect(firstInversion.chord.name).toBe('C/E');
+    expect(firstInversion.inversion).toBe(1);
+
+    const slash = identifyChord(['C', 'E', 'G', 'D'], { bassNote: 'D' });
+    expect(slash.some(match => match.chord.name === 'C/D' && match.inversion === -1)).toBe(true);
+
+    const ninthInBass = identifyChord(['C', 'E', 'G', 'A#', 'D'], { bassNote: 'D' });
+    expect(ninthInBass.find(match => match.quality === 'dominant9')?.inversion).toBe(4);
+  });
+
+  it('tolerates an omitted fifth', () => {
+    const match = identifyChord(['C', 'E', 'A#'], { bassNote: 'C' })[0];
+    expect(match.quality).toBe('dominant7');
+    expect(match.missingNotes).toEqual(['G']);
+  });
+
+  it('accepts numeric pitch classes and spells for a key', () => {
+    expect(identifyChord([10, 2, 5], { bassNote: 10, keyContext: 'F' })[0].chord.name).toBe('Bb');
+  });
+
+  it('recognizes every quality in root position', () => {
+    for (const quality of Object.keys(CHORD_INTERVALS) as ChordQuality[]) {
+      const notes = buildChordNotes('D', quality);
+      const match = identifyChord(notes, { bassNote: 'D' })[0];
+      expect(match.root, quality).toBe('D');
+      expect(buildChordNotes(match.root, match.quality).sort(), quality).toEqual([...notes].sort());
+    }
+  });
+
+  it('returns nothing for fewer than two pitch classes', () => {
+    expect(identifyChord(['C', 'C'])).toEqual([]);
+  });
+});
+
+describe('identifyChordFromMidi', () => {
+  it('takes the lowest note as the bass', () => {
+    expect(identifyChordFromMidi([64, 48, 55, 57])[0].chord.name).toBe('C6');
+    expect(identifyChordFromMidi([45, 60, 64, 67])[0].chord.name).toBe('Am7');
+  });
+});
+
+describe('identifyChordFromFingering', () => {
+  it('names the open voicings', () => {
+    for (const name of ['C', 'G', 'D', 'Am', 'Em', 'E7', 'Dm7', 'Cmaj7']) {
+      const fingering = OPEN_VOICINGS[name];
+      expect(identifyChordFromFingering(fingering)[0].chord.name).toBe(name);
+    }
+  });
+
+  it('names an edited shape', () => {
+    expect(identifyChordFromFingering({ chord: '', strings: ['x', 0, 2, 2, 2, 0] })[0].chord.name).toBe('A');
+    expect(identifyChordFromFingering({ chord: '', strings: [0, 0, 2, 2, 2, 0] })[0].chord.name).toBe('A/E');
+  });
+});
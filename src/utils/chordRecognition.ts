@@ -0,0 +1,137 @@
+import type { CanonicalNote, Chord, ChordQuality, GuitarFingering } from '../types/music';
+import { CHROMATIC_NOTES, CHORD_INTERVALS, createChord } from './musicTheory';
+import { fingeringToMidi } from '../data/chords';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface ChordMatch {
+  chord: Chord;                   // Named chord, including bassNote for slash chords
+  root: CanonicalNote;
+  quality: ChordQuality;
+  bassNote?: CanonicalNote;       // Only when different from the root
+  inversion: number;              // Index of the bass among the chord tones: 0 root position, 1-3 third,
+                                  // fifth or seventh, 4+ an extension (9th) in the bass; -1 non-chord-tone bass
+  score: number;                  // Higher is better; 1 is an exact root-position match
+  missingNotes: CanonicalNote[];  // Chord tones not present in the input
+  extraNotes: CanonicalNote[];    // Input notes that are not chord tones
+}
+
+export interface ChordRecognitionOptions {
+  bassNote?: CanonicalNote | number; // Lowest sounding note, if known
+  keyContext?: string;            // Used to spell the resulting chord names
+  limit?: number;                 // Maximum number of matches (default 5)
+}
+
+// ============================================================================
+// SCORING
+// ============================================================================
+
+const PERFECT_FIFTH = 7;
+const ROOT_IN_BASS_BONUS = 0.05;
+const MIN_COVERAGE = 0.6;
+
+// Qualities in table order; earlier (simpler) qualities win ties
+const QUALITY_ORDER = Object.keys(CHORD_INTERVALS) as ChordQuality[];
+
+function scoreCandidate(
+  root: number,
+  quality: ChordQuality,
+  pitchClasses: Set<number>,
+  bass: number | undefined
+): Omit<ChordMatch, 'chord'> | null {
+  const toneIntervals = CHORD_INTERVALS[quality].map(interval => interval % 12);
+  const tones = toneIntervals.map(interval => (root + interval) % 12);
+
+  const missing = tones.filter(tone => !pitchClasses.has(tone));
+  const extra = [...pitchClasses].filter(pc => !tones.includes(pc));
+
+  // An omitted 5th is common in voicings and only costs half a tone
+  const fifthOmitted = missing.includes((root + PERFECT_FIFTH) % 12) ? 0.5 : 0;
+  const coverage = (tones.length - missing.length + fifthOmitted) / tones.length;
+  if (coverage < MIN_COVERAGE) return null;
+
+  // A non-chord-tone bass (C/D) is a slash chord, so it costs half as much
+  const bassIsExtra = bass !== undefined && !tones.includes(bass);
+  const extraWeight = extra.length - (bassIsExtra ? 0.5 : 0);
+  const precision = (pitchClasses.size - extraWeight) / pitchClasses.size;
+
+  const inversion = bass === undefined ? 0 : bassIsExtra ? -1 : tones.indexOf(bass);
+  const score = (coverage + precision) / 2 + (inversion === 0 && bass !== undefined ? ROOT_IN_BASS_BONUS : 0);
+
+  const match: Omit<ChordMatch, 'chord'> = {
+    root: CHROMATIC_NOTES[root],
+    quality,
+    inversion,
+    score,
+    missingNotes: missing.map(pc => CHROMATIC_NOTES[pc]),
+    extraNotes: extra.map(pc => CHROMATIC_NOTES[pc]),
+  };
+  if (bass !== undefined && bass !== root) match.bassNote = CHROMATIC_NOTES[bass];
+
+  return match;
+}
+
+function toPitchClass(note: CanonicalNote | number): number {
+  return typeof note === 'number' ? ((note % 12) + 12) % 12 : CHROMATIC_NOTES.indexOf(note);
+}
+
+// ============================================================================
+// RECOGNITION
+// ============================================================================
+
+/**
+ * Identify a chord from pitch classes (note names or 0-11 numbers)
+ * Returns matches ranked best first. With C E G A, a C bass ranks C6 above
+ * Am7/C and an A bass ranks Am7 above C6/A.
+ */
+export function identifyChord(
+  notes: (CanonicalNote | number)[],
+  options: ChordRecognitionOptions = {}
+): ChordMatch[] {
+  const pitchClasses = new Set(notes.map(toPitchClass));
+  const bass = options.bassNote !== undefined ? toPitchClass(options.bassNote) : undefined;
+  if (bass !== undefined) pitchClasses.add(bass);
+  if (pitchClasses.size < 2) return [];
+
+  const matches: Omit<ChordMatch, 'chord'>[] = [];
+  for (const root of pitchClasses) {
+    for (const quality of QUALITY_ORDER) {
+      const match = scoreCandidate(root, quality, pitchClasses, bass);
+      if (match) matches.push(match);
+    }
+  }
+
+  matches.sort((a, b) =>
+    b.score - a.score || QUALITY_ORDER.indexOf(a.quality) - QUALITY_ORDER.indexOf(b.quality)
+  );
+
+  return matches.slice(0, options.limit ?? 5).map(match => ({
+    ...match,
+    chord: createChord(match.root, match.quality, undefined, undefined, options.keyContext, match.bassNote),
+  }));
+}
+
+/**
+ * Identify a chord from MIDI note numbers; the lowest note is the bass
+ */
+export function identifyChordFromMidi(
+  midiNotes: number[],
+  options: Omit<ChordRecognitionOptions, 'bassNote'> = {}
+): ChordMatch[] {
+  if (midiNotes.length === 0) return [];
+  const lowest = Math.min(...midiNotes);
+  return identifyChord(midiNotes, { ...options, bassNote: CHROMATIC_NOTES[lowest % 12] });
+}
+
+/**
+ * Identify a chord from a guitar fingering (standard tuning)
+ */
+export function identifyChordFromFingering(
+  fingering: GuitarFingering,
+  options: Omit<ChordRecognitionOptions, 'bassNote'> = {}
+): ChordMatch[] {
+  const midiNotes = fingeringToMidi(fingering).filter((midi): midi is number => midi !== null);
+  return identifyChordFromMidi(midiNotes, options);
+}
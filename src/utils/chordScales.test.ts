@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { suggestChordScales, suggestSectionScales, buildChordScale, isBluesForm } from './chordScales';
+import { chordFromSymbol } from './chordSymbols';
+import { chords } from '../test/fixtures';
+import type { Key } from '../types/music';
+
+const C_MAJOR: Key = { tonic: 'C', mode: 'major' };
+const A_MAJOR: Key = { tonic: 'A', mode: 'major' };
+const topScale = (symbol: string, key: Key = C_MAJOR) => suggestChordScales(chordFromSymbol(symbol), key)[0];
+
+describe('suggestChordScales', () => {
+  it('uses the key scale from the chord root for diatonic chords', () => {
+    expect(topScale('Dm7').name).toBe('D Dorian');
+    expect(topScale('G7').name).toBe('G Mixolydian');
+    expect(topScale('Em').name).toBe('E Phrygian');
+    expect(topScale('Fmaj7').name).toBe('F Lydian');
+    expect(topScale('Bm7b5').name).toBe('B Locrian');
+  });
+
+  it('spells scales from the root letter', () => {
+    expect(topScale('Bbmaj7', { tonic: 'F', mode: 'major' }).spelledNotes).toEqual(['Bb', 'C', 'D', 'E', 'F', 'G', 'A']);
+  });
+
+  it('leans secondary dominants toward their target', () => {
+    expect(topScale('E7').name).toBe('E Phrygian Dominant');
+    expect(topScale('D7').name).toBe('D Mixolydian');
+  });
+
+  it('falls back to quality scales that contain every chord tone', () => {
+    const scales = suggestChordScales(chordFromSymbol('C#dim7'), C_MAJOR);
+    expect(scales.map(scale => scale.type)).toEqual(['whole-half']);
+    expect(suggestChordScales(chordFromSymbol('Fm'), C_MAJOR)[0].type).toBe('dorian');
+  });
+
+  it('marks avoid notes a half step above chord tones', () => {
+    const ionian = buildChordScale('major', 'C', chordFromSymbol('Cmaj7'));
+    expect(ionian.avoidNotes).toEqual(['F']);
+    expect(ionian.tensions).toEqual(['D', 'A']);
+
+    const mixolydian = topScale('G7');
+    expect(mixolydian.avoidNotes).toEqual(['C']);
+    expect(buildChordScale('lydian-dominant', 'G', chordFromSymbol('G7')).avoidNotes).toEqual([]);
+  });
+});
+
+describe('suggestSectionScales', () => {
+  it('detects blues forms and puts the blues scale first', () => {
+    const twelveBar = chords(['A7', 'D7', 'A7', 'A7', 'D7', 'D7', 'A7', 'A7', 'E7', 'D7', 'A7', 'E7']);
+    expect(isBluesForm(twelveBar, A_MAJOR)).toBe(true);
+
+    const result = suggestSectionScales(twelveBar, A_MAJOR);
+    expect(result.sectionScale.name).toBe('A Blues');
+    expect(result.chords[1][0].name).toBe('A Blues');
+    expect(result.chords[1][1].name).toBe('D Mixolydian');
+  });
+
+  it('uses the key scale for ordinary sections', () => {
+    const pop = chords(['C', 'G', 'Am', 'F']);
+    expect(isBluesForm(pop, C_MAJOR)).toBe(false);
+    const result = suggestSectionScales(pop, C_MAJOR);
+    expect(result.sectionScale.name).toBe('C Ionian');
+    expect(result.chords.map(scales => scales[0].name)).toEqual(['C Ionian', 'G Mixolydian', 'A Aeolian', 'F Lydian']);
+  });
+});
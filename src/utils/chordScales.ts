@@ -0,0 +1,291 @@
+import type { CanonicalNote, Chord, ChordQuality, Key, Mode, SpelledNote } from '../types/music';
+import {
+  MODE_SCALE_INTERVALS,
+  createChord,
+  formatKeyName,
+  getInterval,
+  getKeyId,
+  getScaleNotes,
+  isDominantQuality,
+  isMinorMode,
+  spellChordRoot,
+  spellNoteInKey,
+  spellPitch,
+  transposeNote,
+} from './musicTheory';
+import { analyzeChord } from './harmonicAnalysis';
+import type { ChordAnalysis } from './harmonicAnalysis';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type ChordScaleType =
+  | Mode
+  | 'lydian-dominant'
+  | 'altered'
+  | 'locrian-natural-2'
+  | 'phrygian-dominant'
+  | 'mixolydian-b6'
+  | 'half-whole'
+  | 'whole-half'
+  | 'whole-tone'
+  | 'major-pentatonic'
+  | 'minor-pentatonic'
+  | 'blues';
+
+export interface ChordScale {
+  type: ChordScaleType;
+  root: CanonicalNote;
+  name: string;                   // "G Mixolydian"
+  notes: CanonicalNote[];
+  spelledNotes: SpelledNote[];
+  avoidNotes: CanonicalNote[];    // Non-chord tones a half step above a chord tone
+  tensions: CanonicalNote[];      // Remaining non-chord tones, safe to sustain
+  reason: string;
+}
+
+export interface SectionChordScales {
+  chords: ChordScale[][];         // Ranked suggestions for each chord
+  sectionScale: ChordScale;       // One scale that works across the section
+}
+
+// ============================================================================
+// SCALE TABLES
+// ============================================================================
+
+export const CHORD_SCALE_INTERVALS: Record<ChordScaleType, number[]> = {
+  ...MODE_SCALE_INTERVALS,
+  'lydian-dominant': [0, 2, 4, 6, 7, 9, 10],
+  'altered': [0, 1, 3, 4, 6, 8, 10],
+  'locrian-natural-2': [0, 2, 3, 5, 6, 8, 10],
+  'phrygian-dominant': [0, 1, 4, 5, 7, 8, 10],
+  'mixolydian-b6': [0, 2, 4, 5, 7, 8, 10],
+  'half-whole': [0, 1, 3, 4, 6, 7, 9, 10],
+  'whole-half': [0, 2, 3, 5, 6, 8, 9, 11],
+  'whole-tone': [0, 2, 4, 6, 8, 10],
+  'major-pentatonic': [0, 2, 4, 7, 9],
+  'minor-pentatonic': [0, 3, 5, 7, 10],
+  'blues': [0, 3, 5, 6, 7, 10],
+};
+
+export const CHORD_SCALE_NAMES: Record<ChordScaleType, string> = {
+  'major': 'Ionian',
+  'minor': 'Aeolian',
+  'dorian': 'Dorian',
+  'phrygian': 'Phrygian',
+  'lydian': 'Lydian',
+  'mixolydian': 'Mixolydian',
+  'locrian': 'Locrian',
+  'harmonic-minor': 'Harmonic Minor',
+  'melodic-minor': 'Melodic Minor',
+  'lydian-dominant': 'Lydian Dominant',
+  'altered': 'Altered',
+  'locrian-natural-2': 'Locrian ♮2',
+  'phrygian-dominant': 'Phrygian Dominant',
+  'mixolydian-b6': 'Mixolydian b6',
+  'half-whole': 'Half-Whole Diminished',
+  'whole-half': 'Whole-Half Diminished',
+  'whole-tone': 'Whole Tone',
+  'major-pentatonic': 'Major Pentatonic',
+  'minor-pentatonic': 'Minor Pentatonic',
+  'blues': 'Blues',
+};
+
+// Why each scale fits its chord type
+const SCALE_REASONS: Record<ChordScaleType, string> = {
+  'major': 'The major scale over a major chord; the 4th is the one note to pass through.',
+  'minor': 'Natural minor adds a dark b6 over the minor chord.',
+  'dorian': 'Minor with a bright natural 6th - the go-to sound over a ii7 or minor vamp.',
+  'phrygian': 'Minor with a b2, for a dark, Spanish colour over a iii or i chord.',
+  'lydian': 'Major with a raised 4th, so no note clashes with the chord.',
+  'mixolydian': 'Major with a b7 - it spells out the dominant 7th chord exactly.',
+  'locrian': 'The diatonic scale over a diminished or half-diminished chord.',
+  'harmonic-minor': 'Minor with a raised 7th, matching the minor-major 7th chord.',
+  'melodic-minor': 'Minor with raised 6th and 7th, the smoothest fit for a minor-major 7th.',
+  'lydian-dominant': 'Mixolydian with a #11 - a brighter dominant with no avoid note.',
+  'altered': 'Every tension altered (b9, #9, #11, b13) for maximum pull into the next chord.',
+  'locrian-natural-2': 'Locrian with a natural 9th, softening the half-diminished sound.',
+  'phrygian-dominant': 'Harmonic minor from the 5th - the b9 and b13 point to a minor target.',
+  'mixolydian-b6': 'Mixolydian with a b13, leaning toward a minor resolution.',
+  'half-whole': 'Alternating half and whole steps: b9, #9 and 13 over a dominant.',
+  'whole-half': 'The symmetrical diminished scale; every chord tone has a note a whole step above.',
+  'whole-tone': 'Six whole steps that contain the augmented triad.',
+  'major-pentatonic': 'Five notes with no half steps, so nothing clashes.',
+  'minor-pentatonic': 'The five-note rock and blues staple over a minor chord.',
+  'blues': 'Minor pentatonic plus the b5 "blue note" - clashes with the major 3rd on purpose.',
+};
+
+// Scales by chord quality, best first
+const QUALITY_SCALES: Record<ChordQuality, ChordScaleType[]> = {
+  'major': ['major', 'lydian', 'major-pentatonic'],
+  'minor': ['dorian', 'minor', 'minor-pentatonic'],
+  'diminished': ['locrian', 'whole-half'],
+  'augmented': ['whole-tone'],
+  'dominant7': ['mixolydian', 'lydian-dominant', 'major-pentatonic'],
+  'major7': ['major', 'lydian'],
+  'minor7': ['dorian', 'minor', 'minor-pentatonic'],
+  'dim7': ['whole-half'],
+  'half-dim7': ['locrian', 'locrian-natural-2'],
+  'sus2': ['mixolydian', 'major', 'major-pentatonic'],
+  'sus4': ['mixolydian', 'major'],
+  'add9': ['major', 'lydian', 'major-pentatonic'],
+  'power': ['minor-pentatonic', 'mixolydian', 'minor'],
+  'major6': ['major', 'lydian', 'major-pentatonic'],
+  'minor6': ['dorian', 'melodic-minor'],
+  'dominant9': ['mixolydian', 'lydian-dominant'],
+  'major9': ['major', 'lydian'],
+  'minor9': ['dorian', 'minor'],
+  'dominant11': ['mixolydian'],
+  'minor11': ['dorian', 'minor'],
+  'dominant13': ['mixolydian', 'lydian-dominant'],
+  'add11': ['major', 'mixolydian'],
+  'dominant7sus4': ['mixolydian', 'dorian'],
+  'dominant7b9': ['phrygian-dominant', 'half-whole', 'altered'],
+  'dominant7#9': ['altered', 'half-whole', 'blues'],
+  'minorMajor7': ['melodic-minor', 'harmonic-minor'],
+};
+
+// Scales that are chosen for colour rather than containing every chord tone
+const COLOR_SCALES: ChordScaleType[] = ['major-pentatonic', 'minor-pentatonic', 'blues'];
+
+const NOTE_LETTERS = 'CDEFGAB';
+
+// ============================================================================
+// SCALE BUILDING
+// ============================================================================
+
+/**
+ * Build a scale on a root, with avoid notes and tensions measured against a chord
+ */
+export function buildChordScale(
+  type: ChordScaleType,
+  root: CanonicalNote,
+  chord: Chord,
+  reason: string = SCALE_REASONS[type],
+  keyContext?: string
+): ChordScale {
+  const intervals = CHORD_SCALE_INTERVALS[type];
+  const notes = intervals.map(interval => transposeNote(root, interval));
+
+  // Seven-note scales use one letter per degree; the rest follow the key
+  const spelledRoot = spellChordRoot(root, chord.root === root ? chord.quality : 'major', keyContext);
+  const rootLetter = NOTE_LETTERS.indexOf(spelledRoot[0]);
+  const spelledNotes = intervals.length === 7
+    ? notes.map((note, i) => spellPitch(note, NOTE_LETTERS[(rootLetter + i) % 7]))
+    : notes.map(note => spellNoteInKey(note, keyContext));
+
+  const chordTones = chord.notes;
+  const nonChordTones = notes.filter(note => !chordTones.includes(note));
+  const avoidNotes = nonChordTones.filter(note =>
+    chordTones.some(tone => getInterval(tone, note) === 1)
+  );
+
+  return {
+    type,
+    root,
+    name: `${spelledNotes[0]} ${CHORD_SCALE_NAMES[type]}`,
+    notes,
+    spelledNotes,
+    avoidNotes,
+    tensions: nonChordTones.filter(note => !avoidNotes.includes(note)),
+    reason,
+  };
+}
+
+// Rotate the key's scale to start on the chord root and match it to a named scale
+function getKeyScaleType(chord: Chord, key: Key): ChordScaleType | null {
+  const scaleNotes = getScaleNotes(key);
+  if (!chord.notes.every(note => scaleNotes.includes(note))) return null;
+
+  const rotation = scaleNotes
+    .map(note => getInterval(chord.root, note))
+    .sort((a, b) => a - b)
+    .join(',');
+  const match = (Object.keys(CHORD_SCALE_INTERVALS) as ChordScaleType[])
+    .find(type => CHORD_SCALE_INTERVALS[type].join(',') === rotation);
+  return match ?? null;
+}
+
+// ============================================================================
+// RECOMMENDATIONS
+// ============================================================================
+
+export interface ChordScaleOptions {
+  analysis?: ChordAnalysis;       // Supplies secondary targets; analyzed if omitted
+  blues?: boolean;                // The chord sits in a blues form
+}
+
+/**
+ * Suggest scales to improvise over a chord, best first
+ * The key's own scale comes first when the chord is diatonic; secondary
+ * dominants take a scale that leans toward their target
+ */
+export function suggestChordScales(chord: Chord, key: Key, options: ChordScaleOptions = {}): ChordScale[] {
+  const keyContext = getKeyId(key);
+  const analysis = options.analysis ?? analyzeChord(chord, key);
+  const suggestions: ChordScale[] = [];
+  const add = (type: ChordScaleType, root: CanonicalNote, reason?: string) => {
+    if (suggestions.some(s => s.type === type && s.root === root)) return;
+    const scale = buildChordScale(type, root, chord, reason, keyContext);
+    const fits = COLOR_SCALES.includes(type) || chord.notes.every(note => scale.notes.includes(note));
+    if (fits) suggestions.push(scale);
+  };
+
+  // Blues forms: the key's blues scale works over every chord
+  if (options.blues) {
+    add('blues', key.tonic, 'The blues scale of the key works over every chord of a blues form.');
+  }
+
+  // Secondary dominants lean toward their target's key
+  if (analysis.secondaryTarget && isDominantQuality(chord.quality)) {
+    const minorTarget = analysis.secondaryTarget === analysis.secondaryTarget.toLowerCase();
+    add(
+      minorTarget ? 'phrygian-dominant' : 'mixolydian',
+      chord.root,
+      `${minorTarget ? 'Phrygian dominant' : 'Mixolydian'} borrows the notes of the ${analysis.secondaryTarget} chord's key, so the line resolves with it.`
+    );
+  }
+
+  // Diatonic chords: the key's notes starting from the chord root
+  const keyScaleType = getKeyScaleType(chord, key);
+  if (keyScaleType) {
+    add(keyScaleType, chord.root, `Uses only the notes of ${formatKeyName(key)}, starting from ${chord.name}. ${SCALE_REASONS[keyScaleType]}`);
+  }
+
+  for (const type of QUALITY_SCALES[chord.quality]) {
+    add(type, chord.root);
+  }
+
+  return suggestions;
+}
+
+/**
+ * Check whether a chord list is a blues form: only I, IV and V, with a
+ * dominant 7th on the tonic or subdominant (e.g. a 12-bar blues)
+ */
+export function isBluesForm(chords: Chord[], key: Key): boolean {
+  if (chords.length === 0 || key.mode !== 'major') return false;
+  const roots = [0, 5, 7].map(interval => transposeNote(key.tonic, interval));
+  const primary = roots.slice(0, 2);
+  return chords.every(chord => roots.includes(chord.root)) &&
+    chords.some(chord => primary.includes(chord.root) && isDominantQuality(chord.quality));
+}
+
+/**
+ * Suggest scales for every chord of a section, plus one scale for the section
+ */
+export function suggestSectionScales(chords: Chord[], key: Key, analyses?: ChordAnalysis[]): SectionChordScales {
+  const blues = isBluesForm(chords, key);
+  const perChord = chords.map((chord, i) =>
+    suggestChordScales(chord, key, { analysis: analyses?.[i] ?? analyzeChord(chord, key, chords[i + 1]), blues })
+  );
+
+  const tonicChord = chords.find(chord => chord.root === key.tonic) ??
+    createChord(key.tonic, isMinorMode(key.mode) ? 'minor' : 'major');
+  const sectionScale = blues
+    ? buildChordScale('blues', key.tonic, tonicChord, 'The blues scale of the key covers the whole blues form.', getKeyId(key))
+    : buildChordScale(key.mode, key.tonic, tonicChord, `The ${formatKeyName(key)} scale fits every diatonic chord in the section.`, getKeyId(key));
+
+  return { chords: perChord, sectionScale };
+}
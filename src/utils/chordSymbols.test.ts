@@ -0,0 +1,150 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseChordSymbol,
+  formatChordSymbol,
+  chordFromSymbol,
+  isValidChordSymbol,
+  CHORD_SYMBOL_STYLES,
+} from './chordSymbols';
+import type { ChordSymbol } from './chordSymbols';
+import { QUALITY_SUFFIXES, createChord, parseSpelledNote } from './musicTheory';
+import type { ChordQuality, SpelledNote } from '../types/music';
+
+const ALL_QUALITIES = Object.keys(QUALITY_SUFFIXES) as ChordQuality[];
+const ROOTS: SpelledNote[] = ['C', 'C#', 'Db', 'Eb', 'F#', 'Ab', 'Bb', 'B', 'Cb', 'E#', 'F##', 'Bbb'];
+
+describe('parseChordSymbol', () => {
+  it('parses basic chords', () => {
+    const result = parseChordSymbol('Am7');
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.symbol).toEqual({ root: 'A', quality: 'minor7' });
+      expect(result.chord.notes).toEqual(['A', 'C', 'E', 'G']);
+    }
+  });
+
+  it('keeps the written root spelling', () => {
+    const result = parseChordSymbol('Bbmaj7');
+    expect(result.ok && result.symbol.root).toBe('Bb');
+    expect(result.ok && result.chord.root).toBe('A#');
+    expect(result.ok && result.chord.name).toBe('Bbmaj7');
+  });
+
+  it('accepts spellings outside NoteName', () => {
+    const result = parseChordSymbol('Cbmaj7/Eb');
+    expect(result.ok && result.symbol).toEqual({ root: 'Cb', quality: 'major7', bassNote: 'Eb' });
+    expect(result.ok && result.chord.root).toBe('B');
+    expect(result.ok && result.chord.name).toBe('Cbmaj7/Eb');
+    expect(chordFromSymbol('F##m').root).toBe('G');
+  });
+
+  it('respells for a key context', () => {
+    const result = parseChordSymbol('A#m', { keyContext: 'Db' });
+    expect(result.ok && result.chord.name).toBe('Bbm');
+  });
+
+  it('parses slash chords', () => {
+    const result = parseChordSymbol('C/E');
+    expect(result.ok && result.symbol).toEqual({ root: 'C', quality: 'major', bassNote: 'E' });
+    expect(result.ok && result.chord.bassNote).toBe('E');
+    expect(result.ok && result.chord.name).toBe('C/E');
+  });
+
+  it('spells a slash bass outside the chord by its interval above the root', () => {
+    for (const symbol of ['C/Bb', 'D/C', 'C/Ab', 'G/F', 'F/Eb']) {
+      const result = parseChordSymbol(symbol, { keyContext: 'C' });
+      expect(result.ok && result.chord.name, symbol).toBe(symbol);
+      expect(result.ok && formatChordSymbol(result.chord, { keyContext: 'C' }), symbol).toBe(symbol);
+    }
+  });
+
+  it('drops a slash bass equal to the root', () => {
+    const result = parseChordSymbol('G7/G');
+    expect(result.ok && result.symbol.bassNote).toBeUndefined();
+  });
+
+  it('parses parenthesized alterations', () => {
+    expect(chordFromSymbol('G7(b9)').quality).toBe('dominant7b9');
+    expect(chordFromSymbol('E7(#9)').quality).toBe('dominant7#9');
+    expect(chordFromSymbol('Cm(maj7)').quality).toBe('minorMajor7');
+    expect(chordFromSymbol('C(add9)').quality).toBe('add9');
+  });
+
+  it('accepts unicode and jazz spellings', () => {
+    expect(chordFromSymbol('B♭Δ7').quality).toBe('major7');
+    expect(chordFromSymbol('C^7').quality).toBe('major7');
+    expect(chordFromSymbol('D-7').quality).toBe('minor7');
+    expect(chordFromSymbol('Bø7').quality).toBe('half-dim7');
+    expect(chordFromSymbol('G7♭9').quality).toBe('dominant7b9');
+  });
+
+  it('distinguishes M7 from m7 and falls back case-insensitively', () => {
+    expect(chordFromSymbol('CM7').quality).toBe('major7');
+    expect(chordFromSymbol('Cm7').quality).toBe('minor7');
+    expect(chordFromSymbol('CMAJ7').quality).toBe('major7');
+    expect(chordFromSymbol('CSus4').quality).toBe('sus4');
+  });
+
+  it('reports detailed errors', () => {
+    const empty = parseChordSymbol('  ');
+    expect(!empty.ok && empty.error.message).toMatch(/empty/);
+
+    const badRoot = parseChordSymbol('H7');
+    expect(!badRoot.ok && badRoot.error.position).toBe(0);
+
+    const badQuality = parseChordSymbol('Cxyz');
+    expect(!badQuality.ok && badQuality.error.position).toBe(1);
+    expect(!badQuality.ok && badQuality.error.message).toMatch(/xyz/);
+
+    const badBass = parseChordSymbol('C/X');
+    expect(!badBass.ok && badBass.error.position).toBe(2);
+
+    const unbalanced = parseChordSymbol('G7(b9');
+    expect(!unbalanced.ok && unbalanced.error.message).toMatch(/parentheses/);
+  });
+
+  it('approximates unknown extensions in lenient mode', () => {
+    expect(chordFromSymbol('G7b13', { lenient: true }).quality).toBe('dominant7');
+    expect(chordFromSymbol('Dm13', { lenient: true }).quality).toBe('minor7');
+    expect(isValidChordSymbol('G7b13')).toBe(false);
+  });
+
+  it('throws from chordFromSymbol on invalid input', () => {
+    expect(() => chordFromSymbol('Q')).toThrow(/position 0/);
+  });
+});
+
+describe('formatChordSymbol', () => {
+  it('formats in each style', () => {
+    const symbol: ChordSymbol = { root: 'C', quality: 'major7' };
+    expect(formatChordSymbol(symbol)).toBe('Cmaj7');
+    expect(formatChordSymbol(symbol, { style: 'jazz' })).toBe('CΔ7');
+    expect(formatChordSymbol({ root: 'B', quality: 'half-dim7' }, { style: 'jazz' })).toBe('Bø7');
+  });
+
+  it('formats Chord objects with key-aware spelling', () => {
+    const chord = createChord('A#', 'minor7', undefined, undefined, undefined, 'G#');
+    expect(formatChordSymbol(chord)).toBe('A#m7/G#');
+    expect(formatChordSymbol(chord, { keyContext: 'Db' })).toBe('Bbm7/Ab');
+    expect(formatChordSymbol(chord, { keyContext: 'Db', unicodeAccidentals: true })).toBe('B♭m7/A♭');
+    expect(formatChordSymbol(createChord('B', 'major'), { keyContext: 'Gb' })).toBe('Cb');
+  });
+
+  it('round-trips every quality in every style', () => {
+    for (const style of CHORD_SYMBOL_STYLES) {
+      for (const quality of ALL_QUALITIES) {
+        for (const root of ROOTS) {
+          for (const symbol of [{ root, quality }, { root, quality, bassNote: 'G' }]) {
+            for (const unicodeAccidentals of [false, true]) {
+              const text = formatChordSymbol(symbol, { style, unicodeAccidentals });
+              const parsed = parseChordSymbol(text);
+              expect(parsed.ok && parsed.symbol, text).toEqual(
+                parseSpelledNote(root) === 'G' ? { root, quality } : symbol
+              );
+            }
+          }
+        }
+      }
+    }
+  });
+});
@@ -0,0 +1,329 @@
+import type { CanonicalNote, ChordQuality, Chord, SpelledNote } from '../types/music';
+import {
+  QUALITY_SUFFIXES,
+  createChord,
+  parseSpelledNote,
+  spellChordRoot,
+  spellBassNote,
+} from './musicTheory';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Output style for chord symbols.
+ * - standard: "Cmaj7", "Cm7", "Cm7b5", "Cdim"
+ * - jazz: "CΔ7", "C-7", "Cø7", "C°"
+ */
+export type ChordSymbolStyle = 'standard' | 'jazz';
+
+/**
+ * A chord symbol as written. Unlike `Chord`, the root and bass keep their
+ * written spelling ("Bb" stays "Bb", "Cb" stays "Cb"). Any `Chord` is also a
+ * valid `ChordSymbol`.
+ */
+export interface ChordSymbol {
+  root: SpelledNote;
+  quality: ChordQuality;
+  bassNote?: SpelledNote;
+}
+
+export interface ChordSymbolError {
+  message: string;
+  input: string;
+  position: number; // Index into the input where parsing failed
+}
+
+export type ChordSymbolParseResult =
+  | { ok: true; symbol: ChordSymbol; chord: Chord }
+  | { ok: false; error: ChordSymbolError };
+
+export interface ChordSymbolParseOptions {
+  keyContext?: string;
+  // Approximate unknown extensions ("C7b13" -> C7) instead of failing
+  lenient?: boolean;
+}
+
+export interface ChordSymbolFormatOptions {
+  style?: ChordSymbolStyle;
+  keyContext?: string; // Respell root and bass for this key
+  unicodeAccidentals?: boolean; // "B♭" instead of "Bb"
+}
+
+// ============================================================================
+// SUFFIX TABLES
+// ============================================================================
+
+export const CHORD_SYMBOL_STYLES: ChordSymbolStyle[] = ['standard', 'jazz'];
+
+const STYLE_SUFFIXES: Record<ChordSymbolStyle, Record<ChordQuality, string>> = {
+  standard: QUALITY_SUFFIXES,
+  jazz: {
+    'major': '',
+    'minor': '-',
+    'diminished': '°',
+    'augmented': '+',
+    'dominant7': '7',
+    'major7': 'Δ7',
+    'minor7': '-7',
+    'dim7': '°7',
+    'half-dim7': 'ø7',
+    'sus2': 'sus2',
+    'sus4': 'sus4',
+    'add9': 'add9',
+    'power': '5',
+    'major6': '6',
+    'minor6': '-6',
+    'dominant9': '9',
+    'major9': 'Δ9',
+    'minor9': '-9',
+    'dominant11': '11',
+    'minor11': '-11',
+    'dominant13': '13',
+    'add11': 'add11',
+    'dominant7sus4': '7sus4',
+    'dominant7b9': '7♭9',
+    'dominant7#9': '7♯9',
+    'minorMajor7': '-Δ7',
+  },
+};
+
+// Accepted suffix spellings after normalization (parentheses removed,
+// unicode accidentals folded). Case-sensitive: "M7" is major, "m7" is minor.
+const SUFFIX_ALIASES: Record<string, ChordQuality> = {
+  '': 'major', 'maj': 'major', 'M': 'major', 'major': 'major',
+  'm': 'minor', 'mi': 'minor', 'min': 'minor', 'minor': 'minor', '-': 'minor',
+  'dim': 'diminished', '°': 'diminished', 'o': 'diminished',
+  'dim7': 'dim7', '°7': 'dim7', 'o7': 'dim7',
+  'aug': 'augmented', '+': 'augmented', '+5': 'augmented', '#5': 'augmented',
+  '7': 'dominant7', 'dom7': 'dominant7',
+  'maj7': 'major7', 'ma7': 'major7', 'M7': 'major7', 'Δ7': 'major7', 'Δ': 'major7', 'j7': 'major7',
+  'm7': 'minor7', 'mi7': 'minor7', 'min7': 'minor7', '-7': 'minor7',
+  'm7b5': 'half-dim7', 'mi7b5': 'half-dim7', 'min7b5': 'half-dim7', '-7b5': 'half-dim7', 'ø': 'half-dim7', 'ø7': 'half-dim7',
+  'sus2': 'sus2',
+  'sus4': 'sus4', 'sus': 'sus4',
+  'add9': 'add9', 'add2': 'add9', '2': 'add9',
+  '5': 'power',
+  '6': 'major6', 'maj6': 'major6', 'M6': 'major6',
+  'm6': 'minor6', 'min6': 'minor6', '-6': 'minor6',
+  '9': 'dominant9',
+  'maj9': 'major9', 'M9': 'major9', 'Δ9': 'major9',
+  'm9': 'minor9', 'min9': 'minor9', '-9': 'minor9',
+  '11': 'dominant11',
+  'm11': 'minor11', 'min11': 'minor11', '-11': 'minor11',
+  '13': 'dominant13',
+  'add11': 'add11', 'add4': 'add11',
+  '7sus4': 'dominant7sus4', '7sus': 'dominant7sus4',
+  '7b9': 'dominant7b9',
+  '7#9': 'dominant7#9',
+  'mMaj7': 'minorMajor7', 'mmaj7': 'minorMajor7', 'mM7': 'minorMajor7', 'mΔ7': 'minorMajor7', 'minmaj7': 'minorMajor7', '-Δ7': 'minorMajor7',
+};
+
+// Unicode and shorthand variants folded before lookup
+const SYMBOL_REPLACEMENTS: [RegExp, string][] = [
+  [/♭/g, 'b'],
+  [/♯/g, '#'],
+  [/[△^]/g, 'Δ'],
+  [/º/g, '°'],
+  [/Ø/g, 'ø'],
+];
+
+const ROOT_PATTERN = /^([A-G])(##|bb|♯♯|♭♭|[#b♯♭])?/;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function foldSymbols(text: string): string {
+  return SYMBOL_REPLACEMENTS.reduce((acc, [pattern, replacement]) => acc.replace(pattern, replacement), text);
+}
+
+function failure(input: string, position: number, message: string): ChordSymbolParseResult {
+  return { ok: false, error: { message, input, position } };
+}
+
+// Read a note name at the start of `text`, folding unicode accidentals
+function readNote(text: string): { note: string; length: number } | null {
+  const match = text.match(ROOT_PATTERN);
+  if (!match) return null;
+  return { note: match[1] + foldSymbols(match[2] ?? ''), length: match[0].length };
+}
+
+function lookupSuffix(suffix: string): ChordQuality | undefined {
+  const exact = SUFFIX_ALIASES[suffix];
+  if (exact) return exact;
+
+  // Case-insensitive fallback (e.g. "MAJ7", "Sus4"), only when unambiguous
+  const lower = suffix.toLowerCase();
+  const matches = new Set(
+    Object.keys(SUFFIX_ALIASES)
+      .filter(alias => alias.toLowerCase() === lower)
+      .map(alias => SUFFIX_ALIASES[alias])
+  );
+  return matches.size === 1 ? [...matches][0] : undefined;
+}
+
+// Closest supported chord for an unknown extension (lenient mode)
+function approximateSuffix(suffix: string): ChordQuality {
+  const lower = suffix.toLowerCase();
+  if (lower.startsWith('maj') || suffix.startsWith('M') || suffix.startsWith('Δ')) {
+    return 'major7';
+  }
+  if (lower.startsWith('m') || suffix.startsWith('-')) {
+    // Other minor variants (m13, m7b9, etc.)
+    return 'minor7';
+  }
+  if (/^\d/.test(suffix)) {
+    // Other numbered chords (7b13, 9sus4, etc.) - treat as dominant
+    return 'dominant7';
+  }
+  return 'major';
+}
+
+function checkParentheses(input: string, start: number, end: number): number | null {
+  let depth = 0;
+  for (let i = start; i < end; i++) {
+    if (input[i] === '(') {
+      depth++;
+    } else if (input[i] === ')') {
+      depth--;
+      if (depth < 0) return i;
+    }
+  }
+  return depth === 0 ? null : end;
+}
+
+function withUnicodeAccidentals(note: SpelledNote): string {
+  return note[0] + note.slice(1).replace(/#/g, '♯').replace(/b/g, '♭');
+}
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+/**
+ * Parse a chord symbol such as "Cmaj7", "F#m7b5", "Bb7(b9)", "Cm(maj7)" or "C/E".
+ * Returns the written symbol and the resulting `Chord`, or an error with the
+ * position where parsing failed.
+ */
+export function parseChordSymbol(
+  input: string,
+  options: ChordSymbolParseOptions = {}
+): ChordSymbolParseResult {
+  const leading = input.length - input.trimStart().length;
+  const text = input.trim();
+
+  if (text.length === 0) {
+    return failure(input, 0, 'Chord symbol is empty');
+  }
+
+  const root = readNote(text);
+  if (!root) {
+    return failure(input, leading, `Expected a root note (A-G) but found "${text[0]}"`);
+  }
+  const canonicalRoot = parseSpelledNote(root.note);
+  if (!canonicalRoot) {
+    return failure(input, leading, `Unsupported root spelling "${root.note}"`);
+  }
+
+  const slashIndex = text.indexOf('/', root.length);
+  const suffixEnd = slashIndex === -1 ? text.length : slashIndex;
+
+  const unbalanced = checkParentheses(text, root.length, suffixEnd);
+  if (unbalanced !== null) {
+    return failure(input, leading + unbalanced, 'Unbalanced parentheses in chord quality');
+  }
+
+  const rawSuffix = text.slice(root.length, suffixEnd);
+  const suffix = foldSymbols(rawSuffix).replace(/[()\s]/g, '');
+  let quality = lookupSuffix(suffix);
+  if (!quality) {
+    if (!options.lenient) {
+      return failure(input, leading + root.length, `Unknown chord quality "${rawSuffix}"`);
+    }
+    quality = approximateSuffix(suffix);
+  }
+
+  const symbol: ChordSymbol = { root: root.note, quality };
+  let bassNote: CanonicalNote | undefined;
+
+  if (slashIndex !== -1) {
+    const bassText = text.slice(slashIndex + 1).trim();
+    const bassPosition = leading + slashIndex + 1;
+    const bass = readNote(bassText);
+    if (!bass) {
+      return failure(input, bassPosition, 'Expected a bass note (A-G) after "/"');
+    }
+    if (bass.length !== bassText.length) {
+      return failure(input, bassPosition + bass.length, `Unexpected "${bassText.slice(bass.length)}" after bass note`);
+    }
+    const canonicalBass = parseSpelledNote(bass.note);
+    if (!canonicalBass) {
+      return failure(input, bassPosition, `Unsupported bass spelling "${bass.note}"`);
+    }
+    if (canonicalBass !== canonicalRoot) {
+      symbol.bassNote = bass.note;
+      bassNote = canonicalBass;
+    }
+  }
+
+  const chord = createChord(canonicalRoot, symbol.quality, undefined, undefined, options.keyContext, bassNote);
+  if (!options.keyContext) {
+    // Keep the written spelling when there is no key to respell for
+    chord.name = formatChordSymbol(symbol);
+  }
+
+  return { ok: true, symbol, chord };
+}
+
+/**
+ * Parse a chord symbol, throwing if it is invalid
+ */
+export function chordFromSymbol(input: string, options: ChordSymbolParseOptions = {}): Chord {
+  const result = parseChordSymbol(input, options);
+  if (!result.ok) {
+    throw new Error(`Invalid chord symbol "${input}" at position ${result.error.position}: ${result.error.message}`);
+  }
+  return result.chord;
+}
+
+/**
+ * Check whether text is a valid chord symbol
+ */
+export function isValidChordSymbol(input: string): boolean {
+  return parseChordSymbol(input).ok;
+}
+
+// ============================================================================
+// FORMATTING
+// ============================================================================
+
+/**
+ * Format a chord symbol (or a `Chord`) as text.
+ * Round-trip guarantee: parsing the output of any style yields the same
+ * root, quality and bass note.
+ */
+export function formatChordSymbol(symbol: ChordSymbol, options: ChordSymbolFormatOptions = {}): string {
+  const { style = 'standard', keyContext, unicodeAccidentals = false } = options;
+
+  const root = parseSpelledNote(symbol.root);
+  const bass = symbol.bassNote ? parseSpelledNote(symbol.bassNote) : null;
+  if (!root) {
+    throw new Error(`Invalid chord root "${symbol.root}"`);
+  }
+
+  // Respell for the key, or keep the written spelling
+  let rootName = keyContext ? spellChordRoot(root, symbol.quality, keyContext) : symbol.root;
+  let bassName = bass && bass !== root
+    ? (keyContext ? spellBassNote(bass, root, symbol.quality, keyContext) : symbol.bassNote)
+    : undefined;
+
+  if (unicodeAccidentals) {
+    rootName = withUnicodeAccidentals(rootName);
+    bassName = bassName && withUnicodeAccidentals(bassName);
+  }
+
+  const name = rootName + STYLE_SUFFIXES[style][symbol.quality];
+  return bassName ? `${name}/${bassName}` : name;
+}
@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import { applySongConstraints, findPlayableFingering, getCadenceChords } from './constraints';
+import { chordFromSymbol } from './chordSymbols';
+import { linkSectionKeys } from './modulation';
+import { chords, makeSong } from '../test/fixtures';
+import type { Key, Song } from '../types/music';
+
+const C_MAJOR: Key = { tonic: 'C', mode: 'major' };
+const G_MAJOR: Key = { tonic: 'G', mode: 'major' };
+
+const names = (song: Song) => song.sections.map(section => section.chords.map(chord => chord.name));
+
+describe('applySongConstraints', () => {
+  it('pins chords by position and section type', () => {
+    const song = makeSong([['verse', ['C', 'G', 'Am', 'F']], ['chorus', ['F', 'G', 'C', 'C']]]);
+    const { song: result, violations } = applySongConstraints(song, {
+      pinnedChords: [{ position: 0, chord: 'Am' }, { position: 3, chord: 'Dm', sectionType: 'chorus' }],
+    });
+    expect(names(result)).toEqual([['Am', 'G', 'Am', 'F'], ['Am', 'G', 'C', 'Dm']]);
+    expect(result.sections[1].chords[3].romanNumeral).toBe('ii');
+    expect(violations).toEqual([]);
+  });
+
+  it('replaces chords outside the allowed list with the closest allowed chord', () => {
+    const song = makeSong([['verse', ['C', 'Bb', 'Dm', 'G7']]]);
+    const { song: result, violations } = applySongConstraints(song, { allowedChords: ['C', 'G', 'Am', 'F'] });
+    expect(names(result)).toEqual([['C', 'G', 'F', 'G']]);
+    expect(violations).toEqual([]);
+  });
+
+  it('keeps to open shapes below a fret', () => {
+    const song = makeSong([['verse', ['C', 'Bm', 'F#m', 'G']]]);
+    const { song: result } = applySongConstraints(song, { noBarreChords: true, maxFret: 3 });
+    for (const chord of result.sections[0].chords) {
+      expect(findPlayableFingering(chord, { noBarreChords: true, maxFret: 3 }), chord.name).not.toBeNull();
+    }
+    expect(findPlayableFingering(chordFromSymbol('Bm'), { noBarreChords: true })).toBeNull();
+  });
+
+  it('limits distinct chords across the song', () => {
+    const song = makeSong([['verse', ['C', 'G', 'Am', 'F']], ['chorus', ['C', 'Em', 'F', 'G']]]);
+    const { song: result } = applySongConstraints(song, { maxDistinctChords: 4 });
+    expect(new Set(names(result).flat()).size).toBe(4);
+  });
+
+  it('writes the required ending cadence into the last section', () => {
+    const song = makeSong([['verse', ['C', 'Am', 'F', 'G']], ['outro', ['C', 'Am', 'F', 'Em']]]);
+    const { song: result, violations } = applySongConstraints(song, { endingCadence: 'plagal' });
+    expect(names(result)[1]).toEqual(['C', 'Am', 'F', 'C']);
+    expect(names(result)[0]).toEqual(['C', 'Am', 'F', 'G']);
+    expect(violations).toEqual([]);
+  });
+
+  it('reports constraints that cannot be satisfied', () => {
+    const song = makeSong([['verse', ['C', 'G', 'Am', 'F']]]);
+    const { violations } = applySongConstraints(song, {
+      pinnedChords: [{ position: 6, chord: 'C' }, { position: 0, chord: 'H7' }],
+      allowedChords: ['C', 'G'],
+      endingCadence: 'phrygian-half',
+    });
+    expect(violations.map(v => v.constraint)).toEqual(['pinnedChords', 'pinnedChords', 'endingCadence']);
+  });
+
+  it('replaces an altered dominant with its major triad', () => {
+    const song = makeSong([['verse', ['Am', 'E7#9', 'Am']]], { tonic: 'A', mode: 'minor' });
+    const { song: result } = applySongConstraints(song, { bannedChords: ['E7#9'] });
+    expect(names(result)).toEqual([['Am', 'E', 'Am']]);
+  });
+
+  it('labels chords in the key of their own section', () => {
+    const song = makeSong([['verse', ['C', 'F', 'G', 'C']], ['chorus', ['G', 'A', 'C', 'G']]]);
+    song.sections[1].key = G_MAJOR;
+    const { song: result } = applySongConstraints(song, {
+      pinnedChords: [{ position: 2, chord: 'D', sectionType: 'chorus' }],
+      allowedChords: ['C', 'D', 'F', 'G', 'Am'],
+    });
+    // The pinned D and the Am standing in for A, both labelled in G
+    expect(names(result)[1]).toEqual(['G', 'Am', 'D', 'G']);
+    expect(result.sections[1].chords.slice(1, 3).map(chord => chord.romanNumeral)).toEqual(['ii', 'V']);
+  });
+
+  it('keeps the pivot chords into a key change', () => {
+    const sections = linkSectionKeys([
+      { id: 'verse', type: 'verse', name: 'Verse', chords: chords(['C', 'F', 'G', 'C']), key: C_MAJOR },
+      { id: 'chorus', type: 'chorus', name: 'Chorus', chords: chords(['G', 'C', 'D', 'G']), key: G_MAJOR },
+    ], C_MAJOR, 'dominant');
+    const pivots = sections[0].chords.slice(-2).map(chord => chord.name);
+    const song: Song = { id: 'song', key: C_MAJOR, tempo: 100, sections };
+
+    const { song: result, violations } = applySongConstraints(song, {
+      bannedChords: pivots,
+      pinnedChords: [{ position: 3, chord: 'C', sectionType: 'verse' }],
+    });
+    expect(names(result)[0].slice(-2)).toEqual(pivots);
+    expect(violations.map(v => v.constraint)).toEqual(['pinnedChords', 'bannedChords', 'bannedChords']);
+  });
+});
+
+describe('getCadenceChords', () => {
+  it('spells each cadence in the key', () => {
+    const A_MINOR: Key = { tonic: 'A', mode: 'minor' };
+    expect(getCadenceChords('half', C_MAJOR)?.map(chord => chord.name)).toEqual(['F', 'G']);
+    expect(getCadenceChords('deceptive', A_MINOR)?.map(chord => chord.name)).toEqual(['E', 'F']);
+    expect(getCadenceChords('phrygian-half', A_MINOR)?.map(chord => chord.name)).toEqual(['Dm/F', 'E']);
+    expect(getCadenceChords('phrygian-half', C_MAJOR)).toBeUndefined();
+  });
+});
@@ -0,0 +1,448 @@
+import type {
+  CadenceType,
+  Chord,
+  ConstraintViolation,
+  GenerationConstraints,
+  GuitarFingering,
+  Key,
+  PinnedChord,
+  Song,
+} from '../types/music';
+import { createChord, formatKeyName, getDiatonicChords, getKeyId, getTriadFamily, isMinorMode } from './musicTheory';
+import { parseRomanNumeral, resolveRomanNumeral } from './romanNumerals';
+import { parseChordSymbol } from './chordSymbols';
+import { analyzeChord, analyzeProgression } from './harmonicAnalysis';
+import { getSectionKey } from './modulation';
+import { getChordVoicings, getFingeringForChord } from '../data/chords';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface ConstrainedSong {
+  song: Song;
+  violations: ConstraintViolation[];
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+// Closing chord pairs for each cadence, best first, per key family
+const CADENCE_TEMPLATES: Record<CadenceType, { major: string[][]; minor: string[][] }> = {
+  'authentic': {
+    major: [['V', 'I'], ['V7', 'I'], ['vii°', 'I']],
+    minor: [['V', 'i'], ['V7', 'i'], ['vii°', 'i']],
+  },
+  'half': {
+    major: [['IV', 'V'], ['ii', 'V'], ['I', 'V']],
+    minor: [['iv', 'V'], ['i', 'V'], ['VI', 'V']],
+  },
+  'plagal': {
+    major: [['IV', 'I'], ['iv', 'I']],
+    minor: [['iv', 'i']],
+  },
+  'deceptive': {
+    major: [['V', 'vi'], ['V7', 'vi']],
+    minor: [['V', 'VI'], ['V7', 'VI']],
+  },
+  'phrygian-half': {
+    major: [],
+    minor: [['iv6', 'V']],
+  },
+};
+
+export const CADENCE_NAMES: Record<CadenceType, string> = {
+  'authentic': 'Authentic (V → I)',
+  'half': 'Half (→ V)',
+  'plagal': 'Plagal (IV → I)',
+  'deceptive': 'Deceptive (V → vi)',
+  'phrygian-half': 'Phrygian Half (iv6 → V)',
+};
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function chordId(chord: Pick<Chord, 'root' | 'quality' | 'bassNote'>): string {
+  return `${chord.root}-${chord.quality}-${chord.bassNote ?? ''}`;
+}
+
+type VocabularyConstraint = 'allowedChords' | 'bannedChords' | 'noBarreChords' | 'maxFret';
+
+function describeBrokenConstraint(constraint: VocabularyConstraint, constraints: GenerationConstraints): string {
+  switch (constraint) {
+    case 'allowedChords':
+      return 'is not in the allowed chord list';
+    case 'bannedChords':
+      return 'is banned';
+    case 'noBarreChords':
+      return 'has no voicing without a barre';
+    case 'maxFret':
+      return `has no voicing at or below fret ${constraints.maxFret}`;
+  }
+}
+
+// Parse a symbol list, reporting symbols that are not chords
+function parseChordList(
+  symbols: string[],
+  constraint: keyof GenerationConstraints,
+  violations: ConstraintViolation[]
+): Chord[] {
+  return symbols.flatMap(symbol => {
+    const result = parseChordSymbol(symbol);
+    if (result.ok) return [result.chord];
+    violations.push({ constraint, message: `"${symbol}" is not a chord symbol, so it was ignored.` });
+    return [];
+  });
+}
+
+// Label a chord with its numeral and function in the key
+function labelChord(chord: Chord, key: Key): Chord {
+  const analysis = analyzeChord(chord, key);
+  return { ...chord, romanNumeral: analysis.romanNumeral, function: analysis.function };
+}
+
+function resolveNumeral(numeral: string, key: Key): Chord | null {
+  const parsed = parseRomanNumeral(numeral);
+  const resolved = parsed && resolveRomanNumeral(parsed, key);
+  if (!resolved) return null;
+  return labelChord(
+    createChord(resolved.root, resolved.quality, undefined, undefined, getKeyId(key), resolved.bassNote),
+    key
+  );
+}
+
+function getHighestFret(fingering: GuitarFingering): number {
+  return Math.max(0, ...fingering.strings.filter((fret): fret is number => typeof fret === 'number'));
+}
+
+/**
+ * Find a guitar voicing that meets the barre and fret limits, if any
+ */
+export function findPlayableFingering(chord: Chord, constraints: GenerationConstraints): GuitarFingering | null {
+  const voicings = chord.bassNote
+    ? [getFingeringForChord(chord)].filter((fingering): fingering is GuitarFingering => fingering !== null)
+    : getChordVoicings(chord.root, chord.quality);
+
+  return voicings.find(fingering =>
+    (!constraints.noBarreChords || (fingering.barrePosition === undefined && fingering.voicingType !== 'barre')) &&
+    (constraints.maxFret === undefined || getHighestFret(fingering) <= constraints.maxFret)
+  ) ?? null;
+}
+
+// Compiled chord vocabulary: allowed and banned chords plus playability
+interface Vocabulary {
+  allowed: Chord[] | null;
+  banned: Set<string>;
+  constraints: GenerationConstraints;
+}
+
+function buildVocabulary(constraints: GenerationConstraints, violations: ConstraintViolation[]): Vocabulary {
+  return {
+    allowed: constraints.allowedChords ? parseChordList(constraints.allowedChords, 'allowedChords', violations) : null,
+    banned: new Set(parseChordList(constraints.bannedChords ?? [], 'bannedChords', violations).map(chordId)),
+    constraints,
+  };
+}
+
+// The first constraint a chord breaks, if any
+function getBrokenConstraint(chord: Chord, vocabulary: Vocabulary): VocabularyConstraint | null {
+  const id = chordId(chord);
+  if (vocabulary.allowed && !vocabulary.allowed.some(allowed => chordId(allowed) === id)) return 'allowedChords';
+  if (vocabulary.banned.has(id)) return 'bannedChords';
+  const { noBarreChords, maxFret } = vocabulary.constraints;
+  if ((noBarreChords || maxFret !== undefined) && !findPlayableFingering(chord, vocabulary.constraints)) {
+    return noBarreChords ? 'noBarreChords' : 'maxFret';
+  }
+  return null;
+}
+
+// Similarity for replacements: same root, same function, shared notes
+function similarity(a: Chord, b: Chord, key: Key): number {
+  const sameRoot = a.root === b.root ? 2 : 0;
+  const sameFunction = analyzeChord(a, key).function === analyzeChord(b, key).function ? 1 : 0;
+  const sharedNotes = a.notes.filter(note => b.notes.includes(note)).length;
+  return sameRoot + sameFunction + sharedNotes * 0.5;
+}
+
+// Replacement candidates: the allowed list, or the key's chords plus the chord's own triad
+function getCandidates(chord: Chord, key: Key, vocabulary: Vocabulary): Chord[] {
+  if (vocabulary.allowed) return vocabulary.allowed.map(allowed => labelChord(allowed, key));
+
+  const keyContext = getKeyId(key);
+  const family = getTriadFamily(chord.quality);
+  const triad = family === 'major' || family === 'minor' ? [createChord(chord.root, family, undefined, undefined, keyContext)] : [];
+  return [...triad, ...getDiatonicChords(key)];
+}
+
+function findReplacement(chord: Chord, key: Key, vocabulary: Vocabulary): Chord | null {
+  const candidates = getCandidates(chord, key, vocabulary).filter(candidate => !getBrokenConstraint(candidate, vocabulary));
+  if (candidates.length === 0) return null;
+  const best = candidates.reduce((a, b) => (similarity(b, chord, key) > similarity(a, chord, key) ? b : a));
+  return labelChord(best, key);
+}
+
+// ============================================================================
+// SECTION PASSES
+// ============================================================================
+
+// Pins that are chord symbols; the rest are reported once for the song
+function validatePins(pins: PinnedChord[], violations: ConstraintViolation[]): PinnedChord[] {
+  return pins.filter(pin => {
+    if (parseChordSymbol(pin.chord).ok) return true;
+    violations.push({ constraint: 'pinnedChords', message: `"${pin.chord}" is not a chord symbol, so it was not pinned.` });
+    return false;
+  });
+}
+
+// Pinned chords spelled and labelled in a section's key
+function parsePins(pins: PinnedChord[], key: Key): { pin: PinnedChord; chord: Chord }[] {
+  return pins.flatMap(pin => {
+    const parsed = parseChordSymbol(pin.chord, { keyContext: getKeyId(key) });
+    return parsed.ok ? [{ pin, chord: labelChord(parsed.chord, key) }] : [];
+  });
+}
+
+// The last two chords of a section before a pivot modulation are the pivot
+// and the new key's dominant; they stay where the key change put them
+function lockPivots(song: Song, locks: Set<number>[]): void {
+  song.sections.forEach((section, sectionIndex) => {
+    const previous = song.sections[sectionIndex - 1];
+    if (!section.modulation?.pivot || !previous) return;
+    const last = previous.chords.length - 1;
+    locks[sectionIndex - 1].add(last - 1).add(last);
+  });
+}
+
+function applyPins(
+  chords: Chord[],
+  locked: Set<number>,
+  sectionIndex: number,
+  song: Song,
+  pins: { pin: PinnedChord; chord: Chord }[],
+  violations: ConstraintViolation[]
+): Chord[] {
+  const section = song.sections[sectionIndex];
+  const result = [...chords];
+
+  for (const { pin, chord } of pins) {
+    if (pin.sectionType && pin.sectionType !== section.type) continue;
+    if (pin.position < 0 || pin.position >= result.length) {
+      violations.push({
+        constraint: 'pinnedChords',
+        message: `${section.name} has ${result.length} chords, so ${pin.chord} could not be pinned at position ${pin.position + 1}.`,
+        sectionIndex,
+      });
+      continue;
+    }
+    if (locked.has(pin.position)) {
+      violations.push({
+        constraint: 'pinnedChords',
+        message: `Position ${pin.position + 1} of ${section.name} leads into the key change, so ${pin.chord} could not be pinned there.`,
+        sectionIndex,
+      });
+      continue;
+    }
+    result[pin.position] = chord;
+    locked.add(pin.position);
+  }
+
+  return result;
+}
+
+function applyCadence(
+  chords: Chord[],
+  locked: Set<number>,
+  cadence: CadenceType,
+  key: Key,
+  vocabulary: Vocabulary
+): Chord[] {
+  if (chords.length < 2) return chords;
+  const last = chords.length - 1;
+  if (analyzeProgression(chords, key).chords[last].cadence === cadence) return chords;
+
+  const templates = CADENCE_TEMPLATES[cadence][isMinorMode(key.mode) ? 'minor' : 'major'];
+  for (const template of templates) {
+    const pair = template.map(numeral => resolveNumeral(numeral, key));
+    if (pair.some(chord => !chord || getBrokenConstraint(chord, vocabulary))) continue;
+
+    // Locked chords must already match the template
+    const positions = [last - 1, last];
+    const fits = positions.every((position, i) => !locked.has(position) || chordId(chords[position]) === chordId(pair[i]!));
+    if (!fits) continue;
+
+    const result = [...chords];
+    positions.forEach((position, i) => {
+      result[position] = pair[i]!;
+      locked.add(position);
+    });
+    return result;
+  }
+
+  return chords;
+}
+
+function applyVocabulary(chords: Chord[], locked: Set<number>, key: Key, vocabulary: Vocabulary): Chord[] {
+  return chords.map((chord, i) => {
+    if (locked.has(i) || !getBrokenConstraint(chord, vocabulary)) return chord;
+    return findReplacement(chord, key, vocabulary) ?? chord;
+  });
+}
+
+// ============================================================================
+// SONG PASSES
+// ============================================================================
+
+// Merge the rarest unlocked chords into the remaining ones until the limit
+// holds; each section picks the closest remaining chord in its own key,
+// preferring ones that break no constraint (a locked pivot may)
+function limitDistinctChords(
+  sections: Chord[][],
+  locks: Set<number>[],
+  limit: number,
+  keys: Key[],
+  vocabulary: Vocabulary
+): Chord[][] {
+  const result = sections.map(chords => [...chords]);
+
+  for (;;) {
+    const counts = new Map<string, { chord: Chord; count: number; locked: boolean }>();
+    result.forEach((chords, s) => chords.forEach((chord, i) => {
+      const entry = counts.get(chordId(chord)) ?? { chord, count: 0, locked: false };
+      entry.count += 1;
+      entry.locked ||= locks[s].has(i);
+      counts.set(chordId(chord), entry);
+    }));
+    if (counts.size <= limit) return result;
+
+    const removable = [...counts.values()].filter(entry => !entry.locked).sort((a, b) => a.count - b.count);
+    if (removable.length === 0) return result;
+
+    const rarest = removable[0].chord;
+    const remaining = [...counts.values()].filter(entry => entry.chord !== rarest).map(entry => entry.chord);
+    const playable = remaining.filter(chord => !getBrokenConstraint(chord, vocabulary));
+    const keep = playable.length > 0 ? playable : remaining;
+    result.forEach((chords, s) => {
+      const key = keys[s];
+      const replacement = labelChord(keep.reduce((a, b) => (similarity(b, rarest, key) > similarity(a, rarest, key) ? b : a)), key);
+      chords.forEach((chord, i) => {
+        if (chordId(chord) === chordId(rarest)) chords[i] = replacement;
+      });
+    });
+  }
+}
+
+// Report every constraint the final song still breaks
+function checkSong(
+  song: Song,
+  constraints: GenerationConstraints,
+  vocabulary: Vocabulary,
+  violations: ConstraintViolation[]
+): void {
+  song.sections.forEach((section, sectionIndex) => {
+    const reported = new Set<string>();
+    section.chords.forEach(chord => {
+      const broken = getBrokenConstraint(chord, vocabulary);
+      if (!broken || reported.has(chord.name)) return;
+      reported.add(chord.name);
+      violations.push({
+        constraint: broken,
+        message: `${chord.name} in ${section.name} ${describeBrokenConstraint(broken, constraints)} and had no suitable replacement.`,
+        sectionIndex,
+      });
+    });
+  });
+
+  if (constraints.maxDistinctChords !== undefined) {
+    const distinct = new Set(song.sections.flatMap(section => section.chords.map(chordId))).size;
+    if (distinct > constraints.maxDistinctChords) {
+      violations.push({
+        constraint: 'maxDistinctChords',
+        message: `The song uses ${distinct} different chords; merging more would move pinned or cadence chords (limit ${constraints.maxDistinctChords}).`,
+      });
+    }
+  }
+
+  const lastIndex = song.sections.length - 1;
+  const lastSection = song.sections[lastIndex];
+  if (constraints.endingCadence && lastSection) {
+    const lastKey = getSectionKey(song, lastIndex);
+    const analysis = analyzeProgression(lastSection.chords, lastKey);
+    if (analysis.chords[analysis.chords.length - 1]?.cadence !== constraints.endingCadence) {
+      violations.push({
+        constraint: 'endingCadence',
+        message: `${lastSection.name} could not end with a ${CADENCE_NAMES[constraints.endingCadence].toLowerCase()} cadence in ${formatKeyName(lastKey)} within the other constraints.`,
+        sectionIndex: lastIndex,
+      });
+    }
+  }
+}
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+/**
+ * Make a song honour generation constraints as far as possible.
+ * Pivot chords into a key change are kept as they are. Pinned chords and the
+ * ending cadence are placed first and locked; other chords outside the
+ * vocabulary are swapped for the closest allowed chord (labelled in their
+ * section's key); then the rarest chords are merged until the distinct-chord
+ * limit holds.
+ */
+export function applySongConstraints(song: Song, constraints: GenerationConstraints): ConstrainedSong {
+  const violations: ConstraintViolation[] = [];
+  const vocabulary = buildVocabulary(constraints, violations);
+  const pins = validatePins(constraints.pinnedChords ?? [], violations);
+  const keys = song.sections.map((_, sectionIndex) => getSectionKey(song, sectionIndex));
+  const locks = song.sections.map(() => new Set<number>());
+  const lastIndex = song.sections.length - 1;
+  lockPivots(song, locks);
+
+  let sections = song.sections.map((section, sectionIndex) => {
+    const locked = locks[sectionIndex];
+    const sectionKey = keys[sectionIndex];
+    let chords = applyPins(section.chords, locked, sectionIndex, song, parsePins(pins, sectionKey), violations);
+    if (constraints.endingCadence && sectionIndex === lastIndex) {
+      chords = applyCadence(chords, locked, constraints.endingCadence, sectionKey, vocabulary);
+    }
+    return applyVocabulary(chords, locked, sectionKey, vocabulary);
+  });
+
+  if (constraints.maxDistinctChords !== undefined && constraints.maxDistinctChords > 0) {
+    sections = limitDistinctChords(sections, locks, constraints.maxDistinctChords, keys, vocabulary);
+  }
+
+  const constrained: Song = {
+    ...song,
+    sections: song.sections.map((section, i) => ({ ...section, chords: sections[i] })),
+  };
+  checkSong(constrained, constraints, vocabulary, violations);
+
+  return { song: constrained, violations };
+}
+
+/**
+ * Closing chord pair for a cadence in a key, or undefined when the key family
+ * has none (the Phrygian half cadence only exists in minor)
+ */
+export function getCadenceChords(cadence: CadenceType, key: Key): [Chord, Chord] | undefined {
+  for (const template of CADENCE_TEMPLATES[cadence][isMinorMode(key.mode) ? 'minor' : 'major']) {
+    const [first, second] = template.map(numeral => resolveNumeral(numeral, key));
+    if (!first || !second) continue;
+    // A deceptive cadence lands on whatever the key's own sixth degree holds
+    // (VI in minor, but vi° in dorian and bVI in phrygian)
+    return [first, cadence === 'deceptive' ? labelChord(getDiatonicChords(key)[5], key) : second];
+  }
+  return undefined;
+}
+
+/**
+ * Apply constraints (if any) and record what could not be satisfied on the song
+ */
+export function constrainSong(song: Song, constraints?: GenerationConstraints): Song {
+  if (!constraints) return song;
+  const { song: constrained, violations } = applySongConstraints(song, constraints);
+  return { ...constrained, unmetConstraints: violations };
+}
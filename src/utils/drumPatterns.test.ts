@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { chooseGroove, planSectionDrums } from './drumPatterns';
+import type { DrumVoice } from './drumPatterns';
+import { chordFromSymbol } from './chordSymbols';
+import type { MoodAnalysis, SectionType, Song, SongSection } from '../types/music';
+
+const section = (type: SectionType, bars = 2): SongSection => ({
+  id: `${type}-${bars}`,
+  type,
+  name: type,
+  chords: Array.from({ length: bars }, () => chordFromSymbol('C')),
+});
+
+const song = (types: SectionType[], mood: Partial<MoodAnalysis> = {}): Song => ({
+  id: 'song',
+  key: { tonic: 'C', mode: 'major' },
+  tempo: 100,
+  sections: types.map(type => section(type)),
+  moodAnalysis: { energy: 'medium', ...mood } as MoodAnalysis,
+});
+
+const beatsOf = (hits: { voice: DrumVoice; beat: number }[], voice: DrumVoice) =>
+  hits.filter(hit => hit.voice === voice).map(hit => hit.beat);
+
+describe('chooseGroove', () => {
+  it('follows the strumming style and meter', () => {
+    expect(chooseGroove(song(['verse']))).toBe('backbeat');
+    expect(chooseGroove(song(['verse'], { strummingStyle: 'reggae' }))).toBe('one-drop');
+    expect(chooseGroove(song(['verse'], { suggestedTimeSignature: { beats: 3, value: 4 } }))).toBe('waltz');
+  });
+});
+
+describe('planSectionDrums', () => {
+  it('plays a backbeat and fills into the chorus', () => {
+    const drums = planSectionDrums(song(['verse', 'chorus', 'outro']), 0);
+    expect(drums.hasFill).toBe(true);
+    expect(beatsOf(drums.hits, 'snare').filter(beat => beat < 4)).toEqual([1, 3]);
+    expect(beatsOf(drums.hits, 'kick')).toEqual([0, 2, 4, 6]);
+    expect(beatsOf(drums.hits, 'tom').every(beat => beat >= 7)).toBe(true);
+  });
+
+  it('fills inside a short last bar', () => {
+    const drums = song(['verse', 'chorus']);
+    drums.sections[0] = { ...section('verse', 3), durations: [4, 4, 2] };
+    const { hits } = planSectionDrums(drums, 0);
+    expect(beatsOf(hits, 'tom').length).toBeGreaterThan(0);
+    expect(hits.every(hit => hit.beat < 10)).toBe(true);
+    expect(beatsOf(hits, 'kick').at(-1)).toBe(8);
+  });
+
+  it('drops bridges to half-time and ends the song on a crash', () => {
+    const drums = song(['verse', 'bridge', 'outro']);
+    const bridge = planSectionDrums(drums, 1);
+    expect(bridge.groove).toBe('half-time');
+    expect(beatsOf(bridge.hits, 'snare')).toEqual([2, 6]);
+    expect(planSectionDrums(drums, 2).hits.filter(hit => hit.beat >= 4).map(hit => hit.voice).sort())
+      .toEqual(['crash', 'kick']);
+  });
+});
@@ -0,0 +1,216 @@
+import type { MoodAnalysis, SectionType, Song } from '../types/music';
+import { getSectionBeats, getSongBeatsPerBar } from './harmonicRhythm';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type DrumVoice = 'kick' | 'snare' | 'hihat' | 'tom' | 'crash';
+
+export type DrumGrooveId =
+  | 'backbeat'       // Kick on 1 and 3, snare on 2 and 4
+  | 'half-time'      // Snare on 3 only
+  | 'four-on-floor'  // Kick on every beat
+  | 'one-drop'       // Reggae: kick and snare together on 3
+  | 'swing'          // Jazz ride pattern with a light backbeat
+  | 'bossa'          // Latin kick with a clave cross-stick
+  | 'brushes'        // Soft cross-stick on 3 for quiet songs
+  | 'waltz'          // Kick on 1, snare on 2 and 3
+  | 'six-eight'      // Compound two: kick on 1, snare on 4 (of six)
+  | 'pulse';         // Other meters: kick on 1, hats on every beat
+
+/** One drum stroke; beats are quarter notes from the start of the section */
+export interface DrumHit {
+  voice: DrumVoice;
+  beat: number;
+  velocity: number;     // 0-1
+}
+
+export interface SectionDrums {
+  groove: DrumGrooveId;
+  hits: DrumHit[];
+  hasFill: boolean;     // The last bar fills into the next section
+}
+
+interface GrooveBar {
+  kick: number[];
+  snare: number[];
+  hihat: number[];      // Written in eighths; quiet sections keep only the beats
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const DRUM_GROOVE_NAMES: Record<DrumGrooveId, string> = {
+  'backbeat': 'Backbeat',
+  'half-time': 'Half-time',
+  'four-on-floor': 'Four on the floor',
+  'one-drop': 'One drop',
+  'swing': 'Swing',
+  'bossa': 'Bossa nova',
+  'brushes': 'Brushes',
+  'waltz': 'Waltz',
+  'six-eight': '6/8',
+  'pulse': 'Pulse',
+};
+
+const SWUNG = 2 / 3;
+
+// Fixed-meter grooves; 'pulse' is built from the bar length
+const GROOVE_BARS: Record<Exclude<DrumGrooveId, 'pulse'>, GrooveBar> = {
+  'backbeat': { kick: [0, 2], snare: [1, 3], hihat: [0, 0.5, 1, 1.5, 2, 2.5, 3, 3.5] },
+  'half-time': { kick: [0, 1.5], snare: [2], hihat: [0, 1, 2, 3] },
+  'four-on-floor': { kick: [0, 1, 2, 3], snare: [1, 3], hihat: [0.5, 1.5, 2.5, 3.5] },
+  'one-drop': { kick: [2], snare: [2], hihat: [0, 0.5, 1, 1.5, 2, 2.5, 3, 3.5] },
+  'swing': { kick: [0, 2], snare: [1, 3], hihat: [0, 1, 1 + SWUNG, 2, 3, 3 + SWUNG] },
+  'bossa': { kick: [0, 1.5, 2, 3.5], snare: [0, 1.5, 3], hihat: [0, 0.5, 1, 1.5, 2, 2.5, 3, 3.5] },
+  'brushes': { kick: [0], snare: [2], hihat: [0, 1, 2, 3] },
+  'waltz': { kick: [0], snare: [1, 2], hihat: [0, 1, 2] },
+  'six-eight': { kick: [0], snare: [1.5], hihat: [0, 0.5, 1, 1.5, 2, 2.5] },
+};
+
+const BASE_VELOCITY: Record<MoodAnalysis['energy'], number> = { low: 0.55, medium: 0.75, high: 0.9 };
+
+const ENERGY_LEVELS: MoodAnalysis['energy'][] = ['low', 'medium', 'high'];
+
+// Sections that sit above or below the song's energy
+const SECTION_ENERGY_SHIFT: Partial<Record<SectionType, number>> = {
+  'intro': -1,
+  'outro': -1,
+  'breakdown': -1,
+  'chorus': 1,
+};
+
+// ============================================================================
+// GROOVE SELECTION
+// ============================================================================
+
+function hasGenre(song: Song, genres: string[]): boolean {
+  return song.rhythmGuidance?.primaryPattern.genres.some(genre => genres.includes(genre)) ?? false;
+}
+
+/**
+ * Main groove for a song, from its meter, strumming style and the genres
+ * of its strumming pattern
+ */
+export function chooseGroove(song: Song): DrumGrooveId {
+  const beatsPerBar = getSongBeatsPerBar(song);
+  const timeSignature = song.rhythmGuidance?.primaryPattern.timeSignature ?? song.moodAnalysis?.suggestedTimeSignature;
+  const style = song.moodAnalysis?.strummingStyle;
+  const energy = song.moodAnalysis?.energy ?? 'medium';
+
+  if (beatsPerBar === 3) return timeSignature?.value === 8 ? 'six-eight' : 'waltz';
+  if (beatsPerBar !== 4) return 'pulse';
+  if (style === 'reggae' || hasGenre(song, ['reggae', 'ska'])) return 'one-drop';
+  if (style === 'swing' || hasGenre(song, ['jazz', 'swing'])) return 'swing';
+  if (style === 'latin' || hasGenre(song, ['bossa-nova', 'latin'])) return 'bossa';
+  if (hasGenre(song, ['electronic', 'edm'])) return 'four-on-floor';
+  if (energy === 'low' && (style === 'fingerpicking' || style === 'arpeggiated')) return 'brushes';
+  return 'backbeat';
+}
+
+/**
+ * Groove for one section: bridges drop to half-time when the song's groove
+ * has a straight backbeat
+ */
+export function getSectionGroove(groove: DrumGrooveId, sectionType: SectionType): DrumGrooveId {
+  if (sectionType === 'bridge' && (groove === 'backbeat' || groove === 'four-on-floor')) return 'half-time';
+  return groove;
+}
+
+function grooveBar(groove: DrumGrooveId, beatsPerBar: number): GrooveBar {
+  if (groove !== 'pulse') return GROOVE_BARS[groove];
+  const beats = Array.from({ length: Math.ceil(beatsPerBar) }, (_, i) => i);
+  return { kick: [0], snare: beats.length > 1 ? [beats.length - 1] : [], hihat: beats };
+}
+
+// ============================================================================
+// SECTION PATTERNS
+// ============================================================================
+
+function shiftEnergy(energy: MoodAnalysis['energy'], shift: number): MoodAnalysis['energy'] {
+  const index = ENERGY_LEVELS.indexOf(energy) + shift;
+  return ENERGY_LEVELS[Math.max(0, Math.min(ENERGY_LEVELS.length - 1, index))];
+}
+
+// Snare run building into toms, in sixteenths for high energy
+function fillHits(start: number, length: number, energy: MoodAnalysis['energy'], velocity: number): DrumHit[] {
+  const step = energy === 'high' ? 0.25 : 0.5;
+  const hits: DrumHit[] = [];
+  for (let beat = start; beat < start + length; beat += step) {
+    const progress = (beat - start) / length;
+    hits.push({
+      voice: progress >= 0.5 ? 'tom' : 'snare',
+      beat,
+      velocity: Math.min(1, velocity * (0.7 + progress * 0.4)),
+    });
+  }
+  hits.push({ voice: 'kick', beat: start, velocity });
+  return hits;
+}
+
+/**
+ * Drum part for one section. The groove comes from the song, energy (the
+ * section's own on a mood arc) moves up for choruses and down for intros,
+ * outros and breakdowns, choruses open on a crash, breakdowns lose the snare,
+ * the bar before a chorus fills into it, and the song ends on a single crash.
+ */
+export function planSectionDrums(song: Song, sectionIndex: number): SectionDrums {
+  const section = song.sections[sectionIndex];
+  const beatsPerBar = getSongBeatsPerBar(song);
+  const groove = getSectionGroove(chooseGroove(song), section.type);
+  const songEnergy = section.moodAnalysis?.energy ?? song.moodAnalysis?.energy ?? 'medium';
+  const energy = shiftEnergy(songEnergy, SECTION_ENERGY_SHIFT[section.type] ?? 0);
+  const velocity = BASE_VELOCITY[energy];
+  const bar = grooveBar(groove, beatsPerBar);
+  const fillLength = energy === 'low' ? 1 : beatsPerBar / 2;   // Last half bar, or a beat when quiet
+
+  const pickup = Math.max(0, section.pickupBeats ?? 0);
+  const totalBeats = getSectionBeats(section, beatsPerBar);
+  const next = song.sections[sectionIndex + 1];
+  const isLastSection = !next;
+  const hasFill = !!next && next.type === 'chorus' && section.type !== 'chorus' && totalBeats - pickup >= beatsPerBar;
+
+  const hits: DrumHit[] = [];
+  for (let barStart = pickup; barStart < totalBeats; barStart += beatsPerBar) {
+    const isLastBar = barStart + beatsPerBar >= totalBeats;
+
+    if (isLastBar && isLastSection) {
+      hits.push({ voice: 'kick', beat: barStart, velocity }, { voice: 'crash', beat: barStart, velocity });
+      break;
+    }
+
+    // The fill ends with the section, even when its last bar is short
+    const barEnd = Math.min(barStart + beatsPerBar, totalBeats);
+    const fillStart = isLastBar && hasFill ? Math.max(barStart, barEnd - fillLength) : Infinity;
+    const inBar = (beat: number) => barStart + beat < Math.min(totalBeats, fillStart);
+
+    for (const beat of bar.kick.filter(inBar)) {
+      hits.push({ voice: 'kick', beat: barStart + beat, velocity });
+    }
+    if (section.type !== 'breakdown') {
+      for (const beat of bar.snare.filter(inBar)) {
+        hits.push({ voice: 'snare', beat: barStart + beat, velocity: velocity * (groove === 'bossa' ? 0.5 : 1) });
+      }
+    }
+    for (const beat of bar.hihat.filter(inBar)) {
+      if (energy === 'low' && !Number.isInteger(beat)) continue;
+      // Accent the beats, lighter offbeats
+      hits.push({ voice: 'hihat', beat: barStart + beat, velocity: velocity * (Number.isInteger(beat) ? 0.6 : 0.4) });
+    }
+    if (energy === 'high' && groove === 'backbeat' && inBar(2.5)) {
+      hits.push({ voice: 'kick', beat: barStart + 2.5, velocity: velocity * 0.8 });
+    }
+    if (fillStart !== Infinity) {
+      hits.push(...fillHits(fillStart, barEnd - fillStart, energy, velocity));
+    }
+  }
+
+  if (section.type === 'chorus' && hits.length > 0) {
+    hits.push({ voice: 'crash', beat: pickup, velocity });
+  }
+
+  hits.sort((a, b) => a.beat - b.beat);
+  return { groove, hits, hasFill };
+}
@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import { analyzeChord, analyzeProgression, annotateChords } from './harmonicAnalysis';
+import { chordFromSymbol } from './chordSymbols';
+import { chords } from '../test/fixtures';
+import type { Key } from '../types/music';
+
+const C_MAJOR: Key = { tonic: 'C', mode: 'major' };
+const A_MINOR: Key = { tonic: 'A', mode: 'minor' };
+
+const analyze = (symbols: string[], key: Key) => analyzeProgression(chords(symbols), key);
+
+describe('analyzeChord', () => {
+  it('labels diatonic chords with numeral and function', () => {
+    expect(analyzeChord(chordFromSymbol('Dm7'), C_MAJOR)).toMatchObject({
+      romanNumeral: 'ii7', function: 'predominant', isDiatonic: true,
+    });
+    expect(analyzeChord(chordFromSymbol('G/B'), C_MAJOR)).toMatchObject({ romanNumeral: 'V6', function: 'dominant' });
+  });
+
+  it('treats the raised V and vii° as diatonic in minor', () => {
+    expect(analyzeChord(chordFromSymbol('E7'), A_MINOR)).toMatchObject({
+      romanNumeral: 'V7', function: 'dominant', isDiatonic: true,
+    });
+    expect(analyzeChord(chordFromSymbol('G#dim'), A_MINOR)).toMatchObject({ romanNumeral: 'vii°', function: 'dominant' });
+  });
+
+  it('finds the source of borrowed chords', () => {
+    expect(analyzeChord(chordFromSymbol('Fm'), C_MAJOR)).toMatchObject({
+      romanNumeral: 'iv', function: 'borrowed', borrowedFrom: 'minor',
+    });
+    expect(analyzeChord(chordFromSymbol('Bb'), C_MAJOR)).toMatchObject({ romanNumeral: 'bVII', borrowedFrom: 'minor' });
+    expect(analyzeChord(chordFromSymbol('Bb'), A_MINOR)).toMatchObject({ romanNumeral: 'bII', borrowedFrom: 'phrygian' });
+  });
+
+  it('labels secondary dominants and leading-tone chords', () => {
+    expect(analyzeChord(chordFromSymbol('E7'), C_MAJOR)).toMatchObject({
+      romanNumeral: 'V7/vi', secondaryTarget: 'vi', function: 'dominant',
+    });
+    expect(analyzeChord(chordFromSymbol('F#dim7'), C_MAJOR)).toMatchObject({ romanNumeral: 'vii°7/V' });
+    expect(analyzeChord(chordFromSymbol('D'), C_MAJOR, chordFromSymbol('G'))).toMatchObject({ romanNumeral: 'V/V' });
+    // An unresolved major triad stays a chromatic chord
+    expect(analyzeChord(chordFromSymbol('D'), C_MAJOR, chordFromSymbol('C')).secondaryTarget).toBeUndefined();
+  });
+});
+
+describe('analyzeProgression', () => {
+  it('detects closing cadences', () => {
+    expect(analyze(['F', 'G7', 'C'], C_MAJOR).cadences).toEqual([{ index: 2, type: 'authentic' }]);
+    expect(analyze(['C', 'F', 'C'], C_MAJOR).cadences[0].type).toBe('plagal');
+    expect(analyze(['C', 'Am', 'F', 'G'], C_MAJOR).cadences[0].type).toBe('half');
+    expect(analyze(['C', 'F', 'G7', 'Am'], C_MAJOR).cadences[0].type).toBe('deceptive');
+    expect(analyze(['Am', 'Dm/F', 'E'], A_MINOR).cadences[0].type).toBe('phrygian-half');
+    expect(analyze(['C', 'G', 'Am', 'F'], C_MAJOR).cadences).toEqual([]);
+  });
+
+  it('finds tonicizations with their predominant', () => {
+    const analysis = analyze(['C', 'Em7', 'A7', 'Dm', 'G7', 'C'], C_MAJOR);
+    expect(analysis.tonicizations).toEqual([
+      { startIndex: 1, endIndex: 3, key: { tonic: 'D', mode: 'minor' }, target: 'ii' },
+    ]);
+    expect(analysis.chords[2].tonicizedKey).toEqual({ tonic: 'D', mode: 'minor' });
+    expect(analysis.chords[4].tonicizedKey).toBeUndefined();
+    expect(analysis.chords[5].cadence).toBe('authentic');
+  });
+
+  it('tonicizes each target of chained secondary dominants', () => {
+    const analysis = analyze(['C', 'A7', 'D7', 'G7', 'C'], C_MAJOR);
+    expect(analysis.chords.map(chord => chord.romanNumeral)).toEqual(['I', 'V7/ii', 'V7/V', 'V7', 'I']);
+    expect(analysis.tonicizations.map(t => t.target)).toEqual(['ii', 'V']);
+  });
+});
+
+describe('annotateChords', () => {
+  it('fills missing labels and keeps existing ones', () => {
+    const [first, second] = annotateChords(
+      [chordFromSymbol('Am'), { ...chordFromSymbol('F'), romanNumeral: 'IV', function: 'subdominant' }],
+      C_MAJOR
+    );
+    expect(first).toMatchObject({ romanNumeral: 'vi', function: 'tonic-substitute' });
+    expect(second).toMatchObject({ romanNumeral: 'IV', function: 'subdominant' });
+  });
+});
@@ -0,0 +1,258 @@
+import type { CadenceType, Chord, ChordFunction, Key, Mode, RomanNumeral, Song } from '../types/music';
+import {
+  MODE_CHORD_QUALITIES,
+  MODE_ROMAN_NUMERALS,
+  getChordFunction,
+  getInterval,
+  getScaleDegree,
+  getScaleNotes,
+  getTriadFamily,
+  isDominantQuality,
+  isMinorMode,
+  transposeNote,
+} from './musicTheory';
+import { romanNumeralForChord } from './romanNumerals';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface ChordAnalysis {
+  chord: Chord;
+  romanNumeral: RomanNumeral;
+  function: ChordFunction;
+  isDiatonic: boolean;
+  borrowedFrom?: Mode;              // Parallel mode a chromatic chord is taken from
+  secondaryTarget?: RomanNumeral;   // Target of a secondary chord ("V" for V7/V)
+  cadence?: CadenceType;            // Cadence completed on this chord
+  tonicizedKey?: Key;               // Key briefly tonicized around this chord
+}
+
+export interface Tonicization {
+  startIndex: number;
+  endIndex: number;                 // Inclusive; the chord being tonicized
+  key: Key;
+  target: RomanNumeral;
+}
+
+export interface ProgressionAnalysis {
+  key: Key;
+  chords: ChordAnalysis[];
+  cadences: { index: number; type: CadenceType }[];
+  tonicizations: Tonicization[];
+}
+
+// ============================================================================
+// DIATONIC CONTEXT
+// ============================================================================
+
+// Parallel modes checked for borrowed chords, most common source first
+const BORROWING_ORDER: Mode[] = [
+  'major', 'minor', 'mixolydian', 'dorian', 'harmonic-minor', 'melodic-minor', 'phrygian', 'lydian', 'locrian',
+];
+
+const DOMINANT_INTERVAL = 7;
+const SUBDOMINANT_INTERVAL = 5;
+const LEADING_TONE_INTERVAL = 11;
+
+function fitsScale(chord: Chord, key: Key): boolean {
+  const scaleNotes = getScaleNotes(key);
+  return chord.notes.every(note => scaleNotes.includes(note));
+}
+
+/**
+ * Find the scale a chord is diatonic to: the key itself, or harmonic minor
+ * for a minor key's raised V and vii° (E7 and G#dim in A minor)
+ */
+function getDiatonicScale(chord: Chord, key: Key): Key | null {
+  if (fitsScale(chord, key)) return key;
+
+  if (isMinorMode(key.mode)) {
+    const harmonicMinor: Key = { tonic: key.tonic, mode: 'harmonic-minor' };
+    const interval = getInterval(key.tonic, chord.root);
+    const isRaisedDominant = interval === DOMINANT_INTERVAL || interval === LEADING_TONE_INTERVAL;
+    if (isRaisedDominant && fitsScale(chord, harmonicMinor)) return harmonicMinor;
+  }
+
+  return null;
+}
+
+/**
+ * Find the secondary target of a chromatic dominant or leading-tone chord
+ * Dominant sevenths and diminished chords imply their target; plain major
+ * triads only count when they actually resolve to it
+ */
+function getSecondaryTarget(chord: Chord, next: Chord | undefined, key: Key): { degree: number; key: Key } | null {
+  const family = getTriadFamily(chord.quality);
+  let targetRoot;
+  if (family === 'major') {
+    targetRoot = transposeNote(chord.root, SUBDOMINANT_INTERVAL);
+    if (!isDominantQuality(chord.quality) && next?.root !== targetRoot) return null;
+  } else if (family === 'diminished') {
+    targetRoot = transposeNote(chord.root, 1);
+  } else {
+    return null;
+  }
+
+  // The target must be a diatonic, non-tonic, consonant triad
+  const degree = getScaleDegree(targetRoot, key);
+  if (degree <= 0) return null;
+  const targetFamily = getTriadFamily(MODE_CHORD_QUALITIES[key.mode][degree]);
+  if (targetFamily !== 'major' && targetFamily !== 'minor') return null;
+
+  return { degree, key: { tonic: targetRoot, mode: targetFamily === 'minor' ? 'minor' : 'major' } };
+}
+
+/**
+ * Label a single chord in a key, using the following chord to recognize
+ * secondary dominants that resolve
+ */
+export function analyzeChord(chord: Chord, key: Key, next?: Chord): ChordAnalysis {
+  const diatonicScale = getDiatonicScale(chord, key);
+  if (diatonicScale) {
+    return {
+      chord,
+      romanNumeral: romanNumeralForChord(chord, key),
+      function: getChordFunction(getScaleDegree(chord.root, diatonicScale), diatonicScale.mode),
+      isDiatonic: true,
+    };
+  }
+
+  const secondary = getSecondaryTarget(chord, next, key);
+  if (secondary) {
+    const target = MODE_ROMAN_NUMERALS[key.mode][secondary.degree];
+    return {
+      chord,
+      romanNumeral: `${romanNumeralForChord(chord, secondary.key)}/${target}`,
+      function: 'dominant',
+      isDiatonic: false,
+      secondaryTarget: target,
+    };
+  }
+
+  const analysis: ChordAnalysis = {
+    chord,
+    romanNumeral: romanNumeralForChord(chord, key),
+    function: 'borrowed',
+    isDiatonic: false,
+  };
+  const source = BORROWING_ORDER.find(mode => mode !== key.mode && fitsScale(chord, { tonic: key.tonic, mode }));
+  if (source) analysis.borrowedFrom = source;
+
+  return analysis;
+}
+
+// ============================================================================
+// CADENCES
+// ============================================================================
+
+/**
+ * Classify the cadence formed by the last two chords of a phrase
+ */
+export function detectCadence(previous: ChordAnalysis | undefined, last: ChordAnalysis, key: Key): CadenceType | undefined {
+  if (last.secondaryTarget) return undefined;
+
+  const lastInterval = getInterval(key.tonic, last.chord.root);
+  const lastFamily = getTriadFamily(last.chord.quality);
+  const previousInterval = previous && !previous.secondaryTarget ? getInterval(key.tonic, previous.chord.root) : -1;
+  const previousFamily = previous ? getTriadFamily(previous.chord.quality) : 'other';
+  const previousIsDominant =
+    (previousInterval === DOMINANT_INTERVAL && previousFamily === 'major') ||
+    (previousInterval === LEADING_TONE_INTERVAL && previousFamily === 'diminished');
+
+  if (lastInterval === 0) {
+    if (previousIsDominant) return 'authentic';
+    if (previousInterval === SUBDOMINANT_INTERVAL) return 'plagal';
+    return undefined;
+  }
+
+  if (lastInterval === DOMINANT_INTERVAL && lastFamily === 'major') {
+    // iv6 -> V in minor: the bass falls a half step onto the dominant
+    const previousBass = previous?.chord.bassNote ?? previous?.chord.root;
+    const isPhrygian = isMinorMode(key.mode) && previousInterval === SUBDOMINANT_INTERVAL &&
+      previousBass !== undefined && getInterval(key.tonic, previousBass) === 8;
+    return isPhrygian ? 'phrygian-half' : 'half';
+  }
+
+  if (previousIsDominant && last.isDiatonic && getScaleDegree(last.chord.root, key) === 5) {
+    return 'deceptive';
+  }
+
+  return undefined;
+}
+
+// ============================================================================
+// PROGRESSION ANALYSIS
+// ============================================================================
+
+/**
+ * Analyze a chord list in a key: numerals, functions, borrowed sources,
+ * secondary targets, the closing cadence and tonicizations
+ */
+export function analyzeProgression(chords: Chord[], key: Key): ProgressionAnalysis {
+  const analyses = chords.map((chord, i) => analyzeChord(chord, key, chords[i + 1]));
+  const cadences: ProgressionAnalysis['cadences'] = [];
+  const tonicizations: Tonicization[] = [];
+
+  // The closing pair of the phrase forms its cadence
+  const lastIndex = analyses.length - 1;
+  if (lastIndex >= 0) {
+    const cadence = detectCadence(analyses[lastIndex - 1], analyses[lastIndex], key);
+    if (cadence) {
+      analyses[lastIndex].cadence = cadence;
+      cadences.push({ index: lastIndex, type: cadence });
+    }
+  }
+
+  // A secondary chord that resolves tonicizes its target, together with
+  // its own predominant (Em7 A7 Dm tonicizes D minor in C)
+  analyses.forEach((analysis, i) => {
+    const next = analyses[i + 1];
+    if (!analysis.secondaryTarget || !next) return;
+    const targetKey: Key = {
+      tonic: transposeNote(analysis.chord.root, getTriadFamily(analysis.chord.quality) === 'diminished' ? 1 : SUBDOMINANT_INTERVAL),
+      mode: getTriadFamily(next.chord.quality) === 'minor' ? 'minor' : 'major',
+    };
+    if (next.chord.root !== targetKey.tonic) return;
+
+    const previous = analyses[i - 1];
+    const hasPredominant = previous && !previous.secondaryTarget &&
+      previous.chord.root === transposeNote(analysis.chord.root, DOMINANT_INTERVAL);
+    const startIndex = hasPredominant ? i - 1 : i;
+
+    const last = tonicizations[tonicizations.length - 1];
+    if (last && last.endIndex >= startIndex && last.key.tonic === targetKey.tonic) {
+      last.endIndex = i + 1;
+    } else {
+      tonicizations.push({ startIndex, endIndex: i + 1, key: targetKey, target: analysis.secondaryTarget });
+    }
+  });
+
+  for (const tonicization of tonicizations) {
+    for (let i = tonicization.startIndex; i <= tonicization.endIndex; i++) {
+      analyses[i].tonicizedKey = tonicization.key;
+    }
+  }
+
+  return { key, chords: analyses, cadences, tonicizations };
+}
+
+/**
+ * Analyze every section of a song, one phrase per section
+ * Each section is read in its own key unless a key is given for all of them
+ */
+export function analyzeSong(song: Song, key?: Key): ProgressionAnalysis[] {
+  return song.sections.map(section => analyzeProgression(section.chords, key ?? section.key ?? song.key));
+}
+
+/**
+ * Fill in missing roman numerals and functions from the analysis
+ * Labels that are already present (e.g. from a generator) are kept
+ */
+export function annotateChords(chords: Chord[], key: Key): Chord[] {
+  return analyzeProgression(chords, key).chords.map(({ chord, romanNumeral, function: chordFunction }) => ({
+    ...chord,
+    romanNumeral: chord.romanNumeral ?? romanNumeral,
+    function: chord.function ?? chordFunction,
+  }));
+}
@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getBeatsPerBar,
+  getChordDurations,
+  countSectionBars,
+  fitChordsToBars,
+  getSongEvents,
+  getSectionStartBeats,
+  layoutSectionBars,
+  planHarmonicRhythm,
+} from './harmonicRhythm';
+import { chordFromSymbol } from './chordSymbols';
+import type { Song, SongSection } from '../types/music';
+
+const section = (symbols: string[], durations?: number[], pickupBeats?: number): SongSection => ({
+  id: symbols.join('-'),
+  type: 'verse',
+  name: 'Verse',
+  chords: symbols.map(symbol => chordFromSymbol(symbol)),
+  durations,
+  pickupBeats,
+});
+
+describe('chord durations', () => {
+  it('measures bars in quarter notes', () => {
+    expect(getBeatsPerBar()).toBe(4);
+    expect(getBeatsPerBar({ beats: 3, value: 4 })).toBe(3);
+    expect(getBeatsPerBar({ beats: 6, value: 8 })).toBe(3);
+  });
+
+  it('falls back to one bar per chord', () => {
+    expect(getChordDurations(section(['C', 'G']), 4)).toEqual([4, 4]);
+    expect(getChordDurations(section(['C', 'G'], [2]), 3)).toEqual([3, 3]);
+    expect(countSectionBars(section(['C', 'G', 'Am', 'F'], [8, 4, 2, 2]), 4)).toBe(4);
+  });
+
+  it('places song chords on their start beats', () => {
+    const song: Song = {
+      id: 'song',
+      key: { tonic: 'C', mode: 'major' },
+      tempo: 100,
+      sections: [section(['C', 'G'], [8, 4]), section(['Am', 'F'], [2, 2])],
+    };
+    expect(getSongEvents(song).map(event => [event.sectionIndex, event.songBeat, event.beats]))
+      .toEqual([[0, 0, 8], [0, 8, 4], [1, 12, 2], [1, 14, 2]]);
+    expect(getSectionStartBeats(song)).toEqual([0, 12]);
+  });
+});
+
+describe('layoutSectionBars', () => {
+  it('splits held chords across bars and keeps pickups partial', () => {
+    const bars = layoutSectionBars(section(['G', 'C', 'Am', 'F', 'G'], [1, 8, 2, 2, 3], 1), 4);
+    expect(bars.map(bar => [bar.isPickup, bar.beats])).toEqual([[true, 1], [false, 4], [false, 4], [false, 4], [false, 4]]);
+    expect(bars[1].slots).toEqual([{ chordIndex: 1, beats: 4, isContinuation: false }]);
+    expect(bars[2].slots).toEqual([{ chordIndex: 1, beats: 4, isContinuation: true }]);
+    expect(bars[3].slots.map(slot => slot.chordIndex)).toEqual([2, 3]);
+    expect(bars[4].slots).toEqual([{ chordIndex: 4, beats: 3, isContinuation: false }]);
+  });
+});
+
+describe('planHarmonicRhythm', () => {
+  it('keeps one chord per bar for simple songs and halves pre-chorus chords', () => {
+    const options = { energy: 'medium', beatsPerBar: 4, random: () => 0 } as const;
+    expect(planHarmonicRhythm(4, { ...options, sectionType: 'verse', complexity: 'simple' })).toEqual([4, 4, 4, 4]);
+    expect(planHarmonicRhythm(4, { ...options, sectionType: 'pre-chorus', complexity: 'moderate' })).toEqual([2, 2, 2, 2]);
+    expect(planHarmonicRhythm(4, { ...options, sectionType: 'intro', complexity: 'moderate' })).toEqual([8, 8, 8, 8]);
+    expect(planHarmonicRhythm(4, { ...options, sectionType: 'chorus', complexity: 'moderate' })).toEqual([4, 4, 2, 2]);
+  });
+});
+
+describe('fitChordsToBars', () => {
+  it('fills the bars, holding phrase-ending chords longer', () => {
+    expect(fitChordsToBars(6, 8, 4)).toEqual([4, 4, 8, 4, 4, 8]);
+    expect(fitChordsToBars(10, 8, 4)).toEqual([2, 4, 2, 4, 4, 2, 4, 2, 4, 4]);
+    expect(fitChordsToBars(4, 2, 3)).toEqual([1, 2, 1, 2]);
+  });
+});
@@ -0,0 +1,227 @@
+import type { Chord, MoodAnalysis, SectionType, Song, SongSection, TimeSignature } from '../types/music';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** A chord placed in time; beats are quarter notes */
+export interface ChordEvent {
+  chord: Chord;
+  chordIndex: number;   // Position in the chord list
+  startBeat: number;    // From the start of the list (a pickup starts at 0)
+  beats: number;
+}
+
+export interface SongChordEvent extends ChordEvent {
+  sectionIndex: number;
+  songBeat: number;     // From the start of the song
+}
+
+// Part of a chord that sounds within one bar
+export interface BarSlot {
+  chordIndex: number;
+  beats: number;
+  isContinuation: boolean; // Held over from the previous bar
+}
+
+export interface SectionBar {
+  isPickup: boolean;
+  beats: number;        // Length of the bar (a pickup bar is partial)
+  slots: BarSlot[];
+}
+
+export interface HarmonicRhythmOptions {
+  sectionType: SectionType;
+  energy: MoodAnalysis['energy'];
+  complexity: 'simple' | 'moderate' | 'complex';
+  beatsPerBar: number;
+  random: () => number;
+}
+
+// ============================================================================
+// METER
+// ============================================================================
+
+export const DEFAULT_BEATS_PER_BAR = 4;
+
+/**
+ * Length of one bar in quarter-note beats (3/4 -> 3, 6/8 -> 3)
+ */
+export function getBeatsPerBar(timeSignature?: TimeSignature): number {
+  if (!timeSignature) return DEFAULT_BEATS_PER_BAR;
+  return (timeSignature.beats * 4) / timeSignature.value;
+}
+
+/**
+ * Bar length for a song, from its strumming pattern or mood analysis
+ */
+export function getSongBeatsPerBar(song: Song): number {
+  return getBeatsPerBar(
+    song.rhythmGuidance?.primaryPattern.timeSignature ?? song.moodAnalysis?.suggestedTimeSignature
+  );
+}
+
+// ============================================================================
+// CHORD EVENTS
+// ============================================================================
+
+/**
+ * Beats for each chord; a missing or mismatched duration list means one bar each
+ */
+export function getChordDurations(section: Pick<SongSection, 'chords' | 'durations'>, beatsPerBar: number): number[] {
+  const { chords, durations } = section;
+  if (!durations || durations.length !== chords.length) return chords.map(() => beatsPerBar);
+  return durations.map(beats => (beats > 0 ? beats : beatsPerBar));
+}
+
+/**
+ * Lay chords end to end in time
+ */
+export function getChordEvents(chords: Chord[], durations: number[]): ChordEvent[] {
+  let startBeat = 0;
+  return chords.map((chord, chordIndex) => {
+    const event = { chord, chordIndex, startBeat, beats: durations[chordIndex] };
+    startBeat += event.beats;
+    return event;
+  });
+}
+
+export function getSectionEvents(section: SongSection, beatsPerBar: number): ChordEvent[] {
+  return getChordEvents(section.chords, getChordDurations(section, beatsPerBar));
+}
+
+/**
+ * Total length of a section in beats, pickup included
+ */
+export function getSectionBeats(section: SongSection, beatsPerBar: number): number {
+  return getChordDurations(section, beatsPerBar).reduce((sum, beats) => sum + beats, 0);
+}
+
+/**
+ * Full bars in a section; the pickup does not count as a bar
+ */
+export function countSectionBars(section: SongSection, beatsPerBar: number): number {
+  const beats = getSectionBeats(section, beatsPerBar) - (section.pickupBeats ?? 0);
+  return Math.max(0, Math.ceil(beats / beatsPerBar));
+}
+
+/**
+ * Every chord in a song in playing order, with its start from the top
+ */
+export function getSongEvents(song: Song): SongChordEvent[] {
+  const beatsPerBar = getSongBeatsPerBar(song);
+  let sectionStart = 0;
+
+  return song.sections.flatMap((section, sectionIndex) => {
+    const events = getSectionEvents(section, beatsPerBar).map(event => ({
+      ...event,
+      sectionIndex,
+      songBeat: sectionStart + event.startBeat,
+    }));
+    sectionStart += getSectionBeats(section, beatsPerBar);
+    return events;
+  });
+}
+
+/**
+ * Beat from the top of the song at which each section starts
+ */
+export function getSectionStartBeats(song: Song): number[] {
+  const beatsPerBar = getSongBeatsPerBar(song);
+  let start = 0;
+  return song.sections.map(section => {
+    const sectionStart = start;
+    start += getSectionBeats(section, beatsPerBar);
+    return sectionStart;
+  });
+}
+
+// ============================================================================
+// LAYOUT
+// ============================================================================
+
+/**
+ * Split a section into bars for display. Chords that cross a bar line
+ * appear in both bars, marked as continued in the second.
+ */
+export function layoutSectionBars(section: SongSection, beatsPerBar: number): SectionBar[] {
+  const pickup = Math.max(0, section.pickupBeats ?? 0);
+  const bars: SectionBar[] = [];
+  let bar: SectionBar | null = null;
+  let position = -pickup; // Beats from the first downbeat
+
+  for (const event of getSectionEvents(section, beatsPerBar)) {
+    let remaining = event.beats;
+    let isContinuation = false;
+
+    while (remaining > 0) {
+      if (!bar) {
+        const isPickup = position < 0;
+        bar = { isPickup, beats: isPickup ? -position : beatsPerBar, slots: [] };
+        bars.push(bar);
+      }
+      const barEnd = position < 0 ? 0 : (Math.floor(position / beatsPerBar) + 1) * beatsPerBar;
+      const beats = Math.min(remaining, barEnd - position);
+
+      bar.slots.push({ chordIndex: event.chordIndex, beats, isContinuation });
+      position += beats;
+      remaining -= beats;
+      isContinuation = true;
+      if (position >= barEnd) bar = null;
+    }
+  }
+
+  return bars;
+}
+
+// ============================================================================
+// PLANNING
+// ============================================================================
+
+/**
+ * Choose how long each generated chord lasts. Simple songs keep one chord
+ * per bar; intros, outros and quiet verses may hold chords for two bars;
+ * pre-choruses move two chords per bar; other sections sometimes split
+ * the last bar as a turnaround. Odd meters keep whole bars.
+ */
+export function planHarmonicRhythm(chordCount: number, options: HarmonicRhythmOptions): number[] {
+  const { sectionType, energy, complexity, beatsPerBar, random } = options;
+  const durations: number[] = Array(chordCount).fill(beatsPerBar);
+  const half = beatsPerBar / 2;
+  if (complexity === 'simple' || chordCount === 0) return durations;
+
+  const isSlowSection = sectionType === 'intro' || sectionType === 'outro' ||
+    (sectionType === 'verse' && energy === 'low');
+  if (isSlowSection && random() < 0.5) {
+    return durations.map(() => beatsPerBar * 2);
+  }
+
+  if (!Number.isInteger(half)) return durations;
+
+  if (sectionType === 'pre-chorus' && chordCount % 2 === 0) {
+    return durations.map(() => half);
+  }
+
+  if (chordCount >= 4 && random() < (energy === 'high' ? 0.6 : 0.35)) {
+    durations[chordCount - 2] = half;
+    durations[chordCount - 1] = half;
+  }
+  return durations;
+}
+
+/**
+ * Durations that fit a number of chords into a fixed number of bars. Chords
+ * take whole bars while there are enough bars, then half bars, then beats;
+ * the extra time goes to the chords that end each phrase.
+ */
+export function fitChordsToBars(chordCount: number, bars: number, beatsPerBar: number): number[] {
+  if (chordCount === 0) return [];
+  const totalBeats = bars * beatsPerBar;
+  const unit = [beatsPerBar, beatsPerBar / 2, 1]
+    .filter(candidate => candidate === beatsPerBar || Number.isInteger(candidate))
+    .find(candidate => totalBeats / candidate >= chordCount) ?? totalBeats / chordCount;
+  const slots = Math.round(totalBeats / unit);
+  return Array.from({ length: chordCount }, (_, i) =>
+    (Math.floor((slots * (i + 1)) / chordCount) - Math.floor((slots * i) / chordCount)) * unit
+  );
+}
@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { detectKey, detectBestKey, detectSongKeys } from './keyDetection';
+import { getKeyId } from './musicTheory';
+import { chords, makeSong } from '../test/fixtures';
+
+const bestKeyId = (symbols: string[]) => getKeyId(detectBestKey(chords(symbols)));
+
+describe('detectKey', () => {
+  it('finds major and minor keys', () => {
+    expect(bestKeyId(['C', 'G', 'Am', 'F'])).toBe('C');
+    expect(bestKeyId(['Am', 'F', 'C', 'G'])).toBe('Am');
+    expect(bestKeyId(['Am', 'Dm', 'E7', 'Am'])).toBe('Am');
+    expect(bestKeyId(['Dm7', 'G7', 'Cmaj7'])).toBe('C');
+  });
+
+  it('finds modal keys', () => {
+    expect(bestKeyId(['Dm', 'G', 'Dm', 'G'])).toBe('D dorian');
+    expect(bestKeyId(['G', 'F', 'C', 'G'])).toBe('G mixolydian');
+    expect(bestKeyId(['Em', 'F', 'Em', 'F'])).toBe('E phrygian');
+  });
+
+  it('does not assume the first chord is the tonic', () => {
+    expect(bestKeyId(['F', 'G', 'C'])).toBe('C');
+    expect(bestKeyId(['D', 'A', 'E', 'E7', 'A'])).toBe('A');
+  });
+
+  it('ranks candidates with confidences', () => {
+    const candidates = detectKey(chords(['C', 'G', 'Am', 'F']), { limit: 3 });
+    expect(candidates).toHaveLength(3);
+    expect(candidates[0].confidence).toBeGreaterThan(candidates[1].confidence);
+    expect(candidates.every(candidate => candidate.confidence > 0 && candidate.confidence <= 1)).toBe(true);
+  });
+
+  it('respects the mode filter and empty input', () => {
+    const candidates = detectKey(chords(['Dm', 'G', 'Dm', 'G']), { modes: ['major', 'minor'] });
+    expect(candidates.every(candidate => ['major', 'minor'].includes(candidate.key.mode))).toBe(true);
+    expect(detectKey([])).toEqual([]);
+    expect(detectBestKey([], { tonic: 'E', mode: 'minor' })).toEqual({ tonic: 'E', mode: 'minor' });
+  });
+});
+
+describe('detectSongKeys', () => {
+  it('keeps one key when sections share it', () => {
+    const analysis = detectSongKeys(makeSong([
+      ['verse', ['C', 'Am', 'F', 'G']],
+      ['verse', ['Am', 'F', 'C', 'G']],
+      ['verse', ['F', 'G', 'C']],
+    ]));
+    expect(getKeyId(analysis.candidates[0].key)).toBe('C');
+    expect(analysis.changes).toEqual([]);
+    expect(analysis.sections.map(section => getKeyId(section.key))).toEqual(['C', 'C', 'C']);
+  });
+
+  it('detects a section modulating up a whole step', () => {
+    const analysis = detectSongKeys(makeSong([
+      ['verse', ['C', 'Am', 'F', 'G', 'C']],
+      ['verse', ['C', 'F', 'G', 'C']],
+      ['verse', ['D', 'Bm', 'G', 'A', 'D']],
+    ]));
+    expect(analysis.changes).toHaveLength(1);
+    expect(analysis.changes[0]).toMatchObject({ sectionIndex: 2, from: { tonic: 'C' }, to: { tonic: 'D', mode: 'major' } });
+    expect(getKeyId(analysis.sections[2].key)).toBe('D');
+  });
+
+  it('keeps the song key when there are no modes to rank', () => {
+    const song = makeSong([['verse', ['C', 'F', 'G', 'C']], ['chorus', ['D', 'G', 'A', 'D']]]);
+    const analysis = detectSongKeys(song, { modes: [] });
+    expect(analysis.candidates).toEqual([]);
+    expect(analysis.changes).toEqual([]);
+    expect(analysis.sections.map(section => section.key)).toEqual([song.key, song.key]);
+  });
+});
@@ -0,0 +1,200 @@
+import type { CanonicalNote, Chord, Key, Mode, Song } from '../types/music';
+import {
+  ALL_MODES,
+  CHROMATIC_NOTES,
+  MODE_CHORD_QUALITIES,
+  getKeyId,
+  getScaleNotes,
+  getTriadFamily,
+  transposeNote,
+} from './musicTheory';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface KeyCandidate {
+  key: Key;
+  score: number;       // Raw fit score, higher is better
+  confidence: number;  // Probability across all scored keys (0-1)
+}
+
+export interface KeyDetectionOptions {
+  modes?: Mode[];      // Modes to consider (default: all)
+  limit?: number;      // Maximum number of candidates (default 5)
+}
+
+export interface SectionKeyEstimate {
+  sectionIndex: number;
+  key: Key;
+  confidence: number;
+  candidates: KeyCandidate[];
+}
+
+export interface KeyChange {
+  sectionIndex: number; // First section in the new key
+  from: Key;
+  to: Key;
+  confidence: number;
+}
+
+export interface SongKeyAnalysis {
+  candidates: KeyCandidate[];      // Ranked keys for the whole song
+  sections: SectionKeyEstimate[];  // Key in effect for each section
+  changes: KeyChange[];
+}
+
+// ============================================================================
+// SCORING
+// ============================================================================
+
+// Small preference for the common keys over modes sharing the same notes
+const MODE_PRIORS: Record<Mode, number> = {
+  'major': 0.06,
+  'minor': 0.05,
+  'dorian': 0.02,
+  'mixolydian': 0.02,
+  'lydian': 0.01,
+  'phrygian': 0.01,
+  'harmonic-minor': 0.01,
+  'melodic-minor': 0,
+  'locrian': 0,
+};
+
+const QUALITY_MATCH_WEIGHT = 0.5;   // Diatonic quality vs plain note fit
+const TONIC_FRAME_BONUS = 0.15;     // First or last chord is the tonic triad
+const TONIC_PRESENCE_BONUS = 0.1;   // Scaled by the share of tonic chords
+const CADENCE_BONUS = 0.1;          // Per V-I resolution, capped below
+const MAX_CADENCE_BONUS = 0.2;
+const CONFIDENCE_TEMPERATURE = 0.05;
+const KEY_CHANGE_MARGIN = 0.25;     // Section score gain needed to leave the current key
+
+function isTonicChord(chord: Chord, key: Key): boolean {
+  return chord.root === key.tonic &&
+    getTriadFamily(chord.quality) === getTriadFamily(MODE_CHORD_QUALITIES[key.mode][0]);
+}
+
+/**
+ * Score how well a chord sequence fits a key
+ * Combines note fit, diatonic chord qualities, tonic framing and V-I cadences
+ */
+export function scoreKey(chords: Chord[], key: Key): number {
+  if (chords.length === 0) return 0;
+
+  const scaleNotes = getScaleNotes(key);
+  const diatonicFamilies = MODE_CHORD_QUALITIES[key.mode].map(getTriadFamily);
+  const dominant = transposeNote(key.tonic, 7);
+
+  let fit = 0;
+  for (const chord of chords) {
+    const tones: CanonicalNote[] = chord.bassNote ? [...chord.notes, chord.bassNote] : chord.notes;
+    const family = getTriadFamily(chord.quality);
+
+    // Minor keys routinely raise the 7th for a major V (E7 in A minor)
+    if (key.mode === 'minor' && chord.root === dominant && family === 'major') {
+      fit += 1;
+      continue;
+    }
+
+    const inScale = tones.filter(note => scaleNotes.includes(note)).length / tones.length;
+    const degree = scaleNotes.indexOf(chord.root);
+    const qualityMatch = degree >= 0 && (family === 'other' || family === diatonicFamilies[degree]) ? 1 : 0;
+
+    fit += (inScale + qualityMatch * QUALITY_MATCH_WEIGHT) / (1 + QUALITY_MATCH_WEIGHT);
+  }
+  let score = fit / chords.length;
+
+  // Tonic framing: progressions tend to start and end at home
+  if (isTonicChord(chords[0], key)) score += TONIC_FRAME_BONUS;
+  if (chords.length > 1 && isTonicChord(chords[chords.length - 1], key)) score += TONIC_FRAME_BONUS;
+  score += TONIC_PRESENCE_BONUS * chords.filter(chord => isTonicChord(chord, key)).length / chords.length;
+
+  // Dominant-to-tonic resolutions
+  let cadences = 0;
+  for (let i = 1; i < chords.length; i++) {
+    const previous = chords[i - 1];
+    if (previous.root === dominant && getTriadFamily(previous.quality) === 'major' && isTonicChord(chords[i], key)) {
+      cadences++;
+    }
+  }
+  score += Math.min(cadences * CADENCE_BONUS, MAX_CADENCE_BONUS);
+
+  return score + MODE_PRIORS[key.mode];
+}
+
+function rankKeys(chords: Chord[], modes: Mode[]): KeyCandidate[] {
+  const scored = CHROMATIC_NOTES.flatMap(tonic =>
+    modes.map(mode => {
+      const key: Key = { tonic, mode };
+      return { key, score: scoreKey(chords, key) };
+    })
+  );
+
+  // Softmax over all keys so confidences sum to 1
+  const best = Math.max(...scored.map(candidate => candidate.score));
+  const weights = scored.map(candidate => Math.exp((candidate.score - best) / CONFIDENCE_TEMPERATURE));
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+
+  return scored
+    .map((candidate, i) => ({ ...candidate, confidence: weights[i] / total }))
+    .sort((a, b) => b.score - a.score);
+}
+
+// ============================================================================
+// KEY DETECTION
+// ============================================================================
+
+/**
+ * Rank the most likely keys for a chord sequence
+ * e.g. [C, G, Am, F] -> C major first, A minor close behind
+ */
+export function detectKey(chords: Chord[], options: KeyDetectionOptions = {}): KeyCandidate[] {
+  if (chords.length === 0) return [];
+  return rankKeys(chords, options.modes ?? ALL_MODES).slice(0, options.limit ?? 5);
+}
+
+/**
+ * Most likely key for a chord sequence, or the fallback for an empty one
+ */
+export function detectBestKey(chords: Chord[], fallback: Key = { tonic: 'C', mode: 'major' }): Key {
+  return detectKey(chords, { limit: 1 })[0]?.key ?? fallback;
+}
+
+/**
+ * Detect the overall key of a song and the key in effect for each section
+ * A section only changes key when another key fits it clearly better than
+ * the current one, so shared chords don't cause spurious modulations
+ */
+export function detectSongKeys(song: Song, options: KeyDetectionOptions = {}): SongKeyAnalysis {
+  const modes = options.modes ?? ALL_MODES;
+  const limit = options.limit ?? 5;
+  const allChords = song.sections.flatMap(section => section.chords);
+  const candidates = allChords.length > 0 ? rankKeys(allChords, modes) : [];
+
+  let currentKey = candidates[0]?.key ?? song.key;
+  const sections: SectionKeyEstimate[] = [];
+  const changes: KeyChange[] = [];
+
+  song.sections.forEach((section, sectionIndex) => {
+    const ranked = section.chords.length > 0 ? rankKeys(section.chords, modes) : [];
+    const currentId = getKeyId(currentKey);
+    const current = ranked.find(candidate => getKeyId(candidate.key) === currentId);
+    const best = ranked[0];
+
+    // No chords, or no modes to rank them in: the key carries on
+    if (!current) {
+      sections.push({ sectionIndex, key: currentKey, confidence: 0, candidates: [] });
+      return;
+    }
+
+    if (best.score - current.score > KEY_CHANGE_MARGIN) {
+      changes.push({ sectionIndex, from: currentKey, to: best.key, confidence: best.confidence });
+      currentKey = best.key;
+      sections.push({ sectionIndex, key: best.key, confidence: best.confidence, candidates: ranked.slice(0, limit) });
+    } else {
+      sections.push({ sectionIndex, key: currentKey, confidence: current.confidence, candidates: ranked.slice(0, limit) });
+    }
+  });
+
+  return { candidates: candidates.slice(0, limit), sections, changes };
+}
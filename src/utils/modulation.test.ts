@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getModulationTarget,
+  planSectionKeys,
+  findPivotChords,
+  linkSectionKeys,
+  transposeSectionChords,
+} from './modulation';
+import { getKeyId } from './musicTheory';
+import { chords } from '../test/fixtures';
+import type { Key, SectionType, SongSection } from '../types/music';
+
+const C_MAJOR: Key = { tonic: 'C', mode: 'major' };
+const G_MAJOR: Key = { tonic: 'G', mode: 'major' };
+const names = (symbols: { name: string }[]) => symbols.map(chord => chord.name);
+const WITH_BRIDGE: SectionType[] = ['verse', 'chorus', 'verse', 'chorus', 'bridge', 'chorus'];
+
+describe('planSectionKeys', () => {
+  it('finds the target key for each modulation type', () => {
+    expect(getKeyId(getModulationTarget(C_MAJOR, 'truck-driver'))).toBe('D');
+    expect(getKeyId(getModulationTarget(C_MAJOR, 'relative'))).toBe('Am');
+    expect(getKeyId(getModulationTarget(C_MAJOR, 'dominant'))).toBe('G');
+  });
+
+  it('lifts from the last chorus and returns home after a relative bridge', () => {
+    expect(planSectionKeys(WITH_BRIDGE, C_MAJOR, 'truck-driver').map(getKeyId)).toEqual(['C', 'C', 'C', 'C', 'C', 'D']);
+    expect(planSectionKeys(WITH_BRIDGE, C_MAJOR, 'relative').map(getKeyId)).toEqual(['C', 'C', 'C', 'C', 'Am', 'C']);
+    expect(planSectionKeys(['verse', 'chorus', 'verse', 'chorus'], C_MAJOR, 'dominant').map(getKeyId))
+      .toEqual(['C', 'C', 'G', 'G']);
+  });
+});
+
+describe('pivot chords', () => {
+  it('prefers chords that are predominants in the new key', () => {
+    const [best] = findPivotChords(C_MAJOR, G_MAJOR);
+    expect(best.chord.name).toBe('Am');
+    expect(best.fromNumeral).toBe('vi');
+    expect(best.toNumeral).toBe('ii');
+  });
+
+  it('ends the section before a pivot modulation with the pivot and V7', () => {
+    const sections: SongSection[] = [
+      { id: '1', type: 'verse', name: 'Verse', chords: chords(['C', 'F', 'G', 'C']), key: C_MAJOR },
+      { id: '2', type: 'verse', name: 'Verse 2', chords: chords(['G', 'C', 'D', 'G']), key: G_MAJOR },
+    ];
+    const linked = linkSectionKeys(sections, C_MAJOR, 'dominant');
+    expect(names(linked[0].chords)).toEqual(['C', 'F', 'Am', 'D7']);
+    expect(linked[0].modulation).toBeUndefined();
+    expect(linked[1].modulation?.pivot?.chord.name).toBe('Am');
+    expect(getKeyId(linked[1].modulation!.to)).toBe('G');
+  });
+});
+
+describe('transposeSectionChords', () => {
+  it('moves chords and relabels them in the new key', () => {
+    const lifted = transposeSectionChords(chords(['C', 'G/B', 'Am', 'F']), C_MAJOR, { tonic: 'D', mode: 'major' });
+    expect(names(lifted)).toEqual(['D', 'A/C#', 'Bm', 'G']);
+    expect(lifted.map(chord => chord.romanNumeral)).toEqual(['I', 'V6', 'vi', 'IV']);
+  });
+});
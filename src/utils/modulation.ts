@@ -0,0 +1,196 @@
+import type {
+  Chord,
+  Key,
+  ModulationType,
+  PivotChord,
+  SectionType,
+  Song,
+  SongSection,
+} from '../types/music';
+import {
+  createChord,
+  getDiatonicChords,
+  getInterval,
+  getKeyId,
+  transposeKey,
+  transposeNote,
+} from './musicTheory';
+import { romanNumeralForChord } from './romanNumerals';
+import { annotateChords } from './harmonicAnalysis';
+import { getNeighboringKeys } from '../data/circleOfFifths';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface SongKeyChange extends NonNullable<SongSection['modulation']> {
+  sectionIndex: number; // First section in the new key
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const MODULATION_NAMES: Record<ModulationType, string> = {
+  'truck-driver': 'Truck-driver lift',
+  'relative': 'Relative-key bridge',
+  'dominant': 'Pivot to the dominant',
+};
+
+export const MODULATION_DESCRIPTIONS: Record<ModulationType, string> = {
+  'truck-driver': 'The final chorus jumps up a whole step with no preparation. The sudden lift adds energy for the last repeat.',
+  'relative': 'The bridge (or a late verse) moves to the relative key, which shares every note with the home key. It changes the colour without feeling far away, and the song returns home after it.',
+  'dominant': 'A chord that belongs to both keys is heard one way and then reinterpreted in the new key. The V7 of the new key confirms the move to the dominant.',
+};
+
+// New-key scale degrees a pivot can take, best first: predominants lead straight into V
+const PIVOT_DEGREE_PREFERENCE = [3, 1, 5, 2, 6]; // IV, ii, vi, iii, vii
+
+// ============================================================================
+// KEY PLANNING
+// ============================================================================
+
+/**
+ * The key a section is in, falling back to the song key
+ */
+export function getSectionKey(song: Song, sectionIndex: number): Key {
+  return song.sections[sectionIndex]?.key ?? song.key;
+}
+
+/**
+ * Where a modulation goes from the home key (C -> D, Am or G)
+ */
+export function getModulationTarget(key: Key, type: ModulationType): Key {
+  if (type === 'truck-driver') return transposeKey(key, 2);
+  const neighbors = getNeighboringKeys(key);
+  return type === 'relative' ? neighbors.relative : neighbors.clockwise;
+}
+
+// First section in the new key, or -1 when the form has no place for it
+function findModulationStart(types: SectionType[], type: ModulationType): number {
+  if (type === 'truck-driver') {
+    const lastChorus = types.lastIndexOf('chorus');
+    return lastChorus > 0 ? lastChorus : types.length > 1 ? types.length - 1 : -1;
+  }
+  if (type === 'relative') {
+    const bridge = types.indexOf('bridge');
+    const lastVerse = types.lastIndexOf('verse');
+    return bridge !== -1 ? bridge : lastVerse > 0 ? lastVerse : -1;
+  }
+  if (types.length < 2) return -1;
+  const middle = Math.ceil(types.length / 2);
+  const verse = types.indexOf('verse', middle);
+  return verse !== -1 ? verse : middle;
+}
+
+/**
+ * Key of each section for a planned modulation
+ * Truck-driver and dominant modulations stay in the new key to the end; a
+ * relative-key bridge returns home for the next section
+ */
+export function planSectionKeys(types: SectionType[], home: Key, type: ModulationType): Key[] {
+  const start = findModulationStart(types, type);
+  if (start === -1) return types.map(() => home);
+
+  const target = getModulationTarget(home, type);
+  const end = type === 'relative' ? start + 1 : types.length;
+  return types.map((_, i) => (i >= start && i < end ? target : home));
+}
+
+// ============================================================================
+// PIVOT CHORDS
+// ============================================================================
+
+/**
+ * Chords diatonic to both keys, best pivot first
+ * Neither tonic is used; chords that are predominants in the new key come
+ * first (C -> G: Am, vi in C = ii in G)
+ */
+export function findPivotChords(from: Key, to: Key): PivotChord[] {
+  const targetChords = getDiatonicChords(to);
+  const rank = (degree: number) => {
+    const index = PIVOT_DEGREE_PREFERENCE.indexOf(degree);
+    return index === -1 ? PIVOT_DEGREE_PREFERENCE.length : index;
+  };
+
+  return getDiatonicChords(from)
+    .flatMap(chord => {
+      const degree = targetChords.findIndex(target => target.root === chord.root && target.quality === chord.quality);
+      if (degree <= 0 || chord.root === from.tonic) return [];
+      return [{
+        degree,
+        pivot: { chord, fromNumeral: romanNumeralForChord(chord, from), toNumeral: romanNumeralForChord(chord, to) },
+      }];
+    })
+    .sort((a, b) => rank(a.degree) - rank(b.degree))
+    .map(({ pivot }) => pivot);
+}
+
+/**
+ * End a section with a pivot chord and the new key's V7, so the next
+ * section can start in the new key. Sections under three chords are left as is.
+ */
+export function preparePivot(chords: Chord[], from: Key, to: Key): { chords: Chord[]; pivot?: PivotChord } {
+  const pivot = findPivotChords(from, to)[0];
+  if (!pivot || chords.length < 3) return { chords };
+
+  const approach = createChord(transposeNote(to.tonic, 7), 'dominant7', undefined, undefined, getKeyId(from));
+  return { chords: annotateChords([...chords.slice(0, -2), pivot.chord, approach], from), pivot };
+}
+
+/**
+ * Move chords from one key to another, relabelling them in the new key
+ */
+export function transposeSectionChords(chords: Chord[], from: Key, to: Key): Chord[] {
+  const semitones = getInterval(from.tonic, to.tonic);
+  const keyContext = getKeyId(to);
+  const transposed = chords.map(chord =>
+    createChord(
+      transposeNote(chord.root, semitones),
+      chord.quality,
+      undefined,
+      undefined,
+      keyContext,
+      chord.bassNote && transposeNote(chord.bassNote, semitones)
+    )
+  );
+  return annotateChords(transposed, to);
+}
+
+// ============================================================================
+// SONG KEY CHANGES
+// ============================================================================
+
+/**
+ * Mark the first section of each new key with its modulation
+ * With a planned type, pivot modulations also rewrite the end of the
+ * section before the change; without one, key changes are only recorded
+ */
+export function linkSectionKeys(sections: SongSection[], home: Key, type?: ModulationType): SongSection[] {
+  const linked: SongSection[] = sections.map(section => ({ ...section, modulation: undefined }));
+
+  for (let i = 1; i < linked.length; i++) {
+    const from = linked[i - 1].key ?? home;
+    const to = linked[i].key ?? home;
+    if (getKeyId(from) === getKeyId(to)) continue;
+
+    let pivot: PivotChord | undefined;
+    if (type && type !== 'truck-driver') {
+      const prepared = preparePivot(linked[i - 1].chords, from, to);
+      linked[i - 1] = { ...linked[i - 1], chords: prepared.chords };
+      pivot = prepared.pivot;
+    }
+    linked[i] = { ...linked[i], modulation: { from, to, type, pivot } };
+  }
+
+  return linked;
+}
+
+/**
+ * Every key change in a song, in order
+ */
+export function getSongKeyChanges(song: Song): SongKeyChange[] {
+  return song.sections.flatMap((section, sectionIndex) =>
+    section.modulation ? [{ ...section.modulation, sectionIndex }] : []
+  );
+}
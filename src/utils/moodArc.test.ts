@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { getArcMood, getArcPosition, splitMoodArc } from './moodArc';
+import type { MoodAnalysis, MoodArcStage } from '../types/music';
+
+const mood = (overrides: Partial<MoodAnalysis>): MoodAnalysis => ({
+  preferredMode: 'major',
+  energy: 'medium',
+  tension: 'medium',
+  brightness: 'neutral',
+  tempoRange: { min: 80, max: 120 },
+  useSevenths: false,
+  useBorrowedChords: false,
+  useSuspensions: false,
+  useInversions: false,
+  pedalBassChance: 0,
+  preferredFunctions: ['tonic', 'subdominant', 'dominant'],
+  positivity: 0,
+  intensity: 0.5,
+  ...overrides,
+});
+
+describe('splitMoodArc', () => {
+  it('finds the stages of a compound mood', () => {
+    expect(splitMoodArc('starts lonely, ends triumphant')).toEqual([
+      { phrase: 'lonely', position: 0 },
+      { phrase: 'triumphant', position: 1 },
+    ]);
+    expect(splitMoodArc('From heartbreak to hope').map(stage => stage.phrase)).toEqual(['heartbreak', 'hope']);
+    expect(splitMoodArc('anxious, then angry, finally at peace')).toEqual([
+      { phrase: 'anxious', position: 0 },
+      { phrase: 'angry', position: 0.5 },
+      { phrase: 'at peace', position: 1 },
+    ]);
+  });
+
+  it('only splits on ending and becoming at a clause boundary', () => {
+    expect(splitMoodArc('dreamy, ending bittersweet').map(stage => stage.phrase)).toEqual(['dreamy', 'bittersweet']);
+    expect(splitMoodArc('calm. Becoming restless').map(stage => stage.phrase)).toEqual(['calm', 'restless']);
+    expect(splitMoodArc('quiet and then becoming wild').map(stage => stage.phrase)).toEqual(['quiet', 'wild']);
+
+    for (const text of ['a never-ending summer', 'a song about becoming free', 'the ending of a long road']) {
+      expect(splitMoodArc(text)).toEqual([{ phrase: text, position: 0 }]);
+    }
+  });
+
+  it('keeps the last stage of a long arc', () => {
+    expect(splitMoodArc('walking then running then flying then soaring then landing').map(stage => stage.phrase))
+      .toEqual(['walking', 'running', 'flying', 'landing']);
+  });
+
+  it('keeps a mood without an arc whole', () => {
+    expect(splitMoodArc('A nostalgic summer evening, bittersweet memories')).toEqual([
+      { phrase: 'A nostalgic summer evening, bittersweet memories', position: 0 },
+    ]);
+  });
+});
+
+describe('getArcMood', () => {
+  const arc: MoodArcStage[] = [
+    { phrase: 'lonely', position: 0, analysis: mood({ preferredMode: 'minor', energy: 'low', positivity: -1 }) },
+    { phrase: 'triumphant', position: 1, analysis: mood({ energy: 'high', positivity: 1 }) },
+  ];
+
+  it('takes musical choices from the nearest stage and blends the sentiment', () => {
+    const early = getArcMood(arc, getArcPosition(1, 6));
+    expect(early.preferredMode).toBe('minor');
+    expect(early.positivity).toBeCloseTo(-0.6);
+
+    const late = getArcMood(arc, getArcPosition(4, 6));
+    expect(late.energy).toBe('high');
+    expect(late.positivity).toBeCloseTo(0.6);
+  });
+});
@@ -0,0 +1,102 @@
+import type { MoodAnalysis, MoodArcStage } from '../types/music';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface MoodArcPhrase {
+  phrase: string;
+  position: number;     // 0 (start of the song) to 1 (end)
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+// Words that move the mood on to its next stage, with any punctuation before
+// them. "Ending" and "becoming" are common inside a phrase ("a never-ending
+// summer"), so they only count at a clause boundary.
+const STAGE_BREAKS = new RegExp(
+  '\\s*[,;.]?\\s*(?:' + [
+    '(?:[,;.]\\s*|\\b(?:and )?then\\s+)(?:but |and )?(?:ending|becom(?:es|ing))\\b',
+    '\\band then\\b',
+    '\\bthen\\b',
+    '\\beventually\\b',
+    '\\bfinally\\b',
+    '\\b(?:but |and )?ends(?: up)?\\b',
+    '\\bin the end\\b',
+    '\\bby the end\\b',
+    '\\bturn(?:s|ing) into\\b',
+    '\\bbuild(?:s|ing)?(?: up)? (?:to|into)\\b',
+    '\\bgrow(?:s|ing)? into\\b',
+    '\\bgives? way to\\b',
+    '\\bresolv(?:es|ing) (?:to|into)\\b',
+    '->',
+    '→',
+  ].join('|') + ')\\s*',
+  'i'
+);
+
+// "from heartbreak to hope"
+const FROM_TO = /^from\s+(.+?)\s+to\s+(.+)$/i;
+
+// Scene-setting words at the start of a stage ("starts out lonely")
+const STAGE_LEAD_IN = /^(?:(?:it|and|but|as|at first|starts?|starting|begins?|beginning|opens?|opening|out|off|with|up|feeling)\s+)+/i;
+
+const MAX_STAGES = 4;
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+function cleanPhrase(phrase: string): string {
+  return phrase.trim().replace(STAGE_LEAD_IN, '').replace(/[\s,;.!]+$/, '').trim();
+}
+
+/**
+ * Split a mood description into the stages of its arc, spread evenly over
+ * the song. A description without an arc is a single stage at the start.
+ */
+export function splitMoodArc(text: string): MoodArcPhrase[] {
+  const trimmed = text.trim();
+  const fromTo = trimmed.match(FROM_TO);
+  const parts = fromTo ? [fromTo[1], fromTo[2]] : trimmed.split(STAGE_BREAKS);
+  const found = parts.map(cleanPhrase).filter(Boolean);
+  // Past the limit, drop stages from the middle so the arc still ends where the text does
+  const phrases = found.length > MAX_STAGES
+    ? [...found.slice(0, MAX_STAGES - 1), found[found.length - 1]]
+    : found;
+
+  if (phrases.length < 2) return [{ phrase: trimmed, position: 0 }];
+  return phrases.map((phrase, i) => ({ phrase, position: i / (phrases.length - 1) }));
+}
+
+// ============================================================================
+// LOOKUP
+// ============================================================================
+
+/**
+ * Position of a section on the arc: the first section at 0, the last at 1
+ */
+export function getArcPosition(sectionIndex: number, sectionCount: number): number {
+  return sectionCount > 1 ? sectionIndex / (sectionCount - 1) : 0;
+}
+
+/**
+ * Mood at a point on the arc. Musical choices come from the nearest stage;
+ * positivity and intensity glide between stages.
+ */
+export function getArcMood(arc: MoodArcStage[], position: number): MoodAnalysis {
+  const before = [...arc].reverse().find(stage => stage.position <= position) ?? arc[0];
+  const after = arc.find(stage => stage.position >= position) ?? arc[arc.length - 1];
+  const span = after.position - before.position;
+  const t = span > 0 ? (position - before.position) / span : 0;
+  const nearest = t < 0.5 ? before : after;
+  const blend = (from: number, to: number) => from + (to - from) * t;
+
+  return {
+    ...nearest.analysis,
+    positivity: blend(before.analysis.positivity, after.analysis.positivity),
+    intensity: blend(before.analysis.intensity, after.analysis.intensity),
+  };
+}
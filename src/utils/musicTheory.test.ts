@@ -3,6 +3,7 @@ import {
   normalizeNoteName,
   displayNoteName,
   transposeNote,
+  midiToNoteName,
   getInterval,
   formatChordName,
   buildChordNotes,
@@ -19,8 +20,24 @@ import {
   getScaleDegree,
   getKeyId,
   parseKeyId,
+  isMinorQuality,
+  isDominantQuality,
+  getTriadFamily,
+  getParentMajor,
+  isMinorMode,
+  formatKeyName,
+  ALL_MODES,
+  MODE_SCALE_INTERVALS,
+  MODE_CHORD_QUALITIES,
+  CHORD_INTERVALS,
+  spellPitch,
+  parseSpelledNote,
+  spellScale,
+  spellNoteInKey,
+  spellChord,
+  spellBassNote,
 } from './musicTheory';
-import type { Key } from '../types/music';
+import type { ChordQuality, Key, TriadFamily } from '../types/music';
 
 describe('Note Utilities', () => {
   describe('normalizeNoteName', () => {
@@ -74,6 +91,14 @@ describe('Note Utilities', () => {
     });
   });
 
+  describe('midiToNoteName', () => {
+    it('names MIDI notes with scientific octaves', () => {
+      expect(midiToNoteName(60)).toBe('C4');
+      expect(midiToNoteName(57)).toBe('A3');
+      expect(midiToNoteName(70, 'F')).toBe('Bb4');
+    });
+  });
+
   describe('getInterval', () => {
     it('calculates intervals correctly', () => {
       expect(getInterval('C', 'E')).toBe(4);  // Major 3rd
@@ -106,9 +131,24 @@ describe('Chord Utilities', () => {
       expect(formatChordName('A', 'minor7')).toBe('Am7');
     });
 
+    it('formats extended and altered chords', () => {
+      expect(formatChordName('C', 'major6')).toBe('C6');
+      expect(formatChordName('D', 'minor9')).toBe('Dm9');
+      expect(formatChordName('G', 'dominant13')).toBe('G13');
+      expect(formatChordName('E', 'dominant7#9')).toBe('E7#9');
+      expect(formatChordName('A', 'minorMajor7')).toBe('AmMaj7');
+    });
+
     it('respects key context for display', () => {
       expect(formatChordName('Bb', 'major', 'F')).toBe('Bb');
-      expect(formatChordName('Bb', 'major', 'G')).toBe('A#');
+      expect(formatChordName('Bb', 'major', 'G')).toBe('Bb'); // bVII in G
+    });
+
+    it('spells chords on the letters their key calls for', () => {
+      expect(formatChordName('B', 'major', 'Gb')).toBe('Cb');
+      expect(formatChordName('F', 'diminished', 'F#')).toBe('E#dim');
+      expect(formatChordName('G#', 'major', 'C')).toBe('Ab');
+      expect(formatChordName('A#', 'major', 'F', 'D')).toBe('Bb/D');
     });
   });
 
@@ -131,6 +171,67 @@ describe('Chord Utilities', () => {
       expect(buildChordNotes('G', 'dominant7')).toEqual(['G', 'B', 'D', 'F']);
       expect(buildChordNotes('C', 'major7')).toEqual(['C', 'E', 'G', 'B']);
     });
+
+    it('builds extended chord notes', () => {
+      expect(buildChordNotes('D', 'minor9')).toEqual(['D', 'F', 'A', 'C', 'E']);
+      expect(buildChordNotes('G', 'dominant13')).toEqual(['G', 'B', 'D', 'F', 'A', 'E']);
+      expect(buildChordNotes('C', 'add11')).toEqual(['C', 'E', 'G', 'F']);
+    });
+
+    it('builds altered chord notes', () => {
+      expect(buildChordNotes('G', 'dominant7b9')).toEqual(['G', 'B', 'D', 'F', 'G#']);
+      expect(buildChordNotes('E', 'dominant7#9')).toEqual(['E', 'G#', 'B', 'D', 'G']);
+      expect(buildChordNotes('G', 'dominant7sus4')).toEqual(['G', 'C', 'D', 'F']);
+    });
+  });
+
+  describe('quality families', () => {
+    it('identifies minor-triad qualities', () => {
+      expect(isMinorQuality('minor9')).toBe(true);
+      expect(isMinorQuality('minorMajor7')).toBe(true);
+      expect(isMinorQuality('half-dim7')).toBe(false);
+      expect(isMinorQuality('dominant7#9')).toBe(false);
+    });
+
+    it('identifies dominant qualities', () => {
+      expect(isDominantQuality('dominant13')).toBe(true);
+      expect(isDominantQuality('dominant7sus4')).toBe(true);
+      expect(isDominantQuality('major9')).toBe(false);
+    });
+
+    it('finds the triad every quality is built on', () => {
+      const families: Record<ChordQuality, TriadFamily> = {
+        'major': 'major',
+        'minor': 'minor',
+        'diminished': 'diminished',
+        'augmented': 'augmented',
+        'dominant7': 'major',
+        'major7': 'major',
+        'minor7': 'minor',
+        'dim7': 'diminished',
+        'half-dim7': 'diminished',
+        'sus2': 'other',
+        'sus4': 'other',
+        'add9': 'major',
+        'power': 'other',
+        'major6': 'major',
+        'minor6': 'minor',
+        'dominant9': 'major',
+        'major9': 'major',
+        'minor9': 'minor',
+        'dominant11': 'major',
+        'minor11': 'minor',
+        'dominant13': 'major',
+        'add11': 'major',
+        'dominant7sus4': 'other',
+        'dominant7b9': 'major',
+        'dominant7#9': 'major',
+        'minorMajor7': 'minor',
+      };
+      for (const quality of Object.keys(CHORD_INTERVALS) as ChordQuality[]) {
+        expect(getTriadFamily(quality), quality).toBe(families[quality]);
+      }
+    });
   });
 
   describe('createChord', () => {
@@ -174,6 +275,45 @@ describe('Key Utilities', () => {
       expect(parseKeyId('Am')).toEqual({ tonic: 'A', mode: 'minor' });
       expect(parseKeyId('F#m')).toEqual({ tonic: 'F#', mode: 'minor' });
     });
+
+    it('round-trips modal keys', () => {
+      const dDorian: Key = { tonic: 'D', mode: 'dorian' };
+      expect(getKeyId(dDorian)).toBe('D dorian');
+      expect(parseKeyId('D dorian')).toEqual(dDorian);
+      expect(parseKeyId(getKeyId({ tonic: 'E', mode: 'harmonic-minor' }))).toEqual({ tonic: 'E', mode: 'harmonic-minor' });
+    });
+  });
+
+  describe('modes', () => {
+    it('finds the parent major of each mode', () => {
+      expect(getParentMajor({ tonic: 'D', mode: 'dorian' })).toBe('C');
+      expect(getParentMajor({ tonic: 'F', mode: 'lydian' })).toBe('C');
+      expect(getParentMajor({ tonic: 'A', mode: 'minor' })).toBe('C');
+      expect(getParentMajor({ tonic: 'B', mode: 'locrian' })).toBe('C');
+    });
+
+    it('classifies modes by their third', () => {
+      expect(isMinorMode('phrygian')).toBe(true);
+      expect(isMinorMode('melodic-minor')).toBe(true);
+      expect(isMinorMode('mixolydian')).toBe(false);
+    });
+
+    it('keeps diatonic qualities consistent with each scale', () => {
+      for (const mode of ALL_MODES) {
+        const scale = MODE_SCALE_INTERVALS[mode];
+        MODE_CHORD_QUALITIES[mode].forEach((quality, degree) => {
+          const third = (scale[(degree + 2) % 7] - scale[degree] + 12) % 12;
+          const fifth = (scale[(degree + 4) % 7] - scale[degree] + 12) % 12;
+          expect(CHORD_INTERVALS[quality]).toEqual([0, third, fifth]);
+        });
+      }
+    });
+
+    it('spells modal keys with the parent signature', () => {
+      expect(formatKeyName({ tonic: 'D', mode: 'dorian' })).toBe('D Dorian');
+      expect(formatKeyName({ tonic: 'D#', mode: 'lydian' })).toBe('Eb Lydian');
+      expect(formatKeyName({ tonic: 'A#', mode: 'major' })).toBe('Bb major');
+    });
   });
 
   describe('getDiatonicChords', () => {
@@ -200,6 +340,19 @@ describe('Key Utilities', () => {
       expect(chords[5].romanNumeral).toBe('vi');
     });
 
+    it('returns modal chords for D dorian', () => {
+      const chords = getDiatonicChords({ tonic: 'D', mode: 'dorian' });
+      expect(chords.map(c => c.name)).toEqual(['Dm', 'Em', 'F', 'G', 'Am', 'Bdim', 'C']);
+      expect(chords.map(c => c.romanNumeral)).toEqual(['i', 'ii', 'bIII', 'IV', 'v', 'vi°', 'bVII']);
+    });
+
+    it('returns the augmented III+ in harmonic minor', () => {
+      const chords = getDiatonicChords({ tonic: 'A', mode: 'harmonic-minor' });
+      expect(chords[2].name).toBe('Caug');
+      expect(chords[4].name).toBe('E');
+      expect(chords[6].name).toBe('G#dim');
+    });
+
     it('returns correct chords for A minor', () => {
       const aMinor: Key = { tonic: 'A', mode: 'minor' };
       const chords = getDiatonicChords(aMinor);
@@ -274,6 +427,11 @@ describe('Scale Utilities', () => {
       expect(getScaleNotes(aMinor)).toEqual(['A', 'B', 'C', 'D', 'E', 'F', 'G']);
     });
 
+    it('returns modal scales', () => {
+      expect(getScaleNotes({ tonic: 'F', mode: 'lydian' })).toEqual(['F', 'G', 'A', 'B', 'C', 'D', 'E']);
+      expect(getScaleNotes({ tonic: 'E', mode: 'phrygian' })).toEqual(['E', 'F', 'G', 'A', 'B', 'C', 'D']);
+    });
+
     it('returns G major scale', () => {
       const gMajor: Key = { tonic: 'G', mode: 'major' };
       expect(getScaleNotes(gMajor)).toEqual(['G', 'A', 'B', 'C', 'D', 'E', 'F#']);
@@ -312,3 +470,58 @@ describe('Scale Utilities', () => {
     });
   });
 });
+
+describe('Enharmonic Spelling', () => {
+  it('spells pitches on a given letter', () => {
+    expect(spellPitch('B', 'C')).toBe('Cb');
+    expect(spellPitch('G', 'F')).toBe('F##');
+    expect(spellPitch('A', 'B')).toBe('Bbb');
+    expect(spellPitch('C#', 'D')).toBe('Db');
+  });
+
+  it('parses any spelling to canonical', () => {
+    expect(parseSpelledNote('Cb')).toBe('B');
+    expect(parseSpelledNote('E#')).toBe('F');
+    expect(parseSpelledNote('F##')).toBe('G');
+    expect(parseSpelledNote('Fx')).toBe('G');
+    expect(parseSpelledNote('Bbb')).toBe('A');
+    expect(parseSpelledNote('H')).toBeNull();
+  });
+
+  it('spells scales with one note per letter', () => {
+    expect(spellScale({ tonic: 'F#', mode: 'major' }, 'Gb')).toEqual(['Gb', 'Ab', 'Bb', 'Cb', 'Db', 'Eb', 'F']);
+    expect(spellScale({ tonic: 'F#', mode: 'major' })).toEqual(['F#', 'G#', 'A#', 'B', 'C#', 'D#', 'E#']);
+    expect(spellScale({ tonic: 'G#', mode: 'harmonic-minor' })).toEqual(['G#', 'A#', 'B', 'C#', 'D#', 'E', 'F##']);
+    expect(spellScale({ tonic: 'D', mode: 'dorian' })).toEqual(['D', 'E', 'F', 'G', 'A', 'B', 'C']);
+  });
+
+  it('uses every letter exactly once for every key', () => {
+    for (const mode of ALL_MODES) {
+      for (const tonic of ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'] as const) {
+        const letters = spellScale({ tonic, mode }).map(note => note[0]);
+        expect(new Set(letters).size).toBe(7);
+      }
+    }
+  });
+
+  it('spells notes for a key', () => {
+    expect(spellNoteInKey('D#', 'Bb')).toBe('Eb');
+    expect(spellNoteInKey('F', 'F#')).toBe('E#');
+    expect(spellNoteInKey('C#', 'F')).toBe('Db'); // Chromatic: key preference
+    expect(spellNoteInKey('D#')).toBe('D#');
+  });
+
+  it('spells chord tones from the root letter', () => {
+    expect(spellChord('D#', 'major', 'Bb')).toEqual(['Eb', 'G', 'Bb']);
+    expect(spellChord('B', 'major', 'Gb')).toEqual(['Cb', 'Eb', 'Gb']);
+    expect(spellChord('G', 'dim7')).toEqual(['G', 'Bb', 'Db', 'Fb']);
+    expect(spellChord('E', 'dominant7#9')).toEqual(['E', 'G#', 'B', 'D', 'F##']);
+    expect(spellChord('G#', 'augmented')).toEqual(['G#', 'B#', 'D##']);
+  });
+
+  it('spells bass notes to match the chord', () => {
+    expect(spellBassNote('D', 'A#', 'major', 'F')).toBe('D');
+    expect(spellBassNote('G#', 'E', 'major', 'C')).toBe('G#');
+    expect(spellBassNote('A#', 'C', 'major', 'F')).toBe('Bb');
+  });
+});
@@ -7,7 +7,10 @@ import type {
   Key,
   KeyId,
   KeyRelationships,
+  Mode,
   RomanNumeral,
+  SpelledNote,
+  TriadFamily,
 } from '../types/music';
 
 // ============================================================================
@@ -68,6 +71,98 @@ export const MINOR_ROMAN_NUMERALS: RomanNumeral[] = [
   'i', 'ii°', 'III', 'iv', 'v', 'VI', 'VII'
 ];
 
+// Scale intervals for every supported mode
+// Church modes are numbered against the parallel major (D Dorian: i ii bIII IV ...);
+// minor, harmonic minor and melodic minor follow the natural-minor convention (III, VI, VII)
+export const MODE_SCALE_INTERVALS: Record<Mode, number[]> = {
+  'major': MAJOR_SCALE_INTERVALS,
+  'minor': MINOR_SCALE_INTERVALS,
+  'dorian': [0, 2, 3, 5, 7, 9, 10],
+  'phrygian': [0, 1, 3, 5, 7, 8, 10],
+  'lydian': [0, 2, 4, 6, 7, 9, 11],
+  'mixolydian': [0, 2, 4, 5, 7, 9, 10],
+  'locrian': [0, 1, 3, 5, 6, 8, 10],
+  'harmonic-minor': [0, 2, 3, 5, 7, 8, 11],
+  'melodic-minor': [0, 2, 3, 5, 7, 9, 11]
+};
+
+// Diatonic triad qualities for every supported mode
+export const MODE_CHORD_QUALITIES: Record<Mode, ChordQuality[]> = {
+  'major': MAJOR_CHORD_QUALITIES,
+  'minor': MINOR_CHORD_QUALITIES,
+  'dorian': ['minor', 'minor', 'major', 'major', 'minor', 'diminished', 'major'],
+  'phrygian': ['minor', 'major', 'major', 'minor', 'diminished', 'major', 'minor'],
+  'lydian': ['major', 'major', 'minor', 'diminished', 'major', 'minor', 'minor'],
+  'mixolydian': ['major', 'minor', 'diminished', 'major', 'minor', 'minor', 'major'],
+  'locrian': ['diminished', 'major', 'minor', 'minor', 'major', 'major', 'minor'],
+  'harmonic-minor': ['minor', 'diminished', 'augmented', 'minor', 'major', 'major', 'diminished'],
+  'melodic-minor': ['minor', 'minor', 'augmented', 'major', 'major', 'diminished', 'diminished']
+};
+
+// Roman numerals for every supported mode
+export const MODE_ROMAN_NUMERALS: Record<Mode, RomanNumeral[]> = {
+  'major': MAJOR_ROMAN_NUMERALS,
+  'minor': MINOR_ROMAN_NUMERALS,
+  'dorian': ['i', 'ii', 'bIII', 'IV', 'v', 'vi°', 'bVII'],
+  'phrygian': ['i', 'bII', 'bIII', 'iv', 'v°', 'bVI', 'bvii'],
+  'lydian': ['I', 'II', 'iii', '#iv°', 'V', 'vi', 'vii'],
+  'mixolydian': ['I', 'ii', 'iii°', 'IV', 'v', 'vi', 'bVII'],
+  'locrian': ['i°', 'bII', 'biii', 'iv', 'bV', 'bVI', 'bvii'],
+  'harmonic-minor': ['i', 'ii°', 'III+', 'iv', 'V', 'VI', 'vii°'],
+  'melodic-minor': ['i', 'ii', 'III+', 'IV', 'V', 'vi°', 'vii°']
+};
+
+// Harmonic function of each scale degree, per mode
+const MODE_CHORD_FUNCTIONS: Record<Mode, ChordFunction[]> = {
+  // I, ii, iii and vi share tones with I; vii° has dominant function
+  'major': ['tonic', 'predominant', 'tonic-substitute', 'subdominant', 'dominant', 'tonic-substitute', 'dominant'],
+  // III (relative major) substitutes for i; VI and VII lean subdominant
+  'minor': ['tonic', 'predominant', 'tonic-substitute', 'subdominant', 'dominant', 'subdominant', 'subdominant'],
+  // The major IV is Dorian's characteristic chord
+  'dorian': ['tonic', 'predominant', 'tonic-substitute', 'subdominant', 'dominant', 'predominant', 'subdominant'],
+  // bII -> i is the Phrygian cadence, so bII carries the dominant role
+  'phrygian': ['tonic', 'dominant', 'tonic-substitute', 'subdominant', 'predominant', 'subdominant', 'dominant'],
+  // The major II (raised 4th) is Lydian's characteristic chord
+  'lydian': ['tonic', 'subdominant', 'tonic-substitute', 'predominant', 'dominant', 'tonic-substitute', 'dominant'],
+  // bVII -> I replaces V -> I in Mixolydian
+  'mixolydian': ['tonic', 'predominant', 'dominant', 'subdominant', 'dominant', 'tonic-substitute', 'subdominant'],
+  'locrian': ['tonic', 'dominant', 'tonic-substitute', 'subdominant', 'predominant', 'subdominant', 'dominant'],
+  'harmonic-minor': ['tonic', 'predominant', 'tonic-substitute', 'subdominant', 'dominant', 'subdominant', 'dominant'],
+  'melodic-minor': ['tonic', 'predominant', 'tonic-substitute', 'subdominant', 'dominant', 'predominant', 'dominant']
+};
+
+// Semitones from the parent major scale's tonic to the mode's tonic
+// (D Dorian sits 2 semitones above its parent, C major, and shares its key signature)
+const MODE_PARENT_OFFSETS: Record<Mode, number> = {
+  'major': 0,
+  'dorian': 2,
+  'phrygian': 4,
+  'lydian': 5,
+  'mixolydian': 7,
+  'minor': 9,
+  'locrian': 11,
+  'harmonic-minor': 9,
+  'melodic-minor': 9
+};
+
+// Human-readable mode names
+export const MODE_DISPLAY_NAMES: Record<Mode, string> = {
+  'major': 'major',
+  'minor': 'minor',
+  'dorian': 'Dorian',
+  'phrygian': 'Phrygian',
+  'lydian': 'Lydian',
+  'mixolydian': 'Mixolydian',
+  'locrian': 'Locrian',
+  'harmonic-minor': 'harmonic minor',
+  'melodic-minor': 'melodic minor'
+};
+
+// All supported modes, brightest to darkest church mode first, then minor variants
+export const ALL_MODES: Mode[] = [
+  'major', 'minor', 'lydian', 'mixolydian', 'dorian', 'phrygian', 'locrian', 'harmonic-minor', 'melodic-minor'
+];
+
 // Chord quality suffixes for display
 export const QUALITY_SUFFIXES: Record<ChordQuality, string> = {
   'major': '',
@@ -82,7 +177,20 @@ export const QUALITY_SUFFIXES: Record<ChordQuality, string> = {
   'sus2': 'sus2',
   'sus4': 'sus4',
   'add9': 'add9',
-  'power': '5'
+  'power': '5',
+  'major6': '6',
+  'minor6': 'm6',
+  'dominant9': '9',
+  'major9': 'maj9',
+  'minor9': 'm9',
+  'dominant11': '11',
+  'minor11': 'm11',
+  'dominant13': '13',
+  'add11': 'add11',
+  'dominant7sus4': '7sus4',
+  'dominant7b9': '7b9',
+  'dominant7#9': '7#9',
+  'minorMajor7': 'mMaj7'
 };
 
 // Chord intervals (semitones from root)
@@ -99,9 +207,76 @@ export const CHORD_INTERVALS: Record<ChordQuality, number[]> = {
   'sus2': [0, 2, 7],
   'sus4': [0, 5, 7],
   'add9': [0, 4, 7, 14],
-  'power': [0, 7]  // Root + 5th only (no 3rd)
+  'power': [0, 7],  // Root + 5th only (no 3rd)
+  'major6': [0, 4, 7, 9],
+  'minor6': [0, 3, 7, 9],
+  'dominant9': [0, 4, 7, 10, 14],
+  'major9': [0, 4, 7, 11, 14],
+  'minor9': [0, 3, 7, 10, 14],
+  'dominant11': [0, 4, 7, 10, 14, 17],
+  'minor11': [0, 3, 7, 10, 14, 17],
+  'dominant13': [0, 4, 7, 10, 14, 21],  // 11th omitted (clashes with the 3rd)
+  'add11': [0, 4, 7, 17],
+  'dominant7sus4': [0, 5, 7, 10],
+  'dominant7b9': [0, 4, 7, 10, 13],
+  'dominant7#9': [0, 4, 7, 10, 15],
+  'minorMajor7': [0, 3, 7, 11]
+};
+
+// Letter steps above the root for each chord tone (3rd = 2, 5th = 4, 9th = 1, 13th = 5)
+// Parallel to CHORD_INTERVALS; used to spell chord tones on the right letters
+const CHORD_DEGREES: Record<ChordQuality, number[]> = {
+  'major': [0, 2, 4],
+  'minor': [0, 2, 4],
+  'diminished': [0, 2, 4],
+  'augmented': [0, 2, 4],
+  'dominant7': [0, 2, 4, 6],
+  'major7': [0, 2, 4, 6],
+  'minor7': [0, 2, 4, 6],
+  'dim7': [0, 2, 4, 6],
+  'half-dim7': [0, 2, 4, 6],
+  'sus2': [0, 1, 4],
+  'sus4': [0, 3, 4],
+  'add9': [0, 2, 4, 1],
+  'power': [0, 4],
+  'major6': [0, 2, 4, 5],
+  'minor6': [0, 2, 4, 5],
+  'dominant9': [0, 2, 4, 6, 1],
+  'major9': [0, 2, 4, 6, 1],
+  'minor9': [0, 2, 4, 6, 1],
+  'dominant11': [0, 2, 4, 6, 1, 3],
+  'minor11': [0, 2, 4, 6, 1, 3],
+  'dominant13': [0, 2, 4, 6, 1, 5],
+  'add11': [0, 2, 4, 3],
+  'dominant7sus4': [0, 3, 4, 6],
+  'dominant7b9': [0, 2, 4, 6, 1],
+  'dominant7#9': [0, 2, 4, 6, 1],
+  'minorMajor7': [0, 2, 4, 6]
+};
+
+// Natural letters and their pitch classes, used for spelling
+const NOTE_LETTERS = ['C', 'D', 'E', 'F', 'G', 'A', 'B'];
+const LETTER_PITCH_CLASSES = [0, 2, 4, 5, 7, 9, 11];
+
+// Semitone offset from the natural letter for each accidental ("x" is a double sharp)
+const ACCIDENTAL_OFFSETS: Record<string, number> = {
+  'bb': -2, 'b': -1, '': 0, '#': 1, '##': 2, 'x': 2
 };
 
+// Accidental strings from -2 (double flat) to +2 (double sharp)
+const ACCIDENTALS_BY_OFFSET = ['bb', 'b', '', '#', '##'];
+
+// Qualities built on a minor triad (minor 3rd + perfect 5th)
+const MINOR_TRIAD_QUALITIES: ChordQuality[] = [
+  'minor', 'minor7', 'minor6', 'minor9', 'minor11', 'minorMajor7'
+];
+
+// Qualities that contain a major 3rd + minor 7th (dominant function)
+const DOMINANT_QUALITIES: ChordQuality[] = [
+  'dominant7', 'dominant9', 'dominant11', 'dominant13',
+  'dominant7sus4', 'dominant7b9', 'dominant7#9'
+];
+
 // ============================================================================
 // NOTE UTILITIES
 // ============================================================================
@@ -117,13 +292,28 @@ export function normalizeNoteName(note: NoteName): CanonicalNote {
  * Get the display name for a note based on key context
  */
 export function displayNoteName(note: CanonicalNote, keyContext?: string): NoteName {
-  const preference = keyContext ? KEY_DISPLAY_PREFERENCE[keyContext] ?? 'sharp' : 'sharp';
+  const preference = keyContext ? getDisplayPreference(keyContext) : 'sharp';
   if (preference === 'flat') {
     return SHARP_TO_FLAT[note];
   }
   return note;
 }
 
+/**
+ * Resolve sharp/flat preference for a key id
+ * Ids not listed directly ("A#", "D dorian") follow their parent major's signature
+ */
+function getDisplayPreference(keyContext: string): 'sharp' | 'flat' {
+  const direct = KEY_DISPLAY_PREFERENCE[keyContext];
+  if (direct) return direct;
+
+  const key = parseKeyId(keyContext);
+  if (!key.tonic) return 'sharp';
+
+  const parent = getParentMajor(key);
+  return KEY_DISPLAY_PREFERENCE[parent] ?? KEY_DISPLAY_PREFERENCE[SHARP_TO_FLAT[parent]] ?? 'sharp';
+}
+
 /**
  * Transpose a note by a given number of semitones
  */
@@ -134,6 +324,14 @@ export function transposeNote(note: NoteName, semitones: number): CanonicalNote
   return CHROMATIC_NOTES[newIndex];
 }
 
+/**
+ * Name a MIDI note with its octave (60 -> "C4", 70 -> "Bb4" in flat keys)
+ */
+export function midiToNoteName(midi: number, keyContext?: string): string {
+  const note = CHROMATIC_NOTES[((midi % 12) + 12) % 12];
+  return `${displayNoteName(note, keyContext)}${Math.floor(midi / 12) - 1}`;
+}
+
 /**
  * Get the interval (in semitones) between two notes
  */
@@ -157,7 +355,9 @@ export function formatChordName(
   keyContext?: string,
   bassNote?: NoteName
 ): string {
-  const displayRoot = displayNoteName(normalizeNoteName(root), keyContext);
+  const displayRoot = keyContext
+    ? spellChordRoot(root, quality, keyContext)
+    : displayNoteName(normalizeNoteName(root));
   let name = displayRoot + QUALITY_SUFFIXES[quality];
 
   if (bassNote) {
@@ -165,7 +365,9 @@ export function formatChordName(
     const canonicalRoot = normalizeNoteName(root);
     // Only add slash notation if bass differs from root
     if (canonicalBass !== canonicalRoot) {
-      const displayBass = displayNoteName(canonicalBass, keyContext);
+      const displayBass = keyContext
+        ? spellBassNote(canonicalBass, root, quality, keyContext)
+        : displayNoteName(canonicalBass);
       name += '/' + displayBass;
     }
   }
@@ -181,6 +383,35 @@ export function buildChordNotes(root: NoteName, quality: ChordQuality): Canonica
   return intervals.map(interval => transposeNote(root, interval));
 }
 
+/**
+ * Check if a chord quality is built on a minor triad (m, m7, m9, mMaj7, ...)
+ */
+export function isMinorQuality(quality: ChordQuality): boolean {
+  return MINOR_TRIAD_QUALITIES.includes(quality);
+}
+
+/**
+ * Check if a chord quality is a dominant-type chord (7, 9, 13, 7sus4, 7b9, ...)
+ */
+export function isDominantQuality(quality: ChordQuality): boolean {
+  return DOMINANT_QUALITIES.includes(quality);
+}
+
+/**
+ * Get the triad a chord quality is built on (dominant7 -> major, half-dim7 -> diminished)
+ */
+export function getTriadFamily(quality: ChordQuality): TriadFamily {
+  // Tones above the octave are tensions (the #9 of 7#9 is not a minor third)
+  const intervals = CHORD_INTERVALS[quality].filter(interval => interval < 12);
+  if (intervals.includes(4)) {
+    return intervals.includes(8) && !intervals.includes(7) ? 'augmented' : 'major';
+  }
+  if (intervals.includes(3)) {
+    return intervals.includes(6) && !intervals.includes(7) ? 'diminished' : 'minor';
+  }
+  return 'other';
+}
+
 /**
  * Create a Chord object
  * If bassNote is provided, creates a slash chord (e.g., C/E for C major with E in bass)
@@ -215,30 +446,8 @@ export function createChord(
 /**
  * Get the chord function based on scale degree
  */
-export function getChordFunction(scaleDegree: number, mode: 'major' | 'minor'): ChordFunction {
-  if (mode === 'major') {
-    switch (scaleDegree) {
-      case 0: return 'tonic';            // I - the actual tonic
-      case 1: return 'predominant';      // ii
-      case 2: return 'tonic-substitute'; // iii - shares tones with I, can substitute
-      case 3: return 'subdominant';      // IV
-      case 4: return 'dominant';         // V
-      case 5: return 'tonic-substitute'; // vi - shares tones with I, can substitute
-      case 6: return 'dominant';         // vii° (dominant function)
-      default: return 'tonic';
-    }
-  } else {
-    switch (scaleDegree) {
-      case 0: return 'tonic';            // i - the actual tonic
-      case 1: return 'predominant';      // ii°
-      case 2: return 'tonic-substitute'; // III (relative major) - shares tones with i
-      case 3: return 'subdominant';      // iv
-      case 4: return 'dominant';         // v
-      case 5: return 'subdominant';      // VI
-      case 6: return 'subdominant';      // VII
-      default: return 'tonic';
-    }
-  }
+export function getChordFunction(scaleDegree: number, mode: Mode): ChordFunction {
+  return MODE_CHORD_FUNCTIONS[mode][scaleDegree] ?? 'tonic';
 }
 
 // ============================================================================
@@ -249,13 +458,24 @@ export function getChordFunction(scaleDegree: number, mode: 'major' | 'minor'):
  * Get the key identifier string
  */
 export function getKeyId(key: Key): KeyId {
-  return key.mode === 'minor' ? `${key.tonic}m` : key.tonic;
+  if (key.mode === 'major') return key.tonic;
+  if (key.mode === 'minor') return `${key.tonic}m`;
+  return `${key.tonic} ${key.mode}`;
 }
 
 /**
  * Parse a key identifier string into a Key object
+ * Accepts "C", "Am" and modal ids such as "D dorian"
  */
 export function parseKeyId(keyId: KeyId): Key {
+  const [tonicPart, modePart] = keyId.split(' ');
+  if (modePart && modePart in MODE_SCALE_INTERVALS) {
+    return {
+      tonic: normalizeNoteName(tonicPart as NoteName),
+      mode: modePart as Mode
+    };
+  }
+
   const isMinor = keyId.endsWith('m') && keyId.length > 1;
   const tonic = isMinor ? keyId.slice(0, -1) : keyId;
   return {
@@ -268,9 +488,9 @@ export function parseKeyId(keyId: KeyId): Key {
  * Get all diatonic chords for a key
  */
 export function getDiatonicChords(key: Key): Chord[] {
-  const intervals = key.mode === 'major' ? MAJOR_SCALE_INTERVALS : MINOR_SCALE_INTERVALS;
-  const qualities = key.mode === 'major' ? MAJOR_CHORD_QUALITIES : MINOR_CHORD_QUALITIES;
-  const romanNumerals = key.mode === 'major' ? MAJOR_ROMAN_NUMERALS : MINOR_ROMAN_NUMERALS;
+  const intervals = MODE_SCALE_INTERVALS[key.mode];
+  const qualities = MODE_CHORD_QUALITIES[key.mode];
+  const romanNumerals = MODE_ROMAN_NUMERALS[key.mode];
   const keyContext = getKeyId(key);
 
   return intervals.map((interval, index) => {
@@ -317,10 +537,48 @@ export function getSubdominant(tonic: NoteName): CanonicalNote {
   return transposeNote(tonic, 5);
 }
 
+/**
+ * Get the tonic of the major scale that shares a mode's notes (D Dorian -> C)
+ */
+export function getParentMajor(key: Key): CanonicalNote {
+  return transposeNote(key.tonic, -MODE_PARENT_OFFSETS[key.mode]);
+}
+
+/**
+ * Get the tonic of a mode built on a parent major scale (C + Dorian -> D)
+ */
+export function getModeTonic(parentMajor: NoteName, mode: Mode): CanonicalNote {
+  return transposeNote(parentMajor, MODE_PARENT_OFFSETS[mode]);
+}
+
+/**
+ * Check if a mode has a minor 3rd above its tonic (minor, Dorian, Phrygian, ...)
+ */
+export function isMinorMode(mode: Mode): boolean {
+  return MODE_SCALE_INTERVALS[mode][2] === 3;
+}
+
+/**
+ * Human-readable key name, e.g. "C major" or "D Dorian"
+ */
+export function formatKeyName(key: Key): string {
+  return `${displayNoteName(key.tonic, getKeyId(key))} ${MODE_DISPLAY_NAMES[key.mode]}`;
+}
+
 /**
  * Get all key relationships
  */
 export function getKeyRelationships(key: Key): KeyRelationships {
+  if (key.mode !== 'major' && key.mode !== 'minor') {
+    // Modes relate to their parent major and to the parallel major/minor
+    return {
+      relativeKey: getParentMajor(key),
+      parallelKey: isMinorMode(key.mode) ? key.tonic : `${key.tonic}m`,
+      dominantKey: getKeyId({ tonic: getDominant(key.tonic), mode: key.mode }),
+      subdominantKey: getKeyId({ tonic: getSubdominant(key.tonic), mode: key.mode })
+    };
+  }
+
   if (key.mode === 'major') {
     return {
       relativeKey: `${getRelativeMinor(key.tonic)}m`,
@@ -356,7 +614,7 @@ export function transposeKey(key: Key, semitones: number): Key {
  * Get all notes in a scale
  */
 export function getScaleNotes(key: Key): CanonicalNote[] {
-  const intervals = key.mode === 'major' ? MAJOR_SCALE_INTERVALS : MINOR_SCALE_INTERVALS;
+  const intervals = MODE_SCALE_INTERVALS[key.mode];
   return intervals.map(interval => transposeNote(key.tonic, interval));
 }
 
@@ -375,3 +633,126 @@ export function getScaleDegree(note: NoteName, key: Key): number {
   const scaleNotes = getScaleNotes(key);
   return scaleNotes.indexOf(normalizeNoteName(note));
 }
+
+// ============================================================================
+// ENHARMONIC SPELLING
+// ============================================================================
+
+/**
+ * Spell a pitch on a given letter, e.g. ('B', 'C') -> "Cb", ('G', 'F') -> "F##"
+ * Falls back to the canonical name if the letter is more than two semitones away
+ */
+export function spellPitch(note: CanonicalNote, letter: string): SpelledNote {
+  const letterIndex = NOTE_LETTERS.indexOf(letter);
+  const target = CHROMATIC_NOTES.indexOf(note);
+  let offset = (target - LETTER_PITCH_CLASSES[letterIndex] + 12) % 12;
+  if (offset > 6) offset -= 12;
+
+  const accidental = ACCIDENTALS_BY_OFFSET[offset + 2];
+  return accidental === undefined ? note : letter + accidental;
+}
+
+/**
+ * Convert any spelling (including "Cb", "E#", "F##", "Bbb") to its canonical note
+ * Returns null if the text is not a note name
+ */
+export function parseSpelledNote(spelled: string): CanonicalNote | null {
+  const match = spelled.match(/^([A-G])(##|#|x|bb|b)?$/);
+  if (!match) return null;
+
+  const pitch = LETTER_PITCH_CLASSES[NOTE_LETTERS.indexOf(match[1])] + ACCIDENTAL_OFFSETS[match[2] ?? ''];
+  return CHROMATIC_NOTES[(pitch + 12) % 12];
+}
+
+/**
+ * Spell a scale with one note per letter
+ * e.g. Gb major -> Gb Ab Bb Cb Db Eb F, G# harmonic minor -> ... F##
+ * keyContext picks the tonic spelling ("Gb" vs "F#"); defaults to the key's id
+ */
+export function spellScale(key: Key, keyContext: string = getKeyId(key)): SpelledNote[] {
+  const tonicLetter = displayNoteName(key.tonic, keyContext)[0];
+  const tonicIndex = NOTE_LETTERS.indexOf(tonicLetter);
+
+  return getScaleNotes(key).map((note, i) =>
+    spellPitch(note, NOTE_LETTERS[(tonicIndex + i) % 7])
+  );
+}
+
+/**
+ * Spell a single note for a key: diatonic notes take their scale spelling,
+ * chromatic notes follow the key's sharp/flat preference
+ */
+export function spellNoteInKey(note: CanonicalNote, keyContext?: string): SpelledNote {
+  if (!keyContext) return note;
+
+  const key = parseKeyId(keyContext);
+  const degree = getScaleDegree(note, key);
+  return degree >= 0 ? spellScale(key, keyContext)[degree] : displayNoteName(note, keyContext);
+}
+
+// Count accidentals in a set of spellings (double accidentals count twice)
+function countAccidentals(notes: SpelledNote[]): number {
+  return notes.reduce((total, note) => total + note.length - 1, 0);
+}
+
+// Spell chord tones upward from an already-spelled root
+function spellChordFrom(root: SpelledNote, quality: ChordQuality): SpelledNote[] {
+  const rootIndex = NOTE_LETTERS.indexOf(root[0]);
+  const notes = buildChordNotes(parseSpelledNote(root) as CanonicalNote, quality);
+  return notes.map((note, i) =>
+    spellPitch(note, NOTE_LETTERS[(rootIndex + CHORD_DEGREES[quality][i]) % 7])
+  );
+}
+
+/**
+ * Spell a chord root for a key
+ * Diatonic roots take their scale spelling; chromatic roots take whichever
+ * enharmonic spelling gives the chord the fewest accidentals (Ab, not G#, in C)
+ */
+export function spellChordRoot(root: NoteName, quality: ChordQuality, keyContext?: string): SpelledNote {
+  if (!keyContext) return root;
+
+  const canonical = normalizeNoteName(root);
+  const key = parseKeyId(keyContext);
+  const degree = getScaleDegree(canonical, key);
+  if (degree >= 0) return spellScale(key, keyContext)[degree];
+
+  const preferred = displayNoteName(canonical, keyContext);
+  const alternative = preferred === canonical ? SHARP_TO_FLAT[canonical] : canonical;
+  if (alternative === preferred) return preferred;
+
+  return countAccidentals(spellChordFrom(alternative, quality)) < countAccidentals(spellChordFrom(preferred, quality))
+    ? alternative
+    : preferred;
+}
+
+/**
+ * Spell a chord's tones from its root's letter, e.g. Eb major in Bb -> Eb G Bb
+ */
+export function spellChord(root: NoteName, quality: ChordQuality, keyContext?: string): SpelledNote[] {
+  return spellChordFrom(spellChordRoot(root, quality, keyContext), quality);
+}
+
+// Letter steps above the root for a bass that is not a chord tone, by semitones
+// (b9, 9, b3, 3, 4, #4, 5, b6, 6, b7, 7)
+const BASS_DEGREES = [0, 1, 1, 2, 2, 3, 3, 4, 5, 5, 6, 6];
+
+/**
+ * Spell a slash-chord bass note: chord tones match the chord's spelling,
+ * other bass notes are spelled by their interval above the root (C/Bb, D/C)
+ */
+export function spellBassNote(
+  bassNote: NoteName,
+  root: NoteName,
+  quality: ChordQuality,
+  keyContext?: string
+): SpelledNote {
+  const canonicalBass = normalizeNoteName(bassNote);
+  const toneIndex = buildChordNotes(root, quality).indexOf(canonicalBass);
+  if (toneIndex >= 0) return spellChord(root, quality, keyContext)[toneIndex];
+
+  const spelledRoot = spellChordRoot(root, quality, keyContext);
+  const rootIndex = NOTE_LETTERS.indexOf(spelledRoot[0]);
+  const letter = NOTE_LETTERS[(rootIndex + BASS_DEGREES[getInterval(root, canonicalBass)]) % 7];
+  return spellPitch(canonicalBass, letter);
+}
@@ -0,0 +1,172 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseRomanNumeral,
+  formatRomanNumeral,
+  getRomanNumeralChordQuality,
+  resolveRomanNumeral,
+  romanNumeralForChord,
+  withRomanNumeralQuality,
+  withRomanNumeralInversion,
+} from './romanNumerals';
+import { ALL_MODES, MODE_ROMAN_NUMERALS, getDiatonicChords, QUALITY_SUFFIXES, transposeNote } from './musicTheory';
+import type { ChordQuality, Key } from '../types/music';
+
+const C_MAJOR: Key = { tonic: 'C', mode: 'major' };
+const A_MINOR: Key = { tonic: 'A', mode: 'minor' };
+
+function resolve(text: string, key: Key) {
+  const parsed = parseRomanNumeral(text);
+  return parsed && resolveRomanNumeral(parsed, key);
+}
+
+describe('parseRomanNumeral', () => {
+  it('parses degree, accidental and quality', () => {
+    expect(parseRomanNumeral('bVII')).toEqual({ degree: 7, accidental: -1, quality: 'major', inversion: 0 });
+    expect(parseRomanNumeral('#iv°')).toEqual({ degree: 4, accidental: 1, quality: 'diminished', inversion: 0 });
+    expect(parseRomanNumeral('III+')).toEqual({ degree: 3, accidental: 0, quality: 'augmented', inversion: 0 });
+  });
+
+  it('parses extensions and inversion figures', () => {
+    expect(parseRomanNumeral('V7')).toMatchObject({ extension: '7', inversion: 0 });
+    expect(parseRomanNumeral('V65')).toMatchObject({ extension: '7', inversion: 1 });
+    expect(parseRomanNumeral('V42')).toMatchObject({ extension: '7', inversion: 3 });
+    expect(parseRomanNumeral('I64')).toMatchObject({ inversion: 2 });
+    expect(parseRomanNumeral('viiø7')).toMatchObject({ quality: 'half-diminished', extension: '7' });
+    expect(parseRomanNumeral('Imaj7')).toMatchObject({ extension: 'maj7' });
+  });
+
+  it('parses secondary targets', () => {
+    const parsed = parseRomanNumeral('vii°7/V');
+    expect(parsed?.of).toEqual({ degree: 5, accidental: 0, quality: 'major', inversion: 0 });
+    expect(parseRomanNumeral('V/V/V')?.of?.of?.degree).toBe(5);
+  });
+
+  it('parses the Neapolitan sixth', () => {
+    expect(parseRomanNumeral('N6')).toEqual({ degree: 2, accidental: -1, quality: 'major', inversion: 1 });
+  });
+
+  it('rejects invalid numerals', () => {
+    expect(parseRomanNumeral('X')).toBeNull();
+    expect(parseRomanNumeral('V/')).toBeNull();
+    expect(parseRomanNumeral('V+7')).toBeNull();
+    expect(parseRomanNumeral('Vxyz')).toBeNull();
+  });
+
+  it('round-trips through formatRomanNumeral', () => {
+    for (const text of ['I', 'ii', 'V7', 'V65', 'vii°7/V', 'viiø7', 'bVII7', 'N6', 'I64', 'V43/ii', 'iisus4', 'III+', 'Imaj7', 'imaj7']) {
+      const parsed = parseRomanNumeral(text);
+      expect(parsed && formatRomanNumeral(parsed)).toBe(text);
+    }
+  });
+
+  it('parses every numeral in the mode tables', () => {
+    for (const mode of ALL_MODES) {
+      for (const numeral of MODE_ROMAN_NUMERALS[mode]) {
+        expect(parseRomanNumeral(numeral), numeral).not.toBeNull();
+      }
+    }
+  });
+});
+
+describe('getRomanNumeralChordQuality', () => {
+  it('maps numerals to chord qualities', () => {
+    const quality = (text: string) => getRomanNumeralChordQuality(parseRomanNumeral(text)!);
+    expect(quality('V7')).toBe('dominant7');
+    expect(quality('ii7')).toBe('minor7');
+    expect(quality('vii°7')).toBe('dim7');
+    expect(quality('viiø7')).toBe('half-dim7');
+    expect(quality('imaj7')).toBe('minorMajor7');
+    expect(quality('Vsus4')).toBe('sus4');
+  });
+});
+
+describe('resolveRomanNumeral', () => {
+  it('resolves diatonic and borrowed numerals', () => {
+    expect(resolve('V7', C_MAJOR)).toMatchObject({ root: 'G', quality: 'dominant7' });
+    expect(resolve('bVII', C_MAJOR)).toMatchObject({ root: 'A#', quality: 'major' });
+    expect(resolve('bVI', A_MINOR)).toMatchObject({ root: 'F', quality: 'major' });
+  });
+
+  it('uses the minor scale for unaltered degrees in minor keys', () => {
+    expect(resolve('VII', A_MINOR)).toMatchObject({ root: 'G' });
+    expect(resolve('III', A_MINOR)).toMatchObject({ root: 'C' });
+    expect(resolve('vii°', A_MINOR)).toMatchObject({ root: 'G#' });
+  });
+
+  it('resolves secondary chords in the target key', () => {
+    expect(resolve('V/V', C_MAJOR)).toMatchObject({ root: 'D', quality: 'major' });
+    expect(resolve('vii°7/V', C_MAJOR)).toMatchObject({ root: 'F#', quality: 'dim7' });
+    expect(resolve('V7/vi', C_MAJOR)).toMatchObject({ root: 'E', quality: 'dominant7' });
+    expect(resolve('vii°/vi', C_MAJOR)).toMatchObject({ root: 'G#' });
+    expect(resolve('V/V/V', C_MAJOR)).toMatchObject({ root: 'A' });
+    expect(resolve('V/vii°', C_MAJOR)).toBeNull();
+  });
+
+  it('resolves inversions to a bass note', () => {
+    expect(resolve('N6', A_MINOR)).toMatchObject({ root: 'A#', quality: 'major', bassNote: 'D' });
+    expect(resolve('I64', C_MAJOR)).toMatchObject({ root: 'C', bassNote: 'G' });
+    expect(resolve('V42', C_MAJOR)).toMatchObject({ root: 'G', bassNote: 'F' });
+  });
+});
+
+describe('romanNumeralForChord', () => {
+  it('labels diatonic chords to match the mode tables', () => {
+    for (const mode of ALL_MODES) {
+      const key: Key = { tonic: 'D', mode };
+      getDiatonicChords(key).forEach((chord, i) => {
+        expect(romanNumeralForChord(chord, key)).toBe(MODE_ROMAN_NUMERALS[mode][i]);
+      });
+    }
+  });
+
+  it('labels chromatic chords, extensions and inversions', () => {
+    expect(romanNumeralForChord({ root: 'A#', quality: 'major' }, C_MAJOR)).toBe('bVII');
+    expect(romanNumeralForChord({ root: 'F#', quality: 'diminished' }, C_MAJOR)).toBe('#iv°');
+    expect(romanNumeralForChord({ root: 'G', quality: 'dominant7', bassNote: 'B' }, C_MAJOR)).toBe('V65');
+    expect(romanNumeralForChord({ root: 'E', quality: 'major' }, A_MINOR)).toBe('V');
+    expect(romanNumeralForChord({ root: 'D', quality: 'sus4' }, C_MAJOR)).toBe('iisus4');
+  });
+
+  it('labels the raised third and sixth in minor', () => {
+    expect(romanNumeralForChord({ root: 'F#', quality: 'minor' }, A_MINOR)).toBe('#vi');
+    expect(romanNumeralForChord({ root: 'F#', quality: 'major' }, A_MINOR)).toBe('#VI');
+    expect(romanNumeralForChord({ root: 'C#', quality: 'major' }, A_MINOR)).toBe('#III');
+    expect(romanNumeralForChord({ root: 'C#', quality: 'minor' }, A_MINOR)).toBe('#iii');
+    expect(resolve('#vi', A_MINOR)).toMatchObject({ root: 'F#', quality: 'minor' });
+    expect(resolve('bVI', A_MINOR)).toMatchObject({ root: 'F', quality: 'major' });
+  });
+
+  it('round-trips a chord on every root in every mode', () => {
+    for (const mode of ALL_MODES) {
+      const key: Key = { tonic: 'A', mode };
+      for (let interval = 0; interval < 12; interval++) {
+        const root = transposeNote('A', interval);
+        for (const quality of ['major', 'minor'] as ChordQuality[]) {
+          const numeral = romanNumeralForChord({ root, quality }, key);
+          expect(resolve(numeral, key), `${root} ${quality} in ${mode}: ${numeral}`).toMatchObject({ root, quality });
+        }
+      }
+    }
+  });
+
+  it('round-trips every chord quality through resolveRomanNumeral', () => {
+    for (const quality of Object.keys(QUALITY_SUFFIXES) as ChordQuality[]) {
+      const numeral = romanNumeralForChord({ root: 'E', quality }, C_MAJOR);
+      expect(resolve(numeral, C_MAJOR), numeral).toMatchObject({ root: 'E', quality });
+    }
+  });
+});
+
+describe('numeral rewriting', () => {
+  it('rewrites quality and keeps the target', () => {
+    expect(withRomanNumeralQuality('V', 'dominant7')).toBe('V7');
+    expect(withRomanNumeralQuality('V/ii', 'dominant7')).toBe('V7/ii');
+    expect(withRomanNumeralQuality('vii°', 'half-dim7')).toBe('viiø7');
+  });
+
+  it('rewrites inversion figures', () => {
+    expect(withRomanNumeralInversion('I', 1)).toBe('I6');
+    expect(withRomanNumeralInversion('V7', 2)).toBe('V43');
+    expect(withRomanNumeralInversion('not a numeral', 1)).toBe('not a numeral');
+  });
+});
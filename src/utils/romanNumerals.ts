@@ -0,0 +1,320 @@
+import type {
+  CanonicalNote,
+  Chord,
+  ChordQuality,
+  Key,
+  Mode,
+  ParsedRomanNumeral,
+  RomanNumeral,
+  RomanNumeralExtension,
+  RomanNumeralQuality,
+} from '../types/music';
+import {
+  MODE_SCALE_INTERVALS,
+  MODE_CHORD_QUALITIES,
+  transposeNote,
+  getInterval,
+  buildChordNotes,
+} from './musicTheory';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const NUMERALS = ['I', 'II', 'III', 'IV', 'V', 'VI', 'VII'];
+
+// Figured-bass suffixes by inversion
+const TRIAD_FIGURES = ['', '6', '64'];
+const SEVENTH_FIGURES = ['7', '65', '43', '42'];
+
+const QUALITY_MARKS: Record<RomanNumeralQuality, string> = {
+  'major': '',
+  'minor': '',
+  'diminished': '°',
+  'half-diminished': 'ø',
+  'augmented': '+',
+};
+
+// Extensions that take no figures (always written in root position)
+const PLAIN_EXTENSIONS: RomanNumeralExtension[] = [
+  'add6', '9', 'maj9', '11', '13', 'add9', 'add11', 'sus2', 'sus4', '7sus4', '7b9', '7#9', '5'
+];
+
+// How each chord quality is written as a numeral
+// A null quality keeps the degree's own case (no 3rd, or a suspended 3rd)
+const QUALITY_NUMERALS: Record<ChordQuality, { quality: RomanNumeralQuality | null; extension?: RomanNumeralExtension }> = {
+  'major': { quality: 'major' },
+  'minor': { quality: 'minor' },
+  'diminished': { quality: 'diminished' },
+  'augmented': { quality: 'augmented' },
+  'dominant7': { quality: 'major', extension: '7' },
+  'major7': { quality: 'major', extension: 'maj7' },
+  'minor7': { quality: 'minor', extension: '7' },
+  'dim7': { quality: 'diminished', extension: '7' },
+  'half-dim7': { quality: 'half-diminished', extension: '7' },
+  'sus2': { quality: null, extension: 'sus2' },
+  'sus4': { quality: null, extension: 'sus4' },
+  'add9': { quality: 'major', extension: 'add9' },
+  'power': { quality: null, extension: '5' },
+  'major6': { quality: 'major', extension: 'add6' },
+  'minor6': { quality: 'minor', extension: 'add6' },
+  'dominant9': { quality: 'major', extension: '9' },
+  'major9': { quality: 'major', extension: 'maj9' },
+  'minor9': { quality: 'minor', extension: '9' },
+  'dominant11': { quality: 'major', extension: '11' },
+  'minor11': { quality: 'minor', extension: '11' },
+  'dominant13': { quality: 'major', extension: '13' },
+  'add11': { quality: 'major', extension: 'add11' },
+  'dominant7sus4': { quality: null, extension: '7sus4' },
+  'dominant7b9': { quality: 'major', extension: '7b9' },
+  'dominant7#9': { quality: 'major', extension: '7#9' },
+  'minorMajor7': { quality: 'minor', extension: 'maj7' },
+};
+
+// Minor-family keys number unaltered degrees against their own scale (III, VI, VII)
+const MINOR_FAMILY_MODES: Mode[] = ['minor', 'harmonic-minor', 'melodic-minor'];
+
+const NUMERAL_PATTERN = /^([b#♭♯]?)(N|VII|VI|V|IV|III|II|I|vii|vi|v|iv|iii|ii|i)(°|o|ø|\+)?([^/]*)(?:\/(.+))?$/;
+
+// ============================================================================
+// PARSING AND RENDERING
+// ============================================================================
+
+// Read the extension and inversion figure after the numeral
+function parseTail(tail: string, halfDiminished: boolean): { extension?: RomanNumeralExtension; inversion: number } | null {
+  const seventh = tail.match(/^(maj)?(7|65|43|42|2)$/);
+  if (seventh) {
+    const inversion = seventh[2] === '2' ? 3 : SEVENTH_FIGURES.indexOf(seventh[2]);
+    return { extension: seventh[1] ? 'maj7' : '7', inversion };
+  }
+
+  const triadInversion = TRIAD_FIGURES.indexOf(tail);
+  if (triadInversion >= 0) {
+    // "ø" on its own is a half-diminished seventh
+    if (halfDiminished) return triadInversion === 0 ? { extension: '7', inversion: 0 } : null;
+    return { inversion: triadInversion };
+  }
+
+  if ((PLAIN_EXTENSIONS as string[]).includes(tail)) {
+    return { extension: tail as RomanNumeralExtension, inversion: 0 };
+  }
+
+  return null;
+}
+
+/**
+ * Parse a roman numeral such as "V7", "bVII", "vii°7/V", "N6", "I64" or "V65/ii"
+ * Returns null if the text is not a valid numeral
+ */
+export function parseRomanNumeral(text: RomanNumeral): ParsedRomanNumeral | null {
+  const match = text.trim().match(NUMERAL_PATTERN);
+  if (!match) return null;
+
+  const [, accidentalText, letters, mark = '', tail, targetText] = match;
+
+  let of: ParsedRomanNumeral | undefined;
+  if (targetText !== undefined) {
+    const target = parseRomanNumeral(targetText);
+    if (!target) return null;
+    of = target;
+  }
+
+  // Neapolitan: bII, usually in first inversion
+  if (letters === 'N') {
+    if (accidentalText || mark || (tail !== '' && tail !== '6')) return null;
+    return { degree: 2, accidental: -1, quality: 'major', inversion: tail === '6' ? 1 : 0, ...(of && { of }) };
+  }
+
+  const isUpper = letters === letters.toUpperCase();
+  let quality: RomanNumeralQuality = isUpper ? 'major' : 'minor';
+  if (mark === '°' || mark === 'o') quality = 'diminished';
+  if (mark === 'ø') quality = 'half-diminished';
+  if (mark === '+') quality = 'augmented';
+
+  const parsedTail = parseTail(tail, quality === 'half-diminished');
+  if (!parsedTail) return null;
+
+  const numeral: ParsedRomanNumeral = {
+    degree: NUMERALS.indexOf(letters.toUpperCase()) + 1,
+    accidental: accidentalText === 'b' || accidentalText === '♭' ? -1 : accidentalText ? 1 : 0,
+    quality,
+    inversion: parsedTail.inversion,
+  };
+  if (parsedTail.extension) numeral.extension = parsedTail.extension;
+  if (of) numeral.of = of;
+
+  // Reject combinations no chord quality matches (e.g. "V+7")
+  return getRomanNumeralChordQuality(numeral) ? numeral : null;
+}
+
+/**
+ * Render a structured roman numeral as text
+ */
+export function formatRomanNumeral(numeral: ParsedRomanNumeral): RomanNumeral {
+  const target = numeral.of ? '/' + formatRomanNumeral(numeral.of) : '';
+
+  const isNeapolitanSixth = numeral.degree === 2 && numeral.accidental === -1 &&
+    numeral.quality === 'major' && !numeral.extension && numeral.inversion === 1;
+  if (isNeapolitanSixth) return 'N6' + target;
+
+  const accidental = numeral.accidental < 0 ? 'b' : numeral.accidental > 0 ? '#' : '';
+  const upper = numeral.quality === 'major' || numeral.quality === 'augmented';
+  const letters = upper ? NUMERALS[numeral.degree - 1] : NUMERALS[numeral.degree - 1].toLowerCase();
+
+  let tail: string;
+  if (numeral.extension === '7' || numeral.extension === 'maj7') {
+    const prefix = numeral.extension === 'maj7' ? 'maj' : '';
+    tail = prefix + (SEVENTH_FIGURES[numeral.inversion] ?? '7');
+  } else if (numeral.extension) {
+    tail = numeral.extension;
+  } else {
+    tail = TRIAD_FIGURES[numeral.inversion] ?? '';
+  }
+
+  return accidental + letters + QUALITY_MARKS[numeral.quality] + tail + target;
+}
+
+/**
+ * Get the chord quality a numeral spells, or null if no quality matches
+ */
+export function getRomanNumeralChordQuality(numeral: ParsedRomanNumeral): ChordQuality | null {
+  const entry = (Object.keys(QUALITY_NUMERALS) as ChordQuality[]).find(quality => {
+    const written = QUALITY_NUMERALS[quality];
+    return written.extension === numeral.extension &&
+      (written.quality === null || written.quality === numeral.quality);
+  });
+  return entry ?? null;
+}
+
+// ============================================================================
+// KEY RESOLUTION
+// ============================================================================
+
+/**
+ * Semitones from the tonic to a numeral's root.
+ * Flats are relative to the major scale (bIII, bVI, bVII in any key).
+ * Unaltered degrees follow the major scale, except in minor-family keys where
+ * they follow the key's own scale (III, VI, VII); vi° and vii° still take the
+ * raised leading-tone forms there. Sharps raise the degree as the key has it,
+ * so #III, #vi and #VII in minor are the raised third, sixth and seventh.
+ */
+function getDegreeInterval(numeral: ParsedRomanNumeral, key: Key): number {
+  const index = numeral.degree - 1;
+  const majorInterval = MODE_SCALE_INTERVALS.major[index];
+  const isMinorFamily = MINOR_FAMILY_MODES.includes(key.mode);
+  if (numeral.accidental !== 0) {
+    const base = numeral.accidental > 0 && isMinorFamily ? MODE_SCALE_INTERVALS[key.mode][index] : majorInterval;
+    return (base + numeral.accidental + 12) % 12;
+  }
+
+  if (!isMinorFamily) return majorInterval;
+
+  const isLeadingTone = index >= 5 &&
+    (numeral.quality === 'diminished' || numeral.quality === 'half-diminished');
+  return isLeadingTone ? majorInterval : MODE_SCALE_INTERVALS[key.mode][index];
+}
+
+/**
+ * Resolve a numeral to a chord root, quality and bass note in a key.
+ * Secondary numerals (V/V) resolve in the key of their target; minor targets
+ * are tonicized as harmonic minor. Returns null for diminished targets,
+ * which cannot be tonicized.
+ */
+export function resolveRomanNumeral(
+  numeral: ParsedRomanNumeral,
+  key: Key
+): { root: CanonicalNote; quality: ChordQuality; bassNote?: CanonicalNote; key: Key } | null {
+  let localKey = key;
+  if (numeral.of) {
+    const target = resolveRomanNumeral(numeral.of, key);
+    const targetQuality = numeral.of.quality;
+    if (!target || targetQuality === 'diminished' || targetQuality === 'half-diminished') return null;
+    localKey = { tonic: target.root, mode: targetQuality === 'minor' ? 'harmonic-minor' : 'major' };
+  }
+
+  const quality = getRomanNumeralChordQuality(numeral);
+  if (!quality) return null;
+
+  const root = transposeNote(localKey.tonic, getDegreeInterval(numeral, localKey));
+  const resolved: { root: CanonicalNote; quality: ChordQuality; bassNote?: CanonicalNote; key: Key } = {
+    root,
+    quality,
+    key: localKey,
+  };
+
+  const bassNote = numeral.inversion > 0 ? buildChordNotes(root, quality)[numeral.inversion] : undefined;
+  if (bassNote) resolved.bassNote = bassNote;
+
+  return resolved;
+}
+
+/**
+ * Label a chord with its roman numeral in a key, including the inversion figure
+ * (e.g. Bb in C -> "bVII", G7/B in C -> "V65", Bdim in A minor -> "ii°")
+ */
+export function romanNumeralForChord(
+  chord: Pick<Chord, 'root' | 'quality' | 'bassNote'>,
+  key: Key
+): RomanNumeral {
+  const interval = getInterval(key.tonic, chord.root);
+  const written = QUALITY_NUMERALS[chord.quality];
+  const notes = buildChordNotes(chord.root, chord.quality);
+  const inversion = chord.bassNote ? Math.max(0, notes.indexOf(chord.bassNote)) : 0;
+
+  // Diminished chords read as raised leading tones (#iv°), others as flats (bVI)
+  const isLeadingTone = written.quality === 'diminished' || written.quality === 'half-diminished';
+  const degrees = [1, 2, 3, 4, 5, 6, 7];
+  const candidates = (isLeadingTone ? [0, 1, -1] : [0, -1, 1])
+    .flatMap(accidental => degrees.map(degree => ({ degree, accidental })));
+  // Minor-family keys first try the raised forms of the degrees they lower
+  // (#III, #vi in minor), before reading the chord as a flat of another degree
+  if (MINOR_FAMILY_MODES.includes(key.mode)) {
+    const lowered = degrees.filter(degree =>
+      MODE_SCALE_INTERVALS[key.mode][degree - 1] < MODE_SCALE_INTERVALS.major[degree - 1]
+    );
+    candidates.splice(degrees.length, 0, ...lowered.map(degree => ({ degree, accidental: 1 })));
+  }
+
+  for (const { degree, accidental } of candidates) {
+    // Case-neutral chords (sus, power) borrow the diatonic triad's case
+    const diatonicQuality = QUALITY_NUMERALS[MODE_CHORD_QUALITIES[key.mode][degree - 1]].quality;
+    const quality = written.quality ?? (accidental === 0 && diatonicQuality ? diatonicQuality : 'major');
+    const numeral: ParsedRomanNumeral = { degree, accidental, quality, inversion };
+    if (written.extension) numeral.extension = written.extension;
+
+    if (getDegreeInterval(numeral, key) === interval) {
+      return formatRomanNumeral(numeral);
+    }
+  }
+
+  // Every interval is one of the above in the supported scales; otherwise
+  // write it as a flat of the major-scale degree above
+  const above = MODE_SCALE_INTERVALS.major.findIndex(step => step > interval);
+  const degree = above === -1 ? 1 : above + 1;
+  return formatRomanNumeral({ degree, accidental: -1, quality: written.quality ?? 'major', inversion });
+}
+
+/**
+ * Rewrite a numeral for a new chord quality, keeping degree, inversion and target
+ * (e.g. "V" with dominant7 -> "V7", "ii" with sus4 -> "iisus4")
+ */
+export function withRomanNumeralQuality(numeral: RomanNumeral, quality: ChordQuality): RomanNumeral {
+  const parsed = parseRomanNumeral(numeral);
+  if (!parsed) return numeral;
+
+  const written = QUALITY_NUMERALS[quality];
+  const updated: ParsedRomanNumeral = { ...parsed, quality: written.quality ?? parsed.quality };
+  delete updated.extension;
+  if (written.extension) updated.extension = written.extension;
+
+  return formatRomanNumeral(updated);
+}
+
+/**
+ * Rewrite a numeral with an inversion figure (e.g. "V7" with 1 -> "V65")
+ */
+export function withRomanNumeralInversion(numeral: RomanNumeral, inversion: number): RomanNumeral {
+  const parsed = parseRomanNumeral(numeral);
+  if (!parsed) return numeral;
+  return formatRomanNumeral({ ...parsed, inversion });
+}
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { getPatternSimilarity, scoreMoodFit, scoreSong, scoreVoiceLeading } from './songScoring';
+import { chordFromSymbol } from './chordSymbols';
+import type { Key, MoodAnalysis, Song } from '../types/music';
+
+const C_MAJOR: Key = { tonic: 'C', mode: 'major' };
+const songIn = (key: Key, symbols: string[], tempo = 100): Song => ({
+  id: symbols.join('-'),
+  key,
+  tempo,
+  sections: [{ id: 'verse', type: 'verse', name: 'Verse', chords: symbols.map(symbol => chordFromSymbol(symbol)) }],
+});
+
+const BRIGHT: MoodAnalysis = {
+  preferredMode: 'major',
+  energy: 'high',
+  tension: 'low',
+  brightness: 'bright',
+  tempoRange: { min: 110, max: 130 },
+  useSevenths: false,
+  useBorrowedChords: false,
+  useSuspensions: false,
+  useInversions: false,
+  pedalBassChance: 0,
+  preferredFunctions: ['tonic'],
+  positivity: 0.8,
+  intensity: 0.7,
+};
+
+describe('scoreMoodFit', () => {
+  it('prefers major chords at a tempo in range for a bright mood', () => {
+    const bright = scoreMoodFit(songIn(C_MAJOR, ['C', 'F', 'G', 'C'], 120), BRIGHT);
+    const dark = scoreMoodFit(songIn(C_MAJOR, ['Am', 'Dm', 'Em', 'Am'], 70), BRIGHT);
+    expect(bright).toBeGreaterThan(dark);
+  });
+});
+
+describe('scoreVoiceLeading', () => {
+  it('scores common-tone moves above leaps', () => {
+    const smooth = scoreVoiceLeading(songIn(C_MAJOR, ['C', 'Am', 'F', 'C']));
+    const jumpy = scoreVoiceLeading(songIn(C_MAJOR, ['C', 'F#', 'C', 'F#']));
+    expect(smooth).toBeGreaterThan(jumpy);
+  });
+});
+
+describe('pattern similarity and novelty', () => {
+  it('matches the same progression in another key', () => {
+    const inC = songIn(C_MAJOR, ['C', 'G', 'Am', 'F']);
+    const inG = songIn({ tonic: 'G', mode: 'major' }, ['G', 'D', 'Em', 'C']);
+    expect(getPatternSimilarity(inC, inG)).toBe(1);
+    expect(getPatternSimilarity(inC, songIn(C_MAJOR, ['Dm', 'E', 'Bdim', 'C']))).toBe(0);
+  });
+
+  it('finds nothing in common between songs without chord moves', () => {
+    const drone = songIn(C_MAJOR, ['C']);
+    expect(getPatternSimilarity(drone, drone)).toBe(0);
+  });
+
+  it('gives a song like another no novelty', () => {
+    const song = songIn(C_MAJOR, ['C', 'G', 'Am', 'F']);
+    expect(scoreSong(song, [song]).novelty).toBe(0);
+    expect(scoreSong(song).novelty).toBe(1);
+  });
+});
@@ -0,0 +1,150 @@
+import type { Chord, Key, MoodAnalysis, Song } from '../types/music';
+import { getInterval, getTriadFamily, isDominantQuality } from './musicTheory';
+import { getSectionKey } from './modulation';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** How well a song does on each measure, from 0 to 1 */
+export interface SongScores {
+  moodFit: number;      // Tempo, brightness, colour and tension against the mood
+  voiceLeading: number; // How little the chord tones move from chord to chord
+  novelty: number;      // How different the progressions are from the other songs
+  total: number;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const SCORE_WEIGHTS: Record<Exclude<keyof SongScores, 'total'>, number> = {
+  moodFit: 0.4,
+  voiceLeading: 0.3,
+  novelty: 0.3,
+};
+
+// Share of minor chords that suits each brightness
+const MINOR_SHARE: Record<MoodAnalysis['brightness'], number> = {
+  bright: 0.25,
+  neutral: 0.45,
+  dark: 0.65,
+};
+
+// Share of dominant and diminished chords that suits each tension
+const TENSE_SHARE: Record<MoodAnalysis['tension'], number> = {
+  low: 0.1,
+  medium: 0.2,
+  high: 0.35,
+};
+
+// Beats per minute outside the mood's range that costs the whole tempo score
+const TEMPO_TOLERANCE = 20;
+
+// Average semitones a chord tone moves that counts as no voice leading at all
+const MAX_SMOOTH_MOTION = 4;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function closeness(actual: number, target: number): number {
+  return Math.max(0, 1 - Math.abs(actual - target));
+}
+
+function share(chords: Chord[], test: (chord: Chord) => boolean): number {
+  return chords.length > 0 ? chords.filter(test).length / chords.length : 0;
+}
+
+// Sections are counted once however often they repeat
+function getDistinctSections(song: Song): { chords: Chord[]; key: Key }[] {
+  const seen = new Set<string>();
+  return song.sections.flatMap((section, index) => {
+    const id = section.chords.map(chord => chord.name).join(' ');
+    if (seen.has(id)) return [];
+    seen.add(id);
+    return [{ chords: section.chords, key: getSectionKey(song, index) }];
+  });
+}
+
+// Chord-to-chord moves in the key (so the same pattern in another key matches)
+function getPatternMoves(song: Song): Set<string> {
+  const moves = new Set<string>();
+  for (const { chords, key } of getDistinctSections(song)) {
+    const steps = chords.map(chord => `${getInterval(key.tonic, chord.root)}${getTriadFamily(chord.quality)}`);
+    steps.slice(1).forEach((step, i) => moves.add(`${steps[i]}-${step}`));
+  }
+  return moves;
+}
+
+// ============================================================================
+// SCORES
+// ============================================================================
+
+/**
+ * How well a song suits a mood: tempo in range and a share of minor,
+ * seventh and tense chords that matches the brightness, colour and tension
+ */
+export function scoreMoodFit(song: Song, analysis: MoodAnalysis | undefined = song.moodAnalysis): number {
+  if (!analysis) return 0;
+  const chords = song.sections.flatMap(section => section.chords);
+  const { min, max } = analysis.tempoRange;
+  const tempoMiss = Math.max(0, min - song.tempo, song.tempo - max);
+
+  const scores = [
+    Math.max(0, 1 - tempoMiss / TEMPO_TOLERANCE),
+    closeness(share(chords, chord => getTriadFamily(chord.quality) === 'minor'), MINOR_SHARE[analysis.brightness]),
+    closeness(share(chords, chord => chord.notes.length > 3), analysis.useSevenths ? 0.4 : 0.1),
+    closeness(
+      share(chords, chord => isDominantQuality(chord.quality) || getTriadFamily(chord.quality) === 'diminished'),
+      TENSE_SHARE[analysis.tension]
+    ),
+  ];
+  return scores.reduce((sum, score) => sum + score, 0) / scores.length;
+}
+
+/**
+ * How smoothly a song's chords connect: each tone of a chord is matched with
+ * the nearest tone of the one before, and small average moves score high
+ */
+export function scoreVoiceLeading(song: Song): number {
+  const moves: number[] = [];
+  for (const { chords } of getDistinctSections(song)) {
+    chords.slice(1).forEach((chord, i) => {
+      for (const note of chord.notes) {
+        const nearest = Math.min(...chords[i].notes.map(previous => {
+          const interval = getInterval(previous, note);
+          return Math.min(interval, 12 - interval);
+        }));
+        moves.push(nearest);
+      }
+    });
+  }
+  if (moves.length === 0) return 1;
+  const average = moves.reduce((sum, move) => sum + move, 0) / moves.length;
+  return Math.max(0, 1 - average / MAX_SMOOTH_MOTION);
+}
+
+/**
+ * How alike two songs' progressions are, from the chord-to-chord moves they
+ * share in their keys (0 for nothing in common, 1 for the same moves)
+ */
+export function getPatternSimilarity(a: Song, b: Song): number {
+  const movesA = getPatternMoves(a);
+  const movesB = getPatternMoves(b);
+  const shared = [...movesA].filter(move => movesB.has(move)).length;
+  const all = new Set([...movesA, ...movesB]).size;
+  return all > 0 ? shared / all : 0;
+}
+
+/**
+ * Score a song against its mood and a set of songs it is being compared with;
+ * novelty is measured against the closest of them
+ */
+export function scoreSong(song: Song, others: Song[] = []): SongScores {
+  const moodFit = scoreMoodFit(song);
+  const voiceLeading = scoreVoiceLeading(song);
+  const novelty = others.length > 0 ? 1 - Math.max(...others.map(other => getPatternSimilarity(song, other))) : 1;
+  const total = moodFit * SCORE_WEIGHTS.moodFit + voiceLeading * SCORE_WEIGHTS.voiceLeading + novelty * SCORE_WEIGHTS.novelty;
+  return { moodFit, voiceLeading, novelty, total };
+}
@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { getSubstitutions, applySubstitution } from './substitutions';
+import type { SubstitutionKind } from './substitutions';
+import { chords } from '../test/fixtures';
+import type { Key } from '../types/music';
+
+const C_MAJOR: Key = { tonic: 'C', mode: 'major' };
+
+function ofKind(kind: SubstitutionKind, symbols: string[], index: number, key: Key = C_MAJOR) {
+  return getSubstitutions(chords(symbols), index, key).filter(substitution => substitution.kind === kind);
+}
+
+describe('getSubstitutions', () => {
+  it('offers diatonic and borrowed replacements', () => {
+    const diatonic = ofKind('diatonic', ['C', 'F', 'G'], 1);
+    expect(diatonic).toHaveLength(6);
+    expect(diatonic.some(s => s.chords[0].name === 'F')).toBe(false);
+
+    const borrowed = ofKind('borrowed', ['C', 'F', 'G'], 1).map(s => s.label);
+    expect(borrowed).toEqual(expect.arrayContaining(['iv', 'bVI', 'bVII', 'bIII']));
+  });
+
+  it('offers a secondary dominant and ii-V into the next chord', () => {
+    const [dominant] = ofKind('secondary-dominant', ['C', 'F', 'Am'], 1);
+    expect(dominant.label).toBe('V7/vi');
+    expect(dominant.chords.map(chord => chord.name)).toEqual(['E7']);
+    expect(dominant.explanation).toMatch(/Am/);
+
+    const [approach] = ofKind('ii-v-approach', ['C', 'F', 'Am'], 1);
+    expect(approach.chords.map(chord => chord.name)).toEqual(['Bm7b5', 'E7']);
+  });
+
+  it('offers tritone substitutions', () => {
+    const [toTonic] = ofKind('tritone-sub', ['Dm7', 'G7', 'C'], 1);
+    expect(toTonic).toMatchObject({ label: 'subV7' });
+    expect(toTonic.chords[0].name).toBe('Db7');
+
+    const [toSupertonic] = ofKind('tritone-sub', ['C', 'A7', 'Dm'], 1);
+    expect(toSupertonic.label).toBe('subV7/ii');
+    expect(toSupertonic.chords[0].name).toBe('Eb7');
+  });
+
+  it('inserts passing diminished chords between whole steps', () => {
+    const [passing] = ofKind('diminished-passing', ['C', 'Dm', 'G'], 0);
+    expect(passing.placement).toBe('insert-after');
+    expect(passing.chords[0].name).toBe('C#dim7');
+    expect(ofKind('diminished-passing', ['C', 'F'], 0)).toEqual([]);
+  });
+
+  it('offers chromatic mediants that leave the key', () => {
+    const mediants = ofKind('chromatic-mediant', ['C', 'G'], 0).map(s => s.chords[0].name);
+    expect(mediants).toEqual(['Eb', 'E', 'Ab', 'A']);
+  });
+
+  it('wraps around to the first chord for the last slot', () => {
+    const [dominant] = ofKind('secondary-dominant', ['Am', 'F', 'C', 'G'], 3);
+    expect(dominant.label).toBe('V7/vi');
+  });
+});
+
+describe('applySubstitution', () => {
+  it('replaces or inserts chords', () => {
+    const progression = chords(['C', 'Dm', 'G']);
+    const [passing] = ofKind('diminished-passing', ['C', 'Dm', 'G'], 0);
+    expect(applySubstitution(progression, 0, passing).map(chord => chord.name)).toEqual(['C', 'C#dim7', 'Dm', 'G']);
+
+    const [approach] = ofKind('ii-v-approach', ['C', 'Dm', 'G'], 1);
+    expect(applySubstitution(progression, 1, approach).map(chord => chord.name)).toEqual(['C', 'Am7', 'D7', 'G']);
+  });
+});
@@ -0,0 +1,261 @@
+import type { Chord, ChordQuality, Key, Mode, Progression, SongSection, SubstitutionKind } from '../types/music';
+import {
+  createChord,
+  formatKeyName,
+  getDiatonicChords,
+  getInterval,
+  getKeyId,
+  getTriadFamily,
+  isMinorMode,
+  spellChordRoot,
+  spellPitch,
+  transposeNote,
+} from './musicTheory';
+import { formatChordSymbol } from './chordSymbols';
+import { analyzeChord } from './harmonicAnalysis';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type { SubstitutionKind };
+
+export interface ChordSubstitution {
+  kind: SubstitutionKind;
+  label: string;                       // Roman numeral label, e.g. "V7/vi"
+  explanation: string;                 // Why the substitution works
+  chords: Chord[];                     // One chord, or two for ii-V approaches
+  placement: 'replace' | 'insert-after'; // Replace the slot or pass between it and the next chord
+}
+
+export const SUBSTITUTION_KIND_LABELS: Record<SubstitutionKind, string> = {
+  'diatonic': 'Diatonic',
+  'borrowed': 'Borrowed',
+  'secondary-dominant': 'Secondary Dominant',
+  'ii-v-approach': 'ii–V Approach',
+  'tritone-sub': 'Tritone Sub',
+  'diminished-passing': 'Passing Diminished',
+  'chromatic-mediant': 'Chromatic Mediant',
+};
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+// Parallel modes offered as borrowing sources, per home mode family
+const MAJOR_BORROWING: Mode[] = ['minor', 'mixolydian'];
+const MINOR_BORROWING: Mode[] = ['major', 'dorian', 'harmonic-minor'];
+
+const NOTE_LETTERS = 'CDEFGAB';
+
+/**
+ * Build a chord labelled by the harmonic analysis in the key
+ */
+function labelledChord(root: Chord['root'], quality: ChordQuality, key: Key, next?: Chord): Chord {
+  const chord = createChord(root, quality, undefined, undefined, getKeyId(key));
+  const analysis = analyzeChord(chord, key, next);
+  return { ...chord, romanNumeral: analysis.romanNumeral, function: analysis.function };
+}
+
+function isSameChord(a: Chord, b: Chord): boolean {
+  return a.root === b.root && a.quality === b.quality;
+}
+
+// The chord a slot leads into; progressions loop, so the last slot leads to the first
+function getNextChord(chords: Chord[], index: number): Chord | undefined {
+  return chords.length > 1 ? chords[(index + 1) % chords.length] : undefined;
+}
+
+// Numeral of a target chord's triad (ii for Dm7), used in V/x labels
+function getTargetNumeral(target: Chord, key: Key): string | null {
+  const family = getTriadFamily(target.quality);
+  if (family !== 'major' && family !== 'minor') return null;
+  return analyzeChord(createChord(target.root, family), key).romanNumeral;
+}
+
+// ============================================================================
+// SUBSTITUTION FINDERS
+// ============================================================================
+
+function getDiatonicSubstitutions(current: Chord, key: Key): ChordSubstitution[] {
+  return getDiatonicChords(key)
+    .filter(chord => !isSameChord(chord, current))
+    .map(chord => ({
+      kind: 'diatonic' as const,
+      label: chord.romanNumeral ?? '',
+      explanation: `${chord.name} stays inside ${formatKeyName(key)}, so it changes the color without leaving the key.`,
+      chords: [chord],
+      placement: 'replace' as const,
+    }));
+}
+
+function getBorrowedSubstitutions(current: Chord, key: Key): ChordSubstitution[] {
+  const diatonic = getDiatonicChords(key);
+  const sources = isMinorMode(key.mode) ? MINOR_BORROWING : MAJOR_BORROWING;
+  const seen: Chord[] = [];
+
+  return sources
+    .filter(mode => mode !== key.mode)
+    .flatMap(mode => {
+      const parallel: Key = { tonic: key.tonic, mode };
+      return getDiatonicChords(parallel)
+        .filter(chord => !diatonic.some(d => isSameChord(d, chord)) && !isSameChord(chord, current))
+        .filter(chord => {
+          if (seen.some(s => isSameChord(s, chord))) return false;
+          seen.push(chord);
+          return true;
+        })
+        .map(chord => {
+          const borrowed = labelledChord(chord.root, chord.quality, key);
+          return {
+            kind: 'borrowed' as const,
+            label: borrowed.romanNumeral ?? '',
+            explanation: `${borrowed.name} is borrowed from ${formatKeyName(parallel)}. It shares the tonic but adds a note from outside the key for extra color.`,
+            chords: [borrowed],
+            placement: 'replace' as const,
+          };
+        });
+    });
+}
+
+function getSecondaryDominantSubstitutions(next: Chord, key: Key): ChordSubstitution[] {
+  const targetNumeral = getTargetNumeral(next, key);
+  if (!targetNumeral) return [];
+
+  const dominantRoot = transposeNote(next.root, 7);
+  const dominant = labelledChord(dominantRoot, 'dominant7', key, next);
+  const supertonic = labelledChord(
+    transposeNote(next.root, 2),
+    getTriadFamily(next.quality) === 'minor' ? 'half-dim7' : 'minor7',
+    key,
+    dominant
+  );
+
+  return [
+    {
+      kind: 'secondary-dominant',
+      label: dominant.romanNumeral ?? '',
+      explanation: `${dominant.name} is the dominant of ${next.name}. Its 3rd is a leading tone a half step below the root of ${next.name}, so it pulls strongly into it.`,
+      chords: [dominant],
+      placement: 'replace',
+    },
+    {
+      kind: 'ii-v-approach',
+      label: `${supertonic.romanNumeral ?? ''} ${dominant.romanNumeral ?? ''}`,
+      explanation: `${supertonic.name} → ${dominant.name} is a ii–V into ${next.name}. Splitting the slot in two gives roots falling by fifths into the target.`,
+      chords: [supertonic, dominant],
+      placement: 'replace',
+    },
+  ];
+}
+
+function getTritoneSubstitutions(next: Chord, key: Key): ChordSubstitution[] {
+  const targetNumeral = getTargetNumeral(next, key);
+  if (!targetNumeral) return [];
+
+  // subV7 sits a half step above the target and shares the dominant's tritone;
+  // it is spelled on the target's upper neighbour letter (Db7 -> C, not C#7)
+  const labelled = labelledChord(transposeNote(next.root, 1), 'dominant7', key, next);
+  const targetLetter = spellChordRoot(next.root, next.quality, getKeyId(key))[0];
+  const upperLetter = NOTE_LETTERS[(NOTE_LETTERS.indexOf(targetLetter) + 1) % NOTE_LETTERS.length];
+  const substitute = {
+    ...labelled,
+    name: formatChordSymbol({ root: spellPitch(labelled.root, upperLetter), quality: 'dominant7' }),
+  };
+  const dominant = createChord(transposeNote(next.root, 7), 'dominant7', undefined, undefined, getKeyId(key));
+  const label = next.root === key.tonic ? 'subV7' : `subV7/${targetNumeral}`;
+
+  return [{
+    kind: 'tritone-sub',
+    label,
+    explanation: `${substitute.name} replaces the dominant of ${next.name} a tritone away from ${dominant.name}. Both share the same 3rd and 7th, and the root slides down a half step into ${next.name}.`,
+    chords: [{ ...substitute, romanNumeral: label, function: 'dominant' }],
+    placement: 'replace',
+  }];
+}
+
+function getPassingDiminishedSubstitutions(current: Chord, next: Chord, key: Key): ChordSubstitution[] {
+  const step = getInterval(current.root, next.root);
+  if (step !== 2 && step !== 10) return [];
+
+  // The root between the two chords: C -> C#°7 -> Dm, or D -> C#°7 -> C
+  const passingRoot = transposeNote(current.root, step === 2 ? 1 : 11);
+  const passing = labelledChord(passingRoot, 'dim7', key, next);
+
+  return [{
+    kind: 'diminished-passing',
+    label: passing.romanNumeral ?? '',
+    explanation: `${passing.name} fills the whole step between ${current.name} and ${next.name}, so the bass moves chromatically and the diminished chord's tension carries into ${next.name}.`,
+    chords: [passing],
+    placement: 'insert-after',
+  }];
+}
+
+function getChromaticMediantSubstitutions(current: Chord, key: Key): ChordSubstitution[] {
+  const family = getTriadFamily(current.quality);
+  if (family !== 'major' && family !== 'minor') return [];
+
+  const diatonic = getDiatonicChords(key);
+  return [3, 4, 8, 9]
+    .map(interval => labelledChord(transposeNote(current.root, interval), family, key))
+    .filter(chord => !diatonic.some(d => isSameChord(d, chord)))
+    .map(chord => ({
+      kind: 'chromatic-mediant' as const,
+      label: chord.romanNumeral ?? '',
+      explanation: `${chord.name} keeps the ${family} quality of ${current.name} with its root a third away. The pair share one common tone, so the shift sounds bold but connected.`,
+      chords: [chord],
+      placement: 'replace' as const,
+    }));
+}
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+/**
+ * Suggest substitutions for one chord slot
+ * Approach chords (secondary dominants, ii-V, tritone subs) target the next
+ * chord; passing diminished chords go between the slot and the next chord
+ */
+export function getSubstitutions(chords: Chord[], index: number, key: Key): ChordSubstitution[] {
+  const current = chords[index];
+  if (!current) return [];
+  const next = getNextChord(chords, index);
+
+  return [
+    ...getDiatonicSubstitutions(current, key),
+    ...getBorrowedSubstitutions(current, key),
+    ...(next ? getSecondaryDominantSubstitutions(next, key) : []),
+    ...(next ? getTritoneSubstitutions(next, key) : []),
+    ...(next ? getPassingDiminishedSubstitutions(current, next, key) : []),
+    ...getChromaticMediantSubstitutions(current, key),
+  ];
+}
+
+/**
+ * Suggest substitutions for a chord slot in a progression
+ */
+export function getProgressionSubstitutions(progression: Progression, index: number): ChordSubstitution[] {
+  return getSubstitutions(progression.chords, index, progression.key);
+}
+
+/**
+ * Suggest substitutions for a chord slot in a song section
+ */
+export function getSectionSubstitutions(section: SongSection, index: number, key: Key): ChordSubstitution[] {
+  return getSubstitutions(section.chords, index, key);
+}
+
+/**
+ * Apply a substitution to a chord list, returning a new list
+ */
+export function applySubstitution(chords: Chord[], index: number, substitution: ChordSubstitution): Chord[] {
+  if (index < 0 || index >= chords.length) return chords;
+  const result = [...chords];
+  if (substitution.placement === 'replace') {
+    result.splice(index, 1, ...substitution.chords);
+  } else {
+    result.splice(index + 1, 0, ...substitution.chords);
+  }
+  return result;
+}
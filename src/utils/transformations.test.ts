@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { negateChord, getNegativeKey, applyNeoRiemannian, walkNeoRiemannian, transformChords } from './transformations';
+import { chordFromSymbol } from './chordSymbols';
+import { chords } from '../test/fixtures';
+import type { Key } from '../types/music';
+
+const C_MAJOR: Key = { tonic: 'C', mode: 'major' };
+const names = (list: { name: string }[]) => list.map(chord => chord.name);
+
+describe('negative harmony', () => {
+  it('mirrors chords around the tonic-dominant axis', () => {
+    expect(names(chords(['C', 'F', 'Am', 'Dm']).map(chord => negateChord(chord, C_MAJOR)))).toEqual(['Cm', 'Gm', 'Eb', 'Bb']);
+    expect(negateChord(chordFromSymbol('G7'), C_MAJOR).name).toBe('Fm6');
+    expect(negateChord(chordFromSymbol('Cmaj7'), C_MAJOR).name).toBe('Abmaj7');
+  });
+
+  it('mirrors the key mode', () => {
+    expect(getNegativeKey(C_MAJOR)).toEqual({ tonic: 'C', mode: 'minor' });
+    expect(getNegativeKey({ tonic: 'D', mode: 'dorian' })).toEqual({ tonic: 'D', mode: 'mixolydian' });
+    expect(getNegativeKey({ tonic: 'F', mode: 'lydian' }).mode).toBe('phrygian');
+  });
+});
+
+describe('neo-Riemannian transforms', () => {
+  it('applies P, L and R as involutions', () => {
+    const c = chordFromSymbol('C');
+    expect(applyNeoRiemannian(c, ['P']).name).toBe('Cm');
+    expect(applyNeoRiemannian(c, ['L']).name).toBe('Em');
+    expect(applyNeoRiemannian(c, ['R']).name).toBe('Am');
+    expect(applyNeoRiemannian(chordFromSymbol('Em'), ['L']).name).toBe('C');
+    expect(applyNeoRiemannian(chordFromSymbol('Am7'), ['R']).name).toBe('C');
+    expect(applyNeoRiemannian(chordFromSymbol('Bdim'), ['P']).name).toBe('Bdim');
+  });
+
+  it('treats altered dominants as the major triad they are built on', () => {
+    const altered = chordFromSymbol('E7#9');
+    expect(applyNeoRiemannian(altered, ['P']).name).toBe('Em');
+    expect(applyNeoRiemannian(altered, ['L']).name).toBe('G#m');
+    expect(applyNeoRiemannian(altered, ['R']).name).toBe('C#m');
+  });
+
+  it('walks through chromatic mediants', () => {
+    expect(names(walkNeoRiemannian(chordFromSymbol('C'), ['P', 'L'], 6, 'Cm'))).toEqual(['C', 'Cm', 'Ab', 'Abm', 'E', 'Em', 'C']);
+  });
+});
+
+describe('transformChords', () => {
+  it('transforms and relabels a section', () => {
+    const negative = transformChords(chords(['C', 'Am', 'F', 'G']), { type: 'negative' }, C_MAJOR);
+    expect(names(negative)).toEqual(['Cm', 'Eb', 'Gm', 'Fm']);
+    expect(negative.map(chord => chord.romanNumeral)).toEqual(['i', 'bIII', 'v', 'iv']);
+
+    const parallel = transformChords(chords(['C', 'G']), { type: 'neo-riemannian', operations: ['P'] }, C_MAJOR);
+    expect(names(parallel)).toEqual(['Cm', 'Gm']);
+  });
+});
@@ -0,0 +1,191 @@
+import type { CanonicalNote, Chord, Key, Mode } from '../types/music';
+import {
+  ALL_MODES,
+  CHROMATIC_NOTES,
+  MODE_SCALE_INTERVALS,
+  createChord,
+  getKeyId,
+  getTriadFamily,
+  transposeNote,
+} from './musicTheory';
+import { identifyChord } from './chordRecognition';
+import { annotateChords } from './harmonicAnalysis';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** Neo-Riemannian operations on major and minor triads */
+export type NeoRiemannianOperation = 'P' | 'L' | 'R';
+
+export type ChordTransform =
+  | { type: 'negative' }
+  | { type: 'neo-riemannian'; operations: NeoRiemannianOperation[] };
+
+export interface TransformPreset {
+  id: string;
+  label: string;
+  description: string;
+  transform: ChordTransform;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+// Root movement of each operation, from a major / from a minor triad
+const OPERATION_ROOT_SHIFTS: Record<NeoRiemannianOperation, { major: number; minor: number }> = {
+  P: { major: 0, minor: 0 },   // C <-> Cm
+  L: { major: 4, minor: 8 },   // C <-> Em
+  R: { major: 9, minor: 3 },   // C <-> Am
+};
+
+export const NEO_RIEMANNIAN_NAMES: Record<NeoRiemannianOperation, string> = {
+  P: 'Parallel',
+  L: 'Leittonwechsel',
+  R: 'Relative',
+};
+
+export const TRANSFORM_PRESETS: TransformPreset[] = [
+  {
+    id: 'negative',
+    label: 'Negative Harmony',
+    description: 'Mirror every note around the axis between the tonic and the 5th. Major turns minor and dominants become plagal.',
+    transform: { type: 'negative' },
+  },
+  {
+    id: 'P',
+    label: 'P',
+    description: 'Swap each triad for its parallel (C ↔ Cm). Only the 3rd moves.',
+    transform: { type: 'neo-riemannian', operations: ['P'] },
+  },
+  {
+    id: 'L',
+    label: 'L',
+    description: 'Leittonwechsel: C ↔ Em. The root of a major triad drops a half step.',
+    transform: { type: 'neo-riemannian', operations: ['L'] },
+  },
+  {
+    id: 'R',
+    label: 'R',
+    description: 'Swap each triad for its relative (C ↔ Am). The 5th of a major triad rises a whole step.',
+    transform: { type: 'neo-riemannian', operations: ['R'] },
+  },
+  {
+    id: 'PL',
+    label: 'PL',
+    description: 'Parallel then Leittonwechsel: C → Ab. A chromatic mediant a major 3rd down.',
+    transform: { type: 'neo-riemannian', operations: ['P', 'L'] },
+  },
+  {
+    id: 'PR',
+    label: 'PR',
+    description: 'Parallel then Relative: C → Eb. A chromatic mediant a minor 3rd up.',
+    transform: { type: 'neo-riemannian', operations: ['P', 'R'] },
+  },
+];
+
+// ============================================================================
+// NEGATIVE HARMONY
+// ============================================================================
+
+/**
+ * Reflect a note around the key's negative-harmony axis
+ * The axis sits between the tonic and the 5th, so C <-> G and E <-> Eb in C
+ */
+export function mirrorNote(note: CanonicalNote, key: Key): CanonicalNote {
+  const tonic = CHROMATIC_NOTES.indexOf(key.tonic);
+  const pitchClass = CHROMATIC_NOTES.indexOf(note);
+  return CHROMATIC_NOTES[(((2 * tonic + 7 - pitchClass) % 12) + 12) % 12];
+}
+
+/**
+ * The key the mirrored chords belong to (C major -> C minor)
+ * Falls back to the original key when the mirrored scale is not a known mode
+ */
+export function getNegativeKey(key: Key): Key {
+  const mirrored = MODE_SCALE_INTERVALS[key.mode]
+    .map(interval => (((7 - interval) % 12) + 12) % 12)
+    .sort((a, b) => a - b);
+  const mode = ALL_MODES.find((m: Mode) =>
+    MODE_SCALE_INTERVALS[m].length === mirrored.length &&
+    MODE_SCALE_INTERVALS[m].every((interval, i) => interval === mirrored[i])
+  );
+  return mode ? { tonic: key.tonic, mode } : key;
+}
+
+/**
+ * Negative-harmony counterpart of a chord, named from its mirrored notes
+ * The mirrored 5th is preferred as the root, so G7 in C becomes Fm6 (not Dm7b5)
+ */
+export function negateChord(chord: Chord, key: Key): Chord {
+  const mirrored = chord.notes.map(note => mirrorNote(note, key));
+  const bassNote = chord.bassNote ? mirrorNote(chord.bassNote, key) : undefined;
+  const preferredRoot = mirrorNote(transposeNote(chord.root, 7), key);
+
+  const matches = identifyChord(mirrored, { bassNote, keyContext: getKeyId(getNegativeKey(key)), limit: 10 });
+  if (matches.length === 0) return chord;
+
+  const best = matches.find(match => match.score === matches[0].score && match.root === preferredRoot) ?? matches[0];
+  return best.chord;
+}
+
+// ============================================================================
+// NEO-RIEMANNIAN TRANSFORMS
+// ============================================================================
+
+/**
+ * Apply P, L and R operations in order to a chord's triad
+ * Extensions and slash basses are dropped; chords that are not major or
+ * minor triads at heart (diminished, sus) are returned unchanged
+ */
+export function applyNeoRiemannian(
+  chord: Chord,
+  operations: NeoRiemannianOperation[],
+  keyContext?: string
+): Chord {
+  let family = getTriadFamily(chord.quality);
+  if (family !== 'major' && family !== 'minor') return chord;
+
+  let root: CanonicalNote = chord.root;
+  for (const operation of operations) {
+    root = transposeNote(root, OPERATION_ROOT_SHIFTS[operation][family]);
+    family = family === 'major' ? 'minor' : 'major'; // Every operation flips the mode
+  }
+
+  return createChord(root, family, undefined, undefined, keyContext);
+}
+
+/**
+ * Walk from a chord by applying operations one at a time, cycling through
+ * them for the requested number of steps (C with ['P', 'L'] -> C Cm Ab Abm E...)
+ */
+export function walkNeoRiemannian(
+  start: Chord,
+  operations: NeoRiemannianOperation[],
+  steps: number = operations.length,
+  keyContext?: string
+): Chord[] {
+  const walk = [start];
+  if (operations.length === 0) return walk;
+  for (let i = 0; i < steps; i++) {
+    walk.push(applyNeoRiemannian(walk[walk.length - 1], [operations[i % operations.length]], keyContext));
+  }
+  return walk;
+}
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+/**
+ * Transform every chord in a list, relabelling the results for the key
+ */
+export function transformChords(chords: Chord[], transform: ChordTransform, key: Key): Chord[] {
+  const transformed = chords.map(chord =>
+    transform.type === 'negative'
+      ? negateChord(chord, key)
+      : applyNeoRiemannian(chord, transform.operations, getKeyId(key))
+  );
+  return annotateChords(transformed, key);
+}